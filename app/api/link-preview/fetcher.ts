@@ -0,0 +1,151 @@
+import { promises as dns } from "dns";
+import { isIP } from "net";
+import { LinkPreview, isPreviewableUrl, parseLinkPreview } from "@/app/lib/linkPreview";
+
+/**
+ * Page fetcher for the link preview route
+ * Reads the start of a page (enough for its `<head>`) and caches the preview in memory,
+ * failures for a shorter time. Only public addresses are fetched so the route can't be
+ * used to reach the server's own network; set HYPERDASH_LINK_PREVIEW_ALLOW_PRIVATE=true
+ * to preview intranet pages (or a local test server)
+ */
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_PAGE_BYTES = 512 * 1024;
+const MAX_REDIRECTS = 3;
+
+const PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
+const FAILED_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 500;
+
+interface CacheEntry {
+  preview: LinkPreview | null;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+const pending = new Map<string, Promise<LinkPreview | null>>();
+
+/**
+ * Check if an IP address is loopback, private, link-local or otherwise not public
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224
+    );
+  }
+
+  const normalized = address.toLowerCase();
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) || // Unique local (fc00::/7)
+    /^fe[89ab]/.test(normalized) // Link-local (fe80::/10)
+  );
+}
+
+async function isAllowedHost(hostname: string): Promise<boolean> {
+  if (process.env.HYPERDASH_LINK_PREVIEW_ALLOW_PRIVATE === "true") return true;
+
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost")) return false;
+  try {
+    const addresses = isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address));
+  } catch {
+    return false;
+  }
+}
+
+// The start of the body as text; the rest isn't downloaded
+async function readPageStart(response: Response): Promise<string> {
+  if (!response.body) return "";
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < MAX_PAGE_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+  return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, MAX_PAGE_BYTES));
+}
+
+async function fetchPreview(url: string): Promise<LinkPreview | null> {
+  let pageUrl = url;
+  // Redirects are followed by hand so every hop is checked
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    if (!isPreviewableUrl(pageUrl) || !(await isAllowedHost(new URL(pageUrl).hostname))) {
+      return null;
+    }
+
+    const response = await fetch(pageUrl, {
+      redirect: "manual",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: { Accept: "text/html,application/xhtml+xml", "User-Agent": "HyperDash link preview" },
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      pageUrl = new URL(location, pageUrl).href;
+      continue;
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    // Files and other non-HTML pages only get the site's icon
+    let html = "";
+    if (/html/i.test(response.headers.get("content-type") ?? "")) {
+      html = await readPageStart(response);
+    } else {
+      await response.body?.cancel();
+    }
+    return { ...parseLinkPreview(html, pageUrl), url };
+  }
+  return null;
+}
+
+/**
+ * Get the preview of a page, from the cache if it was loaded recently (null if it can't be loaded)
+ */
+export function getLinkPreview(url: string): Promise<LinkPreview | null> {
+  const cached = cache.get(url);
+  if (cached && cached.expiresAt > Date.now()) {
+    return Promise.resolve(cached.preview);
+  }
+
+  // Requests for a page that is already loading share the fetch
+  const loading = pending.get(url);
+  if (loading) return loading;
+
+  const request = fetchPreview(url)
+    .catch(() => null) // Unreachable, timed out or not a valid response
+    .then((preview) => {
+      cache.delete(url);
+      cache.set(url, { preview, expiresAt: Date.now() + (preview ? PREVIEW_TTL_MS : FAILED_TTL_MS) });
+      if (cache.size > MAX_CACHE_ENTRIES) {
+        cache.delete(cache.keys().next().value!);
+      }
+      pending.delete(url);
+      return preview;
+    });
+  pending.set(url, request);
+  return request;
+}
@@ -0,0 +1,27 @@
+import { isPreviewableUrl } from "@/app/lib/linkPreview";
+import { getLinkPreview } from "./fetcher";
+
+/**
+ * Link preview API - title, description and icon of a web page for the notepad's link cards
+ *
+ * GET /api/link-preview?url=<http(s) URL> -> 200 { url, title, description, favicon },
+ *                                            or 502 if the page can't be loaded
+ *
+ * Pages are fetched here because browsers can't read other sites (CORS). Previews are
+ * cached by the server (see fetcher.ts) and the browser
+ */
+
+const CACHE_HEADERS = { "Cache-Control": "private, max-age=86400" };
+
+export async function GET(request: Request) {
+  const url = new URL(request.url).searchParams.get("url") ?? "";
+  if (!isPreviewableUrl(url)) {
+    return Response.json({ error: "url must be an http(s) URL" }, { status: 400 });
+  }
+
+  const preview = await getLinkPreview(url);
+  if (!preview) {
+    return Response.json({ error: "Could not load the page" }, { status: 502 });
+  }
+  return Response.json(preview, { headers: CACHE_HEADERS });
+}
@@ -0,0 +1,87 @@
+import { isValidSyncId, isSnapshotData } from "@/app/lib/syncSnapshot";
+import { readSnapshot, saveSnapshot } from "../store";
+
+/**
+ * Self-hosted sync API - one snapshot of all dashboard data per sync ID
+ *
+ * GET /api/sync/:id  -> 200 snapshot, or 404 if nothing was pushed yet
+ * PUT /api/sync/:id  { baseRevision, data } -> 200 { revision, updatedAt },
+ *                    or 409 { current } if another device pushed since baseRevision
+ *
+ * Set HYPERDASH_SYNC_TOKEN to require `Authorization: Bearer <token>`.
+ * CORS is open so dashboards served from other origins (e.g. another device) can sync
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, PUT, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+};
+
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status, headers: CORS_HEADERS });
+}
+
+// Returns an error response if the request can't go ahead
+async function checkRequest(request: Request, context: RouteContext): Promise<{ id: string } | Response> {
+  const token = process.env.HYPERDASH_SYNC_TOKEN;
+  if (token && request.headers.get("authorization") !== `Bearer ${token}`) {
+    return json({ error: "Invalid or missing sync token" }, 401);
+  }
+
+  const { id } = await context.params;
+  if (!isValidSyncId(id)) {
+    return json({ error: "Sync ID must be 8-64 letters, digits, dashes or underscores" }, 400);
+  }
+  return { id };
+}
+
+export async function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  const checked = await checkRequest(request, context);
+  if (checked instanceof Response) return checked;
+
+  const snapshot = await readSnapshot(checked.id);
+  return snapshot ? json(snapshot) : json({ error: "Nothing synced yet" }, 404);
+}
+
+export async function PUT(request: Request, context: RouteContext) {
+  const checked = await checkRequest(request, context);
+  if (checked instanceof Response) return checked;
+
+  const body = await request.text();
+  if (body.length > MAX_BODY_BYTES) {
+    return json({ error: "Snapshot is too large" }, 413);
+  }
+
+  let parsed: { baseRevision?: unknown; data?: unknown };
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return json({ error: "Body must be JSON" }, 400);
+  }
+  const { baseRevision, data } = parsed ?? {};
+  if (typeof baseRevision !== "number" || !Number.isInteger(baseRevision) || baseRevision < 0 || !isSnapshotData(data)) {
+    return json({ error: "Body must be { baseRevision, data } with string values" }, 400);
+  }
+
+  try {
+    const result = await saveSnapshot(checked.id, baseRevision, data);
+    if (!result.ok) {
+      return json({ error: "Conflict", current: result.current }, 409);
+    }
+    return json({ revision: result.snapshot.revision, updatedAt: result.snapshot.updatedAt });
+  } catch (error) {
+    console.error("Error saving sync snapshot:", error);
+    return json({ error: "Could not save snapshot" }, 500);
+  }
+}
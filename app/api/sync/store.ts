@@ -0,0 +1,84 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { DashboardSnapshot, SnapshotData, isSnapshotData } from "@/app/lib/syncSnapshot";
+
+/**
+ * File store for the self-hosted sync server
+ * Each dashboard (sync ID) is one JSON file in HYPERDASH_SYNC_DIR (default `.hyperdash-sync/`
+ * in the working directory). Every accepted push bumps the revision; a push is only
+ * accepted if it was based on the current revision, so devices can't overwrite each
+ * other's changes without seeing them first
+ */
+
+export type SaveSnapshotResult =
+  | { ok: true; snapshot: DashboardSnapshot }
+  | { ok: false; current: DashboardSnapshot | null }; // Stale base revision
+
+function getSnapshotPath(id: string): string {
+  const directory = process.env.HYPERDASH_SYNC_DIR || path.join(process.cwd(), ".hyperdash-sync");
+  return path.join(directory, `${id}.json`);
+}
+
+/**
+ * Read a dashboard's snapshot (null if nothing was pushed yet)
+ */
+export async function readSnapshot(id: string): Promise<DashboardSnapshot | null> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(getSnapshotPath(id), "utf8"));
+    if (!Number.isInteger(parsed?.revision) || !isSnapshotData(parsed?.data)) {
+      console.error(`Error reading sync snapshot ${id}: saved data is invalid`);
+      return null;
+    }
+    return { revision: parsed.revision, updatedAt: String(parsed.updatedAt ?? ""), data: parsed.data };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Error reading sync snapshot ${id}:`, error);
+    }
+    return null;
+  }
+}
+
+// Pushes to the same dashboard run one at a time so revisions can't race
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+function runExclusive<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = pendingWrites.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  pendingWrites.set(id, next);
+  next.finally(() => {
+    if (pendingWrites.get(id) === next) {
+      pendingWrites.delete(id);
+    }
+  }).catch(() => undefined);
+  return next;
+}
+
+/**
+ * Save a dashboard's snapshot if `baseRevision` is the current revision
+ */
+export function saveSnapshot(
+  id: string,
+  baseRevision: number,
+  data: SnapshotData
+): Promise<SaveSnapshotResult> {
+  return runExclusive(id, async () => {
+    const current = await readSnapshot(id);
+    if ((current?.revision ?? 0) !== baseRevision) {
+      return { ok: false, current };
+    }
+
+    const snapshot: DashboardSnapshot = {
+      revision: baseRevision + 1,
+      updatedAt: new Date().toISOString(),
+      data,
+    };
+
+    // Write to a temporary file first so a crash can't leave half a snapshot
+    const filePath = getSnapshotPath(id);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), "utf8");
+    await fs.rename(tempPath, filePath);
+    return { ok: true, snapshot };
+  });
+}
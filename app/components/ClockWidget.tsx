@@ -3,7 +3,12 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import Widget from './Widget';
 import { useReactiveColors } from './ColorContext';
-import { getFromLocalStorage, saveToLocalStorage } from '@/app/lib/utils';
+import { getFromLocalStorage } from '@/app/lib/utils';
+import { getStoredItem, setStoredItem } from '@/app/lib/storageAdapter';
+import { subscribeToStorageKey } from '@/app/lib/crossTabSync';
+import { getWorkspaceKey } from '@/app/lib/workspaces';
+import { getInstanceStorageKey } from '@/app/lib/widgetConfig';
+import { ClockSettings } from '@/app/lib/widgetSettings';
 import { useWidgetKeyboardShortcuts } from '@/app/lib/useWidgetKeyboardShortcuts';
 
 type TimerMode = 'work' | 'shortBreak' | 'longBreak';
@@ -12,7 +17,14 @@ const WORK_DURATION = 25 * 60; // 25 minutes in seconds
 const SHORT_BREAK_DURATION = 5 * 60; // 5 minutes in seconds
 const LONG_BREAK_DURATION = 15 * 60; // 15 minutes in seconds
 
-export default function ClockWidget({ isFocused }: { isFocused?: boolean }) {
+interface ClockWidgetProps {
+  isFocused?: boolean;
+  instanceId?: string;
+  settings?: ClockSettings;
+}
+
+export default function ClockWidget({ isFocused, instanceId, settings }: ClockWidgetProps) {
+  const timeZone = settings?.timezone;
   const [time, setTime] = useState(new Date());
   const { colors } = useReactiveColors();
   const [clockFormat, setClockFormat] = useState<'12h' | '24h'>(() => {
@@ -37,28 +49,52 @@ export default function ClockWidget({ isFocused }: { isFocused?: boolean }) {
     };
   }, []);
 
-  // Load saved pomodoro state from localStorage
+  // Each clock instance keeps its own pomodoro state
+  const pomodoroKeys = useMemo(() => {
+    const key = (name: string) => getWorkspaceKey(getInstanceStorageKey(name, 'clock', instanceId));
+    return {
+      timeLeft: key('pomodoroTimeLeft'),
+      isRunning: key('pomodoroIsRunning'),
+      mode: key('pomodoroMode'),
+      count: key('pomodoroCount'),
+    };
+  }, [instanceId]);
+
+  // Load saved pomodoro state from storage
+  const [isPomodoroLoaded, setIsPomodoroLoaded] = useState(false);
   useEffect(() => {
-    const savedTimeLeft = getFromLocalStorage('pomodoroTimeLeft');
-    const savedIsRunning = getFromLocalStorage('pomodoroIsRunning');
-    const savedMode = getFromLocalStorage('pomodoroMode');
-    const savedCount = getFromLocalStorage('pomodoroCount');
-    
-    if (savedTimeLeft) {
-      const parsed = parseInt(savedTimeLeft, 10);
-      if (parsed > 0) {
-        setTimeLeft(parsed);
+    let cancelled = false;
+
+    const loadPomodoro = async () => {
+      const [savedTimeLeft, savedMode, savedCount] = await Promise.all([
+        getStoredItem(pomodoroKeys.timeLeft),
+        getStoredItem(pomodoroKeys.mode),
+        getStoredItem(pomodoroKeys.count),
+      ]);
+      if (cancelled) return;
+
+      if (savedTimeLeft) {
+        const parsed = parseInt(savedTimeLeft, 10);
+        if (parsed > 0) {
+          setTimeLeft(parsed);
+        }
       }
-    }
-    if (savedMode) {
-      setMode(savedMode as TimerMode);
-    }
-    if (savedCount) {
-      const parsed = parseInt(savedCount, 10);
-      setPomodoroCount(parsed);
-    }
-    // Don't restore running state - start paused on page load
-  }, []);
+      if (savedMode) {
+        setMode(savedMode as TimerMode);
+      }
+      if (savedCount) {
+        const parsed = parseInt(savedCount, 10);
+        setPomodoroCount(parsed);
+      }
+      // Don't restore running state - start paused on page load
+      setIsPomodoroLoaded(true);
+    };
+
+    loadPomodoro();
+    return () => {
+      cancelled = true;
+    };
+  }, [pomodoroKeys]);
 
   // Request notification permission
   const requestNotificationPermission = useCallback(async () => {
@@ -219,12 +255,64 @@ export default function ClockWidget({ isFocused }: { isFocused?: boolean }) {
     };
   }, [isRunning, timeLeft, mode]);
 
-  // Save state to localStorage
+  // Last value saved or received from another tab, per key - saving only what differs
+  // keeps tabs from echoing each other's changes back
+  const syncedValuesRef = useRef<Record<string, string>>({});
+  const saveIfChanged = useCallback((key: string, value: string) => {
+    if (syncedValuesRef.current[key] === value) return;
+    syncedValuesRef.current[key] = value;
+    setStoredItem(key, value);
+  }, []);
+
+  // Save state to storage (once loaded, so the defaults don't overwrite it)
+  useEffect(() => {
+    if (!isPomodoroLoaded) return;
+    saveIfChanged(pomodoroKeys.timeLeft, timeLeft.toString());
+    saveIfChanged(pomodoroKeys.mode, mode);
+    saveIfChanged(pomodoroKeys.count, pomodoroCount.toString());
+  }, [timeLeft, mode, pomodoroCount, pomodoroKeys, isPomodoroLoaded, saveIfChanged]);
+
+  useEffect(() => {
+    if (!isPomodoroLoaded) return;
+    saveIfChanged(pomodoroKeys.isRunning, isRunning.toString());
+  }, [isRunning, pomodoroKeys, isPomodoroLoaded, saveIfChanged]);
+
+  // Follow the timer in other tabs. Only one tab runs it: starting it elsewhere pauses
+  // it here, and this tab then mirrors the remaining time (the most recent save wins)
   useEffect(() => {
-    saveToLocalStorage('pomodoroTimeLeft', timeLeft.toString());
-    saveToLocalStorage('pomodoroMode', mode);
-    saveToLocalStorage('pomodoroCount', pomodoroCount.toString());
-  }, [timeLeft, mode, pomodoroCount]);
+    const subscribe = (key: string, apply: (value: string) => void) =>
+      subscribeToStorageKey(key, (value) => {
+        if (value === null) return;
+        syncedValuesRef.current[key] = value;
+        apply(value);
+      });
+
+    const unsubscribes = [
+      subscribe(pomodoroKeys.timeLeft, (value) => {
+        const parsed = parseInt(value, 10);
+        if (parsed > 0) {
+          setTimeLeft(parsed);
+        }
+      }),
+      subscribe(pomodoroKeys.mode, (value) => {
+        if (value === 'work' || value === 'shortBreak' || value === 'longBreak') {
+          setMode(value);
+        }
+      }),
+      subscribe(pomodoroKeys.count, (value) => {
+        const parsed = parseInt(value, 10);
+        if (Number.isFinite(parsed)) {
+          setPomodoroCount(parsed);
+        }
+      }),
+      subscribe(pomodoroKeys.isRunning, (value) => {
+        if (value === 'true') {
+          setIsRunning(false);
+        }
+      }),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [pomodoroKeys]);
 
   const handleStartPause = () => {
     const newRunningState = !isRunning;
@@ -278,6 +366,7 @@ export default function ClockWidget({ isFocused }: { isFocused?: boolean }) {
 
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString('en-US', {
+      timeZone,
       hour12: clockFormat === '12h',
       hour: '2-digit',
       minute: '2-digit',
@@ -287,6 +376,7 @@ export default function ClockWidget({ isFocused }: { isFocused?: boolean }) {
 
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-US', {
+      timeZone,
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -313,7 +403,10 @@ export default function ClockWidget({ isFocused }: { isFocused?: boolean }) {
 
 
   return (
-    <Widget title="Clock" isFocused={isFocused}>
+    <Widget
+      title={timeZone ? `Clock · ${timeZone.split('/').pop()?.replace(/_/g, ' ')}` : 'Clock'}
+      isFocused={isFocused}
+    >
       <div className="space-y-4 flex flex-col h-full">
         {/* Clock Section */}
         <div className="space-y-3 flex-shrink-0">
@@ -1,8 +1,17 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { ColorPalette, getDefaultPalette, analyzeWallpaperBrightness, calculateReactiveColors } from '@/app/lib/colorUtils';
-import { getFromLocalStorage, saveToLocalStorage, removeFromLocalStorage } from '@/app/lib/utils';
+import {
+  ColorPalette,
+  colorPaletteSchema,
+  getDefaultPalette,
+  analyzeWallpaperBrightness,
+  calculateReactiveColors,
+} from '@/app/lib/colorUtils';
+import { removeFromLocalStorage } from '@/app/lib/utils';
+import { getStoredItem } from '@/app/lib/storageAdapter';
+import { getWorkspaceKey } from '@/app/lib/workspaces';
+import { readStoredValue, writeStoredValue } from '@/app/lib/storage';
 
 interface ColorContextType {
   colors: ColorPalette;
@@ -24,7 +33,7 @@ export function ColorProvider({ children }: { children: ReactNode }) {
       setColors(newColors);
       
       // Save to localStorage for persistence
-      saveToLocalStorage('reactiveColors', JSON.stringify(newColors));
+      writeStoredValue(getWorkspaceKey('reactiveColors'), colorPaletteSchema, newColors);
     } catch (error) {
       console.error('Error analyzing wallpaper:', error);
       // Fallback to default on error
@@ -34,24 +43,19 @@ export function ColorProvider({ children }: { children: ReactNode }) {
 
   const resetToDefault = useCallback(() => {
     setColors(getDefaultPalette());
-    removeFromLocalStorage('reactiveColors');
+    removeFromLocalStorage(getWorkspaceKey('reactiveColors'));
   }, []);
 
   // Load saved colors from localStorage on mount, then analyze wallpaper if available
   useEffect(() => {
     const initializeColors = async () => {
-      const savedColors = getFromLocalStorage('reactiveColors');
+      const savedColors = readStoredValue(getWorkspaceKey('reactiveColors'), colorPaletteSchema);
       if (savedColors) {
-        try {
-          const parsed = JSON.parse(savedColors);
-          setColors(parsed);
-        } catch (error) {
-          console.error('Error parsing saved colors:', error);
-        }
+        setColors(savedColors);
       }
       
       // After loading saved colors, check if wallpaper needs analysis
-      const savedWallpaper = getFromLocalStorage('wallpaper');
+      const savedWallpaper = await getStoredItem(getWorkspaceKey('wallpaper'));
       if (savedWallpaper) {
         try {
           await updateColorsFromWallpaper(savedWallpaper);
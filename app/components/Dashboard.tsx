@@ -1,31 +1,70 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback, CSSProperties } from 'react';
 import LoadingScreen from './LoadingScreen';
 import Image from 'next/image';
-import { getFromLocalStorage } from '@/app/lib/utils';
+import { isSafeMode } from '@/app/lib/utils';
+import { getStoredItem } from '@/app/lib/storageAdapter';
+import {
+  WorkspaceState,
+  getWorkspaceState,
+  saveWorkspaceState,
+  subscribeToWorkspaceState,
+  getWorkspaceKey,
+} from '@/app/lib/workspaces';
 import { ColorProvider, useReactiveColors } from './ColorContext';
 import { FocusProvider, useFocus } from './FocusContext';
 import WidgetContainer from './WidgetContainer';
+import LayoutEditor from './LayoutEditor';
+import LayoutSplitters from './LayoutSplitters';
+import WorkspaceIndicator from './WorkspaceIndicator';
+import SafeModeBanner from './SafeModeBanner';
+import WidgetSettingsPanel from './WidgetSettingsPanel';
+import SearchPalette from './SearchPalette';
 import {
   getWidgetConfiguration,
+  saveWidgetConfiguration,
+  subscribeToWidgetConfiguration,
   getLayoutSlots,
-  WidgetSlot,
+  setSlotSettings,
+  WidgetConfiguration,
 } from '@/app/lib/widgetConfig';
+import {
+  LayoutRatios,
+  getLayoutRatios,
+  saveLayoutRatios,
+  resetLayoutRatios,
+  normalizeLayoutRatios,
+  getGridTemplateStyle,
+} from '@/app/lib/layoutRatios';
 import { WidgetType } from '@/app/lib/widgetRegistry';
+import { startAutoSync } from '@/app/lib/syncEngine';
+import { startAutoSnapshots } from '@/app/lib/snapshots';
 import { useKeyboardShortcuts } from '@/app/lib/useKeyboardShortcuts';
+import { SearchJump, SearchResult } from '@/app/lib/search';
 
-function DashboardContent() {
+interface DashboardContentProps {
+  workspaceState: WorkspaceState;
+  showLoadingScreen: boolean; // Only on first load - switching workspaces is instant
+}
+
+function DashboardContent({ workspaceState, showLoadingScreen }: DashboardContentProps) {
   const { isReady: colorsReady } = useReactiveColors();
-  const { focusedPosition, setFocusedPositionFromMouse } = useFocus();
+  const { focusedPosition, setFocusedPositionFromMouse, setFocusedPositionFromKeyboard } = useFocus();
   // Initialize global keyboard shortcuts (after useFocus to ensure context is available)
   useKeyboardShortcuts();
   const [wallpaper, setWallpaper] = useState<string | null>(null);
   const [wallpaperReady, setWallpaperReady] = useState(false);
   const [weatherReady, setWeatherReady] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLoading, setIsLoading] = useState(showLoadingScreen);
   const minDisplayTimeRef = useRef<number | null>(null);
-  const [widgetConfig, setWidgetConfig] = useState(() => getWidgetConfiguration());
+  // Fixed for this mount: Dashboard remounts when the tab switches workspaces
+  const workspaceId = workspaceState.activeWorkspaceId;
+  const [widgetConfig, setWidgetConfig] = useState(() => getWidgetConfiguration(workspaceId));
+  const [isEditingLayout, setIsEditingLayout] = useState(false);
+  const [settingsPosition, setSettingsPosition] = useState<number | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [savedRatios, setSavedRatios] = useState(() => getLayoutRatios());
 
   // Set minimum display time start when component mounts
   useEffect(() => {
@@ -33,12 +72,15 @@ function DashboardContent() {
   }, []);
 
   useEffect(() => {
-    // Load wallpaper from localStorage on mount
-    const savedWallpaper = getFromLocalStorage('wallpaper');
-    if (savedWallpaper) {
-      setWallpaper(savedWallpaper);
-    }
-    setWallpaperReady(true);
+    // Load wallpaper from storage on mount
+    let cancelled = false;
+    getStoredItem(getWorkspaceKey('wallpaper', workspaceId)).then((savedWallpaper) => {
+      if (cancelled) return;
+      if (savedWallpaper) {
+        setWallpaper(savedWallpaper);
+      }
+      setWallpaperReady(true);
+    });
 
     // Listen for wallpaper changes
     const handleWallpaperChange = (e: Event) => {
@@ -49,13 +91,99 @@ function DashboardContent() {
     window.addEventListener('wallpaperChanged', handleWallpaperChange);
 
     return () => {
+      cancelled = true;
       window.removeEventListener('wallpaperChanged', handleWallpaperChange);
     };
+  }, [workspaceId]);
+
+  // Listen for layout editor toggle (Shift+L, Settings), widget settings (Shift+S), search (/, Ctrl+K) and Esc to close them
+  useEffect(() => {
+    const handleToggleLayoutEditor = () => {
+      setIsEditingLayout((editing) => !editing);
+    };
+
+    const handleOpenWidgetSettings = (e: Event) => {
+      setSettingsPosition((e as CustomEvent<number>).detail);
+    };
+
+    const handleOpenSearch = () => {
+      setIsSearchOpen(true);
+    };
+
+    const handleCloseModals = () => {
+      setIsEditingLayout(false);
+      setSettingsPosition(null);
+      setIsSearchOpen(false);
+    };
+
+    window.addEventListener('toggleLayoutEditor', handleToggleLayoutEditor);
+    window.addEventListener('openWidgetSettings', handleOpenWidgetSettings);
+    window.addEventListener('openSearch', handleOpenSearch);
+    window.addEventListener('closeModals', handleCloseModals);
+
+    return () => {
+      window.removeEventListener('toggleLayoutEditor', handleToggleLayoutEditor);
+      window.removeEventListener('openWidgetSettings', handleOpenWidgetSettings);
+      window.removeEventListener('openSearch', handleOpenSearch);
+      window.removeEventListener('closeModals', handleCloseModals);
+    };
   }, []);
 
+  // Pick up layout changes saved in other tabs
+  useEffect(() => subscribeToWidgetConfiguration(setWidgetConfig, workspaceId), [workspaceId]);
+
+  // Sync with the self-hosted server when it's enabled in Settings
+  useEffect(() => startAutoSync(), []);
+
+  // Rolling local snapshots (Settings → Data → Snapshots)
+  useEffect(() => startAutoSnapshots(), []);
+
+  const updateWidgetConfig = (config: WidgetConfiguration) => {
+    setWidgetConfig(config);
+    saveWidgetConfiguration(config, workspaceId);
+  };
+
+  // Splitter drags update ratios live and persist once the drag ends
+  const handleResize = useCallback((ratios: LayoutRatios) => {
+    setSavedRatios(ratios);
+  }, []);
+
+  const handleResizeEnd = useCallback((ratios: LayoutRatios) => {
+    saveLayoutRatios(ratios);
+  }, []);
+
+  const handleResetSizes = () => {
+    setSavedRatios(null);
+    resetLayoutRatios();
+  };
+
+  const handleSaveWidgetSettings = (position: number, settings: Record<string, string>) => {
+    updateWidgetConfig(setSlotSettings(widgetConfig, position, settings));
+  };
+
+  // Focus the widget holding a search result, then let it show the match
+  const handleSelectSearchResult = ({ document, match, occurrence }: SearchResult) => {
+    setIsSearchOpen(false);
+    setFocusedPositionFromKeyboard(document.position);
+    const detail: SearchJump = {
+      kind: document.kind,
+      instanceId: document.instanceId,
+      itemId: document.itemId,
+      match,
+      occurrence,
+    };
+    // Wait a frame so the palette is gone and doesn't take the focus back
+    requestAnimationFrame(() => {
+      window.dispatchEvent(new CustomEvent('searchJump', { detail }));
+    });
+  };
+
+  // Layouts without a weather slot have nothing to wait for
+  const hasWeatherWidget = widgetConfig.some((slot) => slot.widgetType === 'weather');
+
   // Track when all loading conditions are met
   useEffect(() => {
-    if (colorsReady && wallpaperReady && weatherReady) {
+    if (colorsReady && wallpaperReady && (weatherReady || !hasWeatherWidget)) {
       const now = Date.now();
       const startTime = minDisplayTimeRef.current || now;
       const elapsed = now - startTime;
@@ -65,7 +193,7 @@ function DashboardContent() {
         setIsLoading(false);
       }, remaining);
     }
-  }, [colorsReady, wallpaperReady, weatherReady]);
+  }, [colorsReady, wallpaperReady, weatherReady, hasWeatherWidget]);
 
   const handleWeatherLoadComplete = () => {
     setWeatherReady(true);
@@ -79,14 +207,18 @@ function DashboardContent() {
     return {};
   };
 
-  // Calculate layout slots from configuration
-  const { topRow, bottomRow } = getLayoutSlots(widgetConfig);
+  // Calculate layout grid from configuration
+  // Saved ratios only apply while they match the grid size
+  const layout = getLayoutSlots(widgetConfig);
+  const ratios = normalizeLayoutRatios(savedRatios, layout.rows, layout.columns);
+  const gridTemplate = getGridTemplateStyle(ratios);
+  const settingsSlot = layout.slots.find((slot) => slot.position === settingsPosition);
 
   const defaultWallpaper = '/Gradient_18_16-9.png';
 
   return (
     <>
-      <LoadingScreen isVisible={isLoading} />
+      {showLoadingScreen && <LoadingScreen isVisible={isLoading} />}
       <div className="min-h-screen w-full relative">
         {/* Background image */}
         <div className="fixed inset-0 z-0">
@@ -110,33 +242,83 @@ function DashboardContent() {
         
         {/* Content with relative positioning */}
         <div className="relative z-10 h-screen p-4 flex flex-col overflow-hidden">
-          {/* Top row - 1/3 height with 3 widgets */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 flex-shrink-0 mb-4" style={{ height: '33.333%' }}>
-            {topRow.map((slot: WidgetSlot) => (
-              <WidgetContainer
-                key={slot.position}
-                position={slot.position}
-                widgetType={slot.widgetType}
-                widgetProps={getWidgetProps(slot.widgetType, slot.position)}
-                isFocused={focusedPosition === slot.position}
-                setFocusedPositionFromMouse={setFocusedPositionFromMouse}
-              />
-            ))}
-          </div>
-          
-          {/* Bottom row - 2/3 height with Todo and Notepad split 50/50 */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 min-h-0">
-            {bottomRow.map((slot: WidgetSlot) => (
-              <WidgetContainer
+          {isSafeMode() && <SafeModeBanner />}
+
+          {/* Widget grid - widgets stack in one scrolling column below md; from md up each slot
+              places itself by row/column span (set through CSS variables so only md: classes use them) */}
+          <div
+            className="relative grid grid-cols-1 auto-rows-[20rem] gap-4 flex-1 min-h-0 overflow-y-auto md:overflow-visible md:[grid-template-rows:var(--grid-rows)] md:[grid-template-columns:var(--grid-columns)]"
+            style={{ '--grid-rows': gridTemplate.gridTemplateRows, '--grid-columns': gridTemplate.gridTemplateColumns } as CSSProperties}
+          >
+            {layout.slots.map((slot) => (
+              <div
                 key={slot.position}
-                position={slot.position}
-                widgetType={slot.widgetType}
-                widgetProps={getWidgetProps(slot.widgetType, slot.position)}
-                isFocused={focusedPosition === slot.position}
-                setFocusedPositionFromMouse={setFocusedPositionFromMouse}
-              />
+                className="min-h-0 min-w-0 md:[grid-row:var(--slot-row)] md:[grid-column:var(--slot-column)]"
+                style={{
+                  '--slot-row': `${slot.row} / span ${slot.rowSpan}`,
+                  '--slot-column': `${slot.column} / span ${slot.columnSpan}`,
+                } as CSSProperties}
+              >
+                <WidgetContainer
+                  position={slot.position}
+                  widgetType={slot.widgetType}
+                  instanceId={slot.instanceId}
+                  settings={slot.settings}
+                  workspaceId={workspaceId}
+                  widgetProps={getWidgetProps(slot.widgetType, slot.position)}
+                  isFocused={focusedPosition === slot.position}
+                  setFocusedPositionFromMouse={setFocusedPositionFromMouse}
+                />
+              </div>
             ))}
+
+            {/* Draggable splitters in the gaps between widgets */}
+            <LayoutSplitters
+              layout={layout}
+              ratios={ratios}
+              onResize={handleResize}
+              onResizeEnd={handleResizeEnd}
+            />
           </div>
+
+          {/* Workspace bar - only once there is more than one workspace */}
+          {workspaceState.workspaces.length > 1 && (
+            <WorkspaceIndicator
+              workspaces={workspaceState.workspaces}
+              activeWorkspaceId={workspaceState.activeWorkspaceId}
+            />
+          )}
+
+          {/* Layout editor overlay */}
+          {isEditingLayout && (
+            <LayoutEditor
+              config={widgetConfig}
+              ratios={savedRatios}
+              onChange={updateWidgetConfig}
+              onResetSizes={handleResetSizes}
+              onOpenSettings={setSettingsPosition}
+              onClose={() => setIsEditingLayout(false)}
+            />
+          )}
+
+          {/* Per-widget settings */}
+          {settingsSlot && settingsSlot.widgetType !== null && (
+            <WidgetSettingsPanel
+              key={settingsSlot.position}
+              slot={{ ...settingsSlot, widgetType: settingsSlot.widgetType }}
+              onSave={(settings) => handleSaveWidgetSettings(settingsSlot.position, settings)}
+              onClose={() => setSettingsPosition(null)}
+            />
+          )}
+
+          {/* Search across notes and todos */}
+          {isSearchOpen && (
+            <SearchPalette
+              config={widgetConfig}
+              onSelect={handleSelectSearchResult}
+              onClose={() => setIsSearchOpen(false)}
+            />
+          )}
         </div>
       </div>
     </>
@@ -144,12 +326,58 @@ function DashboardContent() {
 }
 
 export default function Dashboard() {
+  const [workspaceState, setWorkspaceState] = useState(() => getWorkspaceState());
+  const [showLoadingScreen, setShowLoadingScreen] = useState(true);
+
+  // Switch workspaces (Shift+1-9, workspace bar, Settings) and pick up edits from Settings
+  useEffect(() => {
+    const handleSwitchWorkspace = (e: Event) => {
+      const workspaceId = (e as CustomEvent<string>).detail;
+      const state = getWorkspaceState();
+      if (
+        workspaceId === state.activeWorkspaceId ||
+        !state.workspaces.some((w) => w.id === workspaceId)
+      ) {
+        return;
+      }
+
+      const newState = { ...state, activeWorkspaceId: workspaceId };
+      saveWorkspaceState(newState);
+      setWorkspaceState(newState);
+      setShowLoadingScreen(false);
+    };
+
+    const handleWorkspacesChanged = (e: Event) => {
+      setWorkspaceState((e as CustomEvent<WorkspaceState>).detail);
+      setShowLoadingScreen(false);
+    };
+
+    window.addEventListener('switchWorkspace', handleSwitchWorkspace);
+    window.addEventListener('workspacesChanged', handleWorkspacesChanged);
+
+    return () => {
+      window.removeEventListener('switchWorkspace', handleSwitchWorkspace);
+      window.removeEventListener('workspacesChanged', handleWorkspacesChanged);
+    };
+  }, []);
+
+  // Workspaces edited in other tabs: update the list but stay on this tab's workspace
+  // (getWorkspaceState() falls back to the default workspace if this one was removed)
+  useEffect(
+    () =>
+      subscribeToWorkspaceState((state) => {
+        setWorkspaceState(state);
+        setShowLoadingScreen(false);
+      }),
+    []
+  );
+
+  // Remount per workspace so every widget reloads its data from the workspace's storage keys
   return (
-    <ColorProvider>
+    <ColorProvider key={workspaceState.activeWorkspaceId}>
       <FocusProvider>
-        <DashboardContent />
+        <DashboardContent workspaceState={workspaceState} showLoadingScreen={showLoadingScreen} />
       </FocusProvider>
     </ColorProvider>
   );
 }
-
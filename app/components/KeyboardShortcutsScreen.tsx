@@ -3,7 +3,9 @@
 import { useState, useEffect } from 'react';
 import Widget from './Widget';
 import { ColorProvider, useReactiveColors } from './ColorContext';
-import { getFromLocalStorage } from '@/app/lib/utils';
+import { getStoredItem } from '@/app/lib/storageAdapter';
+import { getWorkspaceKey } from '@/app/lib/workspaces';
+import { getWidgetShortcutGroups } from '@/app/lib/widgetRegistry';
 
 interface KeyboardShortcutsScreenProps {
   onClose: () => void;
@@ -25,14 +27,16 @@ function KeyboardShortcutsContent({ onClose, fromOnboarding = false }: KeyboardS
 
   useEffect(() => {
     setWidgetMounted(true);
-    // Load wallpaper from localStorage
-    const savedWallpaper = getFromLocalStorage('wallpaper');
-    if (savedWallpaper) {
-      setWallpaper(savedWallpaper);
-    } else {
+    // Load wallpaper from storage
+    let cancelled = false;
+    getStoredItem(getWorkspaceKey('wallpaper')).then((savedWallpaper) => {
+      if (cancelled) return;
       // Use default wallpaper if none saved
-      setWallpaper('/Gradient_18_16-9.png');
-    }
+      setWallpaper(savedWallpaper || '/Gradient_18_16-9.png');
+    });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
   // Handle keyboard shortcuts based on context
@@ -61,6 +65,7 @@ function KeyboardShortcutsContent({ onClose, fromOnboarding = false }: KeyboardS
       title: 'Global Shortcuts',
       shortcuts: [
         { key: '1-9', description: 'Focus widget by position' },
+        { key: 'Shift + 1-9', description: 'Switch workspace' },
         { key: 'Tab', description: 'Cycle forward through widgets' },
         { key: 'Shift + Tab', description: 'Cycle backward through widgets' },
         { key: 'S', description: 'Open Settings' },
@@ -68,42 +73,14 @@ function KeyboardShortcutsContent({ onClose, fromOnboarding = false }: KeyboardS
         { key: 'Shift + C', description: 'Toggle clock format' },
         { key: 'Shift + E', description: 'Export data' },
         { key: 'Shift + I', description: 'Import data' },
+        { key: 'Shift + L', description: 'Edit layout' },
+        { key: '/ or Ctrl + K', description: 'Search notes and todos' },
+        { key: 'Shift + S', description: 'Settings for focused widget' },
         { key: 'Escape', description: 'Close modals/dialogs' },
       ],
     },
-    {
-      title: 'Clock Widget',
-      shortcuts: [
-        { key: 'Space', description: 'Start/Pause Pomodoro timer' },
-        { key: 'R', description: 'Reset Pomodoro timer' },
-        { key: 'K', description: 'Skip Pomodoro session' },
-      ],
-    },
-    {
-      title: 'Todo Widget',
-      shortcuts: [
-        { key: 'N', description: 'Focus new todo input' },
-        { key: 'C', description: 'Toggle show/hide completed todos' },
-        { key: 'X', description: 'Clear all completed todos' },
-        { key: '↑ / ↓', description: 'Navigate todos' },
-        { key: 'Enter', description: 'Edit selected todo (or focus input)' },
-        { key: 'Space', description: 'Toggle completion of selected todo' },
-        { key: 'Backspace', description: 'Delete selected todo' },
-        { key: 'Escape', description: 'Clear selection / Close dialogs' },
-      ],
-    },
-    {
-      title: 'Notepad Widget',
-      shortcuts: [
-        { key: 'Enter', description: 'Focus editor' },
-        { key: 'Ctrl + T', description: 'New tab' },
-        { key: 'Ctrl + W', description: 'Close tab' },
-        { key: 'Ctrl + R', description: 'Rename tab' },
-        { key: 'Ctrl + I', description: 'Add image' },
-        { key: 'Ctrl + Alt + ← / →', description: 'Cycle tabs' },
-        { key: 'Ctrl + 1-9', description: 'Switch to tab by number' },
-      ],
-    },
+    // Widget shortcuts come from each widget's manifest
+    ...getWidgetShortcutGroups(),
   ];
 
   return (
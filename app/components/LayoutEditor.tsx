@@ -0,0 +1,343 @@
+'use client';
+
+import { useState } from 'react';
+import { useReactiveColors } from './ColorContext';
+import {
+  WidgetConfiguration,
+  getLayoutSlots,
+  swapSlotWidgets,
+  setSlotWidget,
+  addWidgetSlot,
+} from '@/app/lib/widgetConfig';
+import { LAYOUT_PRESETS, LayoutPreset, applyLayoutPreset, getWidgetsDroppedByPreset } from '@/app/lib/layoutPresets';
+import { LayoutRatios, normalizeLayoutRatios, getGridTemplateStyle } from '@/app/lib/layoutRatios';
+import { getWidgetSettingsFields } from '@/app/lib/widgetSettings';
+import {
+  WidgetType,
+  getAvailableWidgetTypes,
+  getWidgetManifest,
+  getWidgetDisplayName,
+  isValidWidgetType,
+  isSingleInstanceWidget,
+  isBelowMinSize,
+} from '@/app/lib/widgetRegistry';
+
+interface LayoutEditorProps {
+  config: WidgetConfiguration;
+  ratios: Partial<LayoutRatios> | null; // Saved splitter ratios so overlays line up with widgets
+  onChange: (config: WidgetConfiguration) => void;
+  onResetSizes: () => void;
+  onOpenSettings: (position: number) => void;
+  onClose: () => void;
+}
+
+/**
+ * LayoutEditor - Edit-mode overlay drawn on top of the widget grid
+ * Drag a slot onto another to swap widgets, clear slots, fill empty slots,
+ * add a widget in a new row, or re-tile the whole dashboard with a preset
+ */
+export default function LayoutEditor({
+  config,
+  ratios,
+  onChange,
+  onResetSizes,
+  onOpenSettings,
+  onClose,
+}: LayoutEditorProps) {
+  const { colors } = useReactiveColors();
+  const [draggedPosition, setDraggedPosition] = useState<number | null>(null);
+  const [dragOverPosition, setDragOverPosition] = useState<number | null>(null);
+
+  // Calculate visual assignment during drag (preview of the swap)
+  const getDisplayConfig = () => {
+    if (draggedPosition === null || dragOverPosition === null) {
+      return config;
+    }
+    return swapSlotWidgets(config, draggedPosition, dragOverPosition);
+  };
+
+  // Presets with fewer cells than there are widgets drop the rest, so ask first
+  const handleApplyPreset = (preset: LayoutPreset) => {
+    const dropped = getWidgetsDroppedByPreset(config, preset);
+    if (dropped.length > 0) {
+      const names = dropped.map((slot) => getWidgetDisplayName(slot.widgetType!)).join(', ');
+      const count = dropped.length === 1 ? '1 widget' : `${dropped.length} widgets`;
+      if (!confirm(`"${preset.name}" has room for ${preset.cells.length} widgets, so ${count} will be removed from the layout: ${names}. Continue?`)) {
+        return;
+      }
+    }
+    onChange(applyLayoutPreset(config, preset));
+  };
+
+  const layout = getLayoutSlots(getDisplayConfig());
+  const gridStyle = getGridTemplateStyle(normalizeLayoutRatios(ratios, layout.rows, layout.columns));
+
+  const handleDragStart = (e: React.DragEvent, position: number) => {
+    setDraggedPosition(position);
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/html', '');
+
+    // Hide the default drag ghost image - the overlay labels preview the swap
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.clearRect(0, 0, 1, 1);
+      e.dataTransfer.setDragImage(canvas, 0, 0);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent, position: number) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (draggedPosition !== null) {
+      setDragOverPosition(position === draggedPosition ? null : position);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, position: number) => {
+    e.preventDefault();
+    if (draggedPosition !== null && draggedPosition !== position) {
+      onChange(swapSlotWidgets(config, draggedPosition, position));
+    }
+    setDraggedPosition(null);
+    setDragOverPosition(null);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedPosition(null);
+    setDragOverPosition(null);
+  };
+
+  // Any widget can be added more than once, except single-instance ones already placed
+  const addableWidgetTypes = getAvailableWidgetTypes().filter(
+    (type) => !isSingleInstanceWidget(type) || !config.some((slot) => slot.widgetType === type)
+  );
+
+  const widgetOptions = addableWidgetTypes.map((type) => {
+    const manifest = getWidgetManifest(type);
+    return (
+      <option key={type} value={type} className="bg-black" title={manifest.description}>
+        {manifest.icon} {manifest.name}
+      </option>
+    );
+  });
+
+  const handleSelectWidget = (position: number, value: string) => {
+    const widgetType: WidgetType | null = isValidWidgetType(value) ? value : null;
+    onChange(setSlotWidget(config, position, widgetType));
+  };
+
+  const handleAddWidget = (value: string) => {
+    if (isValidWidgetType(value)) {
+      onChange(addWidgetSlot(config, value));
+    }
+  };
+
+  return (
+    <>
+      {/* Slot overlays - same grid as the dashboard so each overlay covers its widget */}
+      {/* Gaps pass pointer events through so splitters stay draggable while editing */}
+      <div
+        className="absolute inset-4 z-30 grid gap-4 pointer-events-none"
+        style={gridStyle}
+      >
+        {layout.slots.map((slot) => {
+          const isDragged = draggedPosition === slot.position;
+          const isDragOver = dragOverPosition === slot.position;
+          const manifest = slot.widgetType !== null ? getWidgetManifest(slot.widgetType) : null;
+          return (
+            <div
+              key={slot.position}
+              data-layout-slot={slot.position}
+              draggable={slot.widgetType !== null}
+              onDragStart={(e) => handleDragStart(e, slot.position)}
+              onDragOver={(e) => handleDragOver(e, slot.position)}
+              onDrop={(e) => handleDrop(e, slot.position)}
+              onDragEnd={handleDragEnd}
+              className={`
+                min-h-0 min-w-0 pointer-events-auto
+                flex flex-col items-center justify-center gap-3
+                bg-black/60 backdrop-blur-sm
+                border border-dashed rounded-sm
+                font-mono text-xs
+                transition-all duration-200
+                ${slot.widgetType !== null ? 'cursor-grab active:cursor-grabbing' : ''}
+                ${isDragged || isDragOver ? 'border-white/50 shadow-lg' : 'border-white/20 hover:border-white/40'}
+              `}
+              style={{
+                gridRow: `${slot.row} / span ${slot.rowSpan}`,
+                gridColumn: `${slot.column} / span ${slot.columnSpan}`,
+                color: colors.primary,
+              }}
+            >
+              <div className="text-xs uppercase tracking-wider" style={{ color: colors.secondary }}>
+                Slot {slot.position}
+              </div>
+              {slot.widgetType !== null && manifest ? (
+                <>
+                  <div className="text-sm font-semibold" title={manifest.description}>
+                    {manifest.icon} {manifest.name}
+                  </div>
+                  {isBelowMinSize(slot.widgetType, slot) && (
+                    <div
+                      className="text-xs"
+                      style={{ color: colors.secondary }}
+                      title="Minimum size in rows × columns"
+                    >
+                      Too small (min {manifest.minSize.rowSpan}×{manifest.minSize.columnSpan})
+                    </div>
+                  )}
+                  <div className="flex gap-2">
+                    {getWidgetSettingsFields(slot.widgetType).length > 0 && (
+                      <button
+                        onClick={() => onOpenSettings(slot.position)}
+                        className="
+                          px-3 py-1
+                          bg-white/10
+                          border border-white/30
+                          rounded-sm
+                          hover:bg-white/15
+                          hover:border-white/50
+                          transition-all duration-200
+                          font-mono text-xs
+                        "
+                        style={{ color: colors.button }}
+                      >
+                        Settings
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onChange(setSlotWidget(config, slot.position, null))}
+                      className="
+                        px-3 py-1
+                        bg-white/10
+                        border border-white/30
+                        rounded-sm
+                        hover:bg-white/15
+                        hover:border-white/50
+                        transition-all duration-200
+                        font-mono text-xs
+                      "
+                      style={{ color: colors.button }}
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <select
+                  value=""
+                  onChange={(e) => handleSelectWidget(slot.position, e.target.value)}
+                  className="
+                    bg-black/10
+                    border border-white/20
+                    rounded-sm
+                    px-2 py-1
+                    font-mono text-xs
+                    focus:outline-none
+                    focus:border-white/50
+                  "
+                  style={{ color: colors.primary }}
+                >
+                  <option value="" disabled>
+                    Add widget...
+                  </option>
+                  {widgetOptions}
+                </select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Toolbar */}
+      <div
+        className="
+          fixed bottom-6 left-1/2 -translate-x-1/2 z-40
+          flex items-center gap-2
+          bg-black/40 backdrop-blur-xl
+          border border-white/20
+          rounded-sm
+          px-3 py-2
+          shadow-lg
+          font-mono text-xs
+        "
+        style={{ color: colors.primary }}
+      >
+        <span style={{ color: colors.secondary }}>Layout:</span>
+        {LAYOUT_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => handleApplyPreset(preset)}
+            className="
+              px-2 py-1
+              bg-white/10
+              border border-white/30
+              rounded-sm
+              hover:bg-white/15
+              hover:border-white/50
+              transition-all duration-200
+            "
+            style={{ color: colors.button }}
+          >
+            {preset.name}
+          </button>
+        ))}
+        <div className="w-px h-5 bg-white/10 mx-1" />
+        <select
+          value=""
+          onChange={(e) => handleAddWidget(e.target.value)}
+          disabled={addableWidgetTypes.length === 0}
+          className="
+            bg-black/10
+            border border-white/20
+            rounded-sm
+            px-2 py-1
+            font-mono text-xs
+            focus:outline-none
+            focus:border-white/50
+            disabled:opacity-50
+          "
+          style={{ color: colors.primary }}
+        >
+          <option value="" disabled>
+            Add widget...
+          </option>
+          {widgetOptions}
+        </select>
+        <button
+          onClick={onResetSizes}
+          className="
+            px-2 py-1
+            bg-white/10
+            border border-white/30
+            rounded-sm
+            hover:bg-white/15
+            hover:border-white/50
+            transition-all duration-200
+          "
+          style={{ color: colors.button }}
+        >
+          Even Sizes
+        </button>
+        <button
+          onClick={onClose}
+          className="
+            px-3 py-1
+            bg-white/10
+            border border-white/30
+            rounded-sm
+            hover:bg-white/15
+            hover:border-white/50
+            transition-all duration-200
+          "
+          style={{ color: colors.button }}
+        >
+          Done
+        </button>
+      </div>
+    </>
+  );
+}
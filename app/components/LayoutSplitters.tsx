@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { LayoutGrid } from '@/app/lib/widgetConfig';
+import {
+  LayoutRatios,
+  SplitterSegment,
+  getSplitterSegments,
+  resizeTracks,
+} from '@/app/lib/layoutRatios';
+
+interface LayoutSplittersProps {
+  layout: LayoutGrid;
+  ratios: LayoutRatios;
+  onResize: (ratios: LayoutRatios) => void; // Live update while dragging
+  onResizeEnd: (ratios: LayoutRatios) => void; // Drag finished - persist
+}
+
+interface DragState {
+  segment: SplitterSegment;
+  startPointer: number;
+  startRatios: LayoutRatios;
+  availablePx: number; // Grid size along the drag axis minus gaps
+}
+
+// Must match the grid's gap-4
+const GAP_PX = 16;
+
+const sum = (tracks: number[], from: number, to: number) =>
+  tracks.slice(from, to).reduce((total, size) => total + size, 0);
+
+// CSS offset of the start of track `index` (0-based) along an axis
+const trackOffset = (tracks: number[], index: number) => {
+  const total = sum(tracks, 0, tracks.length);
+  const gaps = (tracks.length - 1) * GAP_PX;
+  return `calc((100% - ${gaps}px) * ${sum(tracks, 0, index) / total} + ${index * GAP_PX}px)`;
+};
+
+// CSS length covering tracks start..end (1-based, inclusive) and the gaps between them
+const trackLength = (tracks: number[], start: number, end: number) => {
+  const total = sum(tracks, 0, tracks.length);
+  const gaps = (tracks.length - 1) * GAP_PX;
+  return `calc((100% - ${gaps}px) * ${sum(tracks, start - 1, end) / total} + ${(end - start) * GAP_PX}px)`;
+};
+
+/**
+ * LayoutSplitters - Draggable handles in the gaps between widgets
+ * Rendered inside the (relatively positioned) widget grid; dragging moves
+ * the boundary between two grid tracks like a tiling window manager.
+ * Hidden below md, where the widgets stack in one column
+ */
+export default function LayoutSplitters({ layout, ratios, onResize, onResizeEnd }: LayoutSplittersProps) {
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const latestRatiosRef = useRef(ratios);
+  latestRatiosRef.current = ratios;
+
+  useEffect(() => {
+    if (!dragState) return;
+
+    const { segment, startPointer, startRatios, availablePx } = dragState;
+    const isColumn = segment.axis === 'column';
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const tracks = isColumn ? startRatios.columns : startRatios.rows;
+      const total = sum(tracks, 0, tracks.length);
+      const deltaPx = (isColumn ? e.clientX : e.clientY) - startPointer;
+      const resized = resizeTracks(tracks, segment.boundary, (deltaPx / availablePx) * total);
+      onResize(isColumn ? { ...startRatios, columns: resized } : { ...startRatios, rows: resized });
+    };
+
+    const handleMouseUp = () => {
+      setDragState(null);
+      onResizeEnd(latestRatiosRef.current);
+    };
+
+    // Keep the resize cursor and avoid selecting widget text while dragging
+    const previousCursor = document.body.style.cursor;
+    const previousUserSelect = document.body.style.userSelect;
+    document.body.style.cursor = isColumn ? 'col-resize' : 'row-resize';
+    document.body.style.userSelect = 'none';
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.body.style.cursor = previousCursor;
+      document.body.style.userSelect = previousUserSelect;
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [dragState, onResize, onResizeEnd]);
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>, segment: SplitterSegment) => {
+    const grid = e.currentTarget.parentElement;
+    if (!grid) return;
+    e.preventDefault();
+
+    const rect = grid.getBoundingClientRect();
+    const isColumn = segment.axis === 'column';
+    const trackCount = isColumn ? ratios.columns.length : ratios.rows.length;
+    setDragState({
+      segment,
+      startPointer: isColumn ? e.clientX : e.clientY,
+      startRatios: ratios,
+      availablePx: (isColumn ? rect.width : rect.height) - (trackCount - 1) * GAP_PX,
+    });
+  };
+
+  return (
+    <>
+      {getSplitterSegments(layout).map((segment) => {
+        const isColumn = segment.axis === 'column';
+        const isDragging =
+          dragState?.segment.axis === segment.axis &&
+          dragState.segment.boundary === segment.boundary &&
+          dragState.segment.start === segment.start;
+
+        const style: React.CSSProperties = isColumn
+          ? {
+              left: `calc(${trackOffset(ratios.columns, segment.boundary)} - ${GAP_PX}px)`,
+              width: GAP_PX,
+              top: trackOffset(ratios.rows, segment.start - 1),
+              height: trackLength(ratios.rows, segment.start, segment.end),
+            }
+          : {
+              top: `calc(${trackOffset(ratios.rows, segment.boundary)} - ${GAP_PX}px)`,
+              height: GAP_PX,
+              left: trackOffset(ratios.columns, segment.start - 1),
+              width: trackLength(ratios.columns, segment.start, segment.end),
+            };
+
+        return (
+          <div
+            key={`${segment.axis}-${segment.boundary}-${segment.start}`}
+            data-layout-splitter={segment.axis}
+            onMouseDown={(e) => handleMouseDown(e, segment)}
+            className={`
+              group absolute z-20 hidden md:flex items-center justify-center
+              ${isColumn ? 'cursor-col-resize' : 'cursor-row-resize'}
+            `}
+            style={style}
+          >
+            <div
+              className={`
+                rounded-full transition-all duration-150
+                ${isColumn ? 'w-px h-full' : 'h-px w-full'}
+                ${isDragging ? 'bg-white/50' : 'bg-transparent group-hover:bg-white/30'}
+              `}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useReactiveColors } from './ColorContext';
+import { LinkPreview, getLinkDomain } from '@/app/lib/linkPreview';
+
+interface LinkPreviewCardProps {
+  preview: LinkPreview;
+  compact?: boolean; // Leave out the description
+}
+
+/**
+ * LinkPreviewCard - Icon, title, description and domain of a linked page
+ * The icon is a background image, so a missing or broken icon just leaves a gap
+ */
+export default function LinkPreviewCard({ preview, compact = false }: LinkPreviewCardProps) {
+  const { colors } = useReactiveColors();
+  const domain = getLinkDomain(preview.url);
+
+  return (
+    <div className="flex items-start gap-2 min-w-0 font-mono text-xs">
+      {preview.favicon && (
+        <span
+          aria-hidden="true"
+          className="w-4 h-4 mt-0.5 shrink-0 bg-contain bg-center bg-no-repeat"
+          style={{ backgroundImage: `url(${JSON.stringify(preview.favicon)})` }}
+        />
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="truncate font-semibold" style={{ color: colors.primary }}>
+          {preview.title ?? domain}
+        </div>
+        {!compact && preview.description && (
+          <div className="line-clamp-3" style={{ color: colors.secondary }}>
+            {preview.description}
+          </div>
+        )}
+        <div className="truncate" style={{ color: colors.muted }}>{domain}</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import LinkPreviewCard from './LinkPreviewCard';
+import { LinkPreview, fetchLinkPreview } from '@/app/lib/linkPreview';
+
+interface LinkPreviewListProps {
+  urls: string[];
+}
+
+/**
+ * LinkPreviewList - A row of link cards (below the notepad's text in inline mode)
+ * Only pages whose preview loaded get a card; nothing is shown while offline
+ */
+export default function LinkPreviewList({ urls }: LinkPreviewListProps) {
+  const [previews, setPreviews] = useState<LinkPreview[]>([]);
+
+  // Joined so typing (which creates a new array of the same URLs) doesn't refetch
+  const urlList = urls.join('\n');
+
+  useEffect(() => {
+    let cancelled = false;
+    const list = urlList ? urlList.split('\n') : [];
+    Promise.all(list.map(fetchLinkPreview)).then((results) => {
+      if (!cancelled) {
+        setPreviews(results.filter((preview): preview is LinkPreview => preview !== null));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [urlList]);
+
+  if (previews.length === 0) return null;
+
+  return (
+    <div className="flex-shrink-0 flex gap-2 overflow-x-auto auto-hide-scrollbar" aria-label="Link previews">
+      {previews.map((preview) => (
+        <a
+          key={preview.url}
+          href={preview.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="block shrink-0 w-56 p-2 bg-black/30 border border-white/10 rounded-sm hover:bg-black/40 hover:border-white/20 transition-all duration-200"
+          title={preview.url}
+        >
+          <LinkPreviewCard preview={preview} compact />
+        </a>
+      ))}
+    </div>
+  );
+}
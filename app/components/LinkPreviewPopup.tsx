@@ -0,0 +1,96 @@
+'use client';
+
+import { RefObject, useEffect, useState } from 'react';
+import LinkPreviewCard from './LinkPreviewCard';
+import { LinkPreview, fetchLinkPreview } from '@/app/lib/linkPreview';
+
+interface LinkPreviewPopupProps {
+  containerRef: RefObject<HTMLElement | null>; // Element whose web links get previews
+}
+
+interface ShownPreview {
+  preview: LinkPreview;
+  left: number;
+  top?: number; // Below the link
+  bottom?: number; // Above the link, near the bottom of the window
+}
+
+const HOVER_DELAY_MS = 400;
+const CARD_WIDTH = 288; // w-72
+const CARD_SPACE = 120; // Room needed below the link
+
+/**
+ * LinkPreviewPopup - Preview card for the web link under the mouse
+ * Listens for hovers on `a.notepad-url-link` elements inside the container and shows the
+ * card once the preview has loaded; links without a preview show nothing. Scrolling,
+ * typing or clicking hides it
+ */
+export default function LinkPreviewPopup({ containerRef }: LinkPreviewPopupProps) {
+  const [shown, setShown] = useState<ShownPreview | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let hoveredLink: HTMLAnchorElement | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const hide = () => {
+      clearTimeout(timer);
+      hoveredLink = null;
+      setShown(null);
+    };
+
+    const handleMouseOver = (e: MouseEvent) => {
+      const link = e.target instanceof Element ? e.target.closest('a.notepad-url-link') : null;
+      if (!(link instanceof HTMLAnchorElement) || link === hoveredLink) return;
+
+      hide();
+      hoveredLink = link;
+      timer = setTimeout(() => {
+        fetchLinkPreview(link.href).then((preview) => {
+          if (!preview || hoveredLink !== link || !link.isConnected) return;
+          const rect = link.getBoundingClientRect();
+          const left = Math.max(8, Math.min(rect.left, window.innerWidth - CARD_WIDTH - 8));
+          setShown(
+            rect.bottom + CARD_SPACE > window.innerHeight
+              ? { preview, left, bottom: window.innerHeight - rect.top + 4 }
+              : { preview, left, top: rect.bottom + 4 }
+          );
+        });
+      }, HOVER_DELAY_MS);
+    };
+
+    const handleMouseOut = (e: MouseEvent) => {
+      if (hoveredLink && !(e.relatedTarget instanceof Node && hoveredLink.contains(e.relatedTarget))) {
+        hide();
+      }
+    };
+
+    container.addEventListener('mouseover', handleMouseOver);
+    container.addEventListener('mouseout', handleMouseOut);
+    container.addEventListener('wheel', hide, { passive: true });
+    container.addEventListener('keydown', hide);
+    container.addEventListener('mousedown', hide);
+    return () => {
+      clearTimeout(timer);
+      container.removeEventListener('mouseover', handleMouseOver);
+      container.removeEventListener('mouseout', handleMouseOut);
+      container.removeEventListener('wheel', hide);
+      container.removeEventListener('keydown', hide);
+      container.removeEventListener('mousedown', hide);
+    };
+  }, [containerRef]);
+
+  if (!shown) return null;
+
+  return (
+    <div
+      role="tooltip"
+      className="fixed z-50 w-72 p-2 bg-black/90 border border-white/30 rounded-sm pointer-events-none"
+      style={{ left: shown.left, top: shown.top, bottom: shown.bottom }}
+    >
+      <LinkPreviewCard preview={shown.preview} />
+    </div>
+  );
+}
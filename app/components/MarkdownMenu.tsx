@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect, useRef, ReactNode } from 'react';
+import { useReactiveColors } from './ColorContext';
+
+export interface MarkdownMenuItem {
+  label: string;
+  onSelect: () => void;
+  disabled?: boolean;
+}
+
+interface MarkdownMenuProps {
+  items: MarkdownMenuItem[];
+  title: string;
+  className: string; // Classes of the toggle button
+  children: ReactNode; // Content of the toggle button
+}
+
+/**
+ * MarkdownMenu - Small dropdown of export/import (and other) actions for a widget
+ * The list is fixed-positioned under its button so scrolling containers don't clip it;
+ * it closes on selection, an outside click or Escape
+ */
+export default function MarkdownMenu({ items, title, className, children }: MarkdownMenuProps) {
+  const { colors } = useReactiveColors();
+  const [position, setPosition] = useState<{ top: number; right: number } | null>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!position) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as Node;
+      if (!menuRef.current?.contains(target) && !buttonRef.current?.contains(target)) {
+        setPosition(null);
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        setPosition(null);
+      }
+    };
+    const close = () => setPosition(null);
+
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('resize', close);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('resize', close);
+    };
+  }, [position]);
+
+  const toggle = () => {
+    if (position || !buttonRef.current) {
+      setPosition(null);
+      return;
+    }
+    const rect = buttonRef.current.getBoundingClientRect();
+    setPosition({ top: rect.bottom + 4, right: window.innerWidth - rect.right });
+  };
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        type="button"
+        onMouseDown={(e) => e.preventDefault()} // Keep the editor's selection
+        onClick={toggle}
+        className={className}
+        style={{ color: colors.button }}
+        title={title}
+        aria-label={title}
+        aria-haspopup="menu"
+        aria-expanded={!!position}
+      >
+        {children}
+      </button>
+      {position && (
+        <div
+          ref={menuRef}
+          role="menu"
+          className="fixed z-50 min-w-[180px] py-1 bg-black/90 border border-white/30 rounded-sm shadow-lg backdrop-blur-sm"
+          style={{ top: position.top, right: position.right }}
+        >
+          {items.map((item, index) => (
+            <button
+              key={index}
+              type="button"
+              role="menuitem"
+              disabled={item.disabled}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                setPosition(null);
+                item.onSelect();
+              }}
+              className="block w-full px-3 py-1.5 text-left font-mono text-xs hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
+              style={{ color: colors.primary }}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
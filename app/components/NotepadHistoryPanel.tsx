@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useReactiveColors } from './ColorContext';
+import { NotepadTab } from '@/app/lib/notepadData';
+import { readStoredValueAsync } from '@/app/lib/storage';
+import { getTabMarkdown } from '@/app/lib/markdown';
+import {
+  NotepadRevision,
+  notepadHistorySchema,
+  diffLines,
+  foldUnchangedLines,
+} from '@/app/lib/notepadHistory';
+
+interface NotepadHistoryPanelProps {
+  tab: NotepadTab;
+  historyKey: string; // Storage key of the notepad's history
+  onRestore: (revision: NotepadRevision) => void;
+  onClose: () => void;
+}
+
+type CompareWith = 'previous' | 'current';
+
+// Text that is compared: the tab as Markdown, so formatting changes show up too
+const getRevisionText = (revision: Pick<NotepadRevision, 'content' | 'format'>) =>
+  getTabMarkdown({ id: '', name: '', content: revision.content, format: revision.format });
+
+/**
+ * NotepadHistoryPanel - Earlier versions of a notepad tab
+ * Lists the tab's revisions, shows what changed in one (or how it differs from the tab now)
+ * and restores it. Opened from the notepad's ⋯ menu or with Ctrl+Alt+H; Esc closes it
+ */
+export default function NotepadHistoryPanel({ tab, historyKey, onRestore, onClose }: NotepadHistoryPanelProps) {
+  const { colors } = useReactiveColors();
+  const [revisions, setRevisions] = useState<NotepadRevision[] | null>(null); // Newest first
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState<CompareWith>('previous');
+
+  useEffect(() => {
+    let cancelled = false;
+    readStoredValueAsync(historyKey, notepadHistorySchema)
+      .then((history) => {
+        if (cancelled) return;
+        const tabRevisions = [...(history?.[tab.id] ?? [])].reverse();
+        setRevisions(tabRevisions);
+        setSelectedId(tabRevisions[0]?.id ?? null);
+      })
+      .catch((error) => {
+        console.error('Error loading notepad history:', error);
+        if (!cancelled) setRevisions([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [historyKey, tab.id]);
+
+  useEffect(() => {
+    window.addEventListener('closeModals', onClose);
+    return () => window.removeEventListener('closeModals', onClose);
+  }, [onClose]);
+
+  const selectedIndex = revisions?.findIndex((revision) => revision.id === selectedId) ?? -1;
+  const selected = revisions && selectedIndex !== -1 ? revisions[selectedIndex] : null;
+  const isCurrent = !!selected && selected.content === tab.content && selected.format === tab.format;
+
+  const diff = useMemo(() => {
+    if (!selected || !revisions) return [];
+    const selectedText = getRevisionText(selected);
+    if (compareWith === 'current') {
+      return foldUnchangedLines(diffLines(selectedText, getRevisionText(tab)));
+    }
+    const previous = revisions[selectedIndex + 1];
+    return foldUnchangedLines(diffLines(previous ? getRevisionText(previous) : '', selectedText));
+  }, [selected, selectedIndex, revisions, compareWith, tab]);
+
+  const buttonClassName = `
+    px-3 py-1.5
+    bg-white/10
+    border border-white/30
+    rounded-sm
+    hover:bg-white/15
+    hover:border-white/50
+    transition-all duration-200
+    font-mono text-xs
+    disabled:opacity-50 disabled:cursor-not-allowed
+  `;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={(e) => {
+        // Close on backdrop click
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div
+        data-settings-modal="true"
+        role="dialog"
+        aria-label={`History of ${tab.name}`}
+        className="bg-black/90 border border-white/30 rounded-sm p-4 w-full max-w-3xl h-[80%] max-h-[600px] mx-4 flex flex-col gap-3 min-h-0"
+      >
+        {/* Header */}
+        <div className="flex justify-between items-baseline gap-2 border-b border-white/10 pb-2">
+          <h3 className="text-lg font-semibold font-mono truncate" style={{ color: colors.secondary }}>
+            History · {tab.name}
+          </h3>
+          <label className="flex items-center gap-2 text-xs font-mono shrink-0" style={{ color: colors.muted }}>
+            Compare with
+            <select
+              value={compareWith}
+              onChange={(e) => setCompareWith(e.target.value as CompareWith)}
+              className="bg-black/10 border border-white/20 rounded-sm px-1 py-0.5 focus:outline-none focus:border-white/50"
+              style={{ color: colors.primary }}
+            >
+              <option value="previous" className="bg-black">Previous version</option>
+              <option value="current" className="bg-black">Tab now</option>
+            </select>
+          </label>
+        </div>
+
+        {revisions === null ? (
+          <p className="text-xs font-mono" style={{ color: colors.muted }}>Loading…</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-xs font-mono flex-1" style={{ color: colors.muted }}>
+            No earlier versions yet. Versions are saved a few seconds after you stop typing.
+          </p>
+        ) : (
+          <div className="flex gap-3 flex-1 min-h-0">
+            {/* Revisions, newest first */}
+            <ul className="w-44 shrink-0 overflow-y-auto auto-hide-scrollbar space-y-1" role="listbox" aria-label="Versions">
+              {revisions.map((revision, index) => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    role="option"
+                    aria-selected={revision.id === selectedId}
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`
+                      w-full text-left px-2 py-1.5 border rounded-sm font-mono text-xs
+                      ${revision.id === selectedId ? 'bg-white/10 border-white/40' : 'border-transparent hover:border-white/20'}
+                    `}
+                    style={{ color: colors.primary }}
+                  >
+                    <span className="block">{new Date(revision.savedAt).toLocaleString()}</span>
+                    <span className="block" style={{ color: colors.muted }}>
+                      {index === 0 ? 'Latest · ' : ''}
+                      {revision.format === 'markdown' ? 'Markdown · ' : ''}
+                      {getRevisionText(revision).length} chars
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {/* Diff */}
+            <div className="flex-1 min-w-0 overflow-auto auto-hide-scrollbar bg-black/20 border border-white/10 rounded-sm p-2 font-mono text-xs">
+              {diff.every((line) => line.type === 'same' || line.type === 'fold') ? (
+                <p style={{ color: colors.muted }}>
+                  {compareWith === 'current' ? 'Same as the tab now.' : 'No text changes in this version.'}
+                </p>
+              ) : (
+                diff.map((line, index) =>
+                  line.type === 'fold' ? (
+                    <div key={index} className="py-0.5 italic" style={{ color: colors.muted }}>
+                      ⋯ {line.count} unchanged line{line.count === 1 ? '' : 's'}
+                    </div>
+                  ) : (
+                    <div
+                      key={index}
+                      className={`whitespace-pre-wrap break-words px-1 ${
+                        line.type === 'added' ? 'bg-green-900/40' : line.type === 'removed' ? 'bg-red-900/40' : ''
+                      }`}
+                      style={{ color: line.type === 'same' ? colors.secondary : colors.primary }}
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                      {line.text || ' '}
+                    </div>
+                  )
+                )
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end gap-2 pt-2 border-t border-white/10">
+          <button type="button" onClick={onClose} className={buttonClassName} style={{ color: colors.button }}>
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={() => selected && onRestore(selected)}
+            disabled={!selected || isCurrent}
+            className={buttonClassName}
+            style={{ color: colors.button }}
+            title={isCurrent ? 'The tab already has this content' : 'Replace the tab with this version (the current text is kept in the history)'}
+          >
+            Restore this version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useReactiveColors } from './ColorContext';
+import { NotepadTab, NotepadTabGroup, getNumberedTabs } from '@/app/lib/notepadData';
+import { fuzzyMatch } from '@/app/lib/search';
+
+interface NotepadTabSwitcherProps {
+  tabs: NotepadTab[];
+  groups: NotepadTabGroup[];
+  activeTabId: string | null;
+  position: { top: number; right: number }; // Fixed position, under the button that opened it
+  onSelect: (tabId: string) => void;
+  onClose: () => void;
+}
+
+interface TabEntry {
+  tab: NotepadTab;
+  indices: number[]; // Matched characters of the tab name
+  heading?: string; // Shown above the tab when it starts a section of the list
+}
+
+/**
+ * NotepadTabSwitcher - Every tab of a notepad, including the ones scrolled out of the tab bar
+ * Lists pinned tabs, then the rest under their group names; typing filters the tabs by a
+ * fuzzy match of their name (or their group's). Up/Down pick a tab, Enter opens it, Esc closes
+ */
+export default function NotepadTabSwitcher({ tabs, groups, activeTabId, position, onSelect, onClose }: NotepadTabSwitcherProps) {
+  const { colors } = useReactiveColors();
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const numbers = useMemo(
+    () => new Map(getNumberedTabs(tabs).map((tab, index) => [tab.id, index + 1])),
+    [tabs]
+  );
+
+  const entries = useMemo((): TabEntry[] => {
+    const groupNames = new Map(groups.map((group) => [group.id, group.name]));
+    if (!query.trim()) {
+      // Ungrouped tabs only need a heading to set them apart from pinned and grouped ones
+      const otherTabs = tabs.some((tab) => tab.pinned || tab.groupId) ? 'Tabs' : '';
+      let section: string | undefined;
+      return tabs.map((tab) => {
+        const tabSection = tab.pinned ? 'pinned' : tab.groupId ?? 'tabs';
+        const isNewSection = tabSection !== section;
+        section = tabSection;
+        const heading = tab.pinned ? 'Pinned' : tab.groupId ? groupNames.get(tab.groupId) : otherTabs;
+        return { tab, indices: [], heading: isNewSection && heading ? heading : undefined };
+      });
+    }
+
+    const matches: Array<TabEntry & { score: number }> = [];
+    for (const tab of tabs) {
+      const nameMatch = fuzzyMatch(query, tab.name);
+      // A tab is also found by its group's name, ranked below name matches
+      const groupMatch = !nameMatch && tab.groupId ? fuzzyMatch(query, groupNames.get(tab.groupId) ?? '') : null;
+      if (nameMatch) {
+        matches.push({ tab, indices: nameMatch.indices, score: nameMatch.score });
+      } else if (groupMatch) {
+        matches.push({ tab, indices: [], score: groupMatch.score - 1 });
+      }
+    }
+    return matches.sort((a, b) => b.score - a.score);
+  }, [tabs, groups, query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!panelRef.current?.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('closeModals', onClose);
+    window.addEventListener('resize', onClose);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('closeModals', onClose);
+      window.removeEventListener('resize', onClose);
+    };
+  }, [onClose]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (entries.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelectedIndex((index) => (index + step + entries.length) % entries.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const entry = entries[selectedIndex];
+      if (entry) onSelect(entry.tab.id);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    }
+  };
+
+  const renderName = ({ tab, indices }: TabEntry) => {
+    if (indices.length === 0) return tab.name || ' ';
+    const matched = new Set(indices);
+    return tab.name.split('').map((char, index) =>
+      matched.has(index) ? (
+        <mark key={index} className="bg-white/25 rounded-sm" style={{ color: colors.primary }}>
+          {char}
+        </mark>
+      ) : (
+        <span key={index}>{char}</span>
+      )
+    );
+  };
+
+  return (
+    <div
+      ref={panelRef}
+      data-settings-modal="true"
+      role="dialog"
+      aria-label="Switch tab"
+      className="fixed z-50 w-64 p-2 space-y-2 bg-black/90 border border-white/30 rounded-sm shadow-lg backdrop-blur-sm"
+      style={{ top: position.top, right: position.right }}
+    >
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={`Find a tab (${tabs.length})…`}
+        aria-label="Find a tab"
+        autoFocus
+        className="w-full bg-black/10 border border-white/20 rounded-sm px-2 py-1 font-mono text-xs focus:outline-none focus:border-white/50"
+        style={{ color: colors.primary }}
+      />
+
+      {entries.length === 0 ? (
+        <p className="px-1 text-xs font-mono" style={{ color: colors.muted }}>No matching tabs.</p>
+      ) : (
+        <ul ref={listRef} role="listbox" className="max-h-64 overflow-y-auto auto-hide-scrollbar">
+          {entries.map((entry, index) => {
+            const { tab, heading } = entry;
+            const number = numbers.get(tab.id);
+            const isSelected = index === selectedIndex;
+            return (
+              <li key={tab.id}>
+                {heading && (
+                  <div className="px-2 pt-1.5 pb-0.5 text-[10px] uppercase tracking-wide font-mono truncate" style={{ color: colors.muted }}>
+                    {heading}
+                  </div>
+                )}
+                <div
+                  role="option"
+                  aria-selected={isSelected}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  onClick={() => onSelect(tab.id)}
+                  className={`
+                    flex items-center gap-2 px-2 py-1 border rounded-sm cursor-pointer font-mono text-xs
+                    ${isSelected ? 'bg-white/10 border-white/40' : 'border-transparent'}
+                  `}
+                  style={{ color: tab.id === activeTabId ? colors.primary : colors.secondary }}
+                >
+                  <span className={`flex-1 truncate ${tab.id === activeTabId ? 'font-semibold' : ''}`}>
+                    {renderName(entry)}
+                  </span>
+                  {number !== undefined && (
+                    <span className="shrink-0" style={{ color: colors.muted }}>Ctrl+{number}</span>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useReactiveColors } from './ColorContext';
+import { getTabPlainText } from '@/app/lib/markdown';
+import { NotepadTrash, TrashedTab, getExpiryTime } from '@/app/lib/notepadTrash';
+
+interface NotepadTrashPanelProps {
+  trash: NotepadTrash | null; // Null while loading
+  retentionDays: number;
+  onRestore: (trashed: TrashedTab) => void;
+  onDelete: (trashed: TrashedTab[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LENGTH = 120;
+
+// "in 3 days", "in 5 hours" or "within the hour"
+const formatTimeLeft = (ms: number): string => {
+  const hours = Math.floor(ms / (60 * 60 * 1000));
+  if (hours >= 48) return `in ${Math.floor(hours / 24)} days`;
+  if (hours >= 1) return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+  return 'within the hour';
+};
+
+/**
+ * NotepadTrashPanel - Recently closed notepad tabs
+ * Lists the closed tabs newest first with the start of their text; each can be reopened
+ * where it was or deleted for good. Opened from the notepad's ⋯ menu; Esc closes it
+ */
+export default function NotepadTrashPanel({ trash, retentionDays, onRestore, onDelete, onClose }: NotepadTrashPanelProps) {
+  const { colors } = useReactiveColors();
+
+  useEffect(() => {
+    window.addEventListener('closeModals', onClose);
+    return () => window.removeEventListener('closeModals', onClose);
+  }, [onClose]);
+
+  const buttonClassName = `
+    px-3 py-1.5
+    bg-white/10
+    border border-white/30
+    rounded-sm
+    hover:bg-white/15
+    hover:border-white/50
+    transition-all duration-200
+    font-mono text-xs
+    disabled:opacity-50 disabled:cursor-not-allowed
+  `;
+
+  const deleteTab = (trashed: TrashedTab) => {
+    if (confirm(`Delete "${trashed.tab.name}" permanently? This cannot be undone.`)) {
+      onDelete([trashed]);
+    }
+  };
+
+  const emptyTrash = () => {
+    if (trash && confirm(`Delete all ${trash.length} closed tabs permanently? This cannot be undone.`)) {
+      onDelete(trash);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+      onClick={(e) => {
+        // Close on backdrop click
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div
+        data-settings-modal="true"
+        role="dialog"
+        aria-label="Closed tabs"
+        className="bg-black/90 border border-white/30 rounded-sm p-4 w-full max-w-lg max-h-[80%] mx-4 flex flex-col gap-3 min-h-0"
+      >
+        {/* Header */}
+        <div className="flex justify-between items-baseline gap-2 border-b border-white/10 pb-2">
+          <h3 className="text-lg font-semibold font-mono" style={{ color: colors.secondary }}>
+            Closed tabs
+          </h3>
+          <span className="text-xs font-mono" style={{ color: colors.muted }}>
+            Kept {retentionDays} day{retentionDays === 1 ? '' : 's'}
+          </span>
+        </div>
+
+        {trash === null ? (
+          <p className="text-xs font-mono" style={{ color: colors.muted }}>Loading…</p>
+        ) : trash.length === 0 ? (
+          <p className="text-xs font-mono" style={{ color: colors.muted }}>
+            No closed tabs. Tabs you close show up here and can be reopened with Ctrl+Alt+Z.
+          </p>
+        ) : (
+          <ul className="flex-1 min-h-0 overflow-y-auto auto-hide-scrollbar space-y-1">
+            {trash.map((trashed) => {
+              const text = getTabPlainText(trashed.tab).replace(/\s+/g, ' ').trim();
+              return (
+                <li
+                  key={trashed.tab.id}
+                  className="flex items-start gap-2 px-2 py-1.5 border border-white/10 rounded-sm font-mono text-xs"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex gap-2">
+                      <span className="truncate" style={{ color: colors.primary }}>{trashed.tab.name}</span>
+                      {trashed.group && (
+                        <span className="shrink-0" style={{ color: colors.muted }}>· {trashed.group.name}</span>
+                      )}
+                    </div>
+                    <div className="truncate" style={{ color: colors.secondary }}>
+                      {text ? text.slice(0, PREVIEW_LENGTH) : '(empty)'}
+                    </div>
+                    <div style={{ color: colors.muted }}>
+                      Closed {new Date(trashed.closedAt).toLocaleString()} · deleted{' '}
+                      {formatTimeLeft(getExpiryTime(trashed, retentionDays) - Date.now())}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <button
+                      type="button"
+                      onClick={() => onRestore(trashed)}
+                      className={buttonClassName}
+                      style={{ color: colors.button }}
+                      title="Reopen this tab where it was"
+                    >
+                      Reopen
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deleteTab(trashed)}
+                      className={buttonClassName}
+                      style={{ color: colors.button }}
+                      title="Delete this tab permanently"
+                      aria-label={`Delete ${trashed.tab.name} permanently`}
+                    >
+                      ×
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-between gap-2 pt-2 border-t border-white/10">
+          <button
+            type="button"
+            onClick={emptyTrash}
+            disabled={!trash || trash.length === 0}
+            className={buttonClassName}
+            style={{ color: colors.button }}
+          >
+            Empty trash
+          </button>
+          <button type="button" onClick={onClose} className={buttonClassName} style={{ color: colors.button }}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,98 @@
 'use client';
 
-import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { Fragment, useState, useEffect, useRef, useMemo, useCallback, useId } from 'react';
 import Widget from './Widget';
-import { getFromLocalStorage, saveToLocalStorage } from '@/app/lib/utils';
+import { getWorkspaceKey } from '@/app/lib/workspaces';
+import { getInstanceStorageKey } from '@/app/lib/widgetConfig';
+import { NotepadSettings } from '@/app/lib/widgetSettings';
+import { readStoredValueAsync, writeStoredValueAsync, decodeStoredValue } from '@/app/lib/storage';
+import {
+  NotepadTab,
+  NotepadTabGroup,
+  NotepadData,
+  MarkdownView,
+  MARKDOWN_VIEWS,
+  notepadSchema,
+  createDefaultNotepadData,
+  orderTabs,
+  moveTab,
+  getNumberedTabs,
+  pruneGroups,
+} from '@/app/lib/notepadData';
+import { addImage, getImageIds, hydrateImageLinks, deleteUnusedImages } from '@/app/lib/notepadImages';
+import { NotepadFormat, NOTEPAD_FORMATS, sanitizeNotepadHtml, getCurrentBlockTag, getShortcutFormat, toggleInlineCode } from '@/app/lib/notepadHtml';
+import { subscribeToStorageKey } from '@/app/lib/crossTabSync';
+import {
+  notepadTabsToMarkdown,
+  notepadHtmlToMarkdown,
+  markdownToNotepadHtml,
+  markdownToNotepadTabs,
+  renderMarkdown,
+  toggleMarkdownTask,
+  getTabMarkdown,
+  getTabPlainText,
+  getExportFileName,
+} from '@/app/lib/markdown';
+import { createZip } from '@/app/lib/zip';
+import { SearchJump, findTextOffset, findTextRange } from '@/app/lib/search';
+import {
+  NotepadRevision,
+  HISTORY_STORAGE_KEY,
+  REVISION_IDLE_MS,
+  addRevision,
+  pruneHistory,
+  updateNotepadHistory,
+} from '@/app/lib/notepadHistory';
+import {
+  NotepadTrash,
+  TrashedTab,
+  TRASH_STORAGE_KEY,
+  getRetentionDays,
+  addToTrash,
+  removeFromTrash,
+  purgeTrash,
+  updateNotepadTrash,
+  restoreTrashedTab,
+} from '@/app/lib/notepadTrash';
+import { downloadBlob } from '@/app/lib/utils';
+import { getLinkPreviewMode, getLinkUrls } from '@/app/lib/linkPreview';
+import {
+  findTabByName,
+  getBacklinks,
+  getWikiLinkAt,
+  getWikiLinkQuery,
+  getWikiLinkSuggestions,
+  highlightWikiLinks,
+} from '@/app/lib/wikiLinks';
+import MarkdownMenu from './MarkdownMenu';
+import NotepadHistoryPanel from './NotepadHistoryPanel';
+import NotepadTabSwitcher from './NotepadTabSwitcher';
+import NotepadTrashPanel from './NotepadTrashPanel';
+import LinkPreviewPopup from './LinkPreviewPopup';
+import LinkPreviewList from './LinkPreviewList';
+import WikiLinkSuggestions from './WikiLinkSuggestions';
 import { useReactiveColors } from './ColorContext';
 import { useWidgetKeyboardShortcuts } from '@/app/lib/useWidgetKeyboardShortcuts';
 
 const STORAGE_KEY = 'hyperdash-notepad';
-const MAX_TABS = 9;
 
-interface NotepadTab {
-  id: string;
-  name: string;
-  content: string;
-}
-
-interface NotepadData {
-  tabs: NotepadTab[];
-  activeTabId: string;
-}
+// Link cards shown below the text in inline link preview mode
+const MAX_INLINE_LINK_PREVIEWS = 6;
+
+const MARKDOWN_VIEW_LABELS: Record<MarkdownView, string> = { source: 'Source', split: 'Split', preview: 'Preview' };
+
+// Timestamp inserted with Ctrl+S, e.g. ` ~ 03/14 09:05 PM ~ `
+const formatTimestamp = (now: Date): string => {
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  let hours = now.getHours();
+  const minutes = String(now.getMinutes()).padStart(2, '0');
+  const ampm = hours >= 12 ? 'PM' : 'AM';
+  hours = hours % 12;
+  hours = hours ? hours : 12; // 0 should be 12
+  const hoursStr = String(hours).padStart(2, '0');
+  return ` ~ ${month}/${day} ${hoursStr}:${minutes} ${ampm} ~ `;
+};
 
 
 interface SerializedSelection {
@@ -106,25 +180,92 @@ const deserializeRange = (data: SerializedSelection, root: Node): Range | null =
   return range;
 };
 
-export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
+// Styles that decide where a textarea's text wraps
+const TEXTAREA_LAYOUT_STYLES = [
+  'boxSizing', 'width', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth',
+  'fontFamily', 'fontSize', 'fontWeight', 'lineHeight', 'letterSpacing', 'tabSize',
+] as const;
+
+// Viewport position of a character in a textarea, measured on a hidden copy of its text
+const getTextareaCaretPosition = (textarea: HTMLTextAreaElement, index: number): { top: number; left: number; height: number } => {
+  const style = window.getComputedStyle(textarea);
+  const mirror = document.createElement('div');
+  TEXTAREA_LAYOUT_STYLES.forEach(property => {
+    mirror.style[property] = style[property];
+  });
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+  mirror.textContent = textarea.value.slice(0, index);
+  const marker = document.createElement('span');
+  marker.textContent = '\u200b';
+  mirror.appendChild(marker);
+  document.body.appendChild(mirror);
+
+  const rect = textarea.getBoundingClientRect();
+  const position = {
+    top: rect.top + marker.offsetTop - textarea.scrollTop,
+    left: rect.left + marker.offsetLeft - textarea.scrollLeft,
+    height: marker.offsetHeight,
+  };
+  mirror.remove();
+  return position;
+};
+
+interface NotepadWidgetProps {
+  isFocused?: boolean;
+  instanceId?: string;
+  settings?: NotepadSettings;
+}
+
+export default function NotepadWidget({ isFocused, instanceId, settings }: NotepadWidgetProps) {
   const [tabs, setTabs] = useState<NotepadTab[]>([]);
+  const [groups, setGroups] = useState<NotepadTabGroup[]>([]);
   const [activeTabId, setActiveTabId] = useState<string | null>(null);
   const [editingTabId, setEditingTabId] = useState<string | null>(null);
   const [editingTabName, setEditingTabName] = useState('');
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+  const [editingGroupName, setEditingGroupName] = useState('');
   const [draggedTabId, setDraggedTabId] = useState<string | null>(null);
   const [dragOverTabId, setDragOverTabId] = useState<string | null>(null);
   const [hasOverflow, setHasOverflow] = useState(false);
   const [pendingActiveTabId, setPendingActiveTabId] = useState<string | null>(null);
+  const [pendingSearchJump, setPendingSearchJump] = useState<SearchJump | null>(null); // Search result to show
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [trash, setTrash] = useState<NotepadTrash | null>(null); // Closed tabs, while the trash is open
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [tabSwitcherPosition, setTabSwitcherPosition] = useState<{ top: number; right: number } | null>(null);
+  // [[link]] being typed at the caret, for the tab name suggestions
+  const [wikiLinkQuery, setWikiLinkQuery] = useState<{
+    text: string;
+    position: { top: number; left: number };
+    selectedIndex: number;
+  } | null>(null);
   const editorRef = useRef<HTMLDivElement>(null);
+  const editorContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const fileInputId = useId(); // Unique per instance so labels target their own input
+  const markdownInputRef = useRef<HTMLInputElement>(null);
+  const sourceRef = useRef<HTMLTextAreaElement>(null); // Markdown source of a Markdown tab
   const tabNameInputRef = useRef<HTMLInputElement>(null);
+  const groupNameInputRef = useRef<HTMLInputElement>(null);
+  const tabListButtonRef = useRef<HTMLButtonElement>(null);
   const tabContainerRef = useRef<HTMLDivElement>(null);
   const tabsListRef = useRef<HTMLDivElement>(null);
   const savedSelectionsRef = useRef<Record<string, SerializedSelection>>({});
   const activeTabRef = useRef<HTMLDivElement>(null);
   const isSwitchingTabRef = useRef(false);
+  const skipNextSaveRef = useRef(false); // Set when applying tabs saved in another tab
+  const savedTabContentRef = useRef<Record<string, Pick<NotepadTab, 'content' | 'format'>>>({}); // As of the last render
+  const revisionTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({}); // Tabs edited since their last revision
+  const latestTabsRef = useRef<{ tabs: NotepadTab[]; groups: NotepadTabGroup[] }>({ tabs: [], groups: [] }); // As of the last render
   const { colors } = useReactiveColors();
 
+  // Editor content as saved in the tab (sanitized, so only notepad formatting and links remain)
+  const getEditorContent = () => sanitizeNotepadHtml(editorRef.current?.innerHTML ?? '');
+
   const saveCurrentSelection = useCallback(() => {
     if (!editorRef.current || !activeTabId) return;
     const selection = window.getSelection();
@@ -193,62 +334,75 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     };
   }, [activeTabId]);
 
+  // Each notepad instance keeps its own tabs
+  const storageKey = useMemo(() => getWorkspaceKey(getInstanceStorageKey(STORAGE_KEY, 'notepad', instanceId)), [instanceId]);
+  const historyKey = useMemo(
+    () => getWorkspaceKey(getInstanceStorageKey(HISTORY_STORAGE_KEY, 'notepad', instanceId)),
+    [instanceId]
+  );
+  const trashKey = useMemo(
+    () => getWorkspaceKey(getInstanceStorageKey(TRASH_STORAGE_KEY, 'notepad', instanceId)),
+    [instanceId]
+  );
+  const retentionDays = getRetentionDays(settings?.trashRetentionDays);
+  const retentionDaysRef = useRef(retentionDays);
+  useEffect(() => {
+    retentionDaysRef.current = retentionDays;
+  }, [retentionDays]);
+  const linkPreviewMode = getLinkPreviewMode(settings?.linkPreviews);
+
   // Initialize tabs from storage or create default tab
   useEffect(() => {
-    const saved = getFromLocalStorage(STORAGE_KEY);
-    if (saved) {
-      try {
-        const data: NotepadData = JSON.parse(saved);
-        if (data.tabs && data.tabs.length > 0) {
-          setTabs(data.tabs);
-          setActiveTabId(data.activeTabId || data.tabs[0].id);
-          isSwitchingTabRef.current = true;
-        } else {
-          // Migrate old single notepad format
-          const oldContent = saved;
-          const defaultTab: NotepadTab = {
-            id: Date.now().toString(),
-            name: 'Notepad 1',
-            content: oldContent,
-          };
-          setTabs([defaultTab]);
-          setActiveTabId(defaultTab.id);
-          isSwitchingTabRef.current = true;
-        }
-      } catch (error) {
-        // If parsing fails, treat as old format
-        const defaultTab: NotepadTab = {
-          id: Date.now().toString(),
-          name: 'Notepad 1',
-          content: saved,
-        };
-        setTabs([defaultTab]);
-        setActiveTabId(defaultTab.id);
-        isSwitchingTabRef.current = true;
-      }
-    } else {
-      // No saved data, create default tab
-      const defaultTab: NotepadTab = {
-        id: Date.now().toString(),
-        name: 'Notepad 1',
-        content: '',
-      };
-      setTabs([defaultTab]);
-      setActiveTabId(defaultTab.id);
+    let cancelled = false;
+
+    const loadTabs = async () => {
+      // Older formats (e.g. the single plain-text notepad) are migrated by notepadSchema
+      const data = (await readStoredValueAsync(storageKey, notepadSchema)) ?? createDefaultNotepadData();
+      if (cancelled) return;
+      setTabs(data.tabs);
+      setGroups(data.groups ?? []);
+      setActiveTabId(data.activeTabId);
       isSwitchingTabRef.current = true;
-    }
-  }, []);
+
+      // Drop saved images whose links were deleted
+      const usedImageIds = new Set(data.tabs.flatMap(tab => getImageIds(tab.content)));
+      deleteUnusedImages(storageKey, usedImageIds).catch(error => {
+        console.error('Error cleaning up notepad images:', error);
+      });
+      // ...closed tabs kept longer than the notepad's retention setting, and the history of
+      // tabs that are neither open nor in the trash
+      updateNotepadTrash(trashKey, trash => purgeTrash(trash, retentionDaysRef.current))
+        .then(trash => {
+          const tabIds = new Set([...data.tabs, ...trash.map(trashed => trashed.tab)].map(tab => tab.id));
+          return updateNotepadHistory(historyKey, history => pruneHistory(history, tabIds));
+        })
+        .catch(error => {
+          console.error('Error cleaning up closed notepad tabs:', error);
+        });
+    };
+
+    loadTabs();
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey, historyKey, trashKey]);
+
+  useEffect(() => {
+    latestTabsRef.current = { tabs, groups };
+  }, [tabs, groups]);
 
   // Load active tab content into editor when switching tabs
   useEffect(() => {
     if (activeTabId && editorRef.current && tabs.length > 0 && isSwitchingTabRef.current) {
       const activeTab = tabs.find(tab => tab.id === activeTabId);
       if (activeTab) {
-        editorRef.current.innerHTML = activeTab.content;
-        setContent(activeTab.content);
+        const safeContent = sanitizeNotepadHtml(activeTab.content);
+        editorRef.current.innerHTML = safeContent;
+        setContent(safeContent);
         isSwitchingTabRef.current = false;
-        // Reattach click handlers for image links
+        // Reattach click handlers for image links and point them at the saved images
         attachImageLinkHandlers();
+        hydrateImageLinks(editorRef.current);
         // Reset link count and renumber image links when loading tab content
         const links = editorRef.current.querySelectorAll('a.notepad-image-link');
         previousLinkCountRef.current = links.length;
@@ -270,6 +424,70 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     }
   }, [activeTabId, tabs, restoreSelection]);
 
+  // Search results for this notepad (see SearchPalette) open their tab and select the match
+  useEffect(() => {
+    const handleSearchJump = (e: Event) => {
+      const jump = (e as CustomEvent<SearchJump>).detail;
+      if (jump.kind === 'note' && jump.instanceId === (instanceId ?? 'notepad')) {
+        setPendingSearchJump(jump);
+      }
+    };
+
+    window.addEventListener('searchJump', handleSearchJump);
+    return () => window.removeEventListener('searchJump', handleSearchJump);
+  }, [instanceId]);
+
+  // Runs after the tab's content is loaded into the editor above
+  useEffect(() => {
+    if (!pendingSearchJump) return;
+    const tab = tabs.find(t => t.id === pendingSearchJump.itemId);
+    if (!tab) {
+      setPendingSearchJump(null);
+      return;
+    }
+    if (tab.id !== activeTabId) {
+      saveCurrentSelection();
+      isSwitchingTabRef.current = true;
+      setActiveTabId(tab.id);
+      setEditingTabId(null);
+      return;
+    }
+    // The match is selected in the source, so a Markdown tab in preview shows it split
+    if (tab.format === 'markdown' && tab.markdownView === 'preview') {
+      setTabs(prevTabs => prevTabs.map(t => t.id === tab.id ? { ...t, markdownView: 'split' } : t));
+      return;
+    }
+
+    const { match, occurrence } = pendingSearchJump;
+    setPendingSearchJump(null);
+    requestAnimationFrame(() => {
+      const source = sourceRef.current;
+      if (source) {
+        source.focus();
+        const offset = findTextOffset(source.value, match, occurrence);
+        if (offset === -1) return;
+        source.setSelectionRange(offset, offset + match.length);
+        // Bring the selected line to the middle of the textarea
+        const line = source.value.slice(0, offset).split('\n').length - 1;
+        const lineHeight = parseFloat(getComputedStyle(source).lineHeight) || 20;
+        source.scrollTop = Math.max(0, line * lineHeight - source.clientHeight / 2);
+        return;
+      }
+
+      const editor = editorRef.current;
+      if (!editor) return;
+      editor.focus();
+      const range = findTextRange(editor, match, occurrence);
+      if (!range) return;
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+      // Scroll only the editor (not the dashboard) to bring the match to its middle
+      const offsetTop = range.getBoundingClientRect().top - editor.getBoundingClientRect().top;
+      editor.scrollTop += offsetTop - editor.clientHeight / 2;
+    });
+  }, [pendingSearchJump, tabs, activeTabId, saveCurrentSelection]);
+
   // Attach click handlers to image links so they open properly
   const attachImageLinkHandlers = () => {
     if (!editorRef.current) return;
@@ -389,7 +607,7 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     
     // Only save if something changed
     if (changed) {
-      const newContent = editorRef.current.innerHTML;
+      const newContent = getEditorContent();
       setContent(newContent);
       setTabs(prevTabs => prevTabs.map(tab =>
         tab.id === activeTabId ? { ...tab, content: newContent } : tab
@@ -397,16 +615,95 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     }
   };
 
+  // Apply tabs saved in other tabs: the most recent save wins, except that the tab
+  // being typed in here keeps its text (and this tab's next save wins for it)
+  useEffect(() => {
+    return subscribeToStorageKey(storageKey, (raw) => {
+      const data = raw === null ? null : decodeStoredValue(notepadSchema, raw).value;
+      if (!data) return;
+
+      const keepsActiveTab = data.tabs.some(tab => tab.id === activeTabId);
+      const isEditing =
+        (!!editorRef.current && document.activeElement === editorRef.current) ||
+        (!!sourceRef.current && document.activeElement === sourceRef.current);
+      const editingTabId = isEditing && keepsActiveTab ? activeTabId : null;
+
+      skipNextSaveRef.current = true;
+      isSwitchingTabRef.current = editingTabId === null; // Reload the editor from the new content
+      setTabs(prevTabs => data.tabs.map(tab =>
+        tab.id === editingTabId ? prevTabs.find(t => t.id === tab.id) ?? tab : tab
+      ));
+      setGroups(data.groups ?? []);
+      if (!keepsActiveTab) {
+        setActiveTabId(data.activeTabId);
+      }
+    });
+  }, [storageKey, activeTabId]);
+
   // Save tabs to storage whenever they change
   useEffect(() => {
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
     if (tabs.length > 0 && activeTabId) {
       const data: NotepadData = {
         tabs,
         activeTabId,
       };
-      saveToLocalStorage(STORAGE_KEY, JSON.stringify(data));
+      const usedGroups = pruneGroups(groups, tabs);
+      if (usedGroups.length > 0) {
+        data.groups = usedGroups;
+      }
+      writeStoredValueAsync(storageKey, notepadSchema, data);
     }
-  }, [tabs, activeTabId]);
+  }, [tabs, groups, activeTabId, storageKey]);
+
+  const recordRevision = useCallback((tabId: string, { content, format }: Pick<NotepadTab, 'content' | 'format'>) => {
+    updateNotepadHistory(historyKey, history => addRevision(history, tabId, content, format)).catch(error => {
+      console.error('Error saving notepad history:', error);
+    });
+  }, [historyKey]);
+
+  // Version history: a revision once a tab has been idle for REVISION_IDLE_MS after changes,
+  // plus the content from before the changes (skipped when the history already ends with it)
+  useEffect(() => {
+    const previous = savedTabContentRef.current;
+    const timers = revisionTimersRef.current;
+    const current: Record<string, Pick<NotepadTab, 'content' | 'format'>> = {};
+
+    for (const tab of tabs) {
+      current[tab.id] = { content: tab.content, format: tab.format };
+      const before = previous[tab.id];
+      if (!before || (before.content === tab.content && before.format === tab.format)) continue;
+
+      if (timers[tab.id]) {
+        clearTimeout(timers[tab.id]);
+      } else {
+        recordRevision(tab.id, before);
+      }
+      timers[tab.id] = setTimeout(() => {
+        delete timers[tab.id];
+        const latest = savedTabContentRef.current[tab.id];
+        if (latest) recordRevision(tab.id, latest);
+      }, REVISION_IDLE_MS);
+    }
+    savedTabContentRef.current = current;
+  }, [tabs, recordRevision]);
+
+  // Save pending revisions right away when the notepad goes away
+  useEffect(() => {
+    const timers = revisionTimersRef.current;
+    const saved = savedTabContentRef;
+    return () => {
+      for (const [tabId, timer] of Object.entries(timers)) {
+        clearTimeout(timer);
+        delete timers[tabId];
+        const latest = saved.current[tabId];
+        if (latest) recordRevision(tabId, latest);
+      }
+    };
+  }, [recordRevision]);
 
   const activeTab = tabs.find(tab => tab.id === activeTabId);
   const [content, setContent] = useState('');
@@ -446,36 +743,25 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
         tabContainerRef.current.removeEventListener('scroll', handleScroll);
       }
     };
-  }, [tabs]);
+  }, [tabs, groups]);
 
   // Tab management functions
-  const createTab = () => {
+  const createTab = (name?: string) => {
     saveCurrentSelection();
     // Save current tab content before creating new tab
     if (activeTabId && editorRef.current) {
-      const currentContent = editorRef.current.innerHTML;
-      setTabs(prevTabs => {
-        // Check tab limit
-        if (prevTabs.length >= MAX_TABS) {
-          return prevTabs;
-        }
-        return prevTabs.map(tab =>
-          tab.id === activeTabId ? { ...tab, content: currentContent } : tab
-        );
-      });
+      const currentContent = getEditorContent();
+      setTabs(prevTabs => prevTabs.map(tab =>
+        tab.id === activeTabId ? { ...tab, content: currentContent } : tab
+      ));
     }
     
     // Create new tab
     const newTabId = Date.now().toString();
     setTabs(prevTabs => {
-      // Check tab limit
-      if (prevTabs.length >= MAX_TABS) {
-        return prevTabs;
-      }
-      
       const newTab: NotepadTab = {
         id: newTabId,
-        name: `Notepad ${prevTabs.length + 1}`,
+        name: name ?? `Notepad ${prevTabs.length + 1}`,
         content: '',
       };
       
@@ -501,7 +787,7 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     
     // Save current tab content before switching
     if (activeTabId && editorRef.current) {
-      const currentContent = editorRef.current.innerHTML;
+      const currentContent = getEditorContent();
       setTabs(prevTabs => prevTabs.map(tab =>
         tab.id === activeTabId ? { ...tab, content: currentContent } : tab
       ));
@@ -511,14 +797,36 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     setEditingTabId(null);
   };
 
+  // Closed tabs go to the trash; the last tab is cleared instead, with a copy of its content in the trash
+  const trashTab = (tabId: string) => {
+    const { tabs: currentTabs, groups: currentGroups } = latestTabsRef.current;
+    const index = currentTabs.findIndex(tab => tab.id === tabId);
+    if (index === -1) return;
+    const tab = activeTabId === tabId && editorRef.current
+      ? { ...currentTabs[index], content: getEditorContent() }
+      : currentTabs[index];
+    const isEmpty = !getTabPlainText(tab).trim() && getImageIds(tab.content).length === 0;
+    if (currentTabs.length === 1 && isEmpty) return;
+
+    const trashed: TrashedTab = { tab, closedAt: Date.now(), index };
+    const group = currentGroups.find(g => g.id === tab.groupId);
+    if (group) {
+      trashed.group = group;
+    }
+    updateNotepadTrash(trashKey, trash => addToTrash(purgeTrash(trash, retentionDaysRef.current), trashed)).catch(error => {
+      console.error('Error saving closed notepad tab:', error);
+    });
+  };
+
   const deleteTab = (tabId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     saveCurrentSelection();
+    trashTab(tabId);
     delete savedSelectionsRef.current[tabId];
     
     // Save current tab content before deleting if it's the active tab
     if (activeTabId === tabId && editorRef.current) {
-      const currentContent = editorRef.current.innerHTML;
+      const currentContent = getEditorContent();
       setTabs(prevTabs => prevTabs.map(tab =>
         tab.id === activeTabId ? { ...tab, content: currentContent } : tab
       ));
@@ -530,9 +838,8 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
         if (editorRef.current) {
           editorRef.current.innerHTML = '';
           setContent('');
-          return [{ ...prevTabs[0], content: '' }];
         }
-        return prevTabs;
+        return [{ ...prevTabs[0], content: '' }];
       }
       
       const newTabs = prevTabs.filter(tab => tab.id !== tabId);
@@ -581,6 +888,82 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     setEditingTabName('');
   };
 
+  // Pinned tabs move to the front and leave their group; unpinned ones follow the pinned tabs
+  const togglePinTab = (tabId: string) => {
+    setTabs(prevTabs => orderTabs(prevTabs.map(tab => {
+      if (tab.id !== tabId) return tab;
+      const { pinned, groupId: _groupId, ...rest } = tab;
+      return pinned ? rest : { ...rest, pinned: true };
+    })));
+  };
+
+  // Move a tab into a group (or out of its group when groupId is null)
+  const setTabGroup = (tabId: string, groupId: string | null) => {
+    setTabs(prevTabs => orderTabs(prevTabs.map(tab => {
+      if (tab.id !== tabId) return tab;
+      const { pinned: _pinned, groupId: _groupId, ...rest } = tab;
+      return groupId ? { ...rest, groupId } : rest;
+    })));
+  };
+
+  // Put a tab in a new group and start naming the group
+  const createGroup = (tabId: string) => {
+    const usedNames = new Set(groups.map(group => group.name));
+    let n = 1;
+    while (usedNames.has(`Group ${n}`)) n++;
+    const group: NotepadTabGroup = { id: Date.now().toString(), name: `Group ${n}` };
+    setGroups(prevGroups => [...pruneGroups(prevGroups, tabs), group]);
+    setTabGroup(tabId, group.id);
+    setEditingGroupId(group.id);
+    setEditingGroupName(group.name);
+    requestAnimationFrame(() => {
+      groupNameInputRef.current?.focus();
+      groupNameInputRef.current?.select();
+    });
+  };
+
+  // Remove a group, keeping its tabs
+  const ungroup = (groupId: string) => {
+    setTabs(prevTabs => orderTabs(prevTabs.map(tab => {
+      if (tab.groupId !== groupId) return tab;
+      const { groupId: _groupId, ...rest } = tab;
+      return rest;
+    })));
+    setGroups(prevGroups => prevGroups.filter(group => group.id !== groupId));
+  };
+
+  const toggleGroupCollapsed = (groupId: string) => {
+    setGroups(prevGroups => prevGroups.map(group => {
+      if (group.id !== groupId) return group;
+      const { collapsed, ...rest } = group;
+      return collapsed ? rest : { ...rest, collapsed: true };
+    }));
+  };
+
+  const startRenameGroup = (group: NotepadTabGroup) => {
+    setEditingGroupId(group.id);
+    setEditingGroupName(group.name);
+    requestAnimationFrame(() => {
+      groupNameInputRef.current?.focus();
+      groupNameInputRef.current?.select();
+    });
+  };
+
+  const saveRenameGroup = (groupId: string) => {
+    if (editingGroupName.trim()) {
+      setGroups(prevGroups => prevGroups.map(group =>
+        group.id === groupId ? { ...group, name: editingGroupName.trim() } : group
+      ));
+    }
+    setEditingGroupId(null);
+    setEditingGroupName('');
+  };
+
+  const cancelRenameGroup = () => {
+    setEditingGroupId(null);
+    setEditingGroupName('');
+  };
+
   // Drag and drop handlers for tab reordering
   const handleTabDragStart = (e: React.DragEvent, tabId: string) => {
     // Prevent dragging if this tab is being edited
@@ -631,20 +1014,8 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
       return;
     }
 
-    setTabs(prevTabs => {
-      const draggedIndex = prevTabs.findIndex(tab => tab.id === draggedTabId);
-      const targetIndex = prevTabs.findIndex(tab => tab.id === finalTargetId);
-
-      if (draggedIndex === -1 || targetIndex === -1) {
-        return prevTabs;
-      }
-
-      const newTabs = [...prevTabs];
-      const [removed] = newTabs.splice(draggedIndex, 1);
-      newTabs.splice(targetIndex, 0, removed);
-
-      return newTabs;
-    });
+    // Dropped on a pinned or grouped tab, the tab is pinned or joins the group
+    setTabs(prevTabs => moveTab(prevTabs, draggedTabId, finalTargetId));
     
     setDraggedTabId(null);
     setDragOverTabId(null);
@@ -653,20 +1024,7 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
   const handleTabDragEnd = () => {
     // If we ended drag without dropping, make sure to apply the visual order
     if (draggedTabId && dragOverTabId && draggedTabId !== dragOverTabId) {
-      setTabs(prevTabs => {
-        const draggedIndex = prevTabs.findIndex(tab => tab.id === draggedTabId);
-        const targetIndex = prevTabs.findIndex(tab => tab.id === dragOverTabId);
-
-        if (draggedIndex === -1 || targetIndex === -1) {
-          return prevTabs;
-        }
-
-        const newTabs = [...prevTabs];
-        const [removed] = newTabs.splice(draggedIndex, 1);
-        newTabs.splice(targetIndex, 0, removed);
-
-        return newTabs;
-      });
+      setTabs(prevTabs => moveTab(prevTabs, draggedTabId, dragOverTabId));
     }
     
     setDraggedTabId(null);
@@ -675,28 +1033,16 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
 
   // Calculate visual order during drag
   const getDisplayTabs = () => {
-    if (!draggedTabId || !dragOverTabId || draggedTabId === dragOverTabId) {
-      return tabs;
-    }
-
-    const draggedIndex = tabs.findIndex(tab => tab.id === draggedTabId);
-    const targetIndex = tabs.findIndex(tab => tab.id === dragOverTabId);
-
-    if (draggedIndex === -1 || targetIndex === -1) {
+    if (!draggedTabId || !dragOverTabId) {
       return tabs;
     }
-
-    const newTabs = [...tabs];
-    const [removed] = newTabs.splice(draggedIndex, 1);
-    newTabs.splice(targetIndex, 0, removed);
-
-    return newTabs;
+    return moveTab(tabs, draggedTabId, dragOverTabId);
   };
 
 
   const handleInput = () => {
     if (editorRef.current && activeTabId && !isRenumberingRef.current) {
-      const newContent = editorRef.current.innerHTML;
+      const newContent = getEditorContent();
       setContent(newContent);
       // Update the active tab's content using functional update
       setTabs(prevTabs => prevTabs.map(tab =>
@@ -714,6 +1060,7 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
           renumberImageLinks(true);
         });
       }
+      updateWikiLinkQuery();
     }
     saveCurrentSelection();
   };
@@ -753,17 +1100,7 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
   const insertTimestamp = useCallback(() => {
     if (!editorRef.current) return;
     
-    const now = new Date();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-    let hours = now.getHours();
-    const minutes = String(now.getMinutes()).padStart(2, '0');
-    const ampm = hours >= 12 ? 'PM' : 'AM';
-    hours = hours % 12;
-    hours = hours ? hours : 12; // 0 should be 12
-    const hoursStr = String(hours).padStart(2, '0');
-    
-    const timestamp = ` ~ ${month}/${day} ${hoursStr}:${minutes} ${ampm} ~ `;
+    const timestamp = formatTimestamp(new Date());
     
     // Insert at cursor position
     const selection = window.getSelection();
@@ -812,6 +1149,57 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     }
   }, [handleInput, saveCurrentSelection]);
 
+  // Apply a formatting command to the selection (headings and code blocks toggle back to text)
+  const applyFormat = useCallback((format: NotepadFormat) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    if (document.activeElement !== editor) {
+      editor.focus();
+      restoreSelection(activeTabId, true);
+    }
+
+    const toggleBlock = (tag: string) => {
+      const target = getCurrentBlockTag(editor) === tag ? 'div' : tag.toLowerCase();
+      document.execCommand('formatBlock', false, `<${target}>`);
+    };
+
+    switch (format) {
+      case 'bold':
+        document.execCommand('bold');
+        break;
+      case 'italic':
+        document.execCommand('italic');
+        break;
+      case 'strikethrough':
+        document.execCommand('strikeThrough');
+        break;
+      case 'heading1':
+        toggleBlock('H1');
+        break;
+      case 'heading2':
+        toggleBlock('H2');
+        break;
+      case 'heading3':
+        toggleBlock('H3');
+        break;
+      case 'bulletList':
+        document.execCommand('insertUnorderedList');
+        break;
+      case 'numberedList':
+        document.execCommand('insertOrderedList');
+        break;
+      case 'inlineCode':
+        // execCommand fires the editor's input event (which saves the tab); this edits the DOM directly
+        if (toggleInlineCode(editor)) {
+          editor.dispatchEvent(new Event('input', { bubbles: true }));
+        }
+        break;
+      case 'codeBlock':
+        toggleBlock('PRE');
+        break;
+    }
+  }, [activeTabId, restoreSelection]);
+
   const insertURLLink = (urlString: string) => {
     if (!editorRef.current) return;
     
@@ -998,13 +1386,14 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     // Focus the editor first
     editorRef.current.focus();
     
-    // Create blob URL
-    const blobUrl = URL.createObjectURL(file);
+    // Save the image and link to it by ID (the blob URL only lasts for this session)
+    const { id: imageId, url: blobUrl } = addImage(storageKey, file);
     const imageNumber = getNextImageNumber();
     
     // Create link element
     const link = document.createElement('a');
     link.href = blobUrl;
+    link.dataset.imageId = imageId;
     link.target = '_blank';
     link.rel = 'noopener noreferrer';
     link.textContent = `[Image #${imageNumber}]`;
@@ -1151,8 +1540,413 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     }
   };
 
+  // Tabs with the active tab's latest editor content
+  const getCurrentTabs = () => {
+    if (!editorRef.current) return tabs;
+    const editorContent = getEditorContent();
+    return tabs.map(tab =>
+      tab.id === activeTabId ? { ...tab, content: editorContent } : tab
+    );
+  };
+
+  const exportActiveTab = (format: 'md' | 'txt') => {
+    const tab = getCurrentTabs().find(t => t.id === activeTabId);
+    if (!tab) return;
+    const text = format === 'md' ? getTabMarkdown(tab) : getTabPlainText(tab);
+    const type = format === 'md' ? 'text/markdown' : 'text/plain';
+    downloadBlob(new Blob([text + '\n'], { type }), getExportFileName(tab.name, format));
+  };
+
+  const exportAllTabs = (format: 'md' | 'zip') => {
+    const title = settings?.title || 'Notepad';
+    const currentTabs = getCurrentTabs();
+    if (format === 'md') {
+      downloadBlob(new Blob([notepadTabsToMarkdown(currentTabs)], { type: 'text/markdown' }), getExportFileName(title, 'md'));
+      return;
+    }
+    // One file per tab; tabs with the same name get numbered files
+    const usedNames = new Set<string>();
+    const entries = currentTabs.map(tab => {
+      let name = getExportFileName(tab.name, 'md');
+      for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+        name = getExportFileName(`${tab.name} (${n})`, 'md');
+      }
+      usedNames.add(name.toLowerCase());
+      return { name, content: getTabMarkdown(tab) + '\n' };
+    });
+    downloadBlob(createZip(entries), getExportFileName(title, 'zip'));
+  };
+
+  const handleMarkdownImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (markdownInputRef.current) {
+      markdownInputRef.current.value = '';
+    }
+    if (files.length === 0) return;
+
+    let imported: { name: string; content: string }[] = [];
+    try {
+      for (const file of files) {
+        const fallbackName = file.name.replace(/\.(md|markdown|txt)$/i, '') || 'Imported';
+        imported = imported.concat(markdownToNotepadTabs(await file.text(), fallbackName));
+      }
+    } catch (error) {
+      alert('Error reading file');
+      console.error(error);
+      return;
+    }
+    if (imported.length === 0) {
+      alert('No notes found in the selected files');
+      return;
+    }
+
+    const baseId = Date.now();
+    const newTabs: NotepadTab[] = imported.map((tab, index) => ({
+      id: `${baseId}-${index}`,
+      name: tab.name,
+      content: tab.content,
+    }));
+    saveCurrentSelection();
+    setTabs(getCurrentTabs().concat(newTabs));
+    setPendingActiveTabId(newTabs[0].id);
+  };
+
+  const activeGroups = pruneGroups(groups, tabs); // Groups shown in the tab bar
+  const activeTabGroup = activeGroups.find(group => group.id === activeTab?.groupId);
+
+  const openTabSwitcher = useCallback(() => {
+    const rect = tabListButtonRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setTabSwitcherPosition({ top: rect.bottom + 4, right: window.innerWidth - rect.right });
+  }, []);
+
+  const closeTabSwitcher = useCallback(() => setTabSwitcherPosition(null), []);
+
+  const markdownMenuItems = [
+    { label: 'Find tab…', onSelect: openTabSwitcher, disabled: tabs.length === 0 },
+    { label: activeTab?.pinned ? 'Unpin tab' : 'Pin tab', onSelect: () => activeTab && togglePinTab(activeTab.id), disabled: !activeTab },
+    { label: 'Add tab to new group', onSelect: () => activeTab && createGroup(activeTab.id), disabled: !activeTab },
+    ...activeGroups
+      .filter(group => group !== activeTabGroup)
+      .map(group => ({
+        label: `Move tab to ${group.name}`,
+        onSelect: () => activeTab && setTabGroup(activeTab.id, group.id),
+      })),
+    ...(activeTabGroup && activeTab
+      ? [{ label: `Remove tab from ${activeTabGroup.name}`, onSelect: () => setTabGroup(activeTab.id, null) }]
+      : []),
+    { label: 'Export tab (.md)', onSelect: () => exportActiveTab('md'), disabled: !activeTab },
+    { label: 'Export tab (.txt)', onSelect: () => exportActiveTab('txt'), disabled: !activeTab },
+    { label: 'Export all tabs (.md)', onSelect: () => exportAllTabs('md'), disabled: tabs.length === 0 },
+    { label: 'Export all tabs (.zip)', onSelect: () => exportAllTabs('zip'), disabled: tabs.length === 0 },
+    { label: 'Import Markdown…', onSelect: () => markdownInputRef.current?.click() },
+    { label: 'Version history…', onSelect: () => setIsHistoryOpen(true), disabled: !activeTab },
+    { label: 'Reopen closed tab', onSelect: () => reopenClosedTab() },
+    { label: 'Closed tabs…', onSelect: () => openTrash() },
+  ];
+
+  const isMarkdownTab = activeTab?.format === 'markdown';
+  const markdownView = activeTab?.markdownView ?? 'split';
+
+  const updateActiveTab = useCallback((update: (tab: NotepadTab) => NotepadTab) => {
+    setTabs(prevTabs => prevTabs.map(tab => tab.id === activeTabId ? update(tab) : tab));
+  }, [activeTabId]);
+
+  const setMarkdownView = (view: MarkdownView) => {
+    updateActiveTab(tab => ({ ...tab, markdownView: view }));
+  };
+
+  const cycleMarkdownView = useCallback(() => {
+    updateActiveTab(tab => {
+      if (tab.format !== 'markdown') return tab;
+      const index = MARKDOWN_VIEWS.indexOf(tab.markdownView ?? 'split');
+      return { ...tab, markdownView: MARKDOWN_VIEWS[(index + 1) % MARKDOWN_VIEWS.length] };
+    });
+  }, [updateActiveTab]);
+
+  // Switch the active tab between rich text and Markdown source, converting its content
+  const toggleMarkdownMode = () => {
+    if (!activeTab) return;
+    if (isMarkdownTab) {
+      const html = markdownToNotepadHtml(activeTab.content, 0);
+      isSwitchingTabRef.current = true; // Load the converted content into the editor
+      updateActiveTab(({ format: _format, markdownView: _view, ...tab }) => ({ ...tab, content: html }));
+      return;
+    }
+
+    const html = getEditorContent();
+    if (getImageIds(html).length > 0 && !confirm('Image links in this tab will become plain text in Markdown. Continue?')) {
+      return;
+    }
+    saveCurrentSelection();
+    const markdown = notepadHtmlToMarkdown(html, 0);
+    updateActiveTab(tab => ({ ...tab, content: markdown, format: 'markdown', markdownView: 'split' }));
+  };
+
+  // Replace the active tab's content with an earlier version; the content it had goes into the history first
+  const restoreRevision = (revision: NotepadRevision) => {
+    if (!activeTab) return;
+    const timers = revisionTimersRef.current;
+    if (timers[activeTab.id]) {
+      clearTimeout(timers[activeTab.id]);
+      delete timers[activeTab.id];
+    }
+    recordRevision(activeTab.id, { content: activeTab.content, format: activeTab.format });
+
+    delete savedSelectionsRef.current[activeTab.id];
+    isSwitchingTabRef.current = true; // Load the restored content into the editor
+    updateActiveTab(({ format: _format, markdownView, ...tab }) =>
+      revision.format === 'markdown'
+        ? { ...tab, content: revision.content, format: 'markdown', markdownView: markdownView ?? 'split' }
+        : { ...tab, content: revision.content }
+    );
+    setIsHistoryOpen(false);
+  };
+
+  const closeHistory = useCallback(() => setIsHistoryOpen(false), []);
+
+  // Reopen a closed tab where it was (the most recently closed one without a tab ID)
+  const reopenClosedTab = useCallback(async (tabId?: string) => {
+    const taken: { trashed?: TrashedTab } = {};
+    try {
+      const remaining = await updateNotepadTrash(trashKey, trash => {
+        const current = purgeTrash(trash, retentionDaysRef.current);
+        taken.trashed = tabId ? current.find(trashed => trashed.tab.id === tabId) : current[0];
+        return taken.trashed ? removeFromTrash(current, taken.trashed.tab.id) : current;
+      });
+      setTrash(previous => (previous ? remaining : previous));
+    } catch (error) {
+      console.error('Error reopening closed notepad tab:', error);
+      return;
+    }
+    if (!taken.trashed) return;
+
+    const { tabs: currentTabs, groups: currentGroups } = latestTabsRef.current;
+    const restored = restoreTrashedTab(currentTabs, pruneGroups(currentGroups, currentTabs), taken.trashed);
+    setTabs(restored.tabs);
+    setGroups(restored.groups);
+    setPendingActiveTabId(restored.tabId);
+  }, [trashKey]);
+
+  const openTrash = () => {
+    setTrash(null);
+    setIsTrashOpen(true);
+    updateNotepadTrash(trashKey, trash => purgeTrash(trash, retentionDays))
+      .then(setTrash)
+      .catch(error => {
+        console.error('Error loading closed notepad tabs:', error);
+        setTrash([]);
+      });
+  };
+
+  const closeTrash = useCallback(() => setIsTrashOpen(false), []);
+
+  const restoreFromTrash = (trashed: TrashedTab) => {
+    saveCurrentSelection();
+    reopenClosedTab(trashed.tab.id);
+    setIsTrashOpen(false);
+  };
+
+  // Delete closed tabs for good, with their version history
+  const deleteFromTrash = (deleted: TrashedTab[]) => {
+    const deletedIds = new Set(deleted.map(trashed => trashed.tab.id));
+    updateNotepadTrash(trashKey, trash => {
+      const remaining = trash.filter(trashed => !deletedIds.has(trashed.tab.id));
+      return remaining.length === trash.length ? trash : remaining;
+    })
+      .then(remaining => {
+        setTrash(remaining);
+        const tabIds = new Set([...tabs, ...remaining.map(trashed => trashed.tab)].map(tab => tab.id));
+        return updateNotepadHistory(historyKey, history => pruneHistory(history, tabIds));
+      })
+      .catch(error => {
+        console.error('Error deleting closed notepad tabs:', error);
+      });
+  };
+
+  // [[Tab name]] links open the tab with that name, or a new tab named after the link
+  const openWikiLink = (name: string) => {
+    setWikiLinkQuery(null);
+    const target = findTabByName(tabs, name);
+    if (target) {
+      switchTab(target.id);
+    } else {
+      createTab(name);
+    }
+  };
+
+  // The rich text editor's caret, if it is a plain caret in a text node
+  const getEditorCaret = (): { node: Text; offset: number; range: Range } | null => {
+    const selection = window.getSelection();
+    if (!editorRef.current || !selection || selection.rangeCount === 0 || !selection.isCollapsed) return null;
+    const range = selection.getRangeAt(0);
+    const node = range.startContainer;
+    if (!(node instanceof Text) || !editorRef.current.contains(node)) return null;
+    return { node, offset: range.startOffset, range };
+  };
+
+  // Suggest tab names while a [[link]] is typed (after each edit in either editor)
+  const updateWikiLinkQuery = () => {
+    const source = sourceRef.current;
+    let text: string | null = null;
+    let position: { top: number; left: number } | null = null;
+
+    if (source && document.activeElement === source) {
+      text = getWikiLinkQuery(source.value.slice(0, source.selectionStart));
+      if (text !== null) {
+        const caret = getTextareaCaretPosition(source, source.selectionStart);
+        position = { top: caret.top + caret.height + 4, left: caret.left };
+      }
+    } else {
+      const caret = getEditorCaret();
+      text = caret && getWikiLinkQuery(caret.node.data.slice(0, caret.offset));
+      if (caret && text !== null) {
+        const rect = caret.range.getBoundingClientRect();
+        position = { top: rect.bottom + 4, left: rect.left };
+      }
+    }
+
+    if (text === null || !position) {
+      setWikiLinkQuery(null);
+      return;
+    }
+    const query = { text, position };
+    setWikiLinkQuery(previous => ({ ...query, selectedIndex: previous?.text === text ? previous.selectedIndex : 0 }));
+  };
+
+  const closeWikiLinkSuggestions = useCallback(() => setWikiLinkQuery(null), []);
+
+  const wikiLinkSuggestions = useMemo(
+    () => (wikiLinkQuery ? getWikiLinkSuggestions(tabs, wikiLinkQuery.text, activeTabId) : []),
+    [wikiLinkQuery, tabs, activeTabId]
+  );
+
+  // Replace the name typed after [[ with a tab name and close the link
+  const completeWikiLink = (name: string) => {
+    setWikiLinkQuery(null);
+    const completion = `${name}]]`;
+    const source = sourceRef.current;
+
+    if (source && document.activeElement === source) {
+      const caret = source.selectionStart;
+      const typed = getWikiLinkQuery(source.value.slice(0, caret));
+      if (typed === null) return;
+      const start = caret - typed.length;
+      const end = source.value.startsWith(']]', caret) ? caret + 2 : caret;
+      source.setSelectionRange(start, end);
+      // Inserted like typing so it can be undone; the fallback edits the source directly
+      if (!document.execCommand('insertText', false, completion)) {
+        const content = source.value.slice(0, start) + completion + source.value.slice(end);
+        updateActiveTab(tab => ({ ...tab, content }));
+      }
+      return;
+    }
+
+    const caret = getEditorCaret();
+    const typed = caret && getWikiLinkQuery(caret.node.data.slice(0, caret.offset));
+    if (!caret || typed === null) return;
+    const range = document.createRange();
+    range.setStart(caret.node, caret.offset - typed.length);
+    range.setEnd(caret.node, caret.node.data.startsWith(']]', caret.offset) ? caret.offset + 2 : caret.offset);
+    const selection = window.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    document.execCommand('insertText', false, completion); // Fires handleInput
+  };
+
+  // The [[link]] at the caret of either editor (null if the caret isn't on one)
+  const getWikiLinkAtCaret = (): string | null => {
+    const source = sourceRef.current;
+    if (source && document.activeElement === source) {
+      return getWikiLinkAt(source.value, source.selectionStart);
+    }
+    const caret = getEditorCaret();
+    return caret && getWikiLinkAt(caret.node.data, caret.offset);
+  };
+
+  // Ctrl+Enter follows the [[link]] at the caret; Up / Down / Enter pick a suggestion while they're open
+  const handleWikiLinkKeyDown = (e: React.KeyboardEvent) => {
+    const hasModifier = e.ctrlKey || e.metaKey || e.altKey || e.shiftKey;
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey) {
+      const name = getWikiLinkAtCaret();
+      if (name) {
+        e.preventDefault();
+        openWikiLink(name);
+      }
+      return;
+    }
+    if (!wikiLinkQuery) return;
+
+    const count = wikiLinkSuggestions.length;
+    if (count > 0 && !hasModifier && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setWikiLinkQuery(query => query && { ...query, selectedIndex: (query.selectedIndex + step + count) % count });
+    } else if (count > 0 && !hasModifier && e.key === 'Enter') {
+      e.preventDefault();
+      completeWikiLink(wikiLinkSuggestions[Math.min(wikiLinkQuery.selectedIndex, count - 1)].name);
+    } else if (['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End', 'PageUp', 'PageDown'].includes(e.key)) {
+      setWikiLinkQuery(null);
+    }
+  };
+
+  // Ctrl+click (Cmd+click) on a [[link]] in either editor follows it
+  const handleWikiLinkClick = (e: React.MouseEvent): boolean => {
+    setWikiLinkQuery(null);
+    if (!e.ctrlKey && !e.metaKey) return false;
+    const name = getWikiLinkAtCaret();
+    if (!name) return false;
+    e.preventDefault();
+    openWikiLink(name);
+    return true;
+  };
+
+  const handleSourceChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const source = e.target.value;
+    updateActiveTab(tab => ({ ...tab, content: source }));
+    updateWikiLinkQuery();
+  };
+
+  // Checking a task box in the preview checks it in the source; [[links]] open their tab
+  const handlePreviewClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (target instanceof HTMLInputElement && target.type === 'checkbox' && target.dataset.line) {
+      const line = Number(target.dataset.line);
+      updateActiveTab(tab => ({ ...tab, content: toggleMarkdownTask(tab.content, line) }));
+      return;
+    }
+    const wikiLink = target.closest<HTMLElement>('a.notepad-wiki-link');
+    if (wikiLink?.dataset.wikiLink) {
+      openWikiLink(wikiLink.dataset.wikiLink);
+    }
+  };
+
+  const previewHtml = useMemo(
+    () => (isMarkdownTab && activeTab ? renderMarkdown(activeTab.content) : ''),
+    [isMarkdownTab, activeTab]
+  );
+
+  const backlinks = useMemo(() => (activeTab ? getBacklinks(tabs, activeTab) : []), [tabs, activeTab]);
+
+  // Underline [[links]] in the rich text editor once its content is in place
+  const highlightOwner = instanceId ?? 'notepad';
+  const activeTabContent = activeTab?.content;
+  useEffect(() => {
+    highlightWikiLinks(highlightOwner, isMarkdownTab ? null : editorRef.current);
+  }, [highlightOwner, isMarkdownTab, activeTabContent]);
+  useEffect(() => () => highlightWikiLinks(highlightOwner, null), [highlightOwner]);
+
+  const inlineLinkUrls = useMemo(
+    () => (linkPreviewMode === 'inline' && activeTab ? getLinkUrls(activeTab).slice(0, MAX_INLINE_LINK_PREVIEWS) : []),
+    [linkPreviewMode, activeTab]
+  );
+
   // Helper functions for keyboard shortcuts
   const focusEditor = useCallback(() => {
+    if (sourceRef.current) {
+      sourceRef.current.focus();
+      return;
+    }
     if (!editorRef.current) return;
     editorRef.current.focus();
     if (activeTabId) {
@@ -1203,9 +1997,11 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     switchTab(tabs[prevIndex].id);
   }, [tabs, activeTabId]); // switchTab uses state setters which are stable
 
+  // Ctrl+1-9 go to the pinned tabs (to the first tabs when none are pinned)
   const switchToTabByNumber = useCallback((tabNumber: number) => {
-    if (tabNumber >= 1 && tabNumber <= tabs.length && tabNumber <= 9) {
-      switchTab(tabs[tabNumber - 1].id);
+    const tab = getNumberedTabs(tabs)[tabNumber - 1];
+    if (tab) {
+      switchTab(tab.id);
     }
   }, [tabs]); // switchTab uses state setters which are stable
 
@@ -1253,14 +2049,69 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
       // Check: Ctrl must be pressed AND Meta/Cmd must NOT be pressed
       if (!e.ctrlKey || e.metaKey) return;
 
-      // Don't interfere if editing text in inputs/textareas (but allow in contentEditable editor)
+      // Don't interfere if editing text in inputs/textareas (but allow in the editor and Markdown source)
       const activeElement = document.activeElement;
-      if (activeElement instanceof HTMLInputElement || activeElement instanceof HTMLTextAreaElement) {
+      const isEditingSource = !!activeElement && activeElement === sourceRef.current;
+      if ((activeElement instanceof HTMLInputElement || activeElement instanceof HTMLTextAreaElement) && !isEditingSource) {
         // Don't interfere with normal input editing
         return;
       }
 
       const key = e.key.toLowerCase();
+
+      // Formatting shortcuts while typing in the editor (Ctrl+I is italic there, not add image)
+      if (activeElement && activeElement === editorRef.current) {
+        const format = getShortcutFormat(e);
+        if (format) {
+          e.preventDefault();
+          e.stopPropagation();
+          e.stopImmediatePropagation();
+          applyFormat(format);
+          return;
+        }
+        if (key === 'u') {
+          e.preventDefault(); // Underline isn't part of notepad formatting
+          return;
+        }
+      }
+
+      // Ctrl+Alt+P cycles a Markdown tab between source, split and preview
+      if (e.altKey && (e.code === 'KeyP' || key === 'p')) {
+        e.preventDefault();
+        e.stopPropagation();
+        e.stopImmediatePropagation();
+        cycleMarkdownView();
+        return;
+      }
+
+      // Ctrl+Alt+O opens the tab switcher
+      if (e.altKey && (e.code === 'KeyO' || key === 'o')) {
+        e.preventDefault();
+        e.stopPropagation();
+        e.stopImmediatePropagation();
+        openTabSwitcher();
+        return;
+      }
+
+      // Ctrl+Alt+Z reopens the last closed tab
+      if (e.altKey && (e.code === 'KeyZ' || key === 'z')) {
+        e.preventDefault();
+        e.stopPropagation();
+        e.stopImmediatePropagation();
+        saveCurrentSelection();
+        reopenClosedTab();
+        return;
+      }
+
+      // Ctrl+Alt+H opens the active tab's version history
+      if (e.altKey && (e.code === 'KeyH' || key === 'h')) {
+        e.preventDefault();
+        e.stopPropagation();
+        e.stopImmediatePropagation();
+        setIsHistoryOpen(true);
+        return;
+      }
+
       switch (key) {
         case 't':
           e.preventDefault();
@@ -1293,6 +2144,11 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
             e.stopPropagation();
             e.stopImmediatePropagation();
             insertTimestamp();
+          } else if (isEditingSource) {
+            e.preventDefault();
+            e.stopPropagation();
+            e.stopImmediatePropagation();
+            document.execCommand('insertText', false, formatTimestamp(new Date()));
           }
           break;
         default:
@@ -1314,12 +2170,169 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
     return () => {
       document.removeEventListener('keydown', handleKeyDown, { capture: true } as EventListenerOptions);
     };
-  }, [isFocused, handleNewTab, handleCloseTab, handleRenameTab, handleAddImage, cycleTabForward, cycleTabBackward, switchToTabByNumber, insertTimestamp]);
+  }, [isFocused, handleNewTab, handleCloseTab, handleRenameTab, handleAddImage, cycleTabForward, cycleTabBackward, switchToTabByNumber, insertTimestamp, applyFormat, cycleMarkdownView, openTabSwitcher, reopenClosedTab, saveCurrentSelection]);
 
   useWidgetKeyboardShortcuts(isFocused ?? false, shortcuts);
 
+  // Tab bar: runs of ungrouped tabs and groups, in tab order
+  const getTabBarSegments = () => {
+    const segments: { group?: NotepadTabGroup; tabs: NotepadTab[] }[] = [];
+    for (const tab of getDisplayTabs()) {
+      const group = activeGroups.find(g => g.id === tab.groupId);
+      const last = segments[segments.length - 1];
+      if (last && last.group === group) {
+        last.tabs.push(tab);
+      } else {
+        segments.push({ group, tabs: [tab] });
+      }
+    }
+    return segments;
+  };
+
+  const numberedTabIds = getNumberedTabs(tabs).map(tab => tab.id);
+
+  const renderGroupChip = (group: NotepadTabGroup, tabCount: number) => (
+    <div
+      className="group flex-shrink-0 flex items-center gap-1 px-2 py-1.5 mb-0.5 text-xs font-mono bg-white/10 border border-white/20 rounded-sm cursor-pointer hover:bg-white/15 max-w-[140px]"
+      style={{ color: colors.secondary }}
+      onClick={() => toggleGroupCollapsed(group.id)}
+      title={group.collapsed ? `Show ${tabCount} tab${tabCount === 1 ? '' : 's'}` : 'Collapse group (double-click to rename)'}
+      aria-expanded={!group.collapsed}
+    >
+      {editingGroupId === group.id ? (
+        <input
+          ref={groupNameInputRef}
+          type="text"
+          value={editingGroupName}
+          onChange={(e) => setEditingGroupName(e.target.value)}
+          onBlur={() => saveRenameGroup(group.id)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              saveRenameGroup(group.id);
+            } else if (e.key === 'Escape') {
+              cancelRenameGroup();
+            }
+          }}
+          onClick={(e) => e.stopPropagation()}
+          className="w-24 bg-black/40 border border-white/30 rounded px-1.5 py-0.5 text-xs font-mono focus:outline-none focus:border-white/50"
+          style={{ color: colors.primary }}
+        />
+      ) : (
+        <>
+          <span className="select-none">{group.collapsed ? '▸' : '▾'}</span>
+          <span
+            className="truncate select-none"
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              startRenameGroup(group);
+            }}
+          >
+            {group.name}
+          </span>
+          {group.collapsed && <span className="select-none" style={{ color: colors.muted }}>{tabCount}</span>}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              ungroup(group.id);
+            }}
+            className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 w-4 h-4 flex items-center justify-center rounded hover:bg-white/20 text-xs"
+            style={{ color: colors.button }}
+            title="Ungroup (keeps the tabs)"
+          >
+            ×
+          </button>
+        </>
+      )}
+    </div>
+  );
+
+  const renderTab = (tab: NotepadTab) => {
+    const number = numberedTabIds.indexOf(tab.id) + 1;
+    return (
+      <div
+        key={tab.id}
+        ref={activeTabId === tab.id ? activeTabRef : null}
+        data-tab-id={tab.id}
+        draggable={editingTabId !== tab.id}
+        onDragStart={(e) => handleTabDragStart(e, tab.id)}
+        onDragOver={(e) => handleTabDragOver(e, tab.id)}
+        onDragLeave={handleTabDragLeave}
+        onDrop={(e) => handleTabDrop(e, tab.id)}
+        onDragEnd={handleTabDragEnd}
+        onClick={() => switchTab(tab.id)}
+        className={`
+          group relative flex items-center gap-1.5 px-3 py-1.5 text-xs font-mono
+          transition-all duration-200 min-w-[80px] max-w-[200px]
+          ${editingTabId === tab.id ? 'cursor-default' : 'cursor-move'}
+          ${activeTabId === tab.id
+            ? 'bg-black/60 border-t border-l border-r border-white/30 rounded-t-sm z-10'
+            : 'bg-black/30 border-t border-l border-r border-white/10 rounded-t-sm hover:bg-black/40 hover:border-white/20'
+          }
+          ${draggedTabId === tab.id 
+            ? 'opacity-50 border-white/50 shadow-lg' 
+            : ''
+          }
+          ${dragOverTabId === tab.id && draggedTabId !== tab.id
+            ? 'border-white/40 bg-black/50'
+            : ''
+          }
+        `}
+        style={{
+          color: activeTabId === tab.id ? colors.primary : colors.secondary,
+        }}
+        title={number > 0 ? `${tab.name} (Ctrl+${number})` : undefined}
+      >
+        {/* Pinned tabs show their Ctrl+number */}
+        {tab.pinned && (
+          <span className="select-none" style={{ color: colors.muted }} aria-label="Pinned">
+            {number > 0 ? number : '•'}
+          </span>
+        )}
+        {/* Tab Name */}
+        {editingTabId === tab.id ? (
+          <input
+            ref={tabNameInputRef}
+            type="text"
+            value={editingTabName}
+            onChange={(e) => setEditingTabName(e.target.value)}
+            onBlur={() => saveRenameTab(tab.id)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                saveRenameTab(tab.id);
+              } else if (e.key === 'Escape') {
+                cancelRenameTab();
+              }
+            }}
+            onClick={(e) => e.stopPropagation()}
+            className="flex-1 bg-black/40 border border-white/30 rounded px-1.5 py-0.5 text-xs font-mono focus:outline-none focus:border-white/50"
+            style={{ color: colors.primary }}
+          />
+        ) : (
+          <>
+            <span
+              className="flex-1 truncate select-none"
+              onDoubleClick={(e) => startRenameTab(tab.id, e)}
+            >
+              {tab.name}
+            </span>
+            {/* Delete Button */}
+            <button
+              onClick={(e) => deleteTab(tab.id, e)}
+              className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 w-4 h-4 flex items-center justify-center rounded hover:bg-white/20 text-xs"
+              style={{ color: colors.button }}
+              title="Close tab"
+            >
+              ×
+            </button>
+          </>
+        )}
+      </div>
+    );
+  };
+
   return (
-    <Widget title="Notepad" isFocused={isFocused}>
+    <Widget title={settings?.title || 'Notepad'} isFocused={isFocused}>
       <div className="flex flex-col h-full min-h-0 gap-2 relative">
         {/* Chrome-style Tabs */}
         <div 
@@ -1338,106 +2351,58 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
             ref={tabsListRef}
             className="flex-1 flex items-end gap-0.5 min-w-0"
           >
-            {getDisplayTabs().map((tab, index) => (
-              <div
-                key={tab.id}
-                ref={activeTabId === tab.id ? activeTabRef : null}
-                data-tab-id={tab.id}
-                draggable={editingTabId !== tab.id}
-                onDragStart={(e) => handleTabDragStart(e, tab.id)}
-                onDragOver={(e) => handleTabDragOver(e, tab.id)}
-                onDragLeave={handleTabDragLeave}
-                onDrop={(e) => handleTabDrop(e, tab.id)}
-                onDragEnd={handleTabDragEnd}
-                onClick={() => switchTab(tab.id)}
-                className={`
-                  group relative flex items-center gap-1.5 px-3 py-1.5 text-xs font-mono
-                  transition-all duration-200 min-w-[80px] max-w-[200px]
-                  ${editingTabId === tab.id ? 'cursor-default' : 'cursor-move'}
-                  ${activeTabId === tab.id
-                    ? 'bg-black/60 border-t border-l border-r border-white/30 rounded-t-sm z-10'
-                    : 'bg-black/30 border-t border-l border-r border-white/10 rounded-t-sm hover:bg-black/40 hover:border-white/20'
-                  }
-                  ${draggedTabId === tab.id 
-                    ? 'opacity-50 border-white/50 shadow-lg' 
-                    : ''
-                  }
-                  ${dragOverTabId === tab.id && draggedTabId !== tab.id
-                    ? 'border-white/40 bg-black/50'
-                    : ''
-                  }
-                `}
-                style={{
-                  color: activeTabId === tab.id ? colors.primary : colors.secondary,
-                }}
-              >
-                {/* Tab Name */}
-                {editingTabId === tab.id ? (
-                  <input
-                    ref={tabNameInputRef}
-                    type="text"
-                    value={editingTabName}
-                    onChange={(e) => setEditingTabName(e.target.value)}
-                    onBlur={() => saveRenameTab(tab.id)}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter') {
-                        saveRenameTab(tab.id);
-                      } else if (e.key === 'Escape') {
-                        cancelRenameTab();
-                      }
-                    }}
-                    onClick={(e) => e.stopPropagation()}
-                    className="flex-1 bg-black/40 border border-white/30 rounded px-1.5 py-0.5 text-xs font-mono focus:outline-none focus:border-white/50"
-                    style={{ color: colors.primary }}
-                  />
-                ) : (
-                  <>
-                    <span
-                      className="flex-1 truncate select-none"
-                      onDoubleClick={(e) => startRenameTab(tab.id, e)}
-                    >
-                      {tab.name}
-                    </span>
-                    {/* Delete Button */}
-                    <button
-                      onClick={(e) => deleteTab(tab.id, e)}
-                      className="opacity-0 group-hover:opacity-100 transition-opacity duration-200 w-4 h-4 flex items-center justify-center rounded hover:bg-white/20 text-xs"
-                      style={{ color: colors.button }}
-                      title="Close tab"
-                    >
-                      ×
-                    </button>
-                  </>
-                )}
-              </div>
-            ))}
+            {getTabBarSegments().map(({ group, tabs: segmentTabs }) =>
+              group ? (
+                <div
+                  key={group.id}
+                  className="flex items-end gap-0.5 border-b-2 border-white/30"
+                  role="group"
+                  aria-label={group.name}
+                >
+                  {renderGroupChip(group, segmentTabs.length)}
+                  {segmentTabs.filter(tab => !group.collapsed || tab.id === activeTabId).map(renderTab)}
+                </div>
+              ) : (
+                <Fragment key={segmentTabs[0].id}>{segmentTabs.map(renderTab)}</Fragment>
+              )
+            )}
           </div>
 
           {/* Overflow indicator - right */}
           {hasOverflow && (
-            <div className="absolute right-[60px] top-0 bottom-0 w-8 bg-gradient-to-l from-black/60 to-transparent pointer-events-none z-20 flex items-center justify-end">
+            <div className="absolute right-[112px] top-0 bottom-0 w-8 bg-gradient-to-l from-black/60 to-transparent pointer-events-none z-20 flex items-center justify-end">
               <div className="w-0 h-0 border-t-[4px] border-t-transparent border-b-[4px] border-b-transparent border-l-[6px] border-l-white/30 mr-1" />
             </div>
           )}
 
           {/* New Tab Button */}
           <button
-            onClick={createTab}
-            disabled={tabs.length >= MAX_TABS}
-            className={`
-              flex-shrink-0 w-6 h-6 flex items-center justify-center bg-black/30 border border-white/10 rounded-sm 
-              transition-all duration-200 text-xs font-mono
-              ${tabs.length >= MAX_TABS 
-                ? 'opacity-50 cursor-not-allowed' 
-                : 'hover:bg-black/40 hover:border-white/20 cursor-pointer'
-              }
-            `}
+            onClick={() => createTab()}
+            className="flex-shrink-0 w-6 h-6 flex items-center justify-center bg-black/30 border border-white/10 rounded-sm hover:bg-black/40 hover:border-white/20 cursor-pointer transition-all duration-200 text-xs font-mono"
             style={{ color: colors.button }}
-            title={tabs.length >= MAX_TABS ? `Maximum ${MAX_TABS} tabs reached` : 'New tab'}
+            title="New tab"
           >
             +
           </button>
 
+          {/* All Tabs Button (tab switcher) */}
+          <button
+            ref={tabListButtonRef}
+            type="button"
+            onMouseDown={(e) => {
+              e.preventDefault(); // Keep the editor's selection
+              e.stopPropagation(); // An open switcher closes on clicks outside it
+            }}
+            onClick={() => (tabSwitcherPosition ? closeTabSwitcher() : openTabSwitcher())}
+            className="flex-shrink-0 w-6 h-6 flex items-center justify-center bg-black/30 border border-white/10 rounded-sm hover:bg-black/40 hover:border-white/20 cursor-pointer transition-all duration-200 text-xs font-mono"
+            style={{ color: colors.button }}
+            title={`All tabs (${tabs.length}) - Ctrl+Alt+O`}
+            aria-haspopup="dialog"
+            aria-expanded={!!tabSwitcherPosition}
+          >
+            ▾
+          </button>
+
           {/* Add Image Button (Symbol) */}
           <div className="flex-shrink-0">
             <input
@@ -1446,10 +2411,10 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
               accept="image/*"
               onChange={handleFileSelect}
               className="hidden"
-              id="notepad-image-input"
+              id={fileInputId}
             />
             <label
-              htmlFor="notepad-image-input"
+              htmlFor={fileInputId}
               className="flex items-center justify-center w-6 h-6 bg-black/30 border border-white/10 rounded-sm cursor-pointer hover:bg-black/40 hover:border-white/20 transition-all duration-200"
               style={{ color: colors.button }}
               onMouseDown={(e) => {
@@ -1474,58 +2439,202 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
               </svg>
             </label>
           </div>
+
+          {/* Markdown Export/Import Menu */}
+          <div className="flex-shrink-0">
+            <input
+              ref={markdownInputRef}
+              type="file"
+              accept=".md,.markdown,.txt,text/markdown,text/plain"
+              multiple
+              onChange={handleMarkdownImport}
+              className="hidden"
+            />
+            <MarkdownMenu
+              items={markdownMenuItems}
+              title="Export or import notes"
+              className="flex items-center justify-center w-6 h-6 bg-black/30 border border-white/10 rounded-sm cursor-pointer hover:bg-black/40 hover:border-white/20 transition-all duration-200 text-xs font-mono"
+            >
+              ⋯
+            </MarkdownMenu>
+          </div>
+        </div>
+
+        {/* Formatting Toolbar (view switch for Markdown tabs) */}
+        <div className="flex-shrink-0 flex items-center gap-0.5 overflow-x-auto overflow-y-hidden auto-hide-scrollbar">
+          {isMarkdownTab
+            ? MARKDOWN_VIEWS.map(view => (
+                <button
+                  key={view}
+                  type="button"
+                  onClick={() => setMarkdownView(view)}
+                  className={`
+                    flex-shrink-0 h-6 px-2 flex items-center justify-center border rounded-sm
+                    hover:bg-black/40 hover:border-white/20 transition-all duration-200 text-xs font-mono
+                    ${markdownView === view ? 'bg-white/15 border-white/30' : 'bg-black/30 border-white/10'}
+                  `}
+                  style={{ color: colors.button }}
+                  title={`${MARKDOWN_VIEW_LABELS[view]} (Ctrl+Alt+P to cycle)`}
+                  aria-pressed={markdownView === view}
+                >
+                  {MARKDOWN_VIEW_LABELS[view]}
+                </button>
+              ))
+            : NOTEPAD_FORMATS.map(({ format, label, title, shortcut }) => (
+                <button
+                  key={format}
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()} // Keep the editor's selection
+                  onClick={() => applyFormat(format)}
+                  className={`
+                    flex-shrink-0 min-w-[24px] h-6 px-1 flex items-center justify-center bg-black/30 border border-white/10 rounded-sm
+                    hover:bg-black/40 hover:border-white/20 transition-all duration-200 text-xs font-mono
+                    ${format === 'bold' ? 'font-bold' : ''}
+                    ${format === 'italic' ? 'italic' : ''}
+                    ${format === 'strikethrough' ? 'line-through' : ''}
+                  `}
+                  style={{ color: colors.button }}
+                  title={`${title} (${shortcut})`}
+                  aria-label={title}
+                >
+                  {label}
+                </button>
+              ))}
+          {/* Markdown Mode Toggle */}
+          <button
+            type="button"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={toggleMarkdownMode}
+            disabled={!activeTab}
+            className={`
+              flex-shrink-0 ml-auto h-6 px-2 flex items-center justify-center border rounded-sm
+              hover:bg-black/40 hover:border-white/20 transition-all duration-200 text-xs font-mono
+              ${isMarkdownTab ? 'bg-white/15 border-white/30' : 'bg-black/30 border-white/10'}
+            `}
+            style={{ color: colors.button }}
+            title={isMarkdownTab ? 'Switch this tab to rich text' : 'Write this tab in Markdown'}
+            aria-pressed={isMarkdownTab}
+          >
+            MD
+          </button>
         </div>
 
         {/* Editor Container */}
-        <div className="flex-1 relative min-h-0">
-          <div
-            ref={editorRef}
-            contentEditable
-            onInput={handleInput}
-            onPaste={handlePaste}
-            onKeyDown={(e) => {
-              // Handle Ctrl+Alt+Arrow keys for tab cycling (macOS intercepts Ctrl+Arrow at system level)
-              const isCtrlPressed = e.ctrlKey && !e.metaKey;
-              const isAltPressed = e.altKey;
-              
-              if (isCtrlPressed && isAltPressed) {
-                const isArrowRight = e.key === 'ArrowRight' || e.code === 'ArrowRight';
-                const isArrowLeft = e.key === 'ArrowLeft' || e.code === 'ArrowLeft';
+        <div ref={editorContainerRef} className="flex-1 relative min-h-0">
+          {isMarkdownTab && activeTab ? (
+            <div className="flex h-full gap-2">
+              {markdownView !== 'preview' && (
+                <textarea
+                  ref={sourceRef}
+                  value={activeTab.content}
+                  onChange={handleSourceChange}
+                  onKeyDown={handleWikiLinkKeyDown}
+                  onClick={handleWikiLinkClick}
+                  onBlur={closeWikiLinkSuggestions}
+                  spellCheck={false}
+                  className="flex-1 min-w-0 h-full resize-none bg-black/10 border border-white/20 rounded-sm p-3 font-mono text-sm focus:outline-none focus:border-white/50 focus:ring-1 focus:ring-white/30 transition-all duration-200 overflow-y-auto overflow-x-hidden auto-hide-scrollbar"
+                  style={{
+                    color: colors.primary,
+                    boxShadow: 'inset 0 1px 2px rgba(0, 0, 0, 0.3)',
+                  }}
+                  placeholder="Write Markdown..."
+                  data-placeholder-color={colors.placeholder}
+                  aria-label="Markdown source"
+                />
+              )}
+              {markdownView !== 'source' && (
+                <div
+                  onClick={handlePreviewClick}
+                  className="notepad-rich-text flex-1 min-w-0 h-full bg-black/10 border border-white/20 rounded-sm p-3 font-mono text-sm overflow-y-auto overflow-x-hidden auto-hide-scrollbar break-words"
+                  style={{
+                    color: colors.primary,
+                    boxShadow: 'inset 0 1px 2px rgba(0, 0, 0, 0.3)',
+                  }}
+                  aria-label="Markdown preview"
+                  // renderMarkdown escapes all text; only its own elements are created
+                  dangerouslySetInnerHTML={{ __html: previewHtml }}
+                />
+              )}
+            </div>
+          ) : (
+            <div
+              ref={editorRef}
+              contentEditable
+              onInput={handleInput}
+              onPaste={handlePaste}
+              onBlur={closeWikiLinkSuggestions}
+              onKeyDown={(e) => {
+                handleWikiLinkKeyDown(e);
+                if (e.defaultPrevented) return;
+
+                // Handle Ctrl+Alt+Arrow keys for tab cycling (macOS intercepts Ctrl+Arrow at system level)
+                const isCtrlPressed = e.ctrlKey && !e.metaKey;
+                const isAltPressed = e.altKey;
                 
-                if (isArrowRight) {
-                  e.preventDefault();
-                  e.stopPropagation();
-                  cycleTabForward();
-                } else if (isArrowLeft) {
-                  e.preventDefault();
-                  e.stopPropagation();
-                  cycleTabBackward();
+                if (isCtrlPressed && isAltPressed) {
+                  const isArrowRight = e.key === 'ArrowRight' || e.code === 'ArrowRight';
+                  const isArrowLeft = e.key === 'ArrowLeft' || e.code === 'ArrowLeft';
+                  
+                  if (isArrowRight) {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    cycleTabForward();
+                  } else if (isArrowLeft) {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    cycleTabBackward();
+                  }
                 }
-              }
-            }}
-            onClick={(e) => {
-              // Allow links to be clicked (only if not selecting text)
-              const target = e.target as HTMLElement;
-              if (target.tagName === 'A' && target.classList.contains('notepad-image-link')) {
-                const selection = window.getSelection();
-                if (selection && selection.toString().length === 0) {
-                  e.preventDefault();
-                  const link = target as HTMLAnchorElement;
-                  if (link.href) {
-                    window.open(link.href, '_blank', 'noopener,noreferrer');
+              }}
+              onClick={(e) => {
+                if (handleWikiLinkClick(e)) return;
+
+                // Allow links to be clicked (only if not selecting text)
+                const target = e.target as HTMLElement;
+                if (target.tagName === 'A' && target.classList.contains('notepad-image-link')) {
+                  const selection = window.getSelection();
+                  if (selection && selection.toString().length === 0) {
+                    e.preventDefault();
+                    const link = target as HTMLAnchorElement;
+                    if (link.href) {
+                      window.open(link.href, '_blank', 'noopener,noreferrer');
+                    }
                   }
                 }
-              }
-            }}
-            className="h-full w-full bg-black/10 border border-white/20 rounded-sm p-3 font-mono text-sm focus:outline-none focus:border-white/50 focus:ring-1 focus:ring-white/30 transition-all duration-200 overflow-y-auto overflow-x-hidden auto-hide-scrollbar"
-            style={{
-              color: colors.primary,
-              boxShadow: 'inset 0 1px 2px rgba(0, 0, 0, 0.3)',
-            }}
-            data-placeholder="Start typing or paste an image..."
-          />
+              }}
+              className="notepad-rich-text h-full w-full bg-black/10 border border-white/20 rounded-sm p-3 font-mono text-sm focus:outline-none focus:border-white/50 focus:ring-1 focus:ring-white/30 transition-all duration-200 overflow-y-auto overflow-x-hidden auto-hide-scrollbar"
+              style={{
+                color: colors.primary,
+                boxShadow: 'inset 0 1px 2px rgba(0, 0, 0, 0.3)',
+              }}
+              data-placeholder="Start typing or paste an image..."
+            />
+          )}
         </div>
 
+        {inlineLinkUrls.length > 0 && <LinkPreviewList urls={inlineLinkUrls} />}
+
+        {/* Backlinks - tabs that link to this one with [[Tab name]] */}
+        {backlinks.length > 0 && (
+          <div className="flex-shrink-0 flex items-center gap-1 overflow-x-auto auto-hide-scrollbar font-mono text-xs" aria-label="Backlinks">
+            <span className="flex-shrink-0" style={{ color: colors.muted }}>Linked from</span>
+            {backlinks.map(tab => (
+              <button
+                key={tab.id}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()} // Keep the editor's selection
+                onClick={() => switchTab(tab.id)}
+                className="flex-shrink-0 max-w-[10rem] truncate h-6 px-2 bg-black/30 border border-white/10 rounded-sm hover:bg-black/40 hover:border-white/20 transition-all duration-200"
+                style={{ color: colors.button }}
+                title={`Go to ${tab.name}`}
+              >
+                {tab.name}
+              </button>
+            ))}
+          </div>
+        )}
+        {linkPreviewMode !== 'off' && <LinkPreviewPopup containerRef={editorContainerRef} />}
+
         {/* Global styles */}
         <style jsx global>{`
           [contenteditable] {
@@ -1549,6 +2658,74 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
             opacity: 0.8;
           }
 
+          /* Rich text formatting and Markdown preview (see app/lib/notepadHtml.ts) */
+          .notepad-rich-text h1 {
+            font-size: 1.25rem;
+            font-weight: 700;
+            line-height: 1.4;
+          }
+
+          .notepad-rich-text h2 {
+            font-size: 1.125rem;
+            font-weight: 700;
+            line-height: 1.4;
+          }
+
+          .notepad-rich-text h3 {
+            font-size: 1rem;
+            font-weight: 600;
+            line-height: 1.4;
+          }
+
+          .notepad-rich-text ul {
+            list-style: disc;
+            padding-left: 1.5rem;
+          }
+
+          .notepad-rich-text ol {
+            list-style: decimal;
+            padding-left: 1.5rem;
+          }
+
+          .notepad-rich-text code {
+            background: rgba(255, 255, 255, 0.1);
+            border-radius: 2px;
+            padding: 0 0.25rem;
+          }
+
+          .notepad-rich-text pre {
+            background: rgba(0, 0, 0, 0.3);
+            border: 1px solid rgba(255, 255, 255, 0.1);
+            border-radius: 2px;
+            padding: 0.25rem 0.5rem;
+            white-space: pre-wrap;
+          }
+
+          .notepad-rich-text pre code {
+            background: none;
+            padding: 0;
+          }
+
+          .notepad-rich-text li.task-item {
+            list-style: none;
+            margin-left: -1.25rem;
+          }
+
+          .notepad-rich-text a.notepad-url-link {
+            color: inherit;
+            text-decoration: underline;
+          }
+
+          /* [[Tab name]] links: text in the editor (see highlightWikiLinks), links in the preview */
+          ::highlight(notepad-wiki-link) {
+            text-decoration: underline dotted;
+          }
+
+          .notepad-rich-text a.notepad-wiki-link {
+            text-decoration: underline dotted;
+            cursor: pointer;
+          }
+
           /* Scrollbar styling */
           [contenteditable]::-webkit-scrollbar {
             width: 8px;
@@ -1568,6 +2745,49 @@ export default function NotepadWidget({ isFocused }: { isFocused?: boolean }) {
             background: rgba(255, 255, 255, 0.4);
           }
         `}</style>
+
+        {tabSwitcherPosition && (
+          <NotepadTabSwitcher
+            tabs={tabs}
+            groups={activeGroups}
+            activeTabId={activeTabId}
+            position={tabSwitcherPosition}
+            onSelect={(tabId) => {
+              closeTabSwitcher();
+              switchTab(tabId);
+            }}
+            onClose={closeTabSwitcher}
+          />
+        )}
+
+        {wikiLinkQuery && wikiLinkSuggestions.length > 0 && (
+          <WikiLinkSuggestions
+            suggestions={wikiLinkSuggestions}
+            selectedIndex={Math.min(wikiLinkQuery.selectedIndex, wikiLinkSuggestions.length - 1)}
+            position={wikiLinkQuery.position}
+            onSelect={suggestion => completeWikiLink(suggestion.name)}
+            onClose={closeWikiLinkSuggestions}
+          />
+        )}
+
+        {isTrashOpen && (
+          <NotepadTrashPanel
+            trash={trash}
+            retentionDays={retentionDays}
+            onRestore={restoreFromTrash}
+            onDelete={deleteFromTrash}
+            onClose={closeTrash}
+          />
+        )}
+
+        {isHistoryOpen && activeTab && (
+          <NotepadHistoryPanel
+            tab={activeTab}
+            historyKey={historyKey}
+            onRestore={restoreRevision}
+            onClose={closeHistory}
+          />
+        )}
       </div>
     </Widget>
   );
@@ -5,6 +5,9 @@ import Widget from './Widget';
 import { ColorProvider, useReactiveColors } from './ColorContext';
 import { WALLPAPER_PRESETS } from '@/app/lib/wallpaperConfig';
 import { saveToLocalStorage } from '@/app/lib/utils';
+import { setStoredItem } from '@/app/lib/storageAdapter';
+import { getWorkspaceKey } from '@/app/lib/workspaces';
+import { getAvailableWidgetTypes, getWidgetManifest, getWidgetCapabilityLabels } from '@/app/lib/widgetRegistry';
 
 interface OnboardingScreenProps {
   onComplete: () => void;
@@ -36,7 +39,7 @@ function OnboardingContent({ onComplete }: OnboardingScreenProps) {
       setSelectedWallpaperIndex(index);
     }
     // Update background with fade transition
-    saveToLocalStorage('wallpaper', wallpaperUrl);
+    setStoredItem(getWorkspaceKey('wallpaper'), wallpaperUrl);
     // Trigger wallpaper change event for ColorContext
     window.dispatchEvent(new CustomEvent('wallpaperChanged', { detail: wallpaperUrl }));
   }, [selectedWallpaper]);
@@ -191,6 +194,30 @@ function OnboardingContent({ onComplete }: OnboardingScreenProps) {
                 </div>
               </div>
 
+              {/* Widget overview */}
+              <div className="w-full grid grid-cols-1 md:grid-cols-2 gap-2">
+                {getAvailableWidgetTypes().map((type) => {
+                  const manifest = getWidgetManifest(type);
+                  const needs = getWidgetCapabilityLabels(type);
+                  return (
+                    <div key={type} className="flex items-start gap-2 text-xs">
+                      <span className="text-sm leading-4" style={{ color: colors.secondary }}>
+                        {manifest.icon}
+                      </span>
+                      <div>
+                        <span className="font-semibold font-mono" style={{ color: colors.secondary }}>
+                          {manifest.name}
+                        </span>
+                        <span style={{ color: colors.primary }}> - {manifest.description}</span>
+                        {needs.length > 0 && (
+                          <span style={{ color: colors.muted }}> (uses {needs.join(' and ').toLowerCase()})</span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
               {/* Wallpaper selection grid */}
               <div className="w-full">
                 <h2 
@@ -0,0 +1,52 @@
+'use client';
+
+import { useReactiveColors } from './ColorContext';
+
+/**
+ * SafeModeBanner - Shown above the widget grid while the dashboard runs with `?safe`
+ */
+export default function SafeModeBanner() {
+  const { colors } = useReactiveColors();
+
+  const handleExit = () => {
+    const url = new URL(window.location.href);
+    url.searchParams.delete('safe');
+    window.location.assign(url.toString());
+  };
+
+  return (
+    <div
+      role="status"
+      className="
+        flex items-center justify-center gap-3
+        mb-3 px-3 py-1.5
+        bg-black/40 backdrop-blur-xl
+        border border-white/20
+        rounded-sm
+        font-mono text-xs
+        flex-shrink-0
+      "
+      style={{ color: colors.primary }}
+    >
+      <span>
+        <strong style={{ color: colors.secondary }}>Safe mode</strong> - saved layouts and widget data are
+        ignored and changes are not saved
+      </span>
+      <button
+        onClick={handleExit}
+        className="
+          px-2 py-0.5
+          bg-white/10
+          border border-white/30
+          rounded-sm
+          hover:bg-white/15
+          hover:border-white/50
+          transition-all duration-200
+        "
+        style={{ color: colors.button }}
+      >
+        Exit
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useReactiveColors } from './ColorContext';
+import { WidgetConfiguration } from '@/app/lib/widgetConfig';
+import { SearchDocument, SearchResult, buildSearchIndex, searchDocuments } from '@/app/lib/search';
+
+interface SearchPaletteProps {
+  config: WidgetConfiguration;
+  onSelect: (result: SearchResult) => void;
+  onClose: () => void;
+}
+
+/**
+ * SearchPalette - Searches every notepad tab and todo in the workspace
+ * Opened with `/` or Ctrl+K; Up/Down pick a result, Enter jumps to it and Esc closes
+ */
+export default function SearchPalette({ config, onSelect, onClose }: SearchPaletteProps) {
+  const { colors } = useReactiveColors();
+  const [documents, setDocuments] = useState<SearchDocument[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Read the notes and todos once per opening, so results reflect the latest edits
+  useEffect(() => {
+    let cancelled = false;
+    buildSearchIndex(config).then((index) => {
+      if (!cancelled) setDocuments(index);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [config]);
+
+  const results = useMemo(() => searchDocuments(documents ?? [], query), [documents, query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    const item = listRef.current?.children[selectedIndex];
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (results.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelectedIndex((index) => (index + step + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const result = results[selectedIndex];
+      if (result) onSelect(result);
+    }
+  };
+
+  const getStatus = (): string | null => {
+    if (documents === null) return 'Loading…';
+    if (documents.length === 0) return 'Nothing to search yet - add notes or todos to this workspace.';
+    if (!query.trim()) return 'Type to search notes and todos.';
+    if (results.length === 0) return 'No matches.';
+    return null;
+  };
+  const status = getStatus();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center p-4 pt-[15vh]">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+      {/* Palette */}
+      <div
+        data-settings-modal="true"
+        role="dialog"
+        aria-label="Search notes and todos"
+        className="
+          relative z-10
+          bg-black/40 backdrop-blur-xl
+          border border-white/20
+          rounded-sm
+          p-4
+          max-w-xl w-full
+          shadow-lg
+          space-y-3
+        "
+        style={{
+          color: colors.primary,
+          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.3), 0 2px 4px -1px rgba(0, 0, 0, 0.2), inset 0 1px 0 0 rgba(255, 255, 255, 0.05)',
+        }}
+      >
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search notes and todos…"
+          aria-label="Search"
+          autoFocus
+          className="
+            w-full
+            bg-black/10
+            border border-white/20
+            rounded-sm
+            px-2 py-1.5
+            font-mono text-sm
+            focus:outline-none
+            focus:border-white/50
+          "
+          style={{ color: colors.primary }}
+        />
+
+        {status ? (
+          <p className="text-xs font-mono" style={{ color: colors.muted }}>
+            {status}
+          </p>
+        ) : (
+          <ul ref={listRef} role="listbox" className="max-h-[50vh] overflow-y-auto space-y-1">
+            {results.map((result, index) => {
+              const { document } = result;
+              const isSelected = index === selectedIndex;
+              return (
+                <li
+                  key={`${document.instanceId}:${document.itemId}`}
+                  role="option"
+                  aria-selected={isSelected}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  onClick={() => onSelect(result)}
+                  className={`
+                    px-2 py-1.5
+                    border rounded-sm
+                    cursor-pointer
+                    ${isSelected ? 'bg-white/10 border-white/40' : 'border-transparent'}
+                  `}
+                >
+                  <div className="flex justify-between gap-2 text-xs font-mono">
+                    <span className="truncate" style={{ color: colors.secondary }}>
+                      {document.kind === 'note'
+                        ? `${document.source} › ${document.title}`
+                        : `${document.source}${document.completed ? ' · done' : ''}`}
+                    </span>
+                    <span className="shrink-0" style={{ color: colors.muted }}>
+                      Slot {document.position}
+                    </span>
+                  </div>
+                  <div
+                    className={`text-sm break-words ${document.completed ? 'line-through opacity-70' : ''}`}
+                    style={{ color: colors.primary }}
+                  >
+                    {result.snippet.length === 0 ? (
+                      <span style={{ color: colors.muted }}>(empty)</span>
+                    ) : (
+                      result.snippet.map((part, partIndex) =>
+                        part.highlighted ? (
+                          <mark key={partIndex} className="bg-white/25 rounded-sm" style={{ color: colors.primary }}>
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={partIndex}>{part.text}</span>
+                        )
+                      )
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <p className="text-xs font-mono border-t border-white/10 pt-2" style={{ color: colors.muted }}>
+          ↑↓ to choose · Enter to open · Esc to close
+        </p>
+      </div>
+    </div>
+  );
+}
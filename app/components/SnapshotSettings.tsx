@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useReactiveColors } from './ColorContext';
+import { formatBytes, isSafeMode } from '@/app/lib/utils';
+import {
+  SnapshotSummary,
+  SNAPSHOT_REASON_LABELS,
+  MAX_SNAPSHOTS,
+  listSnapshots,
+  takeSnapshot,
+  deleteSnapshot,
+  restoreSnapshot,
+} from '@/app/lib/snapshots';
+
+/**
+ * SnapshotSettings - Settings panel listing local snapshots, with restore and delete
+ */
+export default function SnapshotSettings() {
+  const { colors } = useReactiveColors();
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setSnapshots(await listSnapshots());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleTakeSnapshot = async () => {
+    setIsBusy(true);
+    await takeSnapshot('manual');
+    await refresh();
+    setIsBusy(false);
+  };
+
+  const handleRestore = async (snapshot: SnapshotSummary) => {
+    const date = new Date(snapshot.createdAt).toLocaleString();
+    if (!confirm(`Restore the snapshot from ${date}? All dashboard data will be replaced. Your current data is saved as a snapshot first.`)) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      if (await restoreSnapshot(snapshot.id)) {
+        window.location.reload();
+        return;
+      }
+      alert('That snapshot no longer exists');
+    } catch (error) {
+      alert('Error restoring snapshot');
+      console.error(error);
+    }
+    await refresh();
+    setIsBusy(false);
+  };
+
+  const handleDelete = async (snapshot: SnapshotSummary) => {
+    setIsBusy(true);
+    try {
+      await deleteSnapshot(snapshot.id);
+    } catch (error) {
+      console.error('Error deleting snapshot:', error);
+    }
+    await refresh();
+    setIsBusy(false);
+  };
+
+  const buttonClassName = `
+    px-2 py-1
+    bg-white/10
+    border border-white/30
+    rounded-sm
+    hover:bg-white/15
+    hover:border-white/50
+    transition-all duration-200
+    font-mono text-xs
+    disabled:opacity-50 disabled:cursor-not-allowed
+  `;
+
+  return (
+    <div className="space-y-2">
+      <h3
+        className="text-sm font-semibold font-mono border-b border-white/10 pb-1"
+        style={{ color: colors.secondary }}
+      >
+        Snapshots
+      </h3>
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-xs" style={{ color: colors.secondary }}>
+          {isSafeMode()
+            ? 'Snapshots are unavailable in safe mode.'
+            : `Saved automatically every 15 minutes and before clearing, importing or deleting data. The last ${MAX_SNAPSHOTS} are kept in this browser.`}
+        </p>
+        <button
+          onClick={handleTakeSnapshot}
+          disabled={isBusy || isSafeMode()}
+          className={`${buttonClassName} flex-shrink-0`}
+          style={{ color: colors.button }}
+        >
+          Take Snapshot
+        </button>
+      </div>
+      {snapshots && snapshots.length === 0 && !isSafeMode() && (
+        <p className="text-xs" style={{ color: colors.primary }}>No snapshots yet.</p>
+      )}
+      <div className="space-y-1.5">
+        {snapshots?.map((snapshot) => (
+          <div
+            key={snapshot.id}
+            className="flex items-center justify-between gap-2 py-1.5 border-b border-white/5 last:border-0"
+          >
+            <div className="flex-1 min-w-0 text-xs">
+              <span className="font-mono" style={{ color: colors.primary }}>
+                {new Date(snapshot.createdAt).toLocaleString()}
+              </span>
+              <p style={{ color: colors.secondary }}>
+                {SNAPSHOT_REASON_LABELS[snapshot.reason]} · {formatBytes(snapshot.size)}
+              </p>
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              <button
+                onClick={() => handleRestore(snapshot)}
+                disabled={isBusy}
+                className={buttonClassName}
+                style={{ color: colors.button }}
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => handleDelete(snapshot)}
+                disabled={isBusy}
+                className={buttonClassName}
+                style={{ color: colors.button }}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useReactiveColors } from './ColorContext';
+import {
+  SyncSettings as SyncSettingsValues,
+  SyncResult,
+  ConflictResolution,
+  getSyncSettings,
+  saveSyncSettings,
+  getLastSyncedAt,
+  createSyncId,
+  syncNow,
+} from '@/app/lib/syncEngine';
+
+const STATUS_LABELS = {
+  'up-to-date': 'Up to date',
+  pushed: 'Sent this device\'s changes',
+  pulled: 'Received changes from the server',
+  merged: 'Merged changes from both sides',
+} as const;
+
+const MAX_LISTED_CONFLICTS = 5;
+
+/**
+ * SyncSettings - Settings panel for syncing the dashboard with a self-hosted server
+ */
+export default function SyncSettings() {
+  const { colors } = useReactiveColors();
+  const [settings, setSettings] = useState(() => getSyncSettings());
+  const [lastSyncedAt, setLastSyncedAt] = useState(() => getLastSyncedAt());
+  const [result, setResult] = useState<SyncResult | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Results of automatic syncs too
+  useEffect(() => {
+    const handleSyncStatus = (e: Event) => {
+      const syncResult = (e as CustomEvent<SyncResult>).detail;
+      setResult(syncResult);
+      if ('syncedAt' in syncResult) {
+        setLastSyncedAt(syncResult.syncedAt);
+      }
+    };
+
+    window.addEventListener('syncStatusChanged', handleSyncStatus);
+    return () => {
+      window.removeEventListener('syncStatusChanged', handleSyncStatus);
+    };
+  }, []);
+
+  const updateSettings = (changes: Partial<SyncSettingsValues>) => {
+    const newSettings = { ...settings, ...changes };
+    setSettings(newSettings);
+    saveSyncSettings(newSettings);
+  };
+
+  const handleSync = async (resolution?: ConflictResolution) => {
+    setIsSyncing(true);
+    await syncNow(resolution);
+    setIsSyncing(false);
+  };
+
+  const buttonClassName = `
+    px-2 py-1
+    bg-white/10
+    border border-white/30
+    rounded-sm
+    hover:bg-white/15
+    hover:border-white/50
+    transition-all duration-200
+    font-mono text-xs
+    disabled:opacity-50 disabled:cursor-not-allowed
+  `;
+
+  const inputClassName = `
+    flex-1 min-w-0
+    bg-black/10
+    border border-white/20
+    rounded-sm
+    px-2 py-1
+    font-mono text-xs
+    focus:outline-none
+    focus:border-white/50
+  `;
+
+  const renderStatus = () => {
+    if (!result) return null;
+    if (result.status === 'error') {
+      return <p className="text-xs text-red-400">Sync failed: {result.message}</p>;
+    }
+    if (result.status === 'conflict') {
+      const listed = result.conflicts.slice(0, MAX_LISTED_CONFLICTS);
+      const hidden = result.conflicts.length - listed.length;
+      return (
+        <div className="space-y-2">
+          <p className="text-xs" style={{ color: colors.primary }}>
+            Changed on both this device and the server since the last sync:
+          </p>
+          <ul className="text-xs font-mono break-all" style={{ color: colors.secondary }}>
+            {listed.map((key) => (
+              <li key={key}>{key}</li>
+            ))}
+            {hidden > 0 && <li>and {hidden} more</li>}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleSync('local')}
+              disabled={isSyncing}
+              className={buttonClassName}
+              style={{ color: colors.button }}
+            >
+              Keep This Device
+            </button>
+            <button
+              onClick={() => handleSync('remote')}
+              disabled={isSyncing}
+              className={buttonClassName}
+              style={{ color: colors.button }}
+            >
+              Use Server
+            </button>
+          </div>
+        </div>
+      );
+    }
+    return (
+      <p className="text-xs" style={{ color: colors.primary }}>
+        {STATUS_LABELS[result.status]} (revision {result.revision})
+      </p>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3
+        className="text-sm font-semibold font-mono border-b border-white/10 pb-1"
+        style={{ color: colors.secondary }}
+      >
+        Sync
+      </h3>
+      <p className="text-xs" style={{ color: colors.secondary }}>
+        Share this dashboard between devices through your own HyperDash server. Use the same sync ID on every device.
+      </p>
+      <label className="flex items-center gap-2">
+        <span className="w-16 text-xs font-mono" style={{ color: colors.secondary }}>Server</span>
+        <input
+          type="url"
+          value={settings.serverUrl}
+          onChange={(e) => updateSettings({ serverUrl: e.target.value })}
+          placeholder="This server"
+          className={inputClassName}
+          style={{ color: colors.primary }}
+        />
+      </label>
+      <label className="flex items-center gap-2">
+        <span className="w-16 text-xs font-mono" style={{ color: colors.secondary }}>Sync ID</span>
+        <input
+          type="text"
+          value={settings.syncId}
+          onChange={(e) => updateSettings({ syncId: e.target.value.trim() })}
+          placeholder="8-64 letters, digits, - or _"
+          className={inputClassName}
+          style={{ color: colors.primary }}
+        />
+        <button
+          onClick={() => updateSettings({ syncId: createSyncId() })}
+          className={buttonClassName}
+          style={{ color: colors.button }}
+        >
+          Generate
+        </button>
+      </label>
+      <label className="flex items-center gap-2">
+        <span className="w-16 text-xs font-mono" style={{ color: colors.secondary }}>Token</span>
+        <input
+          type="password"
+          value={settings.token}
+          onChange={(e) => updateSettings({ token: e.target.value })}
+          placeholder="Only if the server requires one"
+          className={inputClassName}
+          style={{ color: colors.primary }}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-xs font-mono" style={{ color: colors.secondary }}>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => updateSettings({ enabled: e.target.checked })}
+        />
+        Sync automatically (every minute)
+      </label>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs" style={{ color: colors.secondary }}>
+          {lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}` : 'Not synced yet'}
+        </span>
+        <button
+          onClick={() => handleSync()}
+          disabled={isSyncing || !settings.syncId}
+          className={buttonClassName}
+          style={{ color: colors.button }}
+        >
+          {isSyncing ? 'Syncing...' : 'Sync Now'}
+        </button>
+      </div>
+      {renderStatus()}
+    </div>
+  );
+}
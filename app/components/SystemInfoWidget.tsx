@@ -2,8 +2,37 @@
 
 import { useState, useEffect, useRef } from 'react';
 import Widget from './Widget';
-import { getFromLocalStorage, saveToLocalStorage, removeFromLocalStorage } from '@/app/lib/utils';
+import { getFromLocalStorage, saveToLocalStorage, formatBytes, downloadBlob } from '@/app/lib/utils';
+import {
+  getStorageAdapter,
+  getStoredItem,
+  setStoredItem,
+  removeStoredItem,
+  readAllStoredItems,
+} from '@/app/lib/storageAdapter';
+import {
+  DataSection,
+  ImportMode,
+  DATA_SECTIONS,
+  DATA_SECTION_LABELS,
+  createExportFile,
+  parseImportFile,
+  describeImport,
+  importData,
+} from '@/app/lib/dataTransfer';
+import { deleteImages } from '@/app/lib/notepadImages';
+import { takeSnapshot } from '@/app/lib/snapshots';
+import { getWorkspaceKey } from '@/app/lib/workspaces';
+import {
+  getAvailableWidgetTypes,
+  getWidgetManifest,
+  getWidgetCapabilityLabels,
+  getWidgetShortcutGroups,
+} from '@/app/lib/widgetRegistry';
 import { useReactiveColors } from './ColorContext';
+import WorkspaceSettings from './WorkspaceSettings';
+import SyncSettings from './SyncSettings';
+import SnapshotSettings from './SnapshotSettings';
 import { useUploadThing } from '@/app/lib/uploadthing';
 import { WALLPAPER_PRESETS, isPresetWallpaper } from '@/app/lib/wallpaperConfig';
 
@@ -24,9 +53,35 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
     const saved = getFromLocalStorage('clockFormat');
     return (saved === '24h' ? '24h' : '12h') as '12h' | '24h';
   });
+  const [transferSections, setTransferSections] = useState<DataSection[]>(DATA_SECTIONS);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
   const { colors } = useReactiveColors();
   const wallpaperInputRef = useRef<HTMLInputElement>(null);
   const { startUpload, isUploading } = useUploadThing("wallpaperUploader");
+  const adapterBytesRef = useRef(0);
+
+  // Export/import read the choices from here, since the shortcut listeners are set up once
+  const transferOptionsRef = useRef({ sections: transferSections, mode: importMode });
+  useEffect(() => {
+    transferOptionsRef.current = { sections: transferSections, mode: importMode };
+  }, [transferSections, importMode]);
+
+  // Size of data kept in IndexedDB (localStorage is measured below)
+  useEffect(() => {
+    const measureAdapter = async () => {
+      try {
+        const adapter = await getStorageAdapter();
+        if (adapter.name !== 'indexeddb') return;
+        const items = await readAllStoredItems(adapter);
+        adapterBytesRef.current = Object.entries(items)
+          .filter(([key]) => localStorage.getItem(key) === null)
+          .reduce((total, [key, value]) => total + key.length + value.length, 0);
+      } catch (error) {
+        console.error('Error measuring storage:', error);
+      }
+    };
+    measureAdapter();
+  }, [isSettingsOpen]);
 
   useEffect(() => {
     const updateInfo = () => {
@@ -49,7 +104,7 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
       // Calculate storage usage
       let storageUsage = '0 KB';
       try {
-        let total = 0;
+        let total = adapterBytesRef.current;
         for (let i = 0; i < localStorage.length; i++) {
           const key = localStorage.key(i);
           if (key) {
@@ -57,11 +112,7 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
             total += key.length + value.length;
           }
         }
-        storageUsage = total < 1024 
-          ? `${total} B` 
-          : total < 1024 * 1024 
-            ? `${(total / 1024).toFixed(2)} KB`
-            : `${(total / (1024 * 1024)).toFixed(2)} MB`;
+        storageUsage = formatBytes(total);
       } catch (error) {
         storageUsage = 'Unknown';
       }
@@ -93,10 +144,11 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
 
   // Load wallpaper preview on mount
   useEffect(() => {
-    const savedWallpaper = getFromLocalStorage('wallpaper');
-    if (savedWallpaper) {
-      setWallpaperPreview(savedWallpaper);
-    }
+    getStoredItem(getWorkspaceKey('wallpaper')).then((savedWallpaper) => {
+      if (savedWallpaper) {
+        setWallpaperPreview(savedWallpaper);
+      }
+    });
   }, []);
 
   // Reset category to appearance when settings open
@@ -156,6 +208,7 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
       title: 'Global Shortcuts',
       shortcuts: [
         { key: '1-9', description: 'Focus widget by position' },
+        { key: 'Shift + 1-9', description: 'Switch workspace' },
         { key: 'Tab', description: 'Cycle forward through widgets' },
         { key: 'Shift + Tab', description: 'Cycle backward through widgets' },
         { key: 'S', description: 'Open Settings' },
@@ -163,6 +216,9 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
         { key: 'Shift + C', description: 'Toggle clock format' },
         { key: 'Shift + E', description: 'Export data' },
         { key: 'Shift + I', description: 'Import data' },
+        { key: 'Shift + L', description: 'Edit layout' },
+        { key: '/ or Ctrl + K', description: 'Search notes and todos' },
+        { key: 'Shift + S', description: 'Settings for focused widget' },
         { key: 'Escape', description: 'Close modals/dialogs' },
       ],
     },
@@ -174,39 +230,8 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
         { key: 'Escape', description: 'Close Settings' },
       ],
     },
-    {
-      title: 'Clock Widget',
-      shortcuts: [
-        { key: 'Space', description: 'Start/Pause Pomodoro timer' },
-        { key: 'R', description: 'Reset Pomodoro timer' },
-        { key: 'K', description: 'Skip Pomodoro session' },
-      ],
-    },
-    {
-      title: 'Todo Widget',
-      shortcuts: [
-        { key: 'N', description: 'Focus new todo input' },
-        { key: 'C', description: 'Toggle show/hide completed todos' },
-        { key: 'X', description: 'Clear all completed todos' },
-        { key: '↑ / ↓', description: 'Navigate todos' },
-        { key: 'Enter', description: 'Edit selected todo (or focus input)' },
-        { key: 'Space', description: 'Toggle completion of selected todo' },
-        { key: 'Backspace', description: 'Delete selected todo' },
-        { key: 'Escape', description: 'Clear selection / Close dialogs' },
-      ],
-    },
-    {
-      title: 'Notepad Widget',
-      shortcuts: [
-        { key: 'Enter', description: 'Focus editor' },
-        { key: 'Ctrl + T', description: 'New tab' },
-        { key: 'Ctrl + W', description: 'Close tab' },
-        { key: 'Ctrl + R', description: 'Rename tab' },
-        { key: 'Ctrl + I', description: 'Add image' },
-        { key: 'Ctrl + Alt + ← / →', description: 'Cycle tabs' },
-        { key: 'Ctrl + 1-9', description: 'Switch to tab by number' },
-      ],
-    },
+    // Widget shortcuts come from each widget's manifest
+    ...getWidgetShortcutGroups(),
   ];
 
   // Listen for keyboard shortcut events
@@ -290,7 +315,7 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
       if (uploadedFiles && uploadedFiles.length > 0) {
         const fileUrl = uploadedFiles[0].url;
         setWallpaperPreview(fileUrl);
-        saveToLocalStorage('wallpaper', fileUrl);
+        setStoredItem(getWorkspaceKey('wallpaper'), fileUrl);
         // Trigger custom event to update dashboard
         window.dispatchEvent(new CustomEvent('wallpaperChanged', { detail: fileUrl }));
       }
@@ -302,7 +327,7 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
 
   const handleResetWallpaper = () => {
     setWallpaperPreview(null);
-    removeFromLocalStorage('wallpaper');
+    removeStoredItem(getWorkspaceKey('wallpaper'));
     // Trigger custom event to reset to default
     window.dispatchEvent(new CustomEvent('wallpaperChanged', { detail: null }));
   };
@@ -314,31 +339,42 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
     window.dispatchEvent(new CustomEvent('clockFormatChanged', { detail: format }));
   };
 
-  const handleClearAllData = () => {
-    if (confirm('Are you sure you want to clear all data? This will reset todos, notes, pomodoro timer, and settings. This cannot be undone.')) {
+  const handleEditLayout = () => {
+    setIsSettingsOpen(false);
+    window.dispatchEvent(new CustomEvent('toggleLayoutEditor'));
+  };
+
+  const handleClearAllData = async () => {
+    if (confirm('Are you sure you want to clear all data? This will reset todos, notes, pomodoro timer, and settings. A snapshot is saved first, so you can restore it from Settings → Data → Snapshots.')) {
+      await takeSnapshot('before-clear');
+      try {
+        const adapter = await getStorageAdapter();
+        await Promise.all((await adapter.keys()).map((key) => adapter.remove(key)));
+        await deleteImages(() => true);
+      } catch (error) {
+        console.error('Error clearing stored data:', error);
+      }
       localStorage.clear();
       window.location.reload();
     }
   };
 
-  const handleExportData = () => {
+  const toggleTransferSection = (section: DataSection) => {
+    setTransferSections((prev) =>
+      prev.includes(section) ? prev.filter((s) => s !== section) : DATA_SECTIONS.filter((s) => s === section || prev.includes(s))
+    );
+  };
+
+  const handleExportData = async () => {
+    const { sections } = transferOptionsRef.current;
+    if (sections.length === 0) {
+      alert('Choose at least one section to export');
+      return;
+    }
     try {
-      const data: Record<string, string | null> = {};
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key) {
-          data[key] = localStorage.getItem(key);
-        }
-      }
+      const data = await createExportFile(sections);
       const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `hyperdash-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `hyperdash-${new Date().toISOString().split('T')[0]}.json`);
     } catch (error) {
       alert('Error exporting data');
       console.error(error);
@@ -346,6 +382,11 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
   };
 
   const handleImportData = () => {
+    const { sections, mode } = transferOptionsRef.current;
+    if (sections.length === 0) {
+      alert('Choose at least one section to import');
+      return;
+    }
     const input = document.createElement('input');
     input.type = 'file';
     input.accept = '.json';
@@ -354,20 +395,24 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
       if (!file) return;
       
       const reader = new FileReader();
-      reader.onload = (event) => {
+      reader.onload = async (event) => {
+        const result = parseImportFile(event.target?.result as string);
+        if (!result.ok) {
+          alert(`Error importing data. ${result.error}`);
+          return;
+        }
+        if (!confirm(`Import data?\n\n${describeImport(result.preview, sections, mode)}`)) {
+          return;
+        }
         try {
-          const data = JSON.parse(event.target?.result as string);
-          if (confirm('Import data? This will overwrite your current data.')) {
-            localStorage.clear();
-            Object.keys(data).forEach(key => {
-              if (data[key] !== null) {
-                localStorage.setItem(key, data[key]);
-              }
-            });
-            window.location.reload();
+          await takeSnapshot('before-import');
+          const notes = await importData(result.preview, sections, mode);
+          if (notes.length > 0) {
+            alert(`Imported, except:\n${notes.map((note) => `- ${note}`).join('\n')}`);
           }
+          window.location.reload();
         } catch (error) {
-          alert('Error importing data. Invalid file format.');
+          alert('Error importing data');
           console.error(error);
         }
       };
@@ -646,7 +691,7 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
                             key={preset.id}
                             onClick={() => {
                               setWallpaperPreview(preset.url);
-                              saveToLocalStorage('wallpaper', preset.url);
+                              setStoredItem(getWorkspaceKey('wallpaper'), preset.url);
                               window.dispatchEvent(new CustomEvent('wallpaperChanged', { detail: preset.url }));
                             }}
                             className={`
@@ -738,6 +783,40 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
                 )}
             </div>
 
+                    {/* Layout */}
+                    <div className="space-y-2">
+                      <h3 
+                        className="text-sm font-semibold font-mono border-b border-white/10 pb-1"
+                        style={{ color: colors.secondary }}
+                      >
+                        Layout
+                      </h3>
+                      <button
+                        onClick={handleEditLayout}
+                        className="
+                          w-full
+                          px-3 py-2
+                          bg-white/10
+                          border border-white/30
+                          rounded-sm
+                          hover:bg-white/15
+                          hover:border-white/50
+                          transition-all duration-200
+                          font-mono
+                          text-xs
+                        "
+                        style={{
+                          color: colors.button,
+                          boxShadow: '0 1px 2px rgba(0, 0, 0, 0.3)',
+                        }}
+                      >
+                        Edit Layout
+                      </button>
+                    </div>
+
+                    {/* Workspaces */}
+                    <WorkspaceSettings />
+
             </div>
                 )}
 
@@ -768,7 +847,39 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
                           Built with Next.js, TypeScript, and Tailwind CSS.
                         </p>
                       </div>
-                      <div className="grid grid-cols-2 gap-2 pt-4">
+                      <div className="space-y-2 pt-4">
+                        <div className="flex flex-wrap gap-x-3 gap-y-1">
+                          {DATA_SECTIONS.map((section) => (
+                            <label
+                              key={section}
+                              className="flex items-center gap-1.5 text-xs font-mono"
+                              style={{ color: colors.secondary }}
+                            >
+                              <input
+                                type="checkbox"
+                                checked={transferSections.includes(section)}
+                                onChange={() => toggleTransferSection(section)}
+                              />
+                              {DATA_SECTION_LABELS[section]}
+                            </label>
+                          ))}
+                        </div>
+                        <div className="flex gap-3 text-xs font-mono" style={{ color: colors.secondary }}>
+                          <span>Import:</span>
+                          {(['merge', 'replace'] as const).map((mode) => (
+                            <label key={mode} className="flex items-center gap-1.5">
+                              <input
+                                type="radio"
+                                name="import-mode"
+                                checked={importMode === mode}
+                                onChange={() => setImportMode(mode)}
+                              />
+                              {mode === 'merge' ? 'Merge with my data' : 'Replace my data'}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
                         <button
                           onClick={handleExportData}
                           className="
@@ -828,6 +939,49 @@ export default function SystemInfoWidget({ isFocused }: { isFocused?: boolean })
                         Clear All Data
                       </button>
                     </div>
+
+                    <SnapshotSettings />
+
+                    <SyncSettings />
+
+                    {/* Installed widgets, from their manifests */}
+                    <div className="space-y-2">
+                      <h3
+                        className="text-sm font-semibold font-mono border-b border-white/10 pb-1"
+                        style={{ color: colors.secondary }}
+                      >
+                        Widgets
+                      </h3>
+                      <div className="space-y-1.5">
+                        {getAvailableWidgetTypes().map((type) => {
+                          const manifest = getWidgetManifest(type);
+                          return (
+                            <div
+                              key={type}
+                              className="flex items-start justify-between gap-4 py-1.5 border-b border-white/5 last:border-0"
+                            >
+                              <div className="flex-1 text-xs">
+                                <span className="font-semibold font-mono" style={{ color: colors.secondary }}>
+                                  {manifest.icon} {manifest.name}
+                                </span>
+                                <p style={{ color: colors.primary }}>{manifest.description}</p>
+                              </div>
+                              <div className="flex gap-1 flex-shrink-0">
+                                {getWidgetCapabilityLabels(type).map((label) => (
+                                  <span
+                                    key={label}
+                                    className="px-2 py-0.5 bg-white/10 border border-white/20 rounded-sm text-xs font-mono"
+                                    style={{ color: colors.button }}
+                                  >
+                                    {label}
+                                  </span>
+                                ))}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
                   </div>
                 )}
 
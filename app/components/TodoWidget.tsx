@@ -2,19 +2,23 @@
 
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import Widget from './Widget';
-import { getFromLocalStorage, saveToLocalStorage } from '@/app/lib/utils';
+import { getWorkspaceKey } from '@/app/lib/workspaces';
+import { getInstanceStorageKey } from '@/app/lib/widgetConfig';
+import { TodoSettings } from '@/app/lib/widgetSettings';
+import { readStoredValueAsync, writeStoredValueAsync, decodeStoredValue } from '@/app/lib/storage';
+import { getStoredItem, setStoredItem } from '@/app/lib/storageAdapter';
+import { subscribeToStorageKey } from '@/app/lib/crossTabSync';
+import { Todo, todosSchema } from '@/app/lib/todoData';
+import { todosToMarkdown, todosToPlainText, markdownToTodos, getExportFileName } from '@/app/lib/markdown';
+import { downloadBlob } from '@/app/lib/utils';
+import { SearchJump } from '@/app/lib/search';
+import MarkdownMenu from './MarkdownMenu';
 import { useReactiveColors } from './ColorContext';
 import { useWidgetKeyboardShortcuts } from '@/app/lib/useWidgetKeyboardShortcuts';
 
 const STORAGE_KEY = 'hyperdash-todos';
 const SHOW_COMPLETED_KEY = 'hyperdash-show-completed';
 
-interface Todo {
-  id: string;
-  text: string;
-  completed: boolean;
-}
-
 interface ConfirmDialogProps {
   onConfirm: () => void;
   onCancel: () => void;
@@ -165,7 +169,13 @@ function ClearConfirmDialog({ onConfirm, onCancel, colors }: ConfirmDialogProps)
   );
 }
 
-export default function TodoWidget({ isFocused }: { isFocused?: boolean }) {
+interface TodoWidgetProps {
+  isFocused?: boolean;
+  instanceId?: string;
+  settings?: TodoSettings;
+}
+
+export default function TodoWidget({ isFocused, instanceId, settings }: TodoWidgetProps) {
   const [todos, setTodos] = useState<Todo[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [draggedId, setDraggedId] = useState<string | null>(null);
@@ -177,27 +187,58 @@ export default function TodoWidget({ isFocused }: { isFocused?: boolean }) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const markdownInputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
   const { colors } = useReactiveColors();
 
+  // Each todo list instance keeps its own items
+  const storageKey = useMemo(() => getWorkspaceKey(getInstanceStorageKey(STORAGE_KEY, 'todo', instanceId)), [instanceId]);
+  const showCompletedKey = useMemo(
+    () => getWorkspaceKey(getInstanceStorageKey(SHOW_COMPLETED_KEY, 'todo', instanceId)),
+    [instanceId]
+  );
+
   useEffect(() => {
-    const saved = getFromLocalStorage(STORAGE_KEY);
-    if (saved) {
-      try {
-        setTodos(JSON.parse(saved));
-      } catch (error) {
-        console.error('Error parsing todos:', error);
+    let cancelled = false;
+
+    const loadTodos = async () => {
+      const [saved, savedShowCompleted] = await Promise.all([
+        readStoredValueAsync(storageKey, todosSchema),
+        getStoredItem(showCompletedKey),
+      ]);
+      if (cancelled) return;
+
+      if (saved) {
+        setTodos(saved);
       }
-    }
-    
-    const savedShowCompleted = getFromLocalStorage(SHOW_COMPLETED_KEY);
-    if (savedShowCompleted !== null) {
-      setShowCompleted(savedShowCompleted === 'true');
-    }
-  }, []);
+      if (savedShowCompleted !== null) {
+        setShowCompleted(savedShowCompleted === 'true');
+      }
+    };
+
+    loadTodos();
+    return () => {
+      cancelled = true;
+    };
+  }, [storageKey, showCompletedKey]);
+
+  // Apply changes saved in other tabs (the most recent save wins)
+  useEffect(() => {
+    const unsubscribeTodos = subscribeToStorageKey(storageKey, (raw) => {
+      setTodos(raw === null ? [] : decodeStoredValue(todosSchema, raw).value ?? []);
+    });
+    const unsubscribeShowCompleted = subscribeToStorageKey(showCompletedKey, (raw) => {
+      setShowCompleted(raw !== 'false');
+    });
+    return () => {
+      unsubscribeTodos();
+      unsubscribeShowCompleted();
+    };
+  }, [storageKey, showCompletedKey]);
 
   const saveTodos = (newTodos: Todo[]) => {
     setTodos(newTodos);
-    saveToLocalStorage(STORAGE_KEY, JSON.stringify(newTodos));
+    writeStoredValueAsync(storageKey, todosSchema, newTodos);
   };
 
   const addTodo = () => {
@@ -212,6 +253,33 @@ export default function TodoWidget({ isFocused }: { isFocused?: boolean }) {
     }
   };
 
+  const exportTodos = (format: 'md' | 'txt') => {
+    const title = settings?.listName || 'Todo List';
+    const text = format === 'md' ? todosToMarkdown(todos, title) : todosToPlainText(todos);
+    const type = format === 'md' ? 'text/markdown' : 'text/plain';
+    downloadBlob(new Blob([text], { type }), getExportFileName(title, format));
+  };
+
+  const handleMarkdownImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (markdownInputRef.current) {
+      markdownInputRef.current.value = '';
+    }
+    if (!file) return;
+
+    try {
+      const imported = markdownToTodos(await file.text());
+      if (imported.length === 0) {
+        alert('No list items found in the selected file');
+        return;
+      }
+      saveTodos([...imported, ...todos]); // Imported todos go to the top, like new ones
+    } catch (error) {
+      alert('Error reading file');
+      console.error(error);
+    }
+  };
+
   const toggleTodo = (id: string) => {
     saveTodos(
       todos.map(todo =>
@@ -395,7 +463,7 @@ export default function TodoWidget({ isFocused }: { isFocused?: boolean }) {
   const toggleShowCompleted = () => {
     const newValue = !showCompleted;
     setShowCompleted(newValue);
-    saveToLocalStorage(SHOW_COMPLETED_KEY, newValue.toString());
+    setStoredItem(showCompletedKey, newValue.toString());
     
     // If hiding completed todos and current selection is completed, focus input
     if (!newValue && selectedTodoId) {
@@ -423,6 +491,30 @@ export default function TodoWidget({ isFocused }: { isFocused?: boolean }) {
     }
   }, [showCompleted, selectedTodoId, todos, focusNewTodoInput]);
 
+  // Search results for this list (see SearchPalette) select their todo, showing completed todos if needed
+  useEffect(() => {
+    const handleSearchJump = (e: Event) => {
+      const jump = (e as CustomEvent<SearchJump>).detail;
+      if (jump.kind !== 'todo' || jump.instanceId !== (instanceId ?? 'todo')) return;
+      const todo = todos.find(t => t.id === jump.itemId);
+      if (!todo) return;
+
+      if (todo.completed && !showCompleted) {
+        setShowCompleted(true);
+        setStoredItem(showCompletedKey, 'true');
+      }
+      setEditingId(null);
+      setSelectedTodoId(todo.id);
+      requestAnimationFrame(() => {
+        const item = listRef.current?.querySelector(`[data-todo-id="${CSS.escape(todo.id)}"]`);
+        item?.scrollIntoView({ block: 'nearest' });
+      });
+    };
+
+    window.addEventListener('searchJump', handleSearchJump);
+    return () => window.removeEventListener('searchJump', handleSearchJump);
+  }, [instanceId, todos, showCompleted, showCompletedKey]);
+
   const getVisibleTodos = useCallback(() => {
     const displayTodos = getDisplayTodos();
     const activeTodos = displayTodos.filter(todo => !todo.completed);
@@ -618,6 +710,7 @@ export default function TodoWidget({ isFocused }: { isFocused?: boolean }) {
     return (
     <div
       key={todo.id}
+      data-todo-id={todo.id}
       draggable={editingId !== todo.id}
       onDragStart={(e) => handleDragStart(e, todo.id)}
       onDragOver={(e) => handleDragOver(e, todo.id)}
@@ -770,7 +863,7 @@ export default function TodoWidget({ isFocused }: { isFocused?: boolean }) {
   };
 
   return (
-    <Widget title="Todo List" isFocused={isFocused}>
+    <Widget title={settings?.listName || 'Todo List'} isFocused={isFocused}>
       <div className="flex-1 flex flex-col min-h-0 overflow-hidden">
         <div className="flex gap-2 flex-shrink-0 mb-3">
           <input
@@ -824,8 +917,36 @@ export default function TodoWidget({ isFocused }: { isFocused?: boolean }) {
           >
             Add
           </button>
+          <input
+            ref={markdownInputRef}
+            type="file"
+            accept=".md,.markdown,.txt,text/markdown,text/plain"
+            onChange={handleMarkdownImport}
+            className="hidden"
+          />
+          <MarkdownMenu
+            items={[
+              { label: 'Export list (.md)', onSelect: () => exportTodos('md'), disabled: todos.length === 0 },
+              { label: 'Export list (.txt)', onSelect: () => exportTodos('txt'), disabled: todos.length === 0 },
+              { label: 'Import Markdown…', onSelect: () => markdownInputRef.current?.click() },
+            ]}
+            title="Export or import todos"
+            className="
+              px-2 py-2
+              bg-white/10
+              border border-white/30
+              rounded-sm
+              hover:bg-white/15
+              hover:border-white/50
+              transition-all duration-200
+              font-mono
+              text-sm
+            "
+          >
+            ⋯
+          </MarkdownMenu>
         </div>
-        <div className="flex-1 overflow-y-auto min-h-0 pr-1 auto-hide-scrollbar">
+        <div ref={listRef} className="flex-1 overflow-y-auto min-h-0 pr-1 auto-hide-scrollbar">
           <div className="space-y-2">
             {todos.length === 0 ? (
               <p className="text-sm font-mono opacity-60" style={{ color: colors.secondary }}>
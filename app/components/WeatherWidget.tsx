@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import Widget from './Widget';
 import { useReactiveColors } from './ColorContext';
+import { WeatherSettings } from '@/app/lib/widgetSettings';
 
 interface WeatherData {
   temp: number;
@@ -65,50 +66,99 @@ const getWeatherCondition = (code: number): string => {
   return conditions[code] || 'Unknown';
 };
 
-export default function WeatherWidget({ onLoadComplete, isFocused }: { onLoadComplete?: () => void; isFocused?: boolean }) {
+// Look up coordinates for a place name (Open-Meteo geocoding, no API key needed)
+// Resolves to null if there is no such place; throws if the lookup itself fails
+const geocodeLocation = async (
+  location: string
+): Promise<{ latitude: number; longitude: number; name: string } | null> => {
+  const response = await fetch(
+    `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1&language=en&format=json`
+  );
+  // A failed lookup (e.g. rate limited) isn't a missing place
+  if (!response.ok) {
+    throw new Error(`Location lookup failed: ${response.status}`);
+  }
+  const data = await response.json();
+  const result = data.results?.[0];
+  if (!result) {
+    return null;
+  }
+  const region = result.admin1 || result.country;
+  return {
+    latitude: result.latitude,
+    longitude: result.longitude,
+    name: region ? `${result.name}, ${region}` : result.name,
+  };
+};
+
+interface WeatherWidgetProps {
+  onLoadComplete?: () => void;
+  isFocused?: boolean;
+  settings?: WeatherSettings;
+}
+
+export default function WeatherWidget({ onLoadComplete, isFocused, settings }: WeatherWidgetProps) {
   const { colors } = useReactiveColors();
   const [weather, setWeather] = useState<WeatherData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const configuredLocation = settings?.location;
 
   useEffect(() => {
-    const fetchWeather = async () => {
-      try {
-        // Get user's location
-        const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-          navigator.geolocation.getCurrentPosition(
-            resolve,
-            (error) => {
-              // Provide better error messaging
-              if (error.code === error.PERMISSION_DENIED) {
-                setError('Location access denied. Please enable location permissions to view weather.');
-              } else if (error.code === error.POSITION_UNAVAILABLE) {
-                setError('Location unavailable. Please check your connection.');
-              } else {
-                setError('Unable to get location. Please try again.');
-              }
-              reject(error);
+    const getCoordinates = async (): Promise<{ latitude: number; longitude: number; name?: string }> => {
+      // A location set in the widget settings wins over the browser location
+      if (configuredLocation) {
+        const place = await geocodeLocation(configuredLocation);
+        if (!place) {
+          setError(`Location "${configuredLocation}" not found.`);
+          throw new Error(`Location not found: ${configuredLocation}`);
+        }
+        return place;
+      }
+
+      // Get user's location
+      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+        navigator.geolocation.getCurrentPosition(
+          resolve,
+          (error) => {
+            // Provide better error messaging
+            if (error.code === error.PERMISSION_DENIED) {
+              setError('Location access denied. Please enable location permissions to view weather.');
+            } else if (error.code === error.POSITION_UNAVAILABLE) {
+              setError('Location unavailable. Please check your connection.');
+            } else {
+              setError('Unable to get location. Please try again.');
             }
-          );
-        });
+            reject(error);
+          }
+        );
+      });
 
-        const { latitude, longitude } = position.coords;
+      return position.coords;
+    };
 
-        // Get location name (reverse geocoding)
-        let locationName = 'Your Location';
-        try {
-          const geoResponse = await fetch(
-            `https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${latitude}&longitude=${longitude}&localityLanguage=en`
-          );
-          const geoData = await geoResponse.json();
-          if (geoData.city) {
-            locationName = geoData.city;
-            if (geoData.principalSubdivision) {
-              locationName += `, ${geoData.principalSubdivision}`;
+    const fetchWeather = async () => {
+      setError(null);
+      try {
+        const { latitude, longitude, name } = await getCoordinates();
+
+        // Get location name (reverse geocoding) unless the settings lookup already named it
+        let locationName = name ?? 'Your Location';
+        if (!name) {
+          try {
+            const geoResponse = await fetch(
+              `https://api.bigdatacloud.net/data/reverse-geocode-client?latitude=${latitude}&longitude=${longitude}&localityLanguage=en`
+            );
+            const geoData = await geoResponse.json();
+            if (geoData.city) {
+              locationName = geoData.city;
+              if (geoData.principalSubdivision) {
+                locationName += `, ${geoData.principalSubdivision}`;
+              }
             }
+          } catch (geoErr) {
+            console.error('Error getting location name:', geoErr);
           }
-        } catch (geoErr) {
-          console.error('Error getting location name:', geoErr);
         }
 
         // Fetch weather data from Open-Meteo (free, no API key needed)
@@ -155,7 +205,8 @@ export default function WeatherWidget({ onLoadComplete, isFocused }: { onLoadCom
         }
       } catch (err) {
         console.error('Error fetching weather:', err);
-        setError('Unable to fetch weather data');
+        // Keep the more specific location error if there is one
+        setError((current) => current ?? 'Unable to fetch weather data');
         // Fallback weather data
         setWeather({
           temp: 72,
@@ -183,7 +234,7 @@ export default function WeatherWidget({ onLoadComplete, isFocused }: { onLoadCom
     // Refresh every 10 minutes
     const interval = setInterval(fetchWeather, 10 * 60 * 1000);
     return () => clearInterval(interval);
-  }, []);
+  }, [configuredLocation]);
 
   if (loading) {
     return (
@@ -200,7 +251,9 @@ export default function WeatherWidget({ onLoadComplete, isFocused }: { onLoadCom
           {error || 'Unable to fetch weather'}
         </p>
         <p className="text-xs mt-2" style={{ color: colors.placeholder }}>
-          Allow location access to enable weather
+          {configuredLocation
+            ? 'Check the location in the widget settings (Shift + S)'
+            : 'Allow location access to enable weather'}
         </p>
       </Widget>
     );
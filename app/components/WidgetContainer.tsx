@@ -1,44 +1,54 @@
 'use client';
 
-import React, { useMemo, useEffect, useRef } from 'react';
+import React, { useMemo, useEffect, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
-import { WidgetType } from '@/app/lib/widgetRegistry';
+import WidgetErrorBoundary from './WidgetErrorBoundary';
+import { WidgetType, getWidgetDefinition, getWidgetDisplayName } from '@/app/lib/widgetRegistry';
+import { WidgetSettings, resolveWidgetSettings } from '@/app/lib/widgetSettings';
+import { clearWidgetData } from '@/app/lib/widgetConfig';
+import { takeSnapshot } from '@/app/lib/snapshots';
 
 interface WidgetContainerProps {
   position: number; // Position slot number (1-5)
   widgetType: WidgetType | null; // Widget type or null for empty
+  instanceId?: string; // Scopes the widget's saved data (see getInstanceStorageKey)
+  settings?: WidgetSettings; // Per-instance settings from the slot
+  workspaceId: string; // Workspace the widget is mounted in (its data is reset there)
   widgetProps?: Record<string, any>; // Props to pass to widget
   isFocused?: boolean; // Whether this widget is focused
   setFocusedPositionFromMouse?: (position: number | null) => void; // Function to set focus from mouse click
 }
 
-// Create lazy-loaded components for each widget type
-// These are created at module level for proper code splitting
 const WidgetLoading = () => (
   <div className="h-full flex items-center justify-center">
     <div className="text-sm opacity-50">Loading...</div>
   </div>
 );
 
-const lazyWidgets: Record<WidgetType, React.ComponentType<any>> = {
-  clock: dynamic(() => import('../components/ClockWidget'), {
-    loading: WidgetLoading,
-  }),
-  weather: dynamic(() => import('../components/WeatherWidget'), {
-    loading: WidgetLoading,
-  }),
-  system: dynamic(() => import('../components/SystemInfoWidget'), {
-    loading: WidgetLoading,
-  }),
-  todo: dynamic(() => import('../components/TodoWidget'), {
-    ssr: false,
-    loading: WidgetLoading,
-  }),
-  notepad: dynamic(() => import('../components/NotepadWidget'), {
+// Lazy-loaded components for each widget type, created on first use
+const lazyWidgets = new Map<WidgetType, React.ComponentType<any>>();
+
+/**
+ * Get the lazy component for a widget type (built-in or plugin)
+ * Created once per type and cached so each widget stays its own chunk and keeps its state
+ * Widgets read localStorage, so none of them are rendered on the server
+ * Pass reload to replace the cached component - a failed chunk load stays failed
+ * for the component that attempted it
+ */
+function getLazyWidget(widgetType: WidgetType, reload = false): React.ComponentType<any> | null {
+  const cached = lazyWidgets.get(widgetType);
+  if (cached && !reload) return cached;
+
+  const definition = getWidgetDefinition(widgetType);
+  if (!definition) return null;
+
+  const LazyWidget = dynamic(definition.load, {
     ssr: false,
     loading: WidgetLoading,
-  }),
-};
+  });
+  lazyWidgets.set(widgetType, LazyWidget);
+  return LazyWidget;
+}
 
 /**
  * WidgetContainer - Container component that lazy loads widgets
@@ -47,6 +57,9 @@ const lazyWidgets: Record<WidgetType, React.ComponentType<any>> = {
 export default function WidgetContainer({
   position,
   widgetType,
+  instanceId,
+  settings,
+  workspaceId,
   widgetProps = {},
   isFocused = false,
   setFocusedPositionFromMouse,
@@ -97,11 +110,20 @@ export default function WidgetContainer({
     };
   }, [position, widgetType, setFocusedPositionFromMouse]);
 
+  // Bumped by the error boundary's Retry to remount the widget (and reload its chunk)
+  const [attempt, setAttempt] = useState(0);
+
   // Get the lazy component for this widget type
   const LazyWidget = useMemo(() => {
     if (!widgetType) return null;
-    return lazyWidgets[widgetType];
-  }, [widgetType]);
+    return getLazyWidget(widgetType, attempt > 0);
+  }, [widgetType, attempt]);
+
+  // Schema defaults overlaid with the slot's settings
+  const resolvedSettings = useMemo(
+    () => (widgetType ? resolveWidgetSettings(widgetType, settings) : undefined),
+    [widgetType, settings]
+  );
 
   // Empty slot - render empty container
   if (!widgetType || !LazyWidget) {
@@ -118,6 +140,15 @@ export default function WidgetContainer({
     );
   }
 
+  const handleRetry = () => setAttempt((current) => current + 1);
+
+  const hasSavedData = (getWidgetDefinition(widgetType)?.storageKeys?.length ?? 0) > 0;
+  const handleResetData = async () => {
+    await takeSnapshot('before-widget-reset');
+    await clearWidgetData(widgetType, instanceId, workspaceId);
+    handleRetry();
+  };
+
   // Render widget with Suspense for loading state
   return (
     <div
@@ -129,7 +160,24 @@ export default function WidgetContainer({
       className="h-full min-h-0"
       onMouseDown={handleMouseDown}
     >
-      <LazyWidget {...widgetProps} isFocused={isFocused} />
+      {/* A crash or failed chunk load only takes down this slot */}
+      <WidgetErrorBoundary
+        key={`${instanceId}:${attempt}`}
+        widgetName={getWidgetDisplayName(widgetType)}
+        position={position}
+        isFocused={isFocused}
+        onRetry={handleRetry}
+        onResetData={hasSavedData ? handleResetData : undefined}
+      >
+        {/* Keyed by instance so swapping two widgets of the same type reloads their data */}
+        <LazyWidget
+          key={instanceId}
+          {...widgetProps}
+          instanceId={instanceId}
+          settings={resolvedSettings}
+          isFocused={isFocused}
+        />
+      </WidgetErrorBoundary>
     </div>
   );
 }
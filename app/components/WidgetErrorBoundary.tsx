@@ -0,0 +1,109 @@
+'use client';
+
+import React from 'react';
+import Widget from './Widget';
+import { useReactiveColors } from './ColorContext';
+
+interface WidgetErrorBoundaryProps {
+  widgetName: string;
+  position: number;
+  isFocused?: boolean;
+  onRetry: () => void;
+  onResetData?: () => void; // Omitted for widgets that don't save any data
+  children: React.ReactNode;
+}
+
+interface WidgetErrorBoundaryState {
+  error: Error | null;
+}
+
+/**
+ * WidgetErrorBoundary - Catches render errors and failed chunk loads in one widget
+ * so the rest of the dashboard keeps working. Remount it (change its key) to retry
+ */
+export default class WidgetErrorBoundary extends React.Component<
+  WidgetErrorBoundaryProps,
+  WidgetErrorBoundaryState
+> {
+  state: WidgetErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): WidgetErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    console.error(
+      `Error in ${this.props.widgetName} widget (slot ${this.props.position}):`,
+      error,
+      info.componentStack
+    );
+  }
+
+  render() {
+    if (this.state.error) {
+      return (
+        <WidgetErrorFallback
+          error={this.state.error}
+          widgetName={this.props.widgetName}
+          isFocused={this.props.isFocused}
+          onRetry={this.props.onRetry}
+          onResetData={this.props.onResetData}
+        />
+      );
+    }
+    return this.props.children;
+  }
+}
+
+interface WidgetErrorFallbackProps {
+  error: Error;
+  widgetName: string;
+  isFocused?: boolean;
+  onRetry: () => void;
+  onResetData?: () => void;
+}
+
+function WidgetErrorFallback({ error, widgetName, isFocused, onRetry, onResetData }: WidgetErrorFallbackProps) {
+  const { colors } = useReactiveColors();
+
+  const handleResetData = () => {
+    if (onResetData && confirm(`Delete all saved data for this ${widgetName} widget? This cannot be undone.`)) {
+      onResetData();
+    }
+  };
+
+  const buttonClassName = `
+    px-3 py-1.5
+    bg-white/10
+    border border-white/30
+    rounded-sm
+    hover:bg-white/15
+    hover:border-white/50
+    transition-all duration-200
+    font-mono text-xs
+    active:scale-95
+  `;
+
+  return (
+    <Widget title={widgetName} isFocused={isFocused}>
+      <div role="alert" className="flex-1 flex flex-col items-center justify-center gap-3 text-center">
+        <p className="text-xs" style={{ color: colors.secondary }}>
+          This widget stopped working.
+        </p>
+        <p className="text-xs font-mono break-all max-w-full" style={{ color: colors.muted }}>
+          {error.message || String(error)}
+        </p>
+        <div className="flex flex-wrap justify-center gap-2">
+          <button onClick={onRetry} className={buttonClassName} style={{ color: colors.button }}>
+            Retry
+          </button>
+          {onResetData && (
+            <button onClick={handleResetData} className={buttonClassName} style={{ color: colors.button }}>
+              Reset this widget&apos;s data
+            </button>
+          )}
+        </div>
+      </div>
+    </Widget>
+  );
+}
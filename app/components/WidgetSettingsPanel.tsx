@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { useReactiveColors } from './ColorContext';
+import { WidgetSlot } from '@/app/lib/widgetConfig';
+import { WidgetType, getWidgetDisplayName } from '@/app/lib/widgetRegistry';
+import { getWidgetSettingsFields, getTimeZoneOptions } from '@/app/lib/widgetSettings';
+
+interface WidgetSettingsPanelProps {
+  slot: WidgetSlot & { widgetType: WidgetType };
+  onSave: (settings: Record<string, string>) => void;
+  onClose: () => void;
+}
+
+/**
+ * WidgetSettingsPanel - Modal for editing one widget instance's settings
+ * Opened with Shift+S on the focused widget or from the layout editor
+ */
+export default function WidgetSettingsPanel({ slot, onSave, onClose }: WidgetSettingsPanelProps) {
+  const { colors } = useReactiveColors();
+  const fields = getWidgetSettingsFields(slot.widgetType);
+  const [values, setValues] = useState<Record<string, string>>(() => ({
+    ...(slot.settings as Record<string, string> | undefined),
+  }));
+  const timeZones = useMemo(() => getTimeZoneOptions(), []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(values);
+    onClose();
+  };
+
+  const inputClassName = `
+    w-full
+    bg-black/10
+    border border-white/20
+    rounded-sm
+    px-2 py-1.5
+    font-mono text-xs
+    focus:outline-none
+    focus:border-white/50
+  `;
+
+  const buttonClassName = `
+    px-3 py-1.5
+    bg-white/10
+    border border-white/30
+    rounded-sm
+    hover:bg-white/15
+    hover:border-white/50
+    transition-all duration-200
+    font-mono text-xs
+    active:scale-95
+  `;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" />
+
+      {/* Modal */}
+      <form
+        data-settings-modal="true"
+        onSubmit={handleSubmit}
+        className="
+          relative z-10
+          bg-black/40 backdrop-blur-xl
+          border border-white/20
+          rounded-sm
+          p-4
+          max-w-md w-full
+          shadow-lg
+          space-y-4
+        "
+        style={{
+          color: colors.primary,
+          boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.3), 0 2px 4px -1px rgba(0, 0, 0, 0.2), inset 0 1px 0 0 rgba(255, 255, 255, 0.05)',
+        }}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-baseline border-b border-white/10 pb-2">
+          <h2 className="text-lg font-semibold font-mono" style={{ color: colors.secondary }}>
+            {getWidgetDisplayName(slot.widgetType)} Settings
+          </h2>
+          <span className="text-xs font-mono" style={{ color: colors.muted }}>
+            Slot {slot.position}
+          </span>
+        </div>
+
+        {/* Fields */}
+        {fields.length === 0 ? (
+          <p className="text-xs" style={{ color: colors.secondary }}>
+            This widget has no settings.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {fields.map((field, index) => (
+              <label key={field.key} className="block space-y-1">
+                <span className="text-xs font-semibold font-mono" style={{ color: colors.secondary }}>
+                  {field.label}
+                </span>
+                {field.type === 'timezone' && timeZones.length > 0 ? (
+                  <select
+                    value={values[field.key] ?? ''}
+                    onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                    className={inputClassName}
+                    style={{ color: colors.primary }}
+                    autoFocus={index === 0}
+                  >
+                    <option value="" className="bg-black">
+                      Local time
+                    </option>
+                    {timeZones.map((timeZone) => (
+                      <option key={timeZone} value={timeZone} className="bg-black">
+                        {timeZone.replace(/_/g, ' ')}
+                      </option>
+                    ))}
+                  </select>
+                ) : field.type === 'select' ? (
+                  <select
+                    value={values[field.key] ?? field.defaultValue ?? ''}
+                    onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                    className={inputClassName}
+                    style={{ color: colors.primary }}
+                    autoFocus={index === 0}
+                  >
+                    {field.options?.map((option) => (
+                      <option key={option.value} value={option.value} className="bg-black">
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    value={values[field.key] ?? ''}
+                    onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                    placeholder={field.placeholder}
+                    className={inputClassName}
+                    style={{ color: colors.primary }}
+                    autoFocus={index === 0}
+                  />
+                )}
+                {field.description && (
+                  <span className="block text-xs" style={{ color: colors.muted }}>
+                    {field.description}
+                  </span>
+                )}
+              </label>
+            ))}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-between gap-2 pt-2 border-t border-white/10">
+          <button
+            type="button"
+            onClick={() => setValues({})}
+            disabled={fields.length === 0}
+            className={`${buttonClassName} disabled:opacity-50 disabled:cursor-not-allowed`}
+            style={{ color: colors.button }}
+          >
+            Reset to Defaults
+          </button>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className={buttonClassName} style={{ color: colors.button }}>
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={fields.length === 0}
+              className={`${buttonClassName} disabled:opacity-50 disabled:cursor-not-allowed`}
+              style={{ color: colors.button }}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
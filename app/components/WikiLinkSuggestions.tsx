@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useReactiveColors } from './ColorContext';
+import { WikiLinkSuggestion } from '@/app/lib/wikiLinks';
+
+interface WikiLinkSuggestionsProps {
+  suggestions: WikiLinkSuggestion[];
+  selectedIndex: number;
+  position: { top: number; left: number }; // Below the caret, in viewport pixels
+  onSelect: (suggestion: WikiLinkSuggestion) => void;
+  onClose: () => void;
+}
+
+/**
+ * WikiLinkSuggestions - Tab names to complete a `[[link]]` with
+ * Shown at the caret while typing a link in the notepad; the editor keeps focus and
+ * handles Up / Down / Enter (see NotepadWidget), a click picks a name and Esc closes it
+ */
+export default function WikiLinkSuggestions({
+  suggestions,
+  selectedIndex,
+  position,
+  onSelect,
+  onClose,
+}: WikiLinkSuggestionsProps) {
+  const { colors } = useReactiveColors();
+
+  useEffect(() => {
+    window.addEventListener('closeModals', onClose);
+    window.addEventListener('resize', onClose);
+    return () => {
+      window.removeEventListener('closeModals', onClose);
+      window.removeEventListener('resize', onClose);
+    };
+  }, [onClose]);
+
+  return (
+    <ul
+      role="listbox"
+      aria-label="Link to tab"
+      className="fixed z-50 min-w-[10rem] max-w-xs py-1 bg-black/90 border border-white/30 rounded-sm font-mono text-xs"
+      style={{ top: position.top, left: position.left }}
+    >
+      {suggestions.map((suggestion, index) => (
+        <li
+          key={suggestion.tabId ?? 'new'}
+          role="option"
+          aria-selected={index === selectedIndex}
+          onMouseDown={(e) => {
+            e.preventDefault(); // Keep the editor's caret
+            onSelect(suggestion);
+          }}
+          className={`px-2 py-1 truncate cursor-pointer ${index === selectedIndex ? 'bg-white/15' : 'hover:bg-white/10'}`}
+          style={{ color: suggestion.tabId ? colors.primary : colors.secondary }}
+        >
+          {suggestion.tabId ? suggestion.name : `${suggestion.name} (new tab)`}
+        </li>
+      ))}
+    </ul>
+  );
+}
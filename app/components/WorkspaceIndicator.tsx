@@ -0,0 +1,46 @@
+'use client';
+
+import { useReactiveColors } from './ColorContext';
+import { Workspace } from '@/app/lib/workspaces';
+
+interface WorkspaceIndicatorProps {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+}
+
+/**
+ * WorkspaceIndicator - Numbered workspace bar below the widget grid
+ * Numbers match the Shift+1-9 shortcuts; clicking switches workspace
+ */
+export default function WorkspaceIndicator({ workspaces, activeWorkspaceId }: WorkspaceIndicatorProps) {
+  const { colors } = useReactiveColors();
+
+  return (
+    <div className="flex justify-center gap-2 pt-3 flex-shrink-0">
+      {workspaces.map((workspace, index) => {
+        const isActive = workspace.id === activeWorkspaceId;
+        return (
+          <button
+            key={workspace.id}
+            onClick={() => window.dispatchEvent(new CustomEvent('switchWorkspace', { detail: workspace.id }))}
+            title={`Shift + ${index + 1}`}
+            className={`
+              px-2 py-0.5
+              backdrop-blur-sm
+              border rounded-sm
+              transition-all duration-200
+              font-mono text-xs
+              ${isActive
+                ? 'bg-white/15 border-white/50'
+                : 'bg-black/20 border-white/20 hover:bg-white/10 hover:border-white/30'
+              }
+            `}
+            style={{ color: isActive ? colors.primary : colors.secondary }}
+          >
+            {index + 1} {workspace.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
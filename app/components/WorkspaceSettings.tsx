@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { useReactiveColors } from './ColorContext';
+import {
+  WorkspaceState,
+  DEFAULT_WORKSPACE_ID,
+  MAX_WORKSPACES,
+  getWorkspaceState,
+  saveWorkspaceState,
+  addWorkspace,
+  renameWorkspace,
+  removeWorkspace,
+  clearWorkspaceData,
+} from '@/app/lib/workspaces';
+import { takeSnapshot } from '@/app/lib/snapshots';
+
+/**
+ * WorkspaceSettings - Settings panel for adding, renaming, switching and deleting workspaces
+ */
+export default function WorkspaceSettings() {
+  const { colors } = useReactiveColors();
+  const [state, setState] = useState(() => getWorkspaceState());
+
+  const updateState = (newState: WorkspaceState) => {
+    setState(newState);
+    saveWorkspaceState(newState);
+    // Let the dashboard pick up the new list (and remount if the active workspace was removed)
+    window.dispatchEvent(new CustomEvent('workspacesChanged', { detail: newState }));
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    if (confirm(`Delete workspace "${name}"? Its layout, wallpaper and widget data will be removed. A snapshot is saved first, so you can restore it from Settings → Data → Snapshots.`)) {
+      await takeSnapshot('before-workspace-delete');
+      updateState(removeWorkspace(state, id));
+      clearWorkspaceData(id);
+    }
+  };
+
+  const buttonClassName = `
+    px-2 py-1
+    bg-white/10
+    border border-white/30
+    rounded-sm
+    hover:bg-white/15
+    hover:border-white/50
+    transition-all duration-200
+    font-mono text-xs
+    disabled:opacity-50 disabled:cursor-not-allowed
+  `;
+
+  return (
+    <div className="space-y-2">
+      <h3
+        className="text-sm font-semibold font-mono border-b border-white/10 pb-1"
+        style={{ color: colors.secondary }}
+      >
+        Workspaces
+      </h3>
+      <p className="text-xs" style={{ color: colors.secondary }}>
+        Each workspace has its own layout, wallpaper and widget data. Switch with Shift + 1-9.
+      </p>
+      <div className="space-y-2">
+        {state.workspaces.map((workspace, index) => {
+          const isActive = workspace.id === state.activeWorkspaceId;
+          return (
+            <div key={workspace.id} className="flex items-center gap-2">
+              <span className="w-4 text-xs font-mono" style={{ color: colors.secondary }}>
+                {index + 1}
+              </span>
+              <input
+                type="text"
+                value={workspace.name}
+                onChange={(e) => updateState(renameWorkspace(state, workspace.id, e.target.value))}
+                className="
+                  flex-1 min-w-0
+                  bg-black/10
+                  border border-white/20
+                  rounded-sm
+                  px-2 py-1
+                  font-mono text-xs
+                  focus:outline-none
+                  focus:border-white/50
+                "
+                style={{ color: colors.primary }}
+              />
+              <button
+                onClick={() => window.dispatchEvent(new CustomEvent('switchWorkspace', { detail: workspace.id }))}
+                disabled={isActive}
+                className={buttonClassName}
+                style={{ color: colors.button }}
+              >
+                {isActive ? 'Active' : 'Switch'}
+              </button>
+              <button
+                onClick={() => handleDelete(workspace.id, workspace.name)}
+                disabled={workspace.id === DEFAULT_WORKSPACE_ID}
+                className={buttonClassName}
+                style={{ color: colors.button }}
+              >
+                Delete
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <button
+        onClick={() => updateState(addWorkspace(state))}
+        disabled={state.workspaces.length >= MAX_WORKSPACES}
+        className={`w-full ${buttonClassName}`}
+        style={{
+          color: colors.button,
+          boxShadow: '0 1px 2px rgba(0, 0, 0, 0.3)',
+        }}
+      >
+        Add Workspace
+      </button>
+    </div>
+  );
+}
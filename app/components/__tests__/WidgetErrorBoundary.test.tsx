@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import WidgetErrorBoundary from '../WidgetErrorBoundary';
+import { ColorProvider } from '../ColorContext';
+
+function BrokenWidget(): React.ReactElement {
+  throw new Error('Saved data is corrupt');
+}
+
+describe('WidgetErrorBoundary', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should render children when nothing fails', () => {
+    render(
+      <ColorProvider>
+        <WidgetErrorBoundary widgetName="Todo List" position={4} onRetry={() => {}}>
+          <div>Todos</div>
+        </WidgetErrorBoundary>
+      </ColorProvider>
+    );
+
+    expect(screen.getByText('Todos')).toBeInTheDocument();
+  });
+
+  it('should show and log the error instead of crashing', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onRetry = vi.fn();
+
+    render(
+      <ColorProvider>
+        <div>Other widget</div>
+        <WidgetErrorBoundary widgetName="Todo List" position={4} onRetry={onRetry}>
+          <BrokenWidget />
+        </WidgetErrorBoundary>
+      </ColorProvider>
+    );
+
+    expect(screen.getByText('Other widget')).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('Saved data is corrupt');
+    expect(error).toHaveBeenCalledWith(
+      'Error in Todo List widget (slot 4):',
+      expect.any(Error),
+      expect.any(String)
+    );
+
+    fireEvent.click(screen.getByText('Retry'));
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    // No data to reset without a reset handler
+    expect(screen.queryByText("Reset this widget's data")).not.toBeInTheDocument();
+  });
+
+  it('should reset the widget data after confirmation', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    const onResetData = vi.fn();
+
+    render(
+      <ColorProvider>
+        <WidgetErrorBoundary widgetName="Notepad" position={5} onRetry={() => {}} onResetData={onResetData}>
+          <BrokenWidget />
+        </WidgetErrorBoundary>
+      </ColorProvider>
+    );
+
+    const resetButton = screen.getByText("Reset this widget's data");
+    fireEvent.click(resetButton);
+    expect(onResetData).not.toHaveBeenCalled();
+
+    fireEvent.click(resetButton);
+    expect(confirm).toHaveBeenCalledTimes(2);
+    expect(onResetData).toHaveBeenCalledTimes(1);
+  });
+});
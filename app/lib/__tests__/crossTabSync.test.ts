@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { subscribeToStorageKey, broadcastStorageChange } from '../crossTabSync';
+
+// What the browser dispatches in other tabs when localStorage changes
+function dispatchStorageEvent(key: string, newValue: string | null) {
+  const event = new Event('storage');
+  Object.assign(event, { key, newValue, storageArea: localStorage });
+  window.dispatchEvent(event);
+}
+
+describe('crossTabSync', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+    vi.restoreAllMocks();
+  });
+
+  it('should pass localStorage changes from other tabs to listeners of that key', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToStorageKey('hyperdash-widget-config', listener);
+
+    dispatchStorageEvent('hyperdash-widget-config', '{"version":1,"data":[]}');
+    dispatchStorageEvent('hyperdash-layout-ratios', '{}');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('{"version":1,"data":[]}');
+
+    unsubscribe();
+    dispatchStorageEvent('hyperdash-widget-config', null);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass broadcast changes from other tabs to listeners', async () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToStorageKey('hyperdash-notepad', listener);
+    const otherTab = new BroadcastChannel('hyperdash-sync');
+
+    otherTab.postMessage({ key: 'hyperdash-notepad', value: 'notes' });
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith('notes'));
+
+    otherTab.close();
+    unsubscribe();
+  });
+
+  it('should not deliver a tab\'s own broadcasts to itself', async () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToStorageKey('hyperdash-todos', listener);
+    const otherTab = new BroadcastChannel('hyperdash-sync');
+    const received = vi.fn();
+    otherTab.onmessage = (event) => received(event.data);
+
+    broadcastStorageChange('hyperdash-todos', '[]');
+    await vi.waitFor(() => expect(received).toHaveBeenCalledWith({ key: 'hyperdash-todos', value: '[]' }));
+    expect(listener).not.toHaveBeenCalled();
+
+    otherTab.close();
+    unsubscribe();
+  });
+
+  it('should keep notifying other listeners when one fails', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = vi.fn();
+    const unsubscribeFailing = subscribeToStorageKey('pomodoroMode', () => {
+      throw new Error('boom');
+    });
+    const unsubscribe = subscribeToStorageKey('pomodoroMode', listener);
+
+    dispatchStorageEvent('pomodoroMode', 'work');
+    expect(listener).toHaveBeenCalledWith('work');
+    expect(errorSpy).toHaveBeenCalled();
+
+    unsubscribeFailing();
+    unsubscribe();
+  });
+
+  it('should not sync in safe mode', () => {
+    window.history.replaceState(null, '', '/?safe');
+    const listener = vi.fn();
+    subscribeToStorageKey('hyperdash-todos', listener);
+
+    dispatchStorageEvent('hyperdash-todos', '[]');
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  createExportFile,
+  parseImportFile,
+  describeImport,
+  importData,
+  getKeySection,
+  ImportPreview,
+  DATA_SECTIONS,
+} from '../dataTransfer';
+import { encodeStoredValue } from '../storage';
+import { todosSchema } from '../todoData';
+import { notepadSchema } from '../notepadData';
+import { workspaceStateSchema } from '../workspaces';
+import { notepadHistorySchema } from '../notepadHistory';
+import { notepadTrashSchema } from '../notepadTrash';
+
+const todos = (...ids: string[]) =>
+  encodeStoredValue(todosSchema, ids.map((id) => ({ id, text: `Todo ${id}`, completed: false })));
+
+const notepad = (...tabs: [string, string][]) =>
+  encodeStoredValue(notepadSchema, {
+    tabs: tabs.map(([id, content]) => ({ id, name: `Tab ${id}`, content })),
+    activeTabId: tabs[0][0],
+  });
+
+function parse(data: unknown): ImportPreview {
+  const result = parseImportFile(JSON.stringify(data));
+  if (!result.ok) throw new Error(result.error);
+  return result.preview;
+}
+
+describe('dataTransfer', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('getKeySection', () => {
+    it('should find the section of scoped and per-instance keys', () => {
+      expect(getKeySection('hyperdash-todos')).toBe('todos');
+      expect(getKeySection('hyperdash-workspace:abc:hyperdash-notepad:notepad-2')).toBe('notes');
+      expect(getKeySection('hyperdash-workspace:abc:pomodoroMode:clock-x')).toBe('settings');
+      expect(getKeySection('hyperdash-workspaces')).toBe('layout');
+      expect(getKeySection('some-other-site-key')).toBeNull();
+      expect(getKeySection('hyperdash-sync-settings')).toBeNull();
+    });
+  });
+
+  describe('createExportFile', () => {
+    it('should export only HyperDash data in the chosen sections', async () => {
+      localStorage.setItem('hyperdash-todos', todos('1'));
+      localStorage.setItem('hyperdash-notepad', notepad(['a', 'hello']));
+      localStorage.setItem('clockFormat', '24h');
+      localStorage.setItem('unrelated', 'x');
+
+      const file = await createExportFile(['todos', 'settings']);
+      expect(file.format).toBe('hyperdash-export');
+      expect(file.version).toBe(1);
+      expect(file.sections).toEqual({
+        todos: { 'hyperdash-todos': todos('1') },
+        settings: { clockFormat: '24h' },
+      });
+    });
+  });
+
+  describe('parseImportFile', () => {
+    it('should round-trip an export', async () => {
+      localStorage.setItem('hyperdash-todos', todos('1'));
+      localStorage.setItem('wallpaper', 'https://example.com/a.jpg');
+      const file = await createExportFile(DATA_SECTIONS);
+
+      const result = parseImportFile(JSON.stringify(file));
+      expect(result).toEqual({
+        ok: true,
+        preview: { exportedAt: file.exportedAt, sections: file.sections, problems: [] },
+      });
+    });
+
+    it('should reject files that aren\'t exports', () => {
+      expect(parseImportFile('not json')).toEqual({ ok: false, error: 'The file is not valid JSON.' });
+      expect(parseImportFile('[]').ok).toBe(false);
+      expect(parseImportFile(JSON.stringify({ format: 'other', version: 1, sections: {} })).ok).toBe(false);
+    });
+
+    it('should reject exports from a newer version', () => {
+      const result = parseImportFile(JSON.stringify({ format: 'hyperdash-export', version: 99, sections: {} }));
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error).toContain('newer version');
+    });
+
+    it('should skip and report invalid entries', () => {
+      const preview = parse({
+        format: 'hyperdash-export',
+        version: 1,
+        sections: {
+          todos: { 'hyperdash-todos': '{"version":1,"data":"nope"}', 'hyperdash-show-completed': 'true' },
+          settings: { clockFormat: '13h', 'hyperdash-notepad': notepad(['a', '']) },
+          extras: {},
+        },
+      });
+
+      expect(preview.sections).toEqual({ todos: { 'hyperdash-show-completed': 'true' } });
+      expect(preview.problems).toEqual([
+        'Todos: hyperdash-todos is not a valid todo list',
+        'Settings & timers: clockFormat is not a valid clock format',
+        'Notes: hyperdash-notepad was listed under Settings & timers',
+        'Unknown section "extras" will be ignored',
+      ]);
+    });
+
+    it('should read flat exports made before the header existed', () => {
+      const preview = parse({ 'hyperdash-todos': todos('1'), clockFormat: '12h', unrelated: 'x', other: 'y' });
+
+      expect(preview.exportedAt).toBeNull();
+      expect(preview.sections).toEqual({
+        todos: { 'hyperdash-todos': todos('1') },
+        settings: { clockFormat: '12h' },
+      });
+      expect(preview.problems).toEqual(['2 keys not used by HyperDash will be ignored']);
+    });
+  });
+
+  describe('describeImport', () => {
+    it('should list what will be imported and what was skipped', () => {
+      const preview: ImportPreview = {
+        exportedAt: null,
+        sections: { todos: { 'hyperdash-todos': todos('1') }, settings: { clockFormat: '12h' } },
+        problems: ['Notes: hyperdash-notepad is not a valid notepad'],
+      };
+      const text = describeImport(preview, ['todos'], 'merge');
+      expect(text).toContain('Todos: 1 saved value');
+      expect(text).not.toContain('Settings');
+      expect(text).toContain('- Notes: hyperdash-notepad is not a valid notepad');
+    });
+  });
+
+  describe('importData', () => {
+    it('should replace only the chosen sections', async () => {
+      localStorage.setItem('hyperdash-todos', todos('old'));
+      localStorage.setItem('hyperdash-todos:todo-2', todos('other'));
+      localStorage.setItem('clockFormat', '24h');
+      const preview = parse({
+        format: 'hyperdash-export',
+        version: 1,
+        sections: { todos: { 'hyperdash-todos': todos('new') }, settings: { clockFormat: '12h' } },
+      });
+
+      await importData(preview, ['todos'], 'replace');
+
+      expect(localStorage.getItem('hyperdash-todos')).toBe(todos('new'));
+      expect(localStorage.getItem('hyperdash-todos:todo-2')).toBeNull();
+      expect(localStorage.getItem('clockFormat')).toBe('24h');
+    });
+
+    it('should add new todos and keep existing values when merging', async () => {
+      localStorage.setItem('hyperdash-todos', todos('1', '2'));
+      localStorage.setItem('clockFormat', '24h');
+      const preview = parse({
+        format: 'hyperdash-export',
+        version: 1,
+        sections: {
+          todos: { 'hyperdash-todos': todos('2', '3') },
+          settings: { clockFormat: '12h', keyboardShortcutsShown: 'true' },
+        },
+      });
+
+      expect(await importData(preview, ['todos', 'settings'], 'merge')).toEqual([]);
+
+      expect(localStorage.getItem('hyperdash-todos')).toBe(todos('1', '2', '3'));
+      expect(localStorage.getItem('clockFormat')).toBe('24h');
+      expect(localStorage.getItem('keyboardShortcutsShown')).toBe('true');
+    });
+
+    it('should add notepad tabs, keeping both versions of a tab changed on each side', async () => {
+      localStorage.setItem('hyperdash-notepad', notepad(['a', 'mine'], ['b', 'same']));
+      const preview = parse({
+        format: 'hyperdash-export',
+        version: 1,
+        sections: { notes: { 'hyperdash-notepad': notepad(['a', 'theirs'], ['b', 'same'], ['c', 'new']) } },
+      });
+
+      await importData(preview, ['notes'], 'merge');
+
+      const saved = JSON.parse(localStorage.getItem('hyperdash-notepad')!).data;
+      expect(saved.activeTabId).toBe('a');
+      expect(saved.tabs.map((tab: { name: string; content: string }) => [tab.name, tab.content])).toEqual([
+        ['Tab a', 'mine'],
+        ['Tab b', 'same'],
+        ['Tab a (imported)', 'theirs'],
+        ['Tab c', 'new'],
+      ]);
+    });
+
+    it('should add every notepad tab with its group', async () => {
+      const existing = Array.from({ length: 9 }, (_, i): [string, string] => [`t${i}`, '']);
+      localStorage.setItem('hyperdash-notepad', notepad(...existing));
+      const imported = encodeStoredValue(notepadSchema, {
+        tabs: [
+          { id: 'x', name: 'Tab x', content: '1', groupId: 'g' },
+          { id: 'y', name: 'Tab y', content: '2' },
+          { id: 'z', name: 'Tab z', content: '3', groupId: 'g' },
+        ],
+        activeTabId: 'x',
+        groups: [{ id: 'g', name: 'Work' }],
+      });
+      const preview = parse({
+        format: 'hyperdash-export',
+        version: 1,
+        sections: { notes: { 'hyperdash-notepad': imported } },
+      });
+
+      expect(await importData(preview, ['notes'], 'merge')).toEqual([]);
+
+      const saved = JSON.parse(localStorage.getItem('hyperdash-notepad')!).data;
+      expect(saved.tabs.slice(9).map((tab: { id: string }) => tab.id)).toEqual(['x', 'z', 'y']);
+      expect(saved.groups).toEqual([{ id: 'g', name: 'Work' }]);
+    });
+
+    it('should add the history of tabs that have none when merging', async () => {
+      const revision = (id: string) => ({ id, savedAt: 1, content: id });
+      localStorage.setItem('hyperdash-notepad-history', encodeStoredValue(notepadHistorySchema, { a: [revision('mine')] }));
+      const imported = encodeStoredValue(notepadHistorySchema, { a: [revision('theirs')], c: [revision('new')] });
+      const preview = parse({
+        format: 'hyperdash-export',
+        version: 1,
+        sections: { notes: { 'hyperdash-notepad-history': imported } },
+      });
+
+      await importData(preview, ['notes'], 'merge');
+
+      expect(JSON.parse(localStorage.getItem('hyperdash-notepad-history')!).data).toEqual({
+        a: [revision('mine')],
+        c: [revision('new')],
+      });
+    });
+
+    it('should add closed tabs that are not in the trash when merging', async () => {
+      const closed = (id: string, closedAt: number) => ({ tab: { id, name: id, content: '' }, closedAt, index: 0 });
+      localStorage.setItem('hyperdash-notepad-trash', encodeStoredValue(notepadTrashSchema, [closed('a', 2)]));
+      const imported = encodeStoredValue(notepadTrashSchema, [closed('b', 3), closed('a', 5), closed('c', 1)]);
+      const preview = parse({
+        format: 'hyperdash-export',
+        version: 1,
+        sections: { notes: { 'hyperdash-notepad-trash': imported } },
+      });
+
+      await importData(preview, ['notes'], 'merge');
+
+      const saved = JSON.parse(localStorage.getItem('hyperdash-notepad-trash')!).data;
+      expect(saved.map((trashed: { tab: { id: string }; closedAt: number }) => [trashed.tab.id, trashed.closedAt])).toEqual([
+        ['b', 3],
+        ['a', 2],
+        ['c', 1],
+      ]);
+    });
+
+    it('should add missing workspaces when merging', async () => {
+      localStorage.setItem(
+        'hyperdash-workspaces',
+        encodeStoredValue(workspaceStateSchema, {
+          workspaces: [{ id: 'default', name: 'Main' }],
+          activeWorkspaceId: 'default',
+        })
+      );
+      const imported = encodeStoredValue(workspaceStateSchema, {
+        workspaces: [{ id: 'default', name: 'Home' }, { id: 'w2', name: 'Work' }],
+        activeWorkspaceId: 'w2',
+      });
+      const preview = parse({
+        format: 'hyperdash-export',
+        version: 1,
+        sections: { layout: { 'hyperdash-workspaces': imported } },
+      });
+
+      await importData(preview, ['layout'], 'merge');
+
+      expect(JSON.parse(localStorage.getItem('hyperdash-workspaces')!).data).toEqual({
+        workspaces: [{ id: 'default', name: 'Main' }, { id: 'w2', name: 'Work' }],
+        activeWorkspaceId: 'default',
+      });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { LAYOUT_PRESETS, applyLayoutPreset, getLayoutPreset, getWidgetsDroppedByPreset } from '../layoutPresets';
+import { getLayoutSlots, WidgetConfiguration } from '../widgetConfig';
+
+const config: WidgetConfiguration = [
+  { position: 1, widgetType: 'clock', row: 1, column: 1 },
+  { position: 2, widgetType: null, row: 1, column: 2 },
+  { position: 3, widgetType: 'todo', row: 2, column: 1 },
+  { position: 4, widgetType: 'notepad', row: 2, column: 2 },
+];
+
+describe('layoutPresets', () => {
+  it('should have unique preset ids', () => {
+    const ids = LAYOUT_PRESETS.map((preset) => preset.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should not have overlapping cells in any preset', () => {
+    for (const preset of LAYOUT_PRESETS) {
+      const occupied = new Set<string>();
+      for (const cell of preset.cells) {
+        for (let r = cell.row; r < cell.row + (cell.rowSpan ?? 1); r++) {
+          for (let c = cell.column; c < cell.column + (cell.columnSpan ?? 1); c++) {
+            const key = `${r}:${c}`;
+            expect(occupied.has(key), `${preset.id} overlaps at ${key}`).toBe(false);
+            occupied.add(key);
+          }
+        }
+      }
+    }
+  });
+
+  it('should fill preset cells with widgets in focus order', () => {
+    const preset = getLayoutPreset('one-plus-four')!;
+    const result = applyLayoutPreset(config, preset);
+
+    expect(result.map((slot) => slot.widgetType)).toEqual(['clock', 'todo', 'notepad', null, null]);
+    expect(result.map((slot) => slot.position)).toEqual([1, 2, 3, 4, 5]);
+    expect(getLayoutSlots(result).columns).toBe(4);
+  });
+
+  it('should keep instance IDs with their widgets', () => {
+    const result = applyLayoutPreset(
+      [
+        { position: 1, widgetType: 'todo', instanceId: 'todo', row: 1, column: 1 },
+        { position: 2, widgetType: 'todo', instanceId: 'todo-work', row: 1, column: 2 },
+      ],
+      getLayoutPreset('grid-2x2')!
+    );
+
+    expect(result.map((slot) => slot.instanceId)).toEqual(['todo', 'todo-work', undefined, undefined]);
+  });
+
+  it('should drop widgets that do not fit the preset', () => {
+    const preset = { id: 'single', name: 'Single', cells: [{ row: 1, column: 1 }] };
+    expect(applyLayoutPreset(config, preset)).toEqual([
+      { position: 1, widgetType: 'clock', row: 1, column: 1 },
+    ]);
+  });
+
+  it('should list the widgets a preset would drop', () => {
+    const preset = { id: 'single', name: 'Single', cells: [{ row: 1, column: 1 }] };
+    expect(getWidgetsDroppedByPreset(config, preset).map((slot) => slot.widgetType)).toEqual(['todo', 'notepad']);
+    expect(getWidgetsDroppedByPreset(config, getLayoutPreset('grid-2x2')!)).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  normalizeLayoutRatios,
+  getLayoutRatios,
+  saveLayoutRatios,
+  resetLayoutRatios,
+  getGridTemplateStyle,
+  resizeTracks,
+  getSplitterSegments,
+} from '../layoutRatios';
+import { getLayoutSlots, getWidgetConfiguration } from '../widgetConfig';
+
+describe('layoutRatios', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('normalizeLayoutRatios', () => {
+    it('should fall back to an even split when nothing is saved', () => {
+      expect(normalizeLayoutRatios(null, 2, 3)).toEqual({ rows: [1, 1], columns: [1, 1, 1] });
+    });
+
+    it('should keep saved tracks that match the grid size', () => {
+      const ratios = { rows: [1, 2], columns: [0.5, 1.5] };
+      expect(normalizeLayoutRatios(ratios, 2, 2)).toEqual(ratios);
+    });
+
+    it('should reset tracks that no longer match the grid', () => {
+      const ratios = { rows: [1, 2], columns: [0.5, 1.5] };
+      expect(normalizeLayoutRatios(ratios, 2, 3).columns).toEqual([1, 1, 1]);
+      expect(normalizeLayoutRatios({ rows: [1, -1] }, 2, 1).rows).toEqual([1, 1]);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should save, load and reset ratios', () => {
+      saveLayoutRatios({ rows: [1, 3], columns: [2, 1] });
+      expect(getLayoutRatios()).toEqual({ rows: [1, 3], columns: [2, 1] });
+
+      resetLayoutRatios();
+      expect(getLayoutRatios()).toBeNull();
+    });
+
+    it('should ignore corrupt saved ratios', () => {
+      localStorage.setItem('hyperdash-layout-ratios', '{not json');
+      expect(getLayoutRatios()).toBeNull();
+    });
+  });
+
+  describe('getGridTemplateStyle', () => {
+    it('should build fr-based templates', () => {
+      expect(getGridTemplateStyle({ rows: [1], columns: [0.7, 0.3] })).toEqual({
+        gridTemplateRows: 'minmax(0, 1fr)',
+        gridTemplateColumns: 'minmax(0, 0.7fr) minmax(0, 0.3fr)',
+      });
+    });
+  });
+
+  describe('resizeTracks', () => {
+    it('should move space between adjacent tracks and keep the total', () => {
+      const result = resizeTracks([1, 1], 1, 0.4);
+      expect(result[0]).toBeCloseTo(1.4);
+      expect(result[1]).toBeCloseTo(0.6);
+    });
+
+    it('should cascade into further tracks once the nearest hits its minimum', () => {
+      // Total 3, minimum track 0.15
+      const result = resizeTracks([1, 1, 1], 1, 1.5);
+      expect(result[0]).toBeCloseTo(2.5);
+      expect(result[1]).toBeCloseTo(0.15);
+      expect(result[2]).toBeCloseTo(0.35);
+      expect(result.reduce((a, b) => a + b, 0)).toBeCloseTo(3);
+    });
+
+    it('should stop when every track on the shrinking side is at its minimum', () => {
+      const result = resizeTracks([1, 1], 1, -5);
+      expect(result[0]).toBeCloseTo(0.1);
+      expect(result[1]).toBeCloseTo(1.9);
+    });
+
+    it('should ignore out-of-range boundaries', () => {
+      const tracks = [1, 1];
+      expect(resizeTracks(tracks, 0, 1)).toBe(tracks);
+      expect(resizeTracks(tracks, 2, 1)).toBe(tracks);
+    });
+  });
+
+  describe('getSplitterSegments', () => {
+    it('should only place splitters on edges between slots in the default layout', () => {
+      const segments = getSplitterSegments(getLayoutSlots(getWidgetConfiguration()));
+
+      expect(segments).toEqual([
+        // Clock | Weather and Weather | System in the top row
+        { axis: 'column', boundary: 2, start: 1, end: 1 },
+        // Todo | Notepad in the bottom rows
+        { axis: 'column', boundary: 3, start: 2, end: 3 },
+        { axis: 'column', boundary: 4, start: 1, end: 1 },
+        // Top row | bottom rows across the full width
+        { axis: 'row', boundary: 1, start: 1, end: 6 },
+      ]);
+    });
+
+    it('should not place splitters between empty cells', () => {
+      const layout = getLayoutSlots([{ position: 1, widgetType: 'clock', row: 1, column: 1 }]);
+      expect(getSplitterSegments({ ...layout, columns: 3 })).toEqual([
+        { axis: 'column', boundary: 1, start: 1, end: 1 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GET } from '@/app/api/link-preview/route';
+import { isPrivateAddress } from '@/app/api/link-preview/fetcher';
+import { getLinkPreviewMode, getLinkUrls, parseLinkPreview } from '../linkPreview';
+
+const PAGE = `<!doctype html>
+<html>
+  <head>
+    <title>Fallback title</title>
+    <meta property="og:title" content="Fixture &amp; Friends">
+    <meta name="description" content="  A page
+      for tests ">
+    <link rel="apple-touch-icon" href="/touch.png">
+    <link rel="icon" href="/icons/fav.png">
+  </head>
+  <body><p>Body</p></body>
+</html>`;
+
+// Local stand-in for the web: a page, a redirect, a file and a missing page
+const FIXTURES: Record<string, { status: number; headers: Record<string, string>; body?: string }> = {
+  '/page': { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' }, body: PAGE },
+  '/moved': { status: 301, headers: { Location: '/page' } },
+  '/file.pdf': { status: 200, headers: { 'Content-Type': 'application/pdf' }, body: '%PDF' },
+};
+
+function callRoute(url: string) {
+  return GET(new Request(`http://localhost/api/link-preview?url=${encodeURIComponent(url)}`));
+}
+
+describe('linkPreview', () => {
+  describe('parseLinkPreview', () => {
+    it('should prefer Open Graph tags and resolve the icon', () => {
+      expect(parseLinkPreview(PAGE, 'https://example.com/a/b')).toEqual({
+        url: 'https://example.com/a/b',
+        title: 'Fixture & Friends',
+        description: 'A page for tests',
+        favicon: 'https://example.com/icons/fav.png',
+      });
+    });
+
+    it('should fall back to the title tag and /favicon.ico', () => {
+      expect(parseLinkPreview('<title>Plain</title>', 'https://example.com/x')).toEqual({
+        url: 'https://example.com/x',
+        title: 'Plain',
+        description: null,
+        favicon: 'https://example.com/favicon.ico',
+      });
+    });
+  });
+
+  describe('getLinkUrls', () => {
+    it('should list the web links of rich and Markdown tabs once each', () => {
+      expect(
+        getLinkUrls({
+          id: 'a',
+          name: 'A',
+          content: '<a href="https://a.com/?x=1&amp;y=2">[a.com]</a> <a href="blob:x" data-image-id="i">[Image #1]</a> <a href="https://a.com/?x=1&amp;y=2">again</a>',
+        })
+      ).toEqual(['https://a.com/?x=1&y=2']);
+      expect(
+        getLinkUrls({ id: 'b', name: 'B', format: 'markdown', content: 'See [docs](https://b.com/docs) and https://c.com.' })
+      ).toEqual(['https://b.com/docs', 'https://c.com']);
+    });
+  });
+
+  describe('getLinkPreviewMode', () => {
+    it('should be off unless set to a known mode', () => {
+      expect(getLinkPreviewMode('hover')).toBe('hover');
+      expect(getLinkPreviewMode('inline')).toBe('inline');
+      expect(getLinkPreviewMode(undefined)).toBe('off');
+      expect(getLinkPreviewMode('cards')).toBe('off');
+    });
+  });
+
+  describe('isPrivateAddress', () => {
+    it('should flag loopback, private and link-local addresses', () => {
+      ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', '::ffff:127.0.0.1'].forEach(
+        (address) => expect(isPrivateAddress(address)).toBe(true)
+      );
+      ['93.184.216.34', '172.32.0.1', '2606:4700::1111'].forEach((address) => expect(isPrivateAddress(address)).toBe(false));
+    });
+  });
+
+  describe('route', () => {
+    let server: http.Server;
+    let origin: string;
+
+    beforeAll(async () => {
+      server = http.createServer((request, response) => {
+        const fixture = FIXTURES[request.url ?? ''];
+        response.writeHead(fixture?.status ?? 404, fixture?.headers ?? {});
+        response.end(fixture?.body ?? '');
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    afterEach(() => {
+      delete process.env.HYPERDASH_LINK_PREVIEW_ALLOW_PRIVATE;
+    });
+
+    it('should reject anything but http(s) URLs', async () => {
+      expect((await callRoute('javascript:alert(1)')).status).toBe(400);
+      expect((await GET(new Request('http://localhost/api/link-preview'))).status).toBe(400);
+    });
+
+    it('should not fetch private addresses by default', async () => {
+      expect((await callRoute(`${origin}/page?private`)).status).toBe(502);
+    });
+
+    it('should preview a page, following redirects', async () => {
+      process.env.HYPERDASH_LINK_PREVIEW_ALLOW_PRIVATE = 'true';
+
+      const response = await callRoute(`${origin}/moved`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('cache-control')).toContain('max-age');
+      expect(await response.json()).toEqual({
+        url: `${origin}/moved`,
+        title: 'Fixture & Friends',
+        description: 'A page for tests',
+        favicon: `${origin}/icons/fav.png`,
+      });
+    });
+
+    it('should give files only an icon', async () => {
+      process.env.HYPERDASH_LINK_PREVIEW_ALLOW_PRIVATE = 'true';
+      expect(await (await callRoute(`${origin}/file.pdf`)).json()).toEqual({
+        url: `${origin}/file.pdf`,
+        title: null,
+        description: null,
+        favicon: `${origin}/favicon.ico`,
+      });
+    });
+
+    it('should fail gracefully for missing and unreachable pages', async () => {
+      process.env.HYPERDASH_LINK_PREVIEW_ALLOW_PRIVATE = 'true';
+      expect((await callRoute(`${origin}/missing`)).status).toBe(502);
+
+      // Nothing listens on port 9 (discard) here
+      expect((await callRoute('http://127.0.0.1:9/page')).status).toBe(502);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import {
+  notepadHtmlToMarkdown,
+  notepadHtmlToPlainText,
+  markdownToNotepadHtml,
+  notepadTabsToMarkdown,
+  markdownToNotepadTabs,
+  todosToMarkdown,
+  todosToPlainText,
+  markdownToTodos,
+  renderMarkdown,
+  toggleMarkdownTask,
+  getTabMarkdown,
+  getTabPlainText,
+  getExportFileName,
+} from '../markdown';
+
+const urlLink = '<a href="https://example.com" target="_blank" rel="noopener noreferrer" class="notepad-url-link" style="text-decoration: underline; cursor: pointer;">[Example]</a>';
+const imageLink = '<a href="blob:x" class="notepad-image-link" data-image-id="img-1">[Image #1]</a>';
+
+describe('markdown', () => {
+  describe('notepadHtmlToMarkdown', () => {
+    it('should put each editor line on its own line', () => {
+      expect(notepadHtmlToMarkdown('First<div>Second</div><div><br></div><div>Fourth</div>')).toBe(
+        'First\nSecond\n\nFourth'
+      );
+    });
+
+    it('should turn web links into Markdown links and keep image labels', () => {
+      expect(notepadHtmlToMarkdown(`<div>See ${urlLink}</div><div>${imageLink}</div>`)).toBe(
+        'See [Example](https://example.com)\n[Image #1]'
+      );
+      expect(notepadHtmlToPlainText(`<div>See ${urlLink}</div>`)).toBe('See [Example] (https://example.com)');
+    });
+
+    it('should replace non-breaking spaces', () => {
+      expect(notepadHtmlToMarkdown('a&nbsp;b')).toBe('a b');
+    });
+  });
+
+  describe('markdownToNotepadHtml', () => {
+    it('should escape text and create notepad links', () => {
+      expect(markdownToNotepadHtml('<b>\n\n[Example](https://example.com)')).toBe(
+        `<div>&lt;b&gt;</div><div><br></div><div>${urlLink}</div>`
+      );
+    });
+
+    it('should convert formatting to Markdown', () => {
+      const html =
+        '<h1>Title</h1><div><b>bold</b>, <i>italic</i>, <s>old</s> and <code>x = 1</code></div>' +
+        '<ul><li>one</li><li>two</li></ul><ol><li>first</li></ol><pre>let a = 1;\nlet b = 2;</pre><div>end</div>';
+      const markdown = '## Title\n**bold**, *italic*, ~~old~~ and `x = 1`\n- one\n- two\n1. first\n```\nlet a = 1;\nlet b = 2;\n```\nend';
+      expect(notepadHtmlToMarkdown(html)).toBe(markdown);
+      expect(markdownToNotepadHtml(markdown)).toBe(html);
+      expect(notepadHtmlToPlainText(html)).toBe('Title\nbold, italic, old and x = 1\n- one\n- two\n1. first\nlet a = 1;\nlet b = 2;\nend');
+    });
+
+    it('should not treat link URLs or code as emphasis', () => {
+      expect(markdownToNotepadHtml('[a](https://x.com/_b_) `**c**` snake_case_name')).toBe(
+        `<div>${urlLink.replace('https://example.com', 'https://x.com/_b_').replace('[Example]', '[a]')} <code>**c**</code> snake_case_name</div>`
+      );
+    });
+
+    it('should round-trip through Markdown', () => {
+      const markdown = 'Line one\n\nSee [Example](https://example.com) here';
+      expect(notepadHtmlToMarkdown(markdownToNotepadHtml(markdown))).toBe(markdown);
+    });
+  });
+
+  describe('notepad tabs', () => {
+    it('should write a heading per tab and read them back', () => {
+      const markdown = notepadTabsToMarkdown([
+        { id: '1', name: 'Ideas', content: '<div>One</div><div>Two</div>' },
+        { id: '2', name: 'Empty', content: '' },
+      ]);
+      expect(markdown).toBe('# Ideas\n\nOne\nTwo\n\n# Empty\n');
+
+      const tabs = markdownToNotepadTabs(markdown, 'file');
+      expect(tabs.map((tab) => tab.name)).toEqual(['Ideas', 'Empty']);
+      expect(tabs[0].content).toBe('<div>One</div><div>Two</div>');
+      expect(tabs[1].content).toBe('');
+    });
+
+    it('should name text before any heading after the file', () => {
+      const tabs = markdownToNotepadTabs('Intro\n```\n# not a heading\n```\n## Sub\n# Next\nBody', 'notes');
+      expect(tabs.map((tab) => tab.name)).toEqual(['notes', 'Next']);
+      expect(notepadHtmlToMarkdown(tabs[0].content)).toBe('Intro\n```\n# not a heading\n```\n## Sub');
+      expect(markdownToNotepadTabs('', 'notes')).toEqual([]);
+    });
+  });
+
+  describe('Markdown tabs', () => {
+    it('should render headings, task lists, code fences and links', () => {
+      const html = renderMarkdown('# Title\n- [ ] open\n- [x] done\n```\n<b>code</b>\n```\n[site](https://example.com) <i>');
+      expect(html).toBe(
+        '<h1>Title</h1>' +
+          '<ul><li class="task-item"><input type="checkbox" data-line="1"> open</li>' +
+          '<li class="task-item"><input type="checkbox" data-line="2" checked> done</li></ul>' +
+          '<pre>&lt;b&gt;code&lt;/b&gt;</pre>' +
+          '<div><a href="https://example.com" target="_blank" rel="noopener noreferrer" class="notepad-url-link">site</a> &lt;i&gt;</div>'
+      );
+      expect(renderMarkdown('###### Small')).toBe('<h6>Small</h6>');
+    });
+
+    it('should render [[Tab name]] links in the preview only', () => {
+      expect(renderMarkdown('See [[ Plans & Ideas ]] and [[]]')).toBe(
+        '<div>See <a class="notepad-wiki-link" data-wiki-link="Plans &amp; Ideas">Plans &amp; Ideas</a> and [[]]</div>'
+      );
+      expect(markdownToNotepadHtml('See [[Plans]]', 0)).toBe('<div>See [[Plans]]</div>');
+    });
+
+    it('should not render links to other schemes', () => {
+      expect(renderMarkdown('[x](javascript:alert(1))')).toBe('<div>[x](javascript:alert(1))</div>');
+    });
+
+    it('should toggle task items by line', () => {
+      const source = 'Tasks\n- [ ] one\n  1. [x] two';
+      expect(toggleMarkdownTask(source, 1)).toBe('Tasks\n- [x] one\n  1. [x] two');
+      expect(toggleMarkdownTask(source, 2)).toBe('Tasks\n- [ ] one\n  1. [ ] two');
+      expect(toggleMarkdownTask(source, 0)).toBe(source);
+      expect(toggleMarkdownTask(source, 9)).toBe(source);
+    });
+
+    it('should export Markdown tabs as their source', () => {
+      const tab = { id: '1', name: 'Plan', content: '# Goals\n```\n# comment\n```\n', format: 'markdown' as const };
+      expect(getTabMarkdown(tab)).toBe('# Goals\n```\n# comment\n```');
+      expect(getTabPlainText(tab)).toBe('# Goals\n```\n# comment\n```');
+      // Headings move under the tab's heading, so importing the file gives one tab back
+      const markdown = notepadTabsToMarkdown([tab]);
+      expect(markdown).toBe('# Plan\n\n## Goals\n```\n# comment\n```\n');
+      expect(markdownToNotepadTabs(markdown, 'file').map((t) => t.name)).toEqual(['Plan']);
+    });
+
+    it('should convert between rich text and Markdown source', () => {
+      const html = '<h1>Title</h1><div><b>bold</b></div>';
+      expect(notepadHtmlToMarkdown(html, 0)).toBe('# Title\n**bold**');
+      expect(markdownToNotepadHtml('# Title\n**bold**', 0)).toBe(html);
+    });
+  });
+
+  describe('todos', () => {
+    const todos = [
+      { id: '1', text: 'Open', completed: false },
+      { id: '2', text: 'Done', completed: true },
+    ];
+
+    it('should export checklists', () => {
+      expect(todosToMarkdown(todos, 'Chores')).toBe('# Chores\n\n- [ ] Open\n- [x] Done\n');
+      expect(todosToPlainText(todos)).toBe('[ ] Open\n[x] Done\n');
+    });
+
+    it('should import checklist, bullet and numbered items', () => {
+      const imported = markdownToTodos('# Chores\n\n- [ ] Open\n* [X] Done\n1. Numbered\n+ Bullet\n[ ] Plain\nNot an item\n- [ ]   \n');
+      expect(imported.map(({ text, completed }) => ({ text, completed }))).toEqual([
+        { text: 'Open', completed: false },
+        { text: 'Done', completed: true },
+        { text: 'Numbered', completed: false },
+        { text: 'Bullet', completed: false },
+        { text: 'Plain', completed: false },
+      ]);
+      expect(new Set(imported.map((todo) => todo.id)).size).toBe(imported.length);
+    });
+
+    it('should round-trip a list', () => {
+      const imported = markdownToTodos(todosToMarkdown(todos, 'Chores'));
+      expect(imported.map(({ text, completed }) => ({ text, completed }))).toEqual(
+        todos.map(({ text, completed }) => ({ text, completed }))
+      );
+    });
+  });
+
+  it('should make safe file names', () => {
+    expect(getExportFileName('a/b: c?', 'md')).toBe('a-b- c-.md');
+    expect(getExportFileName('  ', 'zip')).toBe('untitled.zip');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NotepadTab,
+  orderTabs,
+  moveTab,
+  getNumberedTabs,
+  normalizeNotepadData,
+} from '../notepadData';
+
+const tab = (id: string, extra: Partial<NotepadTab> = {}): NotepadTab => ({ id, name: `Tab ${id}`, content: '', ...extra });
+const ids = (tabs: NotepadTab[]) => tabs.map((t) => t.id);
+
+describe('notepadData', () => {
+  describe('orderTabs', () => {
+    it('should put pinned tabs first and gather the tabs of each group', () => {
+      const tabs = [tab('a'), tab('b', { groupId: 'g' }), tab('c'), tab('d', { pinned: true }), tab('e', { groupId: 'g' })];
+      expect(ids(orderTabs(tabs))).toEqual(['d', 'a', 'b', 'e', 'c']);
+    });
+
+    it('should return the same array when the order is right', () => {
+      const tabs = [tab('a', { pinned: true }), tab('b', { groupId: 'g' }), tab('c', { groupId: 'g' }), tab('d')];
+      expect(orderTabs(tabs)).toBe(tabs);
+    });
+  });
+
+  describe('moveTab', () => {
+    it('should move a tab into the group or pinned tabs it is dropped on', () => {
+      const tabs = [tab('p', { pinned: true }), tab('a'), tab('b', { groupId: 'g' }), tab('c', { groupId: 'g' })];
+
+      const grouped = moveTab(tabs, 'a', 'c');
+      expect(ids(grouped)).toEqual(['p', 'b', 'c', 'a']);
+      expect(grouped[3].groupId).toBe('g');
+
+      const pinned = moveTab(tabs, 'b', 'p');
+      expect(ids(pinned)).toEqual(['b', 'p', 'a', 'c']);
+      expect(pinned[0]).toEqual(tab('b', { pinned: true }));
+
+      expect(moveTab(tabs, 'a', 'a')).toBe(tabs);
+    });
+  });
+
+  describe('getNumberedTabs', () => {
+    it('should number the first nine pinned tabs, or the first nine tabs if none are pinned', () => {
+      const tabs = Array.from({ length: 12 }, (_, i) => tab(String(i), { pinned: i < 10 }));
+      expect(ids(getNumberedTabs(tabs))).toEqual(['0', '1', '2', '3', '4', '5', '6', '7', '8']);
+      expect(ids(getNumberedTabs([tab('a', { pinned: true }), tab('b')]))).toEqual(['a']);
+      expect(ids(getNumberedTabs(tabs.map(({ pinned: _pinned, ...t }) => t)))).toHaveLength(9);
+    });
+  });
+
+  describe('normalizeNotepadData', () => {
+    it('should keep valid groups that have tabs', () => {
+      expect(
+        normalizeNotepadData({
+          tabs: [
+            { id: 'a', name: 'A', content: '', groupId: 'g' },
+            { id: 'b', name: 'B', content: '', groupId: 'missing' },
+            { id: 'c', name: 'C', content: '', pinned: true, groupId: 'g' },
+          ],
+          activeTabId: 'a',
+          groups: [{ id: 'g', name: 'Work', collapsed: true }, { id: 'empty', name: 'Empty' }, { name: 'No ID' }],
+        })
+      ).toEqual({
+        tabs: [
+          { id: 'c', name: 'C', content: '', pinned: true },
+          { id: 'a', name: 'A', content: '', groupId: 'g' },
+          { id: 'b', name: 'B', content: '' },
+        ],
+        activeTabId: 'a',
+        groups: [{ id: 'g', name: 'Work', collapsed: true }],
+      });
+    });
+  });
+});
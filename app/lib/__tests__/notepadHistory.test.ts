@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  MAX_REVISIONS,
+  normalizeNotepadHistory,
+  addRevision,
+  pruneHistory,
+  updateNotepadHistory,
+  diffLines,
+  foldUnchangedLines,
+  notepadHistorySchema,
+} from '../notepadHistory';
+import { readStoredValueAsync } from '../storage';
+
+describe('notepadHistory', () => {
+  describe('normalizeNotepadHistory', () => {
+    it('should drop malformed revisions and tabs without any', () => {
+      expect(
+        normalizeNotepadHistory({
+          a: [
+            { id: '1', savedAt: 1, content: 'one', format: 'markdown' },
+            { id: '2', savedAt: 'later', content: 'two' },
+            { id: '3', savedAt: 3, content: 'three', format: 'html' },
+          ],
+          b: [null],
+          c: 'nope',
+        })
+      ).toEqual({
+        a: [
+          { id: '1', savedAt: 1, content: 'one', format: 'markdown' },
+          { id: '3', savedAt: 3, content: 'three' },
+        ],
+      });
+      expect(normalizeNotepadHistory([])).toBeNull();
+    });
+  });
+
+  describe('addRevision', () => {
+    it('should skip content that matches the latest revision', () => {
+      const history = addRevision({}, 'a', 'one', undefined, 1);
+      expect(addRevision(history, 'a', 'one')).toBe(history);
+      expect(addRevision(history, 'a', 'one', 'markdown').a).toHaveLength(2);
+      expect(addRevision(history, 'b', 'one').b).toHaveLength(1);
+    });
+
+    it('should keep the newest revisions per tab', () => {
+      let history = {};
+      for (let i = 0; i <= MAX_REVISIONS; i++) {
+        history = addRevision(history, 'a', `version ${i}`, undefined, i);
+      }
+      const revisions = normalizeNotepadHistory(history)!.a;
+      expect(revisions).toHaveLength(MAX_REVISIONS);
+      expect(revisions[0].content).toBe('version 1');
+      expect(revisions[MAX_REVISIONS - 1].content).toBe(`version ${MAX_REVISIONS}`);
+    });
+  });
+
+  describe('pruneHistory', () => {
+    it('should drop the history of deleted tabs', () => {
+      const history = addRevision(addRevision({}, 'a', 'one'), 'b', 'two');
+      expect(Object.keys(pruneHistory(history, new Set(['b'])))).toEqual(['b']);
+      expect(pruneHistory(history, new Set(['a', 'b', 'c']))).toBe(history);
+    });
+  });
+
+  describe('updateNotepadHistory', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should apply updates one after another', async () => {
+      await Promise.all([
+        updateNotepadHistory('hyperdash-notepad-history', (history) => addRevision(history, 'a', 'one')),
+        updateNotepadHistory('hyperdash-notepad-history', (history) => addRevision(history, 'a', 'two')),
+      ]);
+      const saved = await readStoredValueAsync('hyperdash-notepad-history', notepadHistorySchema);
+      expect(saved?.a.map((revision) => revision.content)).toEqual(['one', 'two']);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should mark removed and added lines', () => {
+      expect(diffLines('one\ntwo\nthree', 'one\n2\nthree\nfour')).toEqual([
+        { type: 'same', text: 'one' },
+        { type: 'removed', text: 'two' },
+        { type: 'added', text: '2' },
+        { type: 'same', text: 'three' },
+        { type: 'added', text: 'four' },
+      ]);
+      expect(diffLines('', 'new')).toEqual([{ type: 'added', text: 'new' }]);
+      expect(diffLines('gone', '')).toEqual([{ type: 'removed', text: 'gone' }]);
+    });
+
+    it('should keep moved lines that are still in order', () => {
+      expect(diffLines('a\nb\nc\nd', 'b\nc\na\nd').filter((line) => line.type !== 'same')).toEqual([
+        { type: 'removed', text: 'a' },
+        { type: 'added', text: 'a' },
+      ]);
+    });
+  });
+
+  describe('foldUnchangedLines', () => {
+    it('should fold unchanged lines away from changes', () => {
+      const before = Array.from({ length: 10 }, (_, i) => `line ${i}`).join('\n');
+      const after = before.replace('line 8', 'changed');
+      expect(foldUnchangedLines(diffLines(before, after), 2)).toEqual([
+        { type: 'fold', count: 6 },
+        { type: 'same', text: 'line 6' },
+        { type: 'same', text: 'line 7' },
+        { type: 'removed', text: 'line 8' },
+        { type: 'added', text: 'changed' },
+        { type: 'same', text: 'line 9' },
+      ]);
+    });
+  });
+});
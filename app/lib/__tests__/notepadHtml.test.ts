@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { sanitizeNotepadHtml, getShortcutFormat, toggleInlineCode, getCurrentBlockTag } from '../notepadHtml';
+
+const LINK_ATTRIBUTES = 'target="_blank" rel="noopener noreferrer" style="text-decoration: underline; cursor: pointer;"';
+
+const shortcut = (key: string, code: string, modifiers: { shift?: boolean; alt?: boolean; meta?: boolean } = {}) => ({
+  key,
+  code,
+  ctrlKey: true,
+  shiftKey: !!modifiers.shift,
+  altKey: !!modifiers.alt,
+  metaKey: !!modifiers.meta,
+});
+
+function createEditor(html: string): HTMLDivElement {
+  const editor = document.createElement('div');
+  editor.contentEditable = 'true';
+  editor.innerHTML = html;
+  document.body.appendChild(editor);
+  return editor;
+}
+
+function select(startNode: Node, startOffset: number, endNode: Node = startNode, endOffset: number = startOffset) {
+  const range = document.createRange();
+  range.setStart(startNode, startOffset);
+  range.setEnd(endNode, endOffset);
+  window.getSelection()!.removeAllRanges();
+  window.getSelection()!.addRange(range);
+}
+
+describe('notepadHtml', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('sanitizeNotepadHtml', () => {
+    it('should keep notepad formatting', () => {
+      const html =
+        '<h1>Title</h1><div><b>bold</b> <i>it</i> <s>gone</s> <code>x</code></div>' +
+        '<ul><li>one</li></ul><ol><li>two</li></ol><pre>a\nb</pre><div><br></div>';
+      expect(sanitizeNotepadHtml(html)).toBe(html);
+    });
+
+    it('should normalize equivalent tags', () => {
+      expect(sanitizeNotepadHtml('<p><strong>a</strong><em>b</em><strike>c</strike><del>d</del></p>')).toBe(
+        '<div><b>a</b><i>b</i><s>c</s><s>d</s></div>'
+      );
+    });
+
+    it('should drop scripts, embedded content and attributes', () => {
+      const html =
+        '<div onclick="alert(1)" class="x" style="color: red">text<script>alert(1)</script>' +
+        '<img src="x" onerror="alert(1)"><iframe src="https://example.com"></iframe></div>' +
+        '<span style="font-weight: bold">kept</span><style>body{}</style>';
+      expect(sanitizeNotepadHtml(html)).toBe('<div>text</div>kept');
+    });
+
+    it('should keep web and image links only', () => {
+      expect(sanitizeNotepadHtml('<a href="https://example.com" onclick="x()">[example.com]</a>')).toBe(
+        `<a href="https://example.com" class="notepad-url-link" ${LINK_ATTRIBUTES}>[example.com]</a>`
+      );
+      expect(
+        sanitizeNotepadHtml('<a href="blob:http://localhost/1" class="notepad-image-link" data-image-id="img-1">[Image #1]</a>')
+      ).toBe(`<a href="blob:http://localhost/1" data-image-id="img-1" class="notepad-image-link" ${LINK_ATTRIBUTES}>[Image #1]</a>`);
+      expect(sanitizeNotepadHtml('<a href="javascript:alert(1)">click</a>')).toBe('click');
+      expect(sanitizeNotepadHtml('<a class="notepad-image-link" data-image-id="x&quot; onload=&quot;">[Image #1]</a>')).toBe('[Image #1]');
+    });
+
+    it('should be stable when sanitized again', () => {
+      const once = sanitizeNotepadHtml('<div><strong>a</strong><a href="https://x.y">[x.y]</a></div>');
+      expect(sanitizeNotepadHtml(once)).toBe(once);
+    });
+
+    it('should remove empty formatting and caret placeholders', () => {
+      expect(sanitizeNotepadHtml('<div>a<code>\u200b</code><b></b></div>')).toBe('<div>a</div>');
+    });
+  });
+
+  describe('getShortcutFormat', () => {
+    it('should map editor shortcuts to formats', () => {
+      expect(getShortcutFormat(shortcut('b', 'KeyB'))).toBe('bold');
+      expect(getShortcutFormat(shortcut('i', 'KeyI'))).toBe('italic');
+      expect(getShortcutFormat(shortcut('X', 'KeyX', { shift: true }))).toBe('strikethrough');
+      expect(getShortcutFormat(shortcut('2', 'Digit2', { alt: true }))).toBe('heading2');
+      expect(getShortcutFormat(shortcut('*', 'Digit8', { shift: true }))).toBe('bulletList');
+      expect(getShortcutFormat(shortcut('&', 'Digit7', { shift: true }))).toBe('numberedList');
+      expect(getShortcutFormat(shortcut('e', 'KeyE'))).toBe('inlineCode');
+      expect(getShortcutFormat(shortcut('c', 'KeyC', { alt: true }))).toBe('codeBlock');
+    });
+
+    it('should ignore other combinations', () => {
+      expect(getShortcutFormat(shortcut('1', 'Digit1'))).toBeNull(); // Switch tab
+      expect(getShortcutFormat(shortcut('t', 'KeyT'))).toBeNull();
+      expect(getShortcutFormat(shortcut('b', 'KeyB', { meta: true }))).toBeNull();
+      expect(getShortcutFormat({ ...shortcut('b', 'KeyB'), ctrlKey: false })).toBeNull();
+    });
+  });
+
+  describe('toggleInlineCode', () => {
+    it('should wrap and unwrap the selection', () => {
+      const editor = createEditor('<div>say hello</div>');
+      const text = editor.querySelector('div')!.firstChild!;
+      select(text, 4, text, 9);
+
+      expect(toggleInlineCode(editor)).toBe(true);
+      expect(editor.innerHTML).toBe('<div>say <code>hello</code></div>');
+
+      expect(toggleInlineCode(editor)).toBe(true);
+      expect(sanitizeNotepadHtml(editor.innerHTML)).toBe('<div>say hello</div>');
+    });
+
+    it('should not wrap across lines or outside the editor', () => {
+      const editor = createEditor('<div>one</div><div>two</div>');
+      const [first, second] = Array.from(editor.querySelectorAll('div'));
+      select(first.firstChild!, 1, second.firstChild!, 1);
+      expect(toggleInlineCode(editor)).toBe(false);
+
+      const outside = document.createElement('p');
+      outside.textContent = 'outside';
+      document.body.appendChild(outside);
+      select(outside.firstChild!, 0, outside.firstChild!, 3);
+      expect(toggleInlineCode(editor)).toBe(false);
+    });
+  });
+
+  it('should report the heading or code block at the caret', () => {
+    const editor = createEditor('<h2>Title</h2><pre>code</pre><div>text</div>');
+    select(editor.querySelector('h2')!.firstChild!, 1);
+    expect(getCurrentBlockTag(editor)).toBe('H2');
+    select(editor.querySelector('pre')!.firstChild!, 1);
+    expect(getCurrentBlockTag(editor)).toBe('PRE');
+    select(editor.querySelector('div')!.firstChild!, 1);
+    expect(getCurrentBlockTag(editor)).toBeNull();
+  });
+});
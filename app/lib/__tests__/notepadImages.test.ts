@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { addImage, getImageIds, getImageUrl, hydrateImageLinks, deleteImages } from '../notepadImages';
+
+describe('notepadImages', () => {
+  beforeEach(() => {
+    // jsdom has no object URLs
+    let count = 0;
+    URL.createObjectURL = vi.fn(() => `blob:test-${++count}`);
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  describe('getImageIds', () => {
+    it('should find the image IDs linked from notepad HTML', () => {
+      const html =
+        'Notes <a class="notepad-image-link" data-image-id="img-a" href="blob:x">[Image #1]</a> and ' +
+        '<a class="notepad-image-link" data-image-id="img-b">[Image #2]</a> <a href="https://example.com">[example.com]</a>';
+      expect(getImageIds(html)).toEqual(['img-a', 'img-b']);
+      expect(getImageIds('Plain text')).toEqual([]);
+    });
+  });
+
+  describe('addImage', () => {
+    it('should return a unique ID with a usable URL', async () => {
+      const first = addImage('hyperdash-notepad', new Blob(['a'], { type: 'image/png' }));
+      const second = addImage('hyperdash-notepad', new Blob(['b'], { type: 'image/png' }));
+
+      expect(first.id).not.toBe(second.id);
+      expect(first.url).toMatch(/^blob:/);
+      expect(await getImageUrl(first.id)).toBe(first.url);
+    });
+  });
+
+  describe('hydrateImageLinks', () => {
+    it('should point links at their images and leave missing ones alone', async () => {
+      const { id, url } = addImage('hyperdash-notepad', new Blob(['a'], { type: 'image/png' }));
+      const editor = document.createElement('div');
+      editor.innerHTML =
+        `<a class="notepad-image-link" data-image-id="${id}" href="blob:stale">[Image #1]</a>` +
+        '<a class="notepad-image-link" data-image-id="img-missing" href="blob:old">[Image #2]</a>';
+
+      await hydrateImageLinks(editor);
+
+      const links = editor.querySelectorAll('a');
+      expect(links[0].getAttribute('href')).toBe(url);
+      expect(links[1].getAttribute('href')).toBe('blob:old');
+    });
+  });
+
+  it('should have nothing to delete without IndexedDB', async () => {
+    expect(await deleteImages(() => true)).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TrashedTab,
+  MAX_TRASHED_TABS,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  normalizeNotepadTrash,
+  getRetentionDays,
+  addToTrash,
+  removeFromTrash,
+  purgeTrash,
+  restoreTrashedTab,
+} from '../notepadTrash';
+import { NotepadTab } from '../notepadData';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const tab = (id: string, extra: Partial<NotepadTab> = {}): NotepadTab => ({ id, name: `Tab ${id}`, content: id, ...extra });
+const closed = (id: string, closedAt = 0, index = 0): TrashedTab => ({ tab: tab(id), closedAt, index });
+
+describe('notepadTrash', () => {
+  describe('normalizeNotepadTrash', () => {
+    it('should drop malformed entries and keep valid groups', () => {
+      expect(
+        normalizeNotepadTrash([
+          { tab: tab('a', { groupId: 'g' }), closedAt: 1, index: 2, group: { id: 'g', name: 'Work' } },
+          { tab: tab('b'), closedAt: 'yesterday', index: 0 },
+          { tab: { name: 'No ID' }, closedAt: 1, index: 0 },
+          { tab: tab('c', { groupId: 'gone' }), closedAt: 1, index: -3 },
+          { tab: tab('a'), closedAt: 2, index: 0 },
+        ])
+      ).toEqual([
+        { tab: tab('a', { groupId: 'g' }), closedAt: 1, index: 2, group: { id: 'g', name: 'Work' } },
+        { tab: tab('c'), closedAt: 1, index: 0 },
+      ]);
+      expect(normalizeNotepadTrash({})).toBeNull();
+    });
+  });
+
+  describe('getRetentionDays', () => {
+    it('should fall back to the default for missing or invalid settings', () => {
+      expect(getRetentionDays('7')).toBe(7);
+      expect(getRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(getRetentionDays('0')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+      expect(getRetentionDays('soon')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    });
+  });
+
+  describe('addToTrash', () => {
+    it('should put the newest tab first and keep MAX_TRASHED_TABS', () => {
+      let trash = Array.from({ length: MAX_TRASHED_TABS }, (_, i) => closed(String(i), i));
+      trash = addToTrash(trash, closed('new', 1000));
+      expect(trash).toHaveLength(MAX_TRASHED_TABS);
+      expect(trash[0].tab.id).toBe('new');
+
+      // Closing a tab again replaces its older entry
+      expect(addToTrash([closed('a', 1), closed('b', 2)], closed('b', 3)).map((t) => t.closedAt)).toEqual([3, 1]);
+    });
+  });
+
+  describe('removeFromTrash', () => {
+    it('should remove a tab by ID', () => {
+      const trash = [closed('a'), closed('b')];
+      expect(removeFromTrash(trash, 'a')).toEqual([closed('b')]);
+      expect(removeFromTrash(trash, 'c')).toBe(trash);
+    });
+  });
+
+  describe('purgeTrash', () => {
+    it('should drop tabs closed before the retention period', () => {
+      const now = 100 * DAY;
+      const trash = [closed('new', now - DAY), closed('old', now - 8 * DAY)];
+      expect(purgeTrash(trash, 7, now).map((t) => t.tab.id)).toEqual(['new']);
+      expect(purgeTrash(trash, 30, now)).toBe(trash);
+    });
+  });
+
+  describe('restoreTrashedTab', () => {
+    it('should put the tab back at its position', () => {
+      const restored = restoreTrashedTab([tab('a'), tab('c')], [], closed('b', 0, 1));
+      expect(restored.tabs.map((t) => t.id)).toEqual(['a', 'b', 'c']);
+      expect(restored.tabId).toBe('b');
+      expect(restoreTrashedTab([tab('a')], [], closed('b', 0, 5)).tabs.map((t) => t.id)).toEqual(['a', 'b']);
+    });
+
+    it('should re-create a group that is gone', () => {
+      const trashed: TrashedTab = { ...closed('b'), tab: tab('b', { groupId: 'g' }), group: { id: 'g', name: 'Work' } };
+      const restored = restoreTrashedTab([tab('a')], [], trashed);
+      expect(restored.groups).toEqual([{ id: 'g', name: 'Work' }]);
+      expect(restored.tabs.find((t) => t.id === 'b')?.groupId).toBe('g');
+
+      const groups = [{ id: 'g', name: 'Renamed' }];
+      expect(restoreTrashedTab([tab('a', { groupId: 'g' })], groups, trashed).groups).toBe(groups);
+    });
+
+    it('should give the tab a new ID if its ID is in use', () => {
+      const restored = restoreTrashedTab([tab('a', { content: 'cleared' })], [], closed('a'));
+      expect(restored.tabs).toHaveLength(2);
+      expect(restored.tabId).not.toBe('a');
+      expect(restored.tabs.find((t) => t.id === restored.tabId)?.content).toBe('a');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SearchDocument,
+  buildSearchIndex,
+  searchDocuments,
+  getSnippet,
+  findTextOffset,
+  findTextRange,
+  fuzzyMatch,
+} from '../search';
+import { encodeStoredValue } from '../storage';
+import { notepadSchema } from '../notepadData';
+import { todosSchema } from '../todoData';
+import { WidgetConfiguration } from '../widgetConfig';
+
+const note = (itemId: string, title: string, text: string): SearchDocument => ({
+  kind: 'note',
+  instanceId: 'notepad',
+  position: 1,
+  source: 'Notepad',
+  itemId,
+  title,
+  text,
+});
+
+const todo = (itemId: string, text: string, completed = false): SearchDocument => ({
+  kind: 'todo',
+  instanceId: 'todo',
+  position: 2,
+  source: 'Todo List',
+  itemId,
+  title: '',
+  text,
+  completed,
+});
+
+describe('search', () => {
+  describe('searchDocuments', () => {
+    it('should only return documents containing every term', () => {
+      const documents = [note('a', 'Groceries', 'milk and eggs'), note('b', 'Work', 'eggs benedict recipe')];
+      expect(searchDocuments(documents, 'eggs milk').map((r) => r.document.itemId)).toEqual(['a']);
+      expect(searchDocuments(documents, 'groceries eggs').map((r) => r.document.itemId)).toEqual(['a']);
+      expect(searchDocuments(documents, '   ')).toEqual([]);
+    });
+
+    it('should rank title matches, phrases and repeated terms higher', () => {
+      const documents = [
+        note('body', 'Notes', 'call the plumber about the sink'),
+        note('title', 'Plumber', 'phone number somewhere'),
+        todo('repeat', 'plumber plumber plumber'),
+      ];
+      expect(searchDocuments(documents, 'plumber').map((r) => r.document.itemId)).toEqual(['title', 'repeat', 'body']);
+
+      const phrases = [note('apart', 'A', 'the sink leaks, ask the plumber'), note('phrase', 'B', 'plumber sink')];
+      expect(searchDocuments(phrases, 'plumber sink')[0].document.itemId).toBe('phrase');
+    });
+
+    it('should rank open todos above completed ones', () => {
+      const documents = [todo('done', 'buy milk', true), todo('open', 'buy milk')];
+      expect(searchDocuments(documents, 'milk').map((r) => r.document.itemId)).toEqual(['open', 'done']);
+    });
+
+    it('should select the phrase or the first matching term', () => {
+      const [phrase] = searchDocuments([note('a', 'A', 'Milk. Buy milk today')], 'buy milk');
+      expect(phrase.match).toBe('buy milk');
+      expect(phrase.occurrence).toBe(0);
+
+      const [term] = searchDocuments([note('a', 'A', 'Milk, then more milk and bread')], 'bread milk');
+      expect(term.match).toBe('milk');
+      expect(term.occurrence).toBe(0);
+
+      const [titleOnly] = searchDocuments([note('a', 'Shopping', 'eggs')], 'shopping');
+      expect(titleOnly.match).toBe('');
+    });
+  });
+
+  describe('getSnippet', () => {
+    it('should highlight every term around the match', () => {
+      expect(getSnippet('Buy milk and\nmore Milk', ['milk'], 4)).toEqual([
+        { text: 'Buy ', highlighted: false },
+        { text: 'milk', highlighted: true },
+        { text: ' and more ', highlighted: false },
+        { text: 'Milk', highlighted: true },
+      ]);
+    });
+
+    it('should cut long text at word boundaries with ellipses', () => {
+      const text = `${'word '.repeat(30)}needle ${'word '.repeat(40)}`;
+      const parts = getSnippet(text, ['needle'], text.indexOf('needle'));
+      expect(parts[0].text.startsWith('…word')).toBe(true);
+      expect(parts[1]).toEqual({ text: 'needle', highlighted: true });
+      expect(parts[parts.length - 1].text.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('findTextOffset', () => {
+    it('should find the given occurrence, ignoring case', () => {
+      expect(findTextOffset('Milk, milk, MILK', 'milk', 2)).toBe(12);
+      // Falls back to the first occurrence if the text changed since indexing
+      expect(findTextOffset('Milk, milk', 'milk', 5)).toBe(0);
+      expect(findTextOffset('bread', 'milk')).toBe(-1);
+    });
+  });
+
+  describe('findTextRange', () => {
+    it('should find text split across elements', () => {
+      const root = document.createElement('div');
+      root.innerHTML = 'Buy <b>mi</b>lk<div>and milk</div>';
+
+      const first = findTextRange(root, 'milk');
+      expect(first?.toString()).toBe('milk');
+      expect(first?.startContainer.parentElement?.tagName).toBe('B');
+
+      const second = findTextRange(root, 'MILK', 1);
+      expect(second?.toString()).toBe('milk');
+      expect(second?.startContainer.parentElement?.tagName).toBe('DIV');
+
+      expect(findTextRange(root, 'bread')).toBeNull();
+    });
+  });
+
+  describe('fuzzyMatch', () => {
+    it('should match characters in order, preferring word starts', () => {
+      expect(fuzzyMatch('mtg', 'Meeting notes')?.indices).toEqual([0, 3, 6]);
+      expect(fuzzyMatch('mn', 'Meeting notes')?.indices).toEqual([0, 8]);
+      expect(fuzzyMatch('abc', 'xab a c')?.indices).toEqual([1, 2, 6]);
+      expect(fuzzyMatch('tm', 'Meeting notes')).toBeNull();
+    });
+
+    it('should rank whole words and early matches higher', () => {
+      const score = (query: string, text: string) => fuzzyMatch(query, text)?.score ?? -Infinity;
+      expect(score('note', 'Notes')).toBeGreaterThan(score('note', 'Meeting notes'));
+      expect(score('meno', 'Meeting notes')).toBeGreaterThan(score('meno', 'Same menu order'));
+      expect(score('wk', 'Work')).toBeGreaterThan(score('wk', 'Notes on work'));
+      expect(fuzzyMatch('  ', 'anything')).toEqual({ score: 0, indices: [] });
+    });
+  });
+
+  describe('buildSearchIndex', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should index notepad tabs and todos of the configured widgets', async () => {
+      localStorage.setItem('hyperdash-notepad:notepad-2', encodeStoredValue(notepadSchema, {
+        tabs: [
+          { id: 'a', name: 'Rich', content: '<div>Hello <b>world</b></div><div>Again</div>' },
+          { id: 'b', name: 'Source', content: '# Title\n\n- item\n\n', format: 'markdown' },
+        ],
+        activeTabId: 'a',
+      }));
+      localStorage.setItem('hyperdash-todos', encodeStoredValue(todosSchema, [
+        { id: '1', text: 'Buy milk', completed: true },
+      ]));
+      const config: WidgetConfiguration = [
+        { position: 2, row: 1, column: 2, widgetType: 'todo', settings: { listName: 'Errands' } },
+        { position: 1, row: 1, column: 1, widgetType: 'notepad', instanceId: 'notepad-2' },
+        { position: 3, row: 1, column: 3, widgetType: 'clock' },
+      ];
+
+      expect(await buildSearchIndex(config)).toEqual([
+        { kind: 'note', instanceId: 'notepad-2', position: 1, source: 'Notepad', itemId: 'a', title: 'Rich', text: 'Hello world\nAgain' },
+        { kind: 'note', instanceId: 'notepad-2', position: 1, source: 'Notepad', itemId: 'b', title: 'Source', text: '# Title\n\n- item' },
+        { kind: 'todo', instanceId: 'todo', position: 2, source: 'Errands', itemId: '1', title: '', text: 'Buy milk', completed: true },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  MAX_SNAPSHOTS,
+  listSnapshots,
+  takeSnapshot,
+  deleteSnapshot,
+  restoreSnapshot,
+  getSnapshotImageIds,
+} from '../snapshots';
+import { encodeStoredValue } from '../storage';
+import { todosSchema } from '../todoData';
+import { notepadSchema } from '../notepadData';
+
+const todos = (...ids: string[]) =>
+  encodeStoredValue(todosSchema, ids.map((id) => ({ id, text: `Todo ${id}`, completed: false })));
+
+describe('snapshots', () => {
+  beforeEach(async () => {
+    localStorage.clear();
+    for (const snapshot of await listSnapshots()) {
+      await deleteSnapshot(snapshot.id);
+    }
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should save dashboard data with its reason and size', async () => {
+    localStorage.setItem('hyperdash-todos', todos('1'));
+    localStorage.setItem('unrelated', 'x');
+
+    const snapshot = await takeSnapshot('manual');
+
+    expect(snapshot?.reason).toBe('manual');
+    expect(snapshot?.size).toBe(JSON.stringify({ todos: { 'hyperdash-todos': todos('1') } }).length);
+    expect(await listSnapshots()).toEqual([snapshot]);
+  });
+
+  it('should skip automatic snapshots when nothing changed', async () => {
+    localStorage.setItem('hyperdash-todos', todos('1'));
+    expect(await takeSnapshot('automatic')).not.toBeNull();
+    expect(await takeSnapshot('automatic')).toBeNull();
+
+    localStorage.setItem('hyperdash-todos', todos('1', '2'));
+    expect(await takeSnapshot('automatic')).not.toBeNull();
+    // Snapshots before destructive actions are always taken
+    expect(await takeSnapshot('before-clear')).not.toBeNull();
+    expect(await listSnapshots()).toHaveLength(3);
+  });
+
+  it('should keep only the newest snapshots, newest first', async () => {
+    const taken = [];
+    for (let i = 0; i < MAX_SNAPSHOTS + 2; i++) {
+      taken.push(await takeSnapshot('manual'));
+    }
+
+    const ids = (await listSnapshots()).map((snapshot) => snapshot.id);
+    expect(ids).toHaveLength(MAX_SNAPSHOTS);
+    expect(ids[0]).toBe(taken[taken.length - 1]?.id);
+    expect(ids).not.toContain(taken[0]?.id);
+    expect(ids).not.toContain(taken[1]?.id);
+  });
+
+  it('should restore a snapshot after saving the current data', async () => {
+    localStorage.setItem('hyperdash-todos', todos('1'));
+    localStorage.setItem('clockFormat', '24h');
+    const snapshot = await takeSnapshot('manual');
+
+    localStorage.setItem('hyperdash-todos', todos('1', '2'));
+    localStorage.removeItem('clockFormat');
+    localStorage.setItem('hyperdash-notepad', encodeStoredValue(notepadSchema, {
+      tabs: [{ id: 'a', name: 'Notes', content: 'new' }],
+      activeTabId: 'a',
+    }));
+
+    expect(await restoreSnapshot(snapshot!.id)).toBe(true);
+
+    expect(localStorage.getItem('hyperdash-todos')).toBe(todos('1'));
+    expect(localStorage.getItem('clockFormat')).toBe('24h');
+    expect(localStorage.getItem('hyperdash-notepad')).toBeNull();
+
+    const [latest] = await listSnapshots();
+    expect(latest.reason).toBe('before-restore');
+    expect(await restoreSnapshot('missing')).toBe(false);
+  });
+
+  it('should keep the snapshot being restored when the list is full', async () => {
+    localStorage.setItem('hyperdash-todos', todos('1'));
+    const oldest = await takeSnapshot('manual');
+    for (let i = 1; i < MAX_SNAPSHOTS; i++) {
+      await takeSnapshot('manual');
+    }
+
+    expect(await restoreSnapshot(oldest!.id)).toBe(true);
+
+    const ids = (await listSnapshots()).map((snapshot) => snapshot.id);
+    expect(ids).toHaveLength(MAX_SNAPSHOTS);
+    expect(ids).toContain(oldest!.id);
+  });
+
+  it('should find the images linked from notepads', () => {
+    const notepad = encodeStoredValue(notepadSchema, {
+      tabs: [
+        { id: 'a', name: 'One', content: '<a class="notepad-image-link" data-image-id="img-1">[Image #1]</a>' },
+        { id: 'b', name: 'Two', content: '<a class="notepad-image-link" data-image-id="img-2">[Image #1]</a>' },
+      ],
+      activeTabId: 'a',
+    });
+    expect(getSnapshotImageIds({ notes: { 'hyperdash-notepad': notepad } })).toEqual(['img-1', 'img-2']);
+  });
+
+  it('should do nothing in safe mode', async () => {
+    await takeSnapshot('manual');
+    window.history.replaceState(null, '', '/?safe');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await takeSnapshot('manual')).toBeNull();
+    expect(await listSnapshots()).toEqual([]);
+  });
+});
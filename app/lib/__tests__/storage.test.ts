@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  StorageSchema,
+  readStoredValue,
+  writeStoredValue,
+  decodeStoredValue,
+  encodeStoredValue,
+} from '../storage';
+import { todosSchema } from '../todoData';
+import { notepadSchema } from '../notepadData';
+import { getWidgetConfiguration } from '../widgetConfig';
+
+// Version 1 stored a name; version 2 split it; version 3 added a count
+interface Person {
+  first: string;
+  last: string;
+  count: number;
+}
+
+const personSchema: StorageSchema<Person> = {
+  name: 'person',
+  version: 3,
+  migrations: {
+    1: (data) => {
+      const [first, last] = String((data as { name: string }).name).split(' ');
+      return { first, last };
+    },
+    2: (data) => ({ ...(data as object), count: 0 }),
+  },
+  parse: (data) => {
+    const person = data as Partial<Person>;
+    return typeof person?.first === 'string' && typeof person.count === 'number' ? (person as Person) : null;
+  },
+};
+
+describe('storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('versioned values', () => {
+    it('should save values with the current version and read them back', () => {
+      writeStoredValue('person', personSchema, { first: 'Ada', last: 'Lovelace', count: 2 });
+
+      expect(JSON.parse(localStorage.getItem('person')!)).toEqual({
+        version: 3,
+        data: { first: 'Ada', last: 'Lovelace', count: 2 },
+      });
+      expect(readStoredValue('person', personSchema)).toEqual({ first: 'Ada', last: 'Lovelace', count: 2 });
+    });
+
+    it('should run every migration from the saved version and save the upgraded value', () => {
+      localStorage.setItem('person', JSON.stringify({ version: 1, data: { name: 'Ada Lovelace' } }));
+
+      expect(readStoredValue('person', personSchema)).toEqual({ first: 'Ada', last: 'Lovelace', count: 0 });
+      expect(JSON.parse(localStorage.getItem('person')!).version).toBe(3);
+    });
+
+    it('should return null for missing or invalid data', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(readStoredValue('person', personSchema)).toBeNull();
+      localStorage.setItem('person', encodeStoredValue(personSchema, { nope: true } as unknown as Person));
+      expect(readStoredValue('person', personSchema)).toBeNull();
+    });
+
+    it('should not lose data when a migration throws', () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const raw = JSON.stringify({ version: 1, data: null });
+      localStorage.setItem('person', raw);
+
+      expect(readStoredValue('person', personSchema)).toBeNull();
+      expect(localStorage.getItem('person')).toBe(raw);
+      expect(error).toHaveBeenCalled();
+    });
+
+    it('should read data saved by a newer version as the current shape', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const decoded = decodeStoredValue(
+        personSchema,
+        JSON.stringify({ version: 9, data: { first: 'Ada', last: 'L', count: 1 } })
+      );
+
+      expect(decoded).toEqual({ value: { first: 'Ada', last: 'L', count: 1 }, version: 9, migrated: false });
+    });
+  });
+
+  describe('unversioned data', () => {
+    it('should treat plain JSON as version 0', () => {
+      localStorage.setItem('hyperdash-todos', JSON.stringify([{ id: 1, text: 'Write tests', completed: true }]));
+
+      expect(readStoredValue('hyperdash-todos', todosSchema)).toEqual([
+        { id: '1', text: 'Write tests', completed: true },
+      ]);
+      expect(JSON.parse(localStorage.getItem('hyperdash-todos')!).version).toBe(1);
+    });
+
+    it('should upgrade the plain-text notepad to tabs', () => {
+      localStorage.setItem('hyperdash-notepad', 'Old notes');
+
+      const data = readStoredValue('hyperdash-notepad', notepadSchema);
+      expect(data?.tabs).toEqual([{ id: data?.activeTabId, name: 'Notepad 1', content: 'Old notes' }]);
+    });
+
+    it('should keep plain-text notes that happen to be JSON', () => {
+      ['true', 'null', '[1,2]', '{"title":"Old"}'].forEach((text) => {
+        localStorage.setItem('hyperdash-notepad', text);
+        expect(readStoredValue('hyperdash-notepad', notepadSchema)?.tabs[0].content).toBe(text);
+      });
+    });
+
+    it('should keep unversioned widget configurations', () => {
+      localStorage.setItem(
+        'hyperdash-widget-config',
+        JSON.stringify([{ position: 1, widgetType: 'notepad', row: 1, column: 1 }])
+      );
+
+      expect(getWidgetConfiguration()).toEqual([
+        { position: 1, widgetType: 'notepad', instanceId: 'notepad', row: 1, column: 1, rowSpan: 1, columnSpan: 1 },
+      ]);
+    });
+  });
+
+  describe('schemas', () => {
+    it('should drop malformed todos', () => {
+      expect(
+        todosSchema.parse([{ id: 'a', text: 'Keep', completed: false }, { id: 'b' }, 'junk', null])
+      ).toEqual([{ id: 'a', text: 'Keep', completed: false }]);
+      expect(todosSchema.parse({ todos: [] })).toBeNull();
+    });
+
+    it('should repair notepad tabs and the active tab', () => {
+      expect(
+        notepadSchema.parse({
+          tabs: [{ id: 'a', name: 'Ideas', content: '<b>hi</b>' }, { id: 'a' }, { id: 'b' }],
+          activeTabId: 'missing',
+        })
+      ).toEqual({
+        tabs: [
+          { id: 'a', name: 'Ideas', content: '<b>hi</b>' },
+          { id: 'b', name: 'Notepad 2', content: '' },
+        ],
+        activeTabId: 'a',
+      });
+      expect(notepadSchema.parse({ tabs: [] })).toBeNull();
+    });
+
+    it('should keep Markdown tab settings and drop unknown ones', () => {
+      expect(
+        notepadSchema.parse({
+          tabs: [
+            { id: 'a', name: 'MD', content: '# Hi', format: 'markdown', markdownView: 'preview' },
+            { id: 'b', name: 'MD', content: '', format: 'markdown', markdownView: 'sideways' },
+            { id: 'c', name: 'Rich', content: '', format: 'html', markdownView: 'split' },
+          ],
+          activeTabId: 'a',
+        })?.tabs
+      ).toEqual([
+        { id: 'a', name: 'MD', content: '# Hi', format: 'markdown', markdownView: 'preview' },
+        { id: 'b', name: 'MD', content: '', format: 'markdown' },
+        { id: 'c', name: 'Rich', content: '' },
+      ]);
+    });
+  });
+});
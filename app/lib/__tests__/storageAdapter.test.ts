@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  StorageAdapter,
+  isAdapterKey,
+  migrateLocalStorageKeys,
+  getStorageAdapter,
+  getStoredItem,
+  setStoredItem,
+  removeStoredItem,
+  readAllStoredItems,
+} from '../storageAdapter';
+import { readStoredValueAsync } from '../storage';
+import { todosSchema } from '../todoData';
+
+// In-memory stand-in for the IndexedDB adapter
+function createMemoryAdapter(initial: Record<string, string> = {}): StorageAdapter & { data: Map<string, string> } {
+  const data = new Map(Object.entries(initial));
+  return {
+    name: 'indexeddb',
+    data,
+    get: async (key) => data.get(key) ?? null,
+    set: async (key, value) => {
+      data.set(key, value);
+    },
+    remove: async (key) => {
+      data.delete(key);
+    },
+    keys: async () => Array.from(data.keys()),
+  };
+}
+
+describe('storageAdapter', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('isAdapterKey', () => {
+    it('should match widget data keys however they are scoped', () => {
+      expect(isAdapterKey('hyperdash-notepad')).toBe(true);
+      expect(isAdapterKey('hyperdash-todos:todo-work')).toBe(true);
+      expect(isAdapterKey('hyperdash-workspace:work:wallpaper')).toBe(true);
+      expect(isAdapterKey('hyperdash-workspace:work:pomodoroCount:clock-2')).toBe(true);
+    });
+
+    it('should leave settings and layout keys in localStorage', () => {
+      expect(isAdapterKey('clockFormat')).toBe(false);
+      expect(isAdapterKey('widgetConfiguration')).toBe(false);
+      expect(isAdapterKey('hyperdash-workspace:work:reactiveColors')).toBe(false);
+    });
+  });
+
+  describe('migrateLocalStorageKeys', () => {
+    it('should move widget data out of localStorage', async () => {
+      localStorage.setItem('hyperdash-notepad', 'notes');
+      localStorage.setItem('hyperdash-workspace:work:wallpaper', 'url');
+      localStorage.setItem('clockFormat', '24h');
+      const target = createMemoryAdapter();
+
+      expect(await migrateLocalStorageKeys(target)).toBe(2);
+      expect(target.data.get('hyperdash-notepad')).toBe('notes');
+      expect(target.data.get('hyperdash-workspace:work:wallpaper')).toBe('url');
+      expect(target.data.has('clockFormat')).toBe(false);
+      expect(localStorage.getItem('hyperdash-notepad')).toBeNull();
+      expect(localStorage.getItem('clockFormat')).toBe('24h');
+    });
+
+    it('should keep values the target already has', async () => {
+      localStorage.setItem('hyperdash-todos', 'old');
+      const target = createMemoryAdapter({ 'hyperdash-todos': 'new' });
+
+      expect(await migrateLocalStorageKeys(target)).toBe(0);
+      expect(target.data.get('hyperdash-todos')).toBe('new');
+      expect(localStorage.getItem('hyperdash-todos')).toBeNull();
+    });
+  });
+
+  describe('readAllStoredItems', () => {
+    it('should read every key the adapter holds', async () => {
+      const adapter = createMemoryAdapter({ 'hyperdash-todos': '[]', wallpaper: 'url' });
+      expect(await readAllStoredItems(adapter)).toEqual({ 'hyperdash-todos': '[]', wallpaper: 'url' });
+    });
+  });
+
+  describe('stored items', () => {
+    it('should fall back to localStorage without IndexedDB', async () => {
+      expect((await getStorageAdapter()).name).toBe('localstorage');
+    });
+
+    it('should save, read and remove values', async () => {
+      await setStoredItem('hyperdash-notepad', 'notes');
+      expect(await getStoredItem('hyperdash-notepad')).toBe('notes');
+
+      await removeStoredItem('hyperdash-notepad');
+      expect(await getStoredItem('hyperdash-notepad')).toBeNull();
+    });
+
+    it('should upgrade versioned values read through the adapter', async () => {
+      await setStoredItem('hyperdash-todos', JSON.stringify([{ id: 1, text: 'Write tests', completed: false }]));
+
+      expect(await readStoredValueAsync('hyperdash-todos', todosSchema)).toEqual([
+        { id: '1', text: 'Write tests', completed: false },
+      ]);
+      expect(JSON.parse((await getStoredItem('hyperdash-todos'))!).version).toBe(1);
+    });
+
+    describe('in safe mode', () => {
+      beforeEach(() => {
+        window.history.replaceState(null, '', '/?safe');
+      });
+
+      afterEach(() => {
+        window.history.replaceState(null, '', '/');
+      });
+
+      it('should ignore saved data and not write', async () => {
+        localStorage.setItem('hyperdash-notepad', 'notes');
+
+        expect(await getStoredItem('hyperdash-notepad')).toBeNull();
+        await setStoredItem('hyperdash-notepad', 'changed');
+        await removeStoredItem('hyperdash-notepad');
+        expect(localStorage.getItem('hyperdash-notepad')).toBe('notes');
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { GET, PUT } from '@/app/api/sync/[id]/route';
+import { mergeSnapshots, hashValue, saveSyncSettings, syncNow, DEFAULT_SYNC_SETTINGS } from '../syncEngine';
+import { subscribeToStorageKey } from '../crossTabSync';
+
+const SYNC_ID = 'test-dashboard';
+
+// Route the engine's requests to the sync route handlers - a local server in-process
+async function fetchFromRoute(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const url = new URL(String(input), 'http://localhost');
+  const id = decodeURIComponent(url.pathname.split('/').pop()!);
+  const request = new Request(url, { method: init?.method, headers: init?.headers, body: init?.body });
+  const handler = request.method === 'PUT' ? PUT : GET;
+  return handler(request, { params: Promise.resolve({ id }) });
+}
+
+// Swap localStorage contents to act as another device
+function useDevice(data: Record<string, string>) {
+  localStorage.clear();
+  Object.entries(data).forEach(([key, value]) => localStorage.setItem(key, value));
+  saveSyncSettings({ ...DEFAULT_SYNC_SETTINGS, syncId: SYNC_ID });
+}
+
+function saveDevice(): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)!;
+    data[key] = localStorage.getItem(key)!;
+  }
+  return data;
+}
+
+describe('syncEngine', () => {
+  describe('mergeSnapshots', () => {
+    const base = { a: hashValue('1'), b: hashValue('1'), c: hashValue('1') };
+
+    it('should take each side\'s own changes', () => {
+      const { merged, conflicts } = mergeSnapshots(
+        base,
+        { a: '2', b: '1', c: '1', local: 'new' },
+        { a: '1', b: '3', remote: 'new' }
+      );
+      expect(conflicts).toEqual([]);
+      expect(merged).toEqual({ a: '2', b: '3', local: 'new', remote: 'new' });
+    });
+
+    it('should report keys changed differently on both sides', () => {
+      const { merged, conflicts } = mergeSnapshots(base, { a: '2', b: '2' }, { a: '3', b: '2', c: '1' });
+      expect(conflicts).toEqual(['a']);
+      expect(merged).toEqual({ b: '2' });
+    });
+  });
+
+  describe('syncNow', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hyperdash-sync-'));
+      process.env.HYPERDASH_SYNC_DIR = directory;
+      vi.stubGlobal('fetch', vi.fn(fetchFromRoute));
+      localStorage.clear();
+    });
+
+    afterEach(async () => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+      delete process.env.HYPERDASH_SYNC_DIR;
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should need a sync ID', async () => {
+      const result = await syncNow();
+      expect(result.status).toBe('error');
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('should sync two devices and settle conflicts', async () => {
+      // Laptop pushes first
+      useDevice({ 'hyperdash-todos': 'laptop todos', clockFormat: '24h' });
+      expect(await syncNow()).toMatchObject({ status: 'pushed', revision: 1 });
+      const laptop = saveDevice();
+
+      // Desktop has its own todos: a conflict, and nothing is written until it's settled
+      useDevice({ 'hyperdash-todos': 'desktop todos', 'hyperdash-notepad': 'desktop notes' });
+      expect(await syncNow()).toEqual({ status: 'conflict', conflicts: ['hyperdash-todos'] });
+      expect(localStorage.getItem('hyperdash-todos')).toBe('desktop todos');
+
+      expect(await syncNow('remote')).toMatchObject({ status: 'merged', revision: 2 });
+      expect(localStorage.getItem('hyperdash-todos')).toBe('laptop todos');
+      expect(localStorage.getItem('clockFormat')).toBe('24h');
+      expect(localStorage.getItem('hyperdash-notepad')).toBe('desktop notes');
+
+      // Back on the laptop, the desktop's notes arrive and open widgets hear about it
+      useDevice(laptop);
+      const listener = vi.fn();
+      const unsubscribe = subscribeToStorageKey('hyperdash-notepad', listener);
+      expect(await syncNow()).toMatchObject({ status: 'pulled', revision: 2 });
+      expect(listener).toHaveBeenCalledWith('desktop notes');
+      unsubscribe();
+
+      expect(await syncNow()).toMatchObject({ status: 'up-to-date', revision: 2 });
+    });
+
+    it('should only sync dashboard data', async () => {
+      useDevice({ 'hyperdash-todos': 'laptop todos', 'other-app-token': 'secret' });
+      expect(await syncNow()).toMatchObject({ status: 'pushed', revision: 1 });
+
+      useDevice({});
+      expect(await syncNow()).toMatchObject({ status: 'pulled', revision: 1 });
+      expect(localStorage.getItem('hyperdash-todos')).toBe('laptop todos');
+      expect(localStorage.getItem('other-app-token')).toBeNull();
+    });
+
+    it('should report server errors', async () => {
+      vi.mocked(fetch).mockResolvedValue(Response.json({ error: 'Invalid or missing sync token' }, { status: 401 }));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      useDevice({});
+
+      expect(await syncNow()).toEqual({ status: 'error', message: 'Invalid or missing sync token' });
+    });
+  });
+});
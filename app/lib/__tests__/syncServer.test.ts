@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { GET, PUT } from '@/app/api/sync/[id]/route';
+import { readSnapshot, saveSnapshot } from '@/app/api/sync/store';
+
+const SYNC_ID = 'test-dashboard';
+
+function callRoute(handler: typeof GET, id: string, init?: RequestInit) {
+  return handler(new Request(`http://localhost/api/sync/${id}`, init), { params: Promise.resolve({ id }) });
+}
+
+function push(id: string, body: unknown, headers: Record<string, string> = {}) {
+  return callRoute(PUT, id, { method: 'PUT', body: JSON.stringify(body), headers });
+}
+
+describe('sync server', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hyperdash-sync-'));
+    process.env.HYPERDASH_SYNC_DIR = directory;
+  });
+
+  afterEach(async () => {
+    delete process.env.HYPERDASH_SYNC_DIR;
+    delete process.env.HYPERDASH_SYNC_TOKEN;
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe('store', () => {
+    it('should have no snapshot before the first push', async () => {
+      expect(await readSnapshot(SYNC_ID)).toBeNull();
+    });
+
+    it('should bump the revision for pushes based on the current one', async () => {
+      const first = await saveSnapshot(SYNC_ID, 0, { a: '1' });
+      const second = await saveSnapshot(SYNC_ID, 1, { a: '2' });
+
+      expect(first.ok && first.snapshot.revision).toBe(1);
+      expect(second.ok && second.snapshot.revision).toBe(2);
+      expect((await readSnapshot(SYNC_ID))?.data).toEqual({ a: '2' });
+    });
+
+    it('should reject pushes based on an old revision', async () => {
+      await saveSnapshot(SYNC_ID, 0, { a: '1' });
+      const stale = await saveSnapshot(SYNC_ID, 0, { a: 'other' });
+
+      expect(stale.ok).toBe(false);
+      expect(!stale.ok && stale.current?.data).toEqual({ a: '1' });
+    });
+
+    it('should accept only one of two simultaneous pushes', async () => {
+      const results = await Promise.all([saveSnapshot(SYNC_ID, 0, { a: '1' }), saveSnapshot(SYNC_ID, 0, { a: '2' })]);
+      expect(results.filter((result) => result.ok)).toHaveLength(1);
+    });
+  });
+
+  describe('route', () => {
+    it('should return 404 until something is pushed, then the snapshot', async () => {
+      expect((await callRoute(GET, SYNC_ID)).status).toBe(404);
+
+      const response = await push(SYNC_ID, { baseRevision: 0, data: { todos: '[]' } });
+      expect(response.status).toBe(200);
+      expect((await response.json()).revision).toBe(1);
+
+      const snapshot = await (await callRoute(GET, SYNC_ID)).json();
+      expect(snapshot).toMatchObject({ revision: 1, data: { todos: '[]' } });
+    });
+
+    it('should answer a stale push with 409 and the current snapshot', async () => {
+      await push(SYNC_ID, { baseRevision: 0, data: { todos: '[]' } });
+      const response = await push(SYNC_ID, { baseRevision: 0, data: { todos: '[1]' } });
+
+      expect(response.status).toBe(409);
+      expect((await response.json()).current).toMatchObject({ revision: 1, data: { todos: '[]' } });
+    });
+
+    it('should reject invalid sync IDs and bodies', async () => {
+      expect((await callRoute(GET, '../etc')).status).toBe(400);
+      expect((await push(SYNC_ID, { baseRevision: -1, data: {} })).status).toBe(400);
+      expect((await push(SYNC_ID, { baseRevision: 0, data: { count: 1 } })).status).toBe(400);
+    });
+
+    it('should require the token when the server sets one', async () => {
+      process.env.HYPERDASH_SYNC_TOKEN = 'secret';
+
+      expect((await callRoute(GET, SYNC_ID)).status).toBe(401);
+      const response = await callRoute(GET, SYNC_ID, { headers: { Authorization: 'Bearer secret' } });
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { FocusProvider } from '@/app/components/FocusContext';
+import { useKeyboardShortcuts } from '../useKeyboardShortcuts';
+
+describe('useKeyboardShortcuts', () => {
+  it('should toggle the layout editor once per Shift+L', () => {
+    const { unmount } = renderHook(() => useKeyboardShortcuts(), { wrapper: FocusProvider });
+    const listener = vi.fn();
+    window.addEventListener('toggleLayoutEditor', listener);
+
+    document.body.dispatchEvent(new KeyboardEvent('keydown', { key: 'L', shiftKey: true, bubbles: true }));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    window.removeEventListener('toggleLayoutEditor', listener);
+    unmount();
+  });
+});
@@ -1,8 +1,10 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
   getFromLocalStorage,
   saveToLocalStorage,
   removeFromLocalStorage,
+  isSafeMode,
+  formatBytes,
 } from '../utils';
 
 describe('localStorage utilities', () => {
@@ -67,5 +69,47 @@ describe('localStorage utilities', () => {
       expect(getFromLocalStorage('myKey')).toBeNull();
     });
   });
+
+  describe('safe mode', () => {
+    beforeEach(() => {
+      window.history.replaceState(null, '', '/?safe');
+    });
+
+    afterEach(() => {
+      window.history.replaceState(null, '', '/');
+    });
+
+    it('should be enabled by the safe query parameter', () => {
+      expect(isSafeMode()).toBe(true);
+      window.history.replaceState(null, '', '/');
+      expect(isSafeMode()).toBe(false);
+    });
+
+    it('should ignore saved data but keep app-level flags', () => {
+      localStorage.setItem('hyperdash-todos', '[]');
+      localStorage.setItem('onboardingCompleted', 'true');
+
+      expect(getFromLocalStorage('hyperdash-todos')).toBeNull();
+      expect(getFromLocalStorage('onboardingCompleted')).toBe('true');
+    });
+
+    it('should not save or remove anything', () => {
+      localStorage.setItem('hyperdash-todos', '[]');
+
+      saveToLocalStorage('hyperdash-todos', '[{"id":1}]');
+      saveToLocalStorage('newKey', 'value');
+      removeFromLocalStorage('hyperdash-todos');
+
+      expect(localStorage.getItem('hyperdash-todos')).toBe('[]');
+      expect(localStorage.getItem('newKey')).toBeNull();
+    });
+  });
 });
 
+describe('formatBytes', () => {
+  it('should pick a unit by size', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(2048)).toBe('2.00 KB');
+    expect(formatBytes(3 * 1024 * 1024)).toBe('3.00 MB');
+  });
+});
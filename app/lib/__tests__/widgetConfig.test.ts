@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getWidgetConfiguration,
+  saveWidgetConfiguration,
+  normalizeWidgetConfiguration,
+  getLayoutSlots,
+  getNextFocusPosition,
+  swapSlotWidgets,
+  setSlotWidget,
+  setSlotSettings,
+  getInstanceStorageKey,
+  clearWidgetData,
+  WidgetConfiguration,
+} from '../widgetConfig';
+import { DEFAULT_WORKSPACE_ID } from '../workspaces';
+
+describe('widgetConfig', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('normalizeWidgetConfiguration', () => {
+    it('should fill in grid placement for legacy slots', () => {
+      const legacy = [
+        { position: 1, widgetType: 'clock' },
+        { position: 4, widgetType: 'todo' },
+      ];
+
+      const normalized = normalizeWidgetConfiguration(legacy);
+
+      expect(normalized).toEqual([
+        { position: 1, widgetType: 'clock', instanceId: 'clock', row: 1, column: 1, columnSpan: 2 },
+        { position: 4, widgetType: 'todo', instanceId: 'todo', row: 2, column: 1, rowSpan: 2, columnSpan: 3 },
+      ]);
+    });
+
+    it('should keep explicit placement and default spans to 1', () => {
+      const normalized = normalizeWidgetConfiguration([
+        { position: 1, widgetType: 'notepad', row: 2, column: 3 },
+      ]);
+
+      expect(normalized).toEqual([
+        { position: 1, widgetType: 'notepad', instanceId: 'notepad', row: 2, column: 3, rowSpan: 1, columnSpan: 1 },
+      ]);
+    });
+
+    it('should give duplicate widgets their own instance IDs', () => {
+      const normalized = normalizeWidgetConfiguration([
+        { position: 1, widgetType: 'todo', row: 1, column: 1 },
+        { position: 2, widgetType: 'todo', row: 1, column: 2 },
+        { position: 3, widgetType: 'todo', instanceId: 'todo-work', row: 1, column: 3 },
+        { position: 4, widgetType: 'todo', instanceId: 'todo-work', row: 1, column: 4 },
+      ]);
+
+      expect(normalized?.map((slot) => slot.instanceId)).toEqual([
+        'todo',
+        'todo-2',
+        'todo-work',
+        'todo-4',
+      ]);
+    });
+
+    it('should turn unknown widget types into empty slots', () => {
+      const normalized = normalizeWidgetConfiguration([
+        { position: 1, widgetType: 'unknown', row: 1, column: 1 },
+      ]);
+
+      expect(normalized?.[0].widgetType).toBeNull();
+    });
+
+    it('should keep valid widget settings', () => {
+      const normalized = normalizeWidgetConfiguration([
+        { position: 1, widgetType: 'todo', row: 1, column: 1, settings: { listName: 'Home', bogus: 1 } },
+        { position: 2, widgetType: null, row: 1, column: 2, settings: { listName: 'Orphan' } },
+      ]);
+
+      expect(normalized?.[0].settings).toEqual({ listName: 'Home' });
+      expect(normalized?.[1].settings).toBeUndefined();
+    });
+
+    it('should drop malformed slots and return null when nothing is left', () => {
+      expect(normalizeWidgetConfiguration([{ position: 0 }, 'slot', null])).toBeNull();
+      expect(normalizeWidgetConfiguration({ position: 1 })).toBeNull();
+    });
+  });
+
+  describe('getWidgetConfiguration', () => {
+    it('should return the default configuration when nothing is saved', () => {
+      const config = getWidgetConfiguration();
+      expect(config.map((slot) => slot.widgetType)).toEqual([
+        'clock',
+        'weather',
+        'system',
+        'todo',
+        'notepad',
+      ]);
+    });
+
+    it('should round-trip a saved configuration', () => {
+      const config: WidgetConfiguration = [
+        { position: 1, widgetType: 'todo', instanceId: 'todo-home', row: 1, column: 1, rowSpan: 1, columnSpan: 1 },
+        { position: 2, widgetType: null, row: 1, column: 2, rowSpan: 1, columnSpan: 1 },
+      ];
+      saveWidgetConfiguration(config);
+      expect(getWidgetConfiguration()).toEqual(config);
+    });
+  });
+
+  describe('getLayoutSlots', () => {
+    it('should derive grid dimensions from slot spans', () => {
+      const layout = getLayoutSlots(getWidgetConfiguration());
+      expect(layout.rows).toBe(3);
+      expect(layout.columns).toBe(6);
+    });
+
+    it('should sort slots by position and resolve spans', () => {
+      const layout = getLayoutSlots([
+        { position: 2, widgetType: 'clock', row: 1, column: 2 },
+        { position: 1, widgetType: 'todo', row: 1, column: 1, rowSpan: 2 },
+      ]);
+
+      expect(layout.slots.map((slot) => slot.position)).toEqual([1, 2]);
+      expect(layout.slots[1]).toMatchObject({ rowSpan: 1, columnSpan: 1 });
+      expect(layout.rows).toBe(2);
+      expect(layout.columns).toBe(2);
+    });
+  });
+
+  describe('getNextFocusPosition', () => {
+    const config: WidgetConfiguration = [
+      { position: 1, widgetType: 'clock', row: 1, column: 1 },
+      { position: 2, widgetType: null, row: 1, column: 2 },
+      { position: 3, widgetType: 'todo', row: 1, column: 3 },
+    ];
+
+    it('should skip empty slots and wrap around', () => {
+      expect(getNextFocusPosition(1, config, 'forward')).toBe(3);
+      expect(getNextFocusPosition(3, config, 'forward')).toBe(1);
+      expect(getNextFocusPosition(1, config, 'backward')).toBe(3);
+    });
+  });
+
+  describe('layout editing', () => {
+    const config: WidgetConfiguration = [
+      { position: 1, widgetType: 'clock', row: 1, column: 1 },
+      { position: 2, widgetType: null, row: 1, column: 2 },
+      { position: 3, widgetType: 'todo', row: 2, column: 1, columnSpan: 2 },
+    ];
+
+    it('should swap widgets between slots but keep placement', () => {
+      const result = swapSlotWidgets(config, 1, 3);
+      expect(result[0]).toEqual({ position: 1, widgetType: 'todo', row: 1, column: 1 });
+      expect(result[2]).toEqual({ position: 3, widgetType: 'clock', row: 2, column: 1, columnSpan: 2 });
+    });
+
+    it('should move a widget into an empty slot', () => {
+      const result = swapSlotWidgets(config, 1, 2);
+      expect(result.map((slot) => slot.widgetType)).toEqual([null, 'clock', 'todo']);
+    });
+
+    it('should return the same configuration for unknown positions', () => {
+      expect(swapSlotWidgets(config, 1, 9)).toBe(config);
+    });
+
+    it('should assign and clear slot widgets', () => {
+      const filled = setSlotWidget(config, 2, 'notepad');
+      expect(filled[1].widgetType).toBe('notepad');
+      expect(setSlotWidget(filled, 2, null)[1].widgetType).toBeNull();
+    });
+
+    it('should move instance IDs with swapped widgets', () => {
+      const result = swapSlotWidgets(
+        [
+          { position: 1, widgetType: 'todo', instanceId: 'todo', row: 1, column: 1 },
+          { position: 2, widgetType: 'todo', instanceId: 'todo-work', row: 1, column: 2 },
+        ],
+        1,
+        2
+      );
+      expect(result.map((slot) => slot.instanceId)).toEqual(['todo-work', 'todo']);
+    });
+
+    it('should give a second widget of the same type a new instance ID', () => {
+      const withSecondTodo = setSlotWidget(config, 2, 'todo');
+      expect(withSecondTodo[1].instanceId).toMatch(/^todo-/);
+
+      // Added in the same millisecond, a third one still gets its own ID
+      const withThirdTodo = setSlotWidget(withSecondTodo, 1, 'todo');
+      expect(withThirdTodo[0].instanceId).toMatch(/^todo-/);
+      expect(withThirdTodo[0].instanceId).not.toBe(withSecondTodo[1].instanceId);
+
+      // First instance of a type reuses the type so it keeps pre-instance data
+      expect(setSlotWidget(config, 2, 'notepad')[1].instanceId).toBe('notepad');
+    });
+  });
+
+  describe('widget settings', () => {
+    const config: WidgetConfiguration = [
+      { position: 1, widgetType: 'todo', instanceId: 'todo', settings: { listName: 'Work' }, row: 1, column: 1 },
+      { position: 2, widgetType: 'clock', instanceId: 'clock', row: 1, column: 2 },
+    ];
+
+    it('should set and clear slot settings', () => {
+      const updated = setSlotSettings(config, 2, { timezone: 'Asia/Tokyo' });
+      expect(updated[1].settings).toEqual({ timezone: 'Asia/Tokyo' });
+      expect(setSlotSettings(updated, 2, {})[1].settings).toBeUndefined();
+    });
+
+    it('should move settings with swapped widgets', () => {
+      const result = swapSlotWidgets(config, 1, 2);
+      expect(result[0].settings).toBeUndefined();
+      expect(result[1].settings).toEqual({ listName: 'Work' });
+    });
+
+    it('should drop settings when a slot gets a different widget', () => {
+      expect(setSlotWidget(config, 1, 'notepad')[0].settings).toBeUndefined();
+    });
+  });
+
+  describe('getInstanceStorageKey', () => {
+    it('should keep the original key for the primary instance', () => {
+      expect(getInstanceStorageKey('hyperdash-todos', 'todo')).toBe('hyperdash-todos');
+      expect(getInstanceStorageKey('hyperdash-todos', 'todo', 'todo')).toBe('hyperdash-todos');
+    });
+
+    it('should scope keys for other instances', () => {
+      expect(getInstanceStorageKey('hyperdash-todos', 'todo', 'todo-work')).toBe(
+        'hyperdash-todos:todo-work'
+      );
+    });
+  });
+
+  describe('clearWidgetData', () => {
+    it('should remove only the given instance\'s saved data', () => {
+      localStorage.setItem('hyperdash-todos', '[]');
+      localStorage.setItem('hyperdash-show-completed', 'false');
+      localStorage.setItem('hyperdash-todos:todo-work', '[]');
+      localStorage.setItem('hyperdash-notepad', '{}');
+
+      clearWidgetData('todo', 'todo', DEFAULT_WORKSPACE_ID);
+      expect(localStorage.getItem('hyperdash-todos')).toBeNull();
+      expect(localStorage.getItem('hyperdash-show-completed')).toBeNull();
+      expect(localStorage.getItem('hyperdash-todos:todo-work')).toBe('[]');
+      expect(localStorage.getItem('hyperdash-notepad')).toBe('{}');
+
+      clearWidgetData('todo', 'todo-work', DEFAULT_WORKSPACE_ID);
+      expect(localStorage.getItem('hyperdash-todos:todo-work')).toBeNull();
+    });
+
+    it('should remove data only in the given workspace', () => {
+      localStorage.setItem('hyperdash-todos', '[]');
+      localStorage.setItem('hyperdash-workspace:work:hyperdash-todos', '[]');
+
+      clearWidgetData('todo', 'todo', 'work');
+      expect(localStorage.getItem('hyperdash-workspace:work:hyperdash-todos')).toBeNull();
+      expect(localStorage.getItem('hyperdash-todos')).toBe('[]');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  registerWidget,
+  unregisterWidget,
+  isValidWidgetType,
+  isBuiltInWidgetType,
+  getAvailableWidgetTypes,
+  getWidgetDisplayName,
+  getWidgetManifest,
+  getWidgetShortcutGroups,
+  isBelowMinSize,
+  getWidgetCapabilityLabels,
+  WidgetDefinition,
+} from '../widgetRegistry';
+import { resolveWidgetSettings, normalizeWidgetSettings } from '../widgetSettings';
+import { normalizeWidgetConfiguration, addWidgetSlot, WidgetConfiguration } from '../widgetConfig';
+
+const load = async () => ({ default: () => null });
+
+const quotesWidget: WidgetDefinition = {
+  id: 'quotes',
+  name: 'Quotes',
+  load,
+  description: 'A quote to start the day',
+  icon: '❝',
+  minSize: { rowSpan: 1, columnSpan: 2 },
+  preferredSize: { rowSpan: 1, columnSpan: 3 },
+  capabilities: { network: true },
+  settings: [{ key: 'category', label: 'Category', type: 'text', defaultValue: 'inspiration' }],
+  shortcuts: [{ key: 'N', description: 'Next quote' }],
+};
+
+describe('widgetRegistry', () => {
+  afterEach(() => {
+    unregisterWidget('quotes');
+    vi.restoreAllMocks();
+  });
+
+  describe('registerWidget', () => {
+    it('should make a plugin a valid, placeable widget type', () => {
+      expect(isValidWidgetType('quotes')).toBe(false);
+      expect(registerWidget(quotesWidget)).toBe(true);
+
+      expect(isValidWidgetType('quotes')).toBe(true);
+      expect(isBuiltInWidgetType('quotes')).toBe(false);
+      expect(getAvailableWidgetTypes()).toContain('quotes');
+      expect(getWidgetDisplayName('quotes')).toBe('Quotes');
+
+      const config = normalizeWidgetConfiguration([
+        { position: 1, widgetType: 'quotes', row: 1, column: 1 },
+      ]);
+      expect(config?.[0].widgetType).toBe('quotes');
+    });
+
+    it('should reject invalid definitions and taken ids', () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(registerWidget({ ...quotesWidget, id: 'My Widget' })).toBe(false);
+      expect(registerWidget({ ...quotesWidget, id: 'clock' })).toBe(false);
+      expect(registerWidget({ ...quotesWidget, name: '  ' })).toBe(false);
+      expect(registerWidget({ ...quotesWidget, preferredSize: { rowSpan: 0, columnSpan: 2 } })).toBe(false);
+      expect(registerWidget({ ...quotesWidget, preferredSize: { rowSpan: 1, columnSpan: 1 } })).toBe(false);
+      expect(
+        registerWidget({
+          ...quotesWidget,
+          settings: [
+            { key: 'a', label: 'A', type: 'text' },
+            { key: 'a', label: 'A again', type: 'text' },
+          ],
+        })
+      ).toBe(false);
+      expect(
+        registerWidget({ ...quotesWidget, settings: [{ key: 'a', label: 'A', type: 'select', options: [] }] })
+      ).toBe(false);
+      expect(isValidWidgetType('quotes')).toBe(false);
+      expect(error).toHaveBeenCalledTimes(7);
+
+      expect(registerWidget(quotesWidget)).toBe(true);
+      expect(registerWidget(quotesWidget)).toBe(false);
+    });
+  });
+
+  describe('unregisterWidget', () => {
+    it('should remove plugins but never built-in widgets', () => {
+      registerWidget(quotesWidget);
+      expect(unregisterWidget('quotes')).toBe(true);
+      expect(isValidWidgetType('quotes')).toBe(false);
+
+      expect(unregisterWidget('clock')).toBe(false);
+      expect(isValidWidgetType('clock')).toBe(true);
+    });
+  });
+
+  describe('manifest', () => {
+    it('should return the manifest of a registered widget', () => {
+      registerWidget(quotesWidget);
+      expect(getWidgetManifest('quotes')).toEqual({
+        name: 'Quotes',
+        description: 'A quote to start the day',
+        icon: '❝',
+        minSize: { rowSpan: 1, columnSpan: 2 },
+        preferredSize: { rowSpan: 1, columnSpan: 3 },
+        capabilities: { network: true },
+        shortcuts: [{ key: 'N', description: 'Next quote' }],
+      });
+    });
+
+    it('should fill in defaults for missing fields', () => {
+      registerWidget({ id: 'quotes', name: 'Quotes', load, minSize: { rowSpan: 2, columnSpan: 3 } });
+      const manifest = getWidgetManifest('quotes');
+      expect(manifest.description).toBe('');
+      expect(manifest.capabilities).toEqual({});
+      expect(manifest.shortcuts).toEqual([]);
+      // The preferred size never falls below the minimum
+      expect(manifest.preferredSize).toEqual({ rowSpan: 2, columnSpan: 3 });
+
+      expect(getWidgetManifest('unknown').name).toBe('unknown');
+      expect(getWidgetManifest('unknown').preferredSize).toEqual({ rowSpan: 1, columnSpan: 2 });
+    });
+
+    it('should describe every built-in widget', () => {
+      for (const type of getAvailableWidgetTypes()) {
+        const manifest = getWidgetManifest(type);
+        expect(manifest.description).not.toBe('');
+        expect(manifest.icon).not.toBe('');
+      }
+      expect(getWidgetManifest('weather').capabilities).toEqual({ network: true, geolocation: true });
+      expect(getWidgetCapabilityLabels('weather')).toEqual(['Internet', 'Location']);
+      expect(getWidgetCapabilityLabels('todo')).toEqual([]);
+    });
+
+    it('should flag slots smaller than the minimum size', () => {
+      expect(isBelowMinSize('todo', { rowSpan: 1, columnSpan: 1 })).toBe(true);
+      expect(isBelowMinSize('todo', { rowSpan: 1, columnSpan: 2 })).toBe(false);
+      expect(isBelowMinSize('clock', { rowSpan: 1, columnSpan: 1 })).toBe(false);
+    });
+
+    it('should list shortcut groups for built-in widgets and plugins', () => {
+      const titles = getWidgetShortcutGroups().map((group) => group.title);
+      expect(titles).toEqual(['Clock Widget', 'Todo List Widget', 'Notepad Widget']);
+
+      registerWidget(quotesWidget);
+      expect(getWidgetShortcutGroups().at(-1)).toEqual({
+        title: 'Quotes Widget',
+        shortcuts: [{ key: 'N', description: 'Next quote' }],
+      });
+    });
+
+    it('should validate plugin settings and fill in schema defaults', () => {
+      registerWidget(quotesWidget);
+      expect(normalizeWidgetSettings('quotes', { category: ' tech ', other: 'x' })).toEqual({ category: 'tech' });
+      expect(resolveWidgetSettings('quotes', undefined)).toEqual({ category: 'inspiration' });
+      expect(resolveWidgetSettings('quotes', { category: 'tech' })).toEqual({ category: 'tech' });
+    });
+  });
+
+  describe('addWidgetSlot', () => {
+    const config: WidgetConfiguration = [
+      { position: 1, widgetType: 'clock', instanceId: 'clock', row: 1, column: 1 },
+      { position: 2, widgetType: 'weather', instanceId: 'weather', row: 1, column: 2 },
+    ];
+
+    it('should add a new row sized by the widget, within the grid width', () => {
+      registerWidget(quotesWidget);
+      const result = addWidgetSlot(config, 'quotes');
+
+      expect(result).toHaveLength(3);
+      expect(result[2]).toEqual({
+        position: 3,
+        widgetType: 'quotes',
+        instanceId: 'quotes',
+        row: 2,
+        column: 1,
+        rowSpan: 1,
+        columnSpan: 2,
+      });
+    });
+
+    it('should not shrink a widget below its minimum width', () => {
+      const narrow: WidgetConfiguration = [{ position: 1, widgetType: 'clock', instanceId: 'clock', row: 1, column: 1 }];
+      const result = addWidgetSlot(narrow, 'todo');
+      expect(result[1]).toMatchObject({ row: 2, column: 1, rowSpan: 2, columnSpan: 2 });
+    });
+
+    it('should give additional instances their own instance id', () => {
+      const result = addWidgetSlot(config, 'clock');
+      expect(result[2].instanceId).not.toBe('clock');
+      expect(result[2].widgetType).toBe('clock');
+    });
+
+    it('should start an empty dashboard at the first row', () => {
+      const result = addWidgetSlot([], 'todo');
+      expect(result).toEqual([
+        { position: 1, widgetType: 'todo', instanceId: 'todo', row: 1, column: 1, rowSpan: 2, columnSpan: 3 },
+      ]);
+    });
+  });
+});
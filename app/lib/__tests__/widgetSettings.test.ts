@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeWidgetSettings,
+  getWidgetSettingsFields,
+  isValidTimeZone,
+  getTimeZoneOptions,
+} from '../widgetSettings';
+import { getAvailableWidgetTypes } from '../widgetRegistry';
+
+describe('widgetSettings', () => {
+  describe('normalizeWidgetSettings', () => {
+    it('should keep known fields and trim values', () => {
+      expect(normalizeWidgetSettings('todo', { listName: '  Work  ' })).toEqual({ listName: 'Work' });
+      expect(normalizeWidgetSettings('weather', { location: 'Berlin' })).toEqual({ location: 'Berlin' });
+    });
+
+    it('should drop unknown fields, non-strings and empty values', () => {
+      expect(
+        normalizeWidgetSettings('todo', { listName: '', color: 'red', timezone: 'UTC' })
+      ).toBeUndefined();
+      expect(normalizeWidgetSettings('notepad', { title: 42 })).toBeUndefined();
+      expect(normalizeWidgetSettings('clock', null)).toBeUndefined();
+    });
+
+    it('should drop time zones the browser does not know', () => {
+      expect(normalizeWidgetSettings('clock', { timezone: 'Asia/Tokyo' })).toEqual({ timezone: 'Asia/Tokyo' });
+      expect(normalizeWidgetSettings('clock', { timezone: 'Mars/Olympus_Mons' })).toBeUndefined();
+    });
+
+    it('should only keep the options of select fields', () => {
+      expect(normalizeWidgetSettings('notepad', { trashRetentionDays: '7' })).toEqual({ trashRetentionDays: '7' });
+      expect(normalizeWidgetSettings('notepad', { trashRetentionDays: '8' })).toBeUndefined();
+    });
+
+    it('should have no settings for the system widget', () => {
+      expect(normalizeWidgetSettings('system', { anything: 'value' })).toBeUndefined();
+    });
+  });
+
+  describe('fields', () => {
+    it('should describe settings for every widget type', () => {
+      for (const type of getAvailableWidgetTypes()) {
+        expect(Array.isArray(getWidgetSettingsFields(type))).toBe(true);
+      }
+      expect(getWidgetSettingsFields('clock').map((field) => field.key)).toEqual(['timezone']);
+    });
+  });
+
+  describe('time zones', () => {
+    it('should validate time zones', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('Not/AZone')).toBe(false);
+    });
+
+    it('should list time zones', () => {
+      expect(getTimeZoneOptions()).toContain('America/New_York');
+    });
+  });
+});
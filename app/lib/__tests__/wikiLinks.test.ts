@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getWikiLinks,
+  findTabByName,
+  getBacklinks,
+  getWikiLinkQuery,
+  getWikiLinkAt,
+  getWikiLinkSuggestions,
+} from '../wikiLinks';
+import { NotepadTab } from '../notepadData';
+
+const tab = (id: string, name: string, content = '', extra: Partial<NotepadTab> = {}): NotepadTab => ({ id, name, content, ...extra });
+
+describe('wikiLinks', () => {
+  describe('getWikiLinks', () => {
+    it('should list linked names once, ignoring case and empty links', () => {
+      expect(getWikiLinks('[[Plans]], [[ plans ]], [[Reading  list]] and [[ ]] or [[a\nb]]')).toEqual(['Plans', 'Reading  list']);
+    });
+  });
+
+  describe('findTabByName', () => {
+    it('should match names ignoring case and extra spaces', () => {
+      const tabs = [tab('a', 'Reading list'), tab('b', 'Plans')];
+      expect(findTabByName(tabs, ' reading   LIST ')?.id).toBe('a');
+      expect(findTabByName(tabs, 'Plan')).toBeUndefined();
+    });
+  });
+
+  describe('getBacklinks', () => {
+    it('should list the other tabs linking to a tab, rich or Markdown', () => {
+      const plans = tab('a', 'Plans & Ideas', '<div>Links to [[Inbox]]</div>');
+      const tabs = [
+        plans,
+        tab('b', 'Inbox', '<div>See <b>[[plans &amp; ideas]]</b></div>'),
+        tab('c', 'Notes', 'Back to [[Plans & Ideas]]', { format: 'markdown' }),
+        tab('d', 'Other', 'Plans & Ideas'),
+      ];
+      expect(getBacklinks(tabs, plans).map((t) => t.id)).toEqual(['b', 'c']);
+      expect(getBacklinks(tabs, tabs[1]).map((t) => t.id)).toEqual(['a']);
+    });
+  });
+
+  describe('getWikiLinkQuery', () => {
+    it('should return the name typed after an unclosed [[', () => {
+      expect(getWikiLinkQuery('Go to [[Pla')).toBe('Pla');
+      expect(getWikiLinkQuery('Go to [[')).toBe('');
+      expect(getWikiLinkQuery('Go to [[Plans]] now')).toBeNull();
+      expect(getWikiLinkQuery('[[Plans\nmore')).toBeNull();
+    });
+  });
+
+  describe('getWikiLinkAt', () => {
+    it('should find the link around a position', () => {
+      const text = 'Go to [[Plans]] now';
+      expect(getWikiLinkAt(text, 10)).toBe('Plans');
+      expect(getWikiLinkAt(text, 6)).toBe('Plans');
+      expect(getWikiLinkAt(text, 2)).toBeNull();
+    });
+  });
+
+  describe('getWikiLinkSuggestions', () => {
+    const tabs = [tab('a', 'Inbox'), tab('b', 'Plans'), tab('c', 'Reading list')];
+
+    it('should rank matching tabs and leave out the current tab', () => {
+      expect(getWikiLinkSuggestions(tabs, '', 'a')).toEqual([
+        { name: 'Plans', tabId: 'b' },
+        { name: 'Reading list', tabId: 'c' },
+      ]);
+      expect(getWikiLinkSuggestions(tabs, 'rl', null)).toEqual([{ name: 'Reading list', tabId: 'c' }, { name: 'rl' }]);
+    });
+
+    it('should offer a new tab only if no tab has the name', () => {
+      expect(getWikiLinkSuggestions(tabs, 'plans', null)).toEqual([{ name: 'Plans', tabId: 'b' }]);
+      expect(getWikiLinkSuggestions(tabs, 'Ideas ', null)).toEqual([{ name: 'Ideas' }]);
+    });
+  });
+});
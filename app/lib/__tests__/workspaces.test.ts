@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DEFAULT_WORKSPACE_ID,
+  MAX_WORKSPACES,
+  normalizeWorkspaceState,
+  getWorkspaceState,
+  saveWorkspaceState,
+  getWorkspaceKey,
+  subscribeToWorkspaceState,
+  addWorkspace,
+  renameWorkspace,
+  removeWorkspace,
+  clearWorkspaceData,
+  workspaceStateSchema,
+  WorkspaceState,
+} from '../workspaces';
+import { writeStoredValue } from '../storage';
+import { getWidgetConfiguration, saveWidgetConfiguration, subscribeToWidgetConfiguration } from '../widgetConfig';
+
+const twoWorkspaces: WorkspaceState = {
+  workspaces: [
+    { id: DEFAULT_WORKSPACE_ID, name: 'Main' },
+    { id: 'work', name: 'Work' },
+  ],
+  activeWorkspaceId: 'work',
+};
+
+describe('workspaces', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('normalizeWorkspaceState', () => {
+    it('should return the default workspace for missing data', () => {
+      expect(normalizeWorkspaceState(null)).toEqual({
+        workspaces: [{ id: DEFAULT_WORKSPACE_ID, name: 'Main' }],
+        activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+      });
+    });
+
+    it('should drop malformed and duplicate workspaces and keep the default first', () => {
+      const normalized = normalizeWorkspaceState({
+        workspaces: [
+          { id: 'work', name: 'Work' },
+          { id: 'work', name: 'Duplicate' },
+          { id: 42, name: 'Bad' },
+          { id: DEFAULT_WORKSPACE_ID, name: 'Home' },
+        ],
+        activeWorkspaceId: 'work',
+      });
+
+      expect(normalized).toEqual({
+        workspaces: [
+          { id: DEFAULT_WORKSPACE_ID, name: 'Home' },
+          { id: 'work', name: 'Work' },
+        ],
+        activeWorkspaceId: 'work',
+      });
+    });
+
+    it('should fall back to the default workspace when the active one is unknown', () => {
+      expect(normalizeWorkspaceState({ ...twoWorkspaces, activeWorkspaceId: 'gone' }).activeWorkspaceId)
+        .toBe(DEFAULT_WORKSPACE_ID);
+    });
+  });
+
+  describe('getWorkspaceKey', () => {
+    it('should keep unscoped keys for the default workspace', () => {
+      expect(getWorkspaceKey('hyperdash-todos')).toBe('hyperdash-todos');
+    });
+
+    it('should scope keys for the active workspace', () => {
+      saveWorkspaceState(twoWorkspaces);
+      expect(getWorkspaceKey('hyperdash-todos')).toBe('hyperdash-workspace:work:hyperdash-todos');
+      expect(getWorkspaceKey('hyperdash-todos', DEFAULT_WORKSPACE_ID)).toBe('hyperdash-todos');
+    });
+
+    it('should keep widget configuration separate per workspace', () => {
+      saveWorkspaceState(twoWorkspaces);
+      saveWidgetConfiguration([{ position: 1, widgetType: 'notepad', row: 1, column: 1 }]);
+
+      expect(getWidgetConfiguration()).toHaveLength(1);
+
+      saveWorkspaceState({ ...twoWorkspaces, activeWorkspaceId: DEFAULT_WORKSPACE_ID });
+      expect(getWidgetConfiguration()).toHaveLength(5);
+    });
+  });
+
+  describe('active workspace', () => {
+    // What another browser tab does when it switches or removes workspaces
+    const saveFromOtherTab = (state: WorkspaceState) =>
+      writeStoredValue('hyperdash-workspaces', workspaceStateSchema, state);
+
+    // The event the browser dispatches here when another tab changes localStorage
+    const dispatchStorageEvent = (key: string) => {
+      const event = new Event('storage');
+      Object.assign(event, { key, newValue: localStorage.getItem(key), storageArea: localStorage });
+      window.dispatchEvent(event);
+    };
+
+    it('should keep this tab\'s workspace when another tab switches', () => {
+      saveWorkspaceState(twoWorkspaces);
+      saveFromOtherTab({ ...twoWorkspaces, activeWorkspaceId: DEFAULT_WORKSPACE_ID });
+
+      expect(getWorkspaceState().activeWorkspaceId).toBe('work');
+      expect(getWorkspaceKey('hyperdash-todos')).toBe('hyperdash-workspace:work:hyperdash-todos');
+    });
+
+    it('should fall back to the default workspace when another tab removes it', () => {
+      saveWorkspaceState(twoWorkspaces);
+      saveFromOtherTab(removeWorkspace({ ...twoWorkspaces, activeWorkspaceId: DEFAULT_WORKSPACE_ID }, 'work'));
+
+      expect(getWorkspaceState().activeWorkspaceId).toBe(DEFAULT_WORKSPACE_ID);
+    });
+
+    it('should report workspace edits from other tabs without switching this one', () => {
+      saveWorkspaceState(twoWorkspaces);
+      const listener = vi.fn();
+      const unsubscribe = subscribeToWorkspaceState(listener);
+
+      saveFromOtherTab({ ...renameWorkspace(twoWorkspaces, 'work', 'Office'), activeWorkspaceId: DEFAULT_WORKSPACE_ID });
+      dispatchStorageEvent('hyperdash-workspaces');
+
+      expect(listener).toHaveBeenCalledWith({ ...renameWorkspace(twoWorkspaces, 'work', 'Office'), activeWorkspaceId: 'work' });
+      unsubscribe();
+    });
+
+    it('should send widget configuration changes of the subscribed workspace', () => {
+      saveWorkspaceState(twoWorkspaces);
+      const listener = vi.fn();
+      const unsubscribe = subscribeToWidgetConfiguration(listener, 'work');
+
+      saveWorkspaceState({ ...twoWorkspaces, activeWorkspaceId: DEFAULT_WORKSPACE_ID });
+      saveWidgetConfiguration([{ position: 1, widgetType: 'notepad', row: 1, column: 1 }], 'work');
+      dispatchStorageEvent('hyperdash-workspace:work:hyperdash-widget-config');
+
+      expect(listener.mock.calls[0][0]).toHaveLength(1);
+      unsubscribe();
+    });
+  });
+
+  describe('editing', () => {
+    it('should add workspaces up to the limit', () => {
+      let state = getWorkspaceState();
+      for (let i = 0; i < MAX_WORKSPACES + 2; i++) {
+        state = addWorkspace(state);
+      }
+
+      expect(state.workspaces).toHaveLength(MAX_WORKSPACES);
+      expect(new Set(state.workspaces.map(w => w.id)).size).toBe(MAX_WORKSPACES);
+      expect(state.workspaces[1].name).toBe('Workspace 2');
+    });
+
+    it('should rename a workspace', () => {
+      const state = renameWorkspace(twoWorkspaces, 'work', 'Office');
+      expect(state.workspaces[1].name).toBe('Office');
+    });
+
+    it('should remove a workspace and switch away if it was active', () => {
+      const state = removeWorkspace(twoWorkspaces, 'work');
+      expect(state.workspaces).toHaveLength(1);
+      expect(state.activeWorkspaceId).toBe(DEFAULT_WORKSPACE_ID);
+    });
+
+    it('should never remove the default workspace', () => {
+      expect(removeWorkspace(twoWorkspaces, DEFAULT_WORKSPACE_ID)).toBe(twoWorkspaces);
+    });
+
+    it('should clear only the removed workspace data', () => {
+      localStorage.setItem('hyperdash-todos', '[]');
+      localStorage.setItem(getWorkspaceKey('hyperdash-todos', 'work'), '[]');
+      localStorage.setItem(getWorkspaceKey('wallpaper', 'work'), 'url');
+
+      clearWorkspaceData('work');
+
+      expect(localStorage.getItem('hyperdash-todos')).toBe('[]');
+      expect(localStorage.getItem(getWorkspaceKey('hyperdash-todos', 'work'))).toBeNull();
+      expect(localStorage.getItem(getWorkspaceKey('wallpaper', 'work'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip } from '../zip';
+
+// jsdom's Blob has no arrayBuffer()
+const readBytes = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+describe('zip', () => {
+  it('should compute CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('should store each file with its name and contents', async () => {
+    const blob = createZip([
+      { name: 'one.md', content: 'Hello' },
+      { name: 'två.md', content: 'Wörld' },
+    ]);
+    expect(blob.type).toBe('application/zip');
+
+    const bytes = await readBytes(blob);
+    const view = new DataView(bytes.buffer);
+    const decoder = new TextDecoder();
+
+    // First local header, then its name and data
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0800);
+    expect(view.getUint32(18, true)).toBe(5);
+    expect(decoder.decode(bytes.slice(30, 36))).toBe('one.md');
+    expect(decoder.decode(bytes.slice(36, 41))).toBe('Hello');
+    expect(view.getUint32(14, true)).toBe(crc32(new TextEncoder().encode('Hello')));
+
+    // End record points at the central directory
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const directoryOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(directoryOffset, true)).toBe(0x02014b50);
+    expect(directoryOffset + view.getUint32(end + 12, true)).toBe(end);
+
+    // Second entry's central header points at its local header
+    const secondCentral = directoryOffset + 46 + 'one.md'.length;
+    expect(view.getUint32(secondCentral, true)).toBe(0x02014b50);
+    expect(view.getUint32(secondCentral + 42, true)).toBe(30 + 6 + 5);
+  });
+});
@@ -1,3 +1,5 @@
+import { StorageSchema } from './storage';
+
 /**
  * Color utility functions for analyzing wallpaper images and calculating reactive colors
  */
@@ -10,6 +12,20 @@ export interface ColorPalette {
   button: string;       // Button text (equivalent to green-300)
 }
 
+const PALETTE_KEYS: (keyof ColorPalette)[] = ['primary', 'secondary', 'placeholder', 'muted', 'button'];
+
+// Saved palette format (see storage.ts)
+export const colorPaletteSchema: StorageSchema<ColorPalette> = {
+  name: 'reactive colors',
+  version: 1,
+  migrations: {},
+  parse: (data) => {
+    if (!data || typeof data !== 'object') return null;
+    const palette = data as Partial<Record<keyof ColorPalette, unknown>>;
+    return PALETTE_KEYS.every((key) => typeof palette[key] === 'string') ? (palette as ColorPalette) : null;
+  },
+};
+
 /**
  * Default green color palette (RGB values)
  */
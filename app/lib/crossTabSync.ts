@@ -0,0 +1,103 @@
+import { isSafeMode } from './utils';
+
+/**
+ * Live sync between browser tabs showing the dashboard
+ * Saves through the IndexedDB storage adapter are broadcast on a BroadcastChannel;
+ * localStorage saves (widget configuration, or everything when IndexedDB is unavailable)
+ * arrive through the browser's `storage` event. Listeners get the new raw value either way.
+ *
+ * Conflict rule: last writer wins per key. A tab applies every change it receives,
+ * so the most recent save of a key is what every tab shows and saves from then on.
+ * Tabs in safe mode neither send nor receive changes
+ */
+
+const CHANNEL_NAME = 'hyperdash-sync';
+
+interface SyncMessage {
+  key: string;
+  value: string | null; // null when the key was removed
+}
+
+export type StorageChangeListener = (value: string | null) => void;
+
+const listeners = new Map<string, Set<StorageChangeListener>>();
+let channel: BroadcastChannel | null = null;
+let isListening = false;
+
+function notify(key: string, value: string | null) {
+  listeners.get(key)?.forEach((listener) => {
+    try {
+      listener(value);
+    } catch (error) {
+      console.error(`Error applying change to ${key} from another tab:`, error);
+    }
+  });
+}
+
+function handleStorageEvent(event: StorageEvent) {
+  if (event.key && event.storageArea === localStorage) {
+    notify(event.key, event.newValue);
+  }
+}
+
+function startListening() {
+  if (isListening) return;
+  isListening = true;
+
+  window.addEventListener('storage', handleStorageEvent);
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      if (event.data && typeof event.data.key === 'string') {
+        notify(event.data.key, event.data.value);
+      }
+    };
+  }
+}
+
+/**
+ * Tell other tabs that a key changed (for storage the `storage` event doesn't cover)
+ */
+export function broadcastStorageChange(key: string, value: string | null): void {
+  if (typeof window === 'undefined' || isSafeMode()) return;
+  startListening();
+  const message: SyncMessage = { key, value };
+  try {
+    channel?.postMessage(message);
+  } catch (error) {
+    console.error('Error broadcasting change to other tabs:', error);
+  }
+}
+
+/**
+ * Announce a change that didn't come from this tab's widgets (e.g. pulled from the sync server)
+ * Listeners here apply it like a change from another tab; other tabs are told too when
+ * `broadcast` is set (localStorage changes already reach them through the storage event)
+ */
+export function announceStorageChange(key: string, value: string | null, broadcast: boolean): void {
+  if (typeof window === 'undefined' || isSafeMode()) return;
+  notify(key, value);
+  if (broadcast) {
+    broadcastStorageChange(key, value);
+  }
+}
+
+/**
+ * Listen for changes to a key made in other tabs
+ * Returns a function that stops listening
+ */
+export function subscribeToStorageKey(key: string, listener: StorageChangeListener): () => void {
+  if (typeof window === 'undefined' || isSafeMode()) return () => {};
+  startListening();
+
+  const keyListeners = listeners.get(key) ?? new Set();
+  keyListeners.add(listener);
+  listeners.set(key, keyListeners);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) {
+      listeners.delete(key);
+    }
+  };
+}
@@ -0,0 +1,409 @@
+import { StorageSchema, decodeStoredValue, encodeStoredValue } from './storage';
+import { getStorageAdapter, isAdapterKey, readAllStoredItems } from './storageAdapter';
+import { announceStorageChange } from './crossTabSync';
+import { todosSchema } from './todoData';
+import { NotepadTab, notepadSchema, normalizeNotepadData } from './notepadData';
+import { notepadHistorySchema } from './notepadHistory';
+import { MAX_TRASHED_TABS, notepadTrashSchema } from './notepadTrash';
+import { colorPaletteSchema } from './colorUtils';
+import { widgetConfigSchema } from './widgetConfig';
+import { layoutRatiosSchema } from './layoutRatios';
+import { MAX_WORKSPACES, getUnscopedKey, normalizeWorkspaceState, workspaceStateSchema } from './workspaces';
+
+/**
+ * Export and import of dashboard data (Settings -> Data)
+ * Exports are a versioned JSON file with the saved values grouped into sections, so an
+ * import can take only some of them. Every imported value is validated before anything
+ * is written. Imports either replace the chosen sections or merge into them: merging adds
+ * todos and notepad tabs that aren't there yet and only fills in other values that are missing.
+ * Files exported before the header existed (a flat key -> value object) can still be imported.
+ * Notepad images aren't exported
+ */
+
+const EXPORT_FORMAT = 'hyperdash-export';
+
+export type DataSection = 'todos' | 'notes' | 'layout' | 'settings' | 'wallpaper';
+
+export type ImportMode = 'replace' | 'merge';
+
+export type SectionData = Partial<Record<DataSection, Record<string, string>>>;
+
+export interface ExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  sections: SectionData; // Section -> storage key -> saved value
+}
+
+export interface ImportPreview {
+  exportedAt: string | null; // null for files exported before the header existed
+  sections: SectionData; // Valid entries only
+  problems: string[]; // Entries that will be skipped, and why
+}
+
+export type ParseImportResult = { ok: true; preview: ImportPreview } | { ok: false; error: string };
+
+export const EXPORT_VERSION = 1;
+
+export const DATA_SECTIONS: DataSection[] = ['todos', 'notes', 'layout', 'settings', 'wallpaper'];
+
+export const DATA_SECTION_LABELS: Record<DataSection, string> = {
+  todos: 'Todos',
+  notes: 'Notes',
+  layout: 'Layout & workspaces',
+  settings: 'Settings & timers',
+  wallpaper: 'Wallpaper',
+};
+
+interface KeyDefinition {
+  section: DataSection;
+  name: string; // Used in the import report
+  schema?: StorageSchema<unknown>;
+  isValid?: (value: string) => boolean; // Check for plain string values (no schema)
+}
+
+const isBoolean = (value: string) => value === 'true' || value === 'false';
+const isCount = (value: string) => /^\d+$/.test(value);
+
+// Everything the dashboard saves, by base key (without workspace scope or instance ID)
+const KEY_DEFINITIONS: Record<string, KeyDefinition> = {
+  'hyperdash-todos': { section: 'todos', name: 'todo list', schema: todosSchema },
+  'hyperdash-show-completed': { section: 'todos', name: 'show completed setting', isValid: isBoolean },
+  'hyperdash-notepad': { section: 'notes', name: 'notepad', schema: notepadSchema },
+  'hyperdash-notepad-history': { section: 'notes', name: 'notepad history', schema: notepadHistorySchema },
+  'hyperdash-notepad-trash': { section: 'notes', name: 'closed notepad tabs', schema: notepadTrashSchema },
+  'hyperdash-widget-config': { section: 'layout', name: 'widget layout', schema: widgetConfigSchema },
+  'hyperdash-layout-ratios': { section: 'layout', name: 'layout sizes', schema: layoutRatiosSchema },
+  'hyperdash-workspaces': { section: 'layout', name: 'workspace list', schema: workspaceStateSchema },
+  reactiveColors: { section: 'settings', name: 'color palette', schema: colorPaletteSchema },
+  clockFormat: { section: 'settings', name: 'clock format', isValid: (value) => value === '12h' || value === '24h' },
+  onboardingCompleted: { section: 'settings', name: 'onboarding flag', isValid: isBoolean },
+  keyboardShortcutsShown: { section: 'settings', name: 'shortcuts flag', isValid: isBoolean },
+  pomodoroTimeLeft: { section: 'settings', name: 'pomodoro time', isValid: isCount },
+  pomodoroIsRunning: { section: 'settings', name: 'pomodoro state', isValid: isBoolean },
+  pomodoroMode: {
+    section: 'settings',
+    name: 'pomodoro mode',
+    isValid: (value) => ['work', 'shortBreak', 'longBreak'].includes(value),
+  },
+  pomodoroCount: { section: 'settings', name: 'pomodoro count', isValid: isCount },
+  wallpaper: { section: 'wallpaper', name: 'wallpaper', isValid: (value) => value.trim().length > 0 },
+};
+
+function getKeyDefinition(key: string): KeyDefinition | null {
+  const baseKey = getUnscopedKey(key).split(':')[0];
+  return Object.prototype.hasOwnProperty.call(KEY_DEFINITIONS, baseKey) ? KEY_DEFINITIONS[baseKey] : null;
+}
+
+/**
+ * Section a storage key belongs to (null for keys that aren't dashboard data)
+ */
+export function getKeySection(key: string): DataSection | null {
+  return getKeyDefinition(key)?.section ?? null;
+}
+
+function isValidValue(definition: KeyDefinition, value: string): boolean {
+  if (definition.schema) {
+    return decodeStoredValue(definition.schema, value).value !== null;
+  }
+  return definition.isValid ? definition.isValid(value) : true;
+}
+
+/**
+ * Check if a storage key holds dashboard data (in any workspace or widget instance)
+ */
+export function isDashboardKey(key: string): boolean {
+  return getKeyDefinition(key) !== null;
+}
+
+/**
+ * Read every dashboard key from localStorage and the storage adapter
+ * Anything else on the origin (sync settings, other apps' keys) is left out
+ */
+export async function readDashboardData(): Promise<Record<string, string>> {
+  const data: Record<string, string> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    const value = key === null ? null : localStorage.getItem(key);
+    if (key !== null && value !== null && isDashboardKey(key)) {
+      data[key] = value;
+    }
+  }
+  for (const [key, value] of Object.entries(await readAllStoredItems(await getStorageAdapter()))) {
+    if (isDashboardKey(key)) {
+      data[key] = value;
+    }
+  }
+  return data;
+}
+
+/**
+ * Build an export of the chosen sections (all workspaces and widget instances)
+ */
+export async function createExportFile(sections: DataSection[]): Promise<ExportFile> {
+  const chosen = new Set(sections);
+  const exported: SectionData = {};
+  for (const [key, value] of Object.entries(await readDashboardData())) {
+    const section = getKeySection(key);
+    if (section && chosen.has(section)) {
+      exported[section] = { ...exported[section], [key]: value };
+    }
+  }
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    sections: exported,
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Read and validate an export file
+ * Fails only if the file can't be used at all; invalid entries are listed in `problems`
+ */
+export function parseImportFile(text: string): ParseImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON.' };
+  }
+  if (!isRecord(parsed)) {
+    return { ok: false, error: 'The file is not a HyperDash export.' };
+  }
+
+  const sections: SectionData = {};
+  const problems: string[] = [];
+  const addEntry = (key: string, value: unknown, expected?: DataSection) => {
+    const definition = getKeyDefinition(key);
+    if (!definition) {
+      problems.push(`${key}: not HyperDash data`);
+      return;
+    }
+    const label = DATA_SECTION_LABELS[definition.section];
+    if (expected && expected !== definition.section) {
+      problems.push(`${label}: ${key} was listed under ${DATA_SECTION_LABELS[expected]}`);
+    } else if (typeof value !== 'string' || !isValidValue(definition, value)) {
+      problems.push(`${label}: ${key} is not a valid ${definition.name}`);
+    } else {
+      sections[definition.section] = { ...sections[definition.section], [key]: value };
+    }
+  };
+
+  if (!('format' in parsed)) {
+    // Exported before the header existed: every saved key, including other sites' keys
+    let unrelated = 0;
+    for (const [key, value] of Object.entries(parsed)) {
+      if (value === null) continue;
+      if (getKeyDefinition(key)) {
+        addEntry(key, value);
+      } else {
+        unrelated++;
+      }
+    }
+    if (unrelated > 0) {
+      problems.push(`${unrelated} key${unrelated === 1 ? '' : 's'} not used by HyperDash will be ignored`);
+    }
+    return { ok: true, preview: { exportedAt: null, sections, problems } };
+  }
+
+  if (parsed.format !== EXPORT_FORMAT || !Number.isInteger(parsed.version) || !isRecord(parsed.sections)) {
+    return { ok: false, error: 'The file is not a HyperDash export.' };
+  }
+  if ((parsed.version as number) > EXPORT_VERSION) {
+    return {
+      ok: false,
+      error: `The file was exported by a newer version of HyperDash (format ${parsed.version}). Update HyperDash to import it.`,
+    };
+  }
+
+  for (const [section, entries] of Object.entries(parsed.sections)) {
+    if (!DATA_SECTIONS.includes(section as DataSection)) {
+      problems.push(`Unknown section "${section}" will be ignored`);
+    } else if (!isRecord(entries)) {
+      problems.push(`${DATA_SECTION_LABELS[section as DataSection]}: section is not a list of values`);
+    } else {
+      for (const [key, value] of Object.entries(entries)) {
+        addEntry(key, value, section as DataSection);
+      }
+    }
+  }
+
+  return {
+    ok: true,
+    preview: {
+      exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : null,
+      sections,
+      problems,
+    },
+  };
+}
+
+/**
+ * Readable summary of an import, for confirming it
+ */
+export function describeImport(preview: ImportPreview, sections: DataSection[], mode: ImportMode): string {
+  const lines: string[] = [];
+  if (preview.exportedAt) {
+    const date = new Date(preview.exportedAt);
+    lines.push(`Exported ${isNaN(date.getTime()) ? preview.exportedAt : date.toLocaleString()}`);
+  }
+
+  for (const section of sections) {
+    const count = Object.keys(preview.sections[section] ?? {}).length;
+    if (count > 0) {
+      lines.push(`${DATA_SECTION_LABELS[section]}: ${count} saved value${count === 1 ? '' : 's'}`);
+    }
+  }
+  if (lines.length === (preview.exportedAt ? 1 : 0)) {
+    lines.push('Nothing to import in the chosen sections.');
+  }
+
+  if (preview.problems.length > 0) {
+    lines.push('', 'Skipped:', ...preview.problems.map((problem) => `- ${problem}`));
+  }
+  lines.push(
+    '',
+    mode === 'merge'
+      ? 'Merge adds imported todos and notepad tabs to your data and only fills in other values you don\'t have.'
+      : 'Replace overwrites your data in the chosen sections.'
+  );
+  return lines.join('\n');
+}
+
+// Merge an imported value into the current one (null = keep the current value)
+function mergeValue(key: string, current: string, imported: string, notes: string[]): string | null {
+  const definition = getKeyDefinition(key);
+
+  if (definition?.schema === todosSchema) {
+    const todos = decodeStoredValue(todosSchema, current).value;
+    const importedTodos = decodeStoredValue(todosSchema, imported).value ?? [];
+    if (!todos) return imported;
+    const ids = new Set(todos.map((todo) => todo.id));
+    const added = importedTodos.filter((todo) => !ids.has(todo.id));
+    return added.length > 0 ? encodeStoredValue(todosSchema, [...todos, ...added]) : null;
+  }
+
+  if (definition?.schema === notepadSchema) {
+    const notepad = decodeStoredValue(notepadSchema, current).value;
+    const importedNotepad = decodeStoredValue(notepadSchema, imported).value;
+    if (!notepad) return imported;
+    if (!importedNotepad) return null;
+
+    const tabs = [...notepad.tabs];
+    importedNotepad.tabs.forEach((tab, index) => {
+      const existing = tabs.find((t) => t.id === tab.id);
+      if (existing && existing.content === tab.content) return;
+      // Same tab edited differently on both sides: keep both
+      const added: NotepadTab = existing
+        ? { ...tab, id: `${Date.now()}-${index}`, name: `${tab.name} (imported)` }
+        : tab;
+      tabs.push(added);
+    });
+    if (tabs.length === notepad.tabs.length) return null;
+
+    // Added tabs keep their groups (the notepad's own groups win on an ID clash)
+    const groups = [...(notepad.groups ?? [])];
+    for (const group of importedNotepad.groups ?? []) {
+      if (!groups.some((g) => g.id === group.id)) groups.push(group);
+    }
+    const merged = normalizeNotepadData({ ...notepad, tabs, groups });
+    return merged ? encodeStoredValue(notepadSchema, merged) : null;
+  }
+
+  // Tabs merged in above bring their history; tabs that already have one keep theirs
+  if (definition?.schema === notepadHistorySchema) {
+    const history = decodeStoredValue(notepadHistorySchema, current).value;
+    const importedHistory = decodeStoredValue(notepadHistorySchema, imported).value ?? {};
+    if (!history) return imported;
+    const added = Object.entries(importedHistory).filter(([tabId]) => !history[tabId]);
+    return added.length > 0
+      ? encodeStoredValue(notepadHistorySchema, { ...history, ...Object.fromEntries(added) })
+      : null;
+  }
+
+  // Closed tabs that aren't in the trash yet join it, newest first
+  if (definition?.schema === notepadTrashSchema) {
+    const trash = decodeStoredValue(notepadTrashSchema, current).value;
+    const importedTrash = decodeStoredValue(notepadTrashSchema, imported).value ?? [];
+    if (!trash) return imported;
+    const added = importedTrash.filter((trashed) => !trash.some((t) => t.tab.id === trashed.tab.id));
+    if (added.length === 0) return null;
+    const merged = [...trash, ...added].sort((a, b) => b.closedAt - a.closedAt).slice(0, MAX_TRASHED_TABS);
+    return encodeStoredValue(notepadTrashSchema, merged);
+  }
+
+  if (definition?.schema === workspaceStateSchema) {
+    const state = normalizeWorkspaceState(decodeStoredValue(workspaceStateSchema, current).value);
+    const importedState = normalizeWorkspaceState(decodeStoredValue(workspaceStateSchema, imported).value);
+    const ids = new Set(state.workspaces.map((workspace) => workspace.id));
+    const added = importedState.workspaces.filter((workspace) => !ids.has(workspace.id));
+    if (added.length === 0) return null;
+
+    const merged = normalizeWorkspaceState({ ...state, workspaces: [...state.workspaces, ...added] });
+    const skipped = state.workspaces.length + added.length - merged.workspaces.length;
+    if (skipped > 0) {
+      notes.push(`${skipped} workspace${skipped === 1 ? '' : 's'} didn't fit (at most ${MAX_WORKSPACES})`);
+    }
+    return encodeStoredValue(workspaceStateSchema, merged);
+  }
+
+  return null;
+}
+
+/**
+ * Write the chosen sections of an import
+ * Returns notes about imported data that couldn't be merged in
+ */
+export async function importData(
+  preview: ImportPreview,
+  sections: DataSection[],
+  mode: ImportMode
+): Promise<string[]> {
+  const adapter = await getStorageAdapter();
+  const current = await readDashboardData();
+  const chosen = new Set(sections);
+  const notes: string[] = [];
+
+  const write = async (key: string, value: string | null) => {
+    const inAdapter = isAdapterKey(key);
+    if (inAdapter) {
+      await (value === null ? adapter.remove(key) : adapter.set(key, value));
+    } else if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+    announceStorageChange(key, value, inAdapter && adapter.name === 'indexeddb');
+  };
+
+  if (mode === 'replace') {
+    for (const key of Object.keys(current)) {
+      const section = getKeySection(key);
+      if (section && chosen.has(section) && !(key in (preview.sections[section] ?? {}))) {
+        await write(key, null);
+      }
+    }
+  }
+
+  for (const section of sections) {
+    for (const [key, value] of Object.entries(preview.sections[section] ?? {})) {
+      const existing = current[key];
+      if (mode === 'replace' || existing === undefined) {
+        if (existing !== value) {
+          await write(key, value);
+        }
+        continue;
+      }
+      const merged = mergeValue(key, existing, value, notes);
+      if (merged !== null) {
+        await write(key, merged);
+      }
+    }
+  }
+
+  return notes;
+}
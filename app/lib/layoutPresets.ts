@@ -0,0 +1,122 @@
+import { GridPlacement, WidgetConfiguration, WidgetSlot } from './widgetConfig';
+
+/**
+ * Preset tilings for the dashboard grid
+ * Cells are listed in focus order (left-to-right, top-to-bottom)
+ */
+
+export interface LayoutPreset {
+  id: string;
+  name: string;
+  cells: GridPlacement[];
+}
+
+export const LAYOUT_PRESETS: LayoutPreset[] = [
+  {
+    id: 'classic',
+    name: '3 over 2',
+    cells: [
+      { row: 1, column: 1, columnSpan: 2 },
+      { row: 1, column: 3, columnSpan: 2 },
+      { row: 1, column: 5, columnSpan: 2 },
+      { row: 2, column: 1, rowSpan: 2, columnSpan: 3 },
+      { row: 2, column: 4, rowSpan: 2, columnSpan: 3 },
+    ],
+  },
+  {
+    id: 'grid-2x2',
+    name: '2 × 2',
+    cells: [
+      { row: 1, column: 1 },
+      { row: 1, column: 2 },
+      { row: 2, column: 1 },
+      { row: 2, column: 2 },
+    ],
+  },
+  {
+    id: 'one-plus-four',
+    name: '1 + 4',
+    cells: [
+      { row: 1, column: 1, columnSpan: 4 },
+      { row: 2, column: 1 },
+      { row: 2, column: 2 },
+      { row: 2, column: 3 },
+      { row: 2, column: 4 },
+    ],
+  },
+  {
+    id: 'sidebar',
+    name: 'Sidebar',
+    cells: [
+      { row: 1, column: 1 },
+      { row: 2, column: 1 },
+      { row: 3, column: 1 },
+      { row: 1, column: 2, rowSpan: 3, columnSpan: 2 },
+      { row: 1, column: 4, rowSpan: 3, columnSpan: 2 },
+    ],
+  },
+  {
+    id: 'ultrawide',
+    name: 'Ultrawide',
+    cells: [
+      { row: 1, column: 1 },
+      { row: 2, column: 1 },
+      { row: 1, column: 2, rowSpan: 2 },
+      { row: 1, column: 3, rowSpan: 2 },
+      { row: 1, column: 4 },
+      { row: 2, column: 4 },
+    ],
+  },
+  {
+    id: 'portrait',
+    name: 'Portrait',
+    cells: [
+      { row: 1, column: 1 },
+      { row: 1, column: 2 },
+      { row: 2, column: 1, columnSpan: 2 },
+      { row: 3, column: 1, rowSpan: 2, columnSpan: 2 },
+      { row: 5, column: 1, rowSpan: 2, columnSpan: 2 },
+    ],
+  },
+];
+
+/**
+ * Get layout preset by ID
+ */
+export function getLayoutPreset(id: string): LayoutPreset | undefined {
+  return LAYOUT_PRESETS.find(preset => preset.id === id);
+}
+
+// Widgets in focus order
+function getPlacedWidgets(config: WidgetConfiguration): WidgetSlot[] {
+  return [...config]
+    .sort((a, b) => a.position - b.position)
+    .filter(slot => slot.widgetType !== null);
+}
+
+/**
+ * Widgets that applyLayoutPreset() would drop because the preset has fewer cells
+ */
+export function getWidgetsDroppedByPreset(config: WidgetConfiguration, preset: LayoutPreset): WidgetSlot[] {
+  return getPlacedWidgets(config).slice(preset.cells.length);
+}
+
+/**
+ * Re-tile a configuration using a preset
+ * Widgets (with their instance IDs and settings) keep their focus order and fill the preset's cells in sequence;
+ * leftover cells become empty slots and widgets beyond the last cell are dropped
+ */
+export function applyLayoutPreset(
+  config: WidgetConfiguration,
+  preset: LayoutPreset
+): WidgetConfiguration {
+  const widgets = getPlacedWidgets(config);
+
+  return preset.cells.map((cell, index) => ({
+    position: index + 1,
+    widgetType: widgets[index]?.widgetType ?? null,
+    instanceId: widgets[index]?.instanceId,
+    settings: widgets[index]?.settings,
+    ...cell,
+  }));
+}
@@ -0,0 +1,185 @@
+import { LayoutGrid } from './widgetConfig';
+import { removeFromLocalStorage } from './utils';
+import { StorageSchema, readStoredValue, writeStoredValue } from './storage';
+import { getWorkspaceKey } from './workspaces';
+
+/**
+ * Relative track sizes for the dashboard grid (CSS fr units)
+ * rows[i] / columns[i] size the i-th grid track; equal values = even split
+ */
+export interface LayoutRatios {
+  rows: number[];
+  columns: number[];
+}
+
+export type SplitAxis = 'row' | 'column';
+
+/**
+ * Splitter between two adjacent tracks
+ * boundary: number of tracks before the splitter (1 = between tracks 1 and 2)
+ * start/end: 1-based range of cross-axis tracks the splitter runs along
+ */
+export interface SplitterSegment {
+  axis: SplitAxis;
+  boundary: number;
+  start: number;
+  end: number;
+}
+
+const STORAGE_KEY = 'hyperdash-layout-ratios';
+
+// Saved ratios format (see storage.ts); tracks are checked against the grid when used
+export const layoutRatiosSchema: StorageSchema<Partial<LayoutRatios>> = {
+  name: 'layout ratios',
+  version: 1,
+  migrations: {},
+  parse: (data) => (data && typeof data === 'object' && !Array.isArray(data) ? data : null),
+};
+
+// Smallest share of the grid a single track can be dragged down to
+export const MIN_TRACK_FRACTION = 0.05;
+
+const evenTracks = (count: number): number[] => Array.from({ length: count }, () => 1);
+
+const isValidTracks = (value: unknown, count: number): value is number[] =>
+  Array.isArray(value) &&
+  value.length === count &&
+  value.every((size) => typeof size === 'number' && Number.isFinite(size) && size > 0);
+
+/**
+ * Fit ratios to a grid size
+ * Tracks that don't match the grid (layout changed, corrupt data) fall back to an even split
+ */
+export function normalizeLayoutRatios(
+  ratios: Partial<LayoutRatios> | null,
+  rows: number,
+  columns: number
+): LayoutRatios {
+  return {
+    rows: isValidTracks(ratios?.rows, rows) ? ratios!.rows! : evenTracks(rows),
+    columns: isValidTracks(ratios?.columns, columns) ? ratios!.columns! : evenTracks(columns),
+  };
+}
+
+/**
+ * Get saved ratios from localStorage (unnormalized; null if none)
+ */
+export function getLayoutRatios(): Partial<LayoutRatios> | null {
+  return readStoredValue(getWorkspaceKey(STORAGE_KEY), layoutRatiosSchema);
+}
+
+/**
+ * Save ratios to localStorage
+ */
+export function saveLayoutRatios(ratios: LayoutRatios): void {
+  writeStoredValue(getWorkspaceKey(STORAGE_KEY), layoutRatiosSchema, ratios);
+}
+
+/**
+ * Remove saved ratios (back to an even split)
+ */
+export function resetLayoutRatios(): void {
+  removeFromLocalStorage(getWorkspaceKey(STORAGE_KEY));
+}
+
+/**
+ * Build grid-template styles from ratios
+ */
+export function getGridTemplateStyle(ratios: LayoutRatios): {
+  gridTemplateRows: string;
+  gridTemplateColumns: string;
+} {
+  const toTemplate = (tracks: number[]) =>
+    tracks.map((size) => `minmax(0, ${size}fr)`).join(' ');
+  return {
+    gridTemplateRows: toTemplate(ratios.rows),
+    gridTemplateColumns: toTemplate(ratios.columns),
+  };
+}
+
+/**
+ * Move the boundary between tracks[boundary - 1] and tracks[boundary] by delta (fr units)
+ * The track in front of the move absorbs the change; the shrinking side gives up space
+ * from the nearest track first and cascades outward once a track hits its minimum
+ */
+export function resizeTracks(tracks: number[], boundary: number, delta: number): number[] {
+  if (boundary < 1 || boundary >= tracks.length || delta === 0) {
+    return tracks;
+  }
+
+  const total = tracks.reduce((sum, size) => sum + size, 0);
+  const minSize = total * MIN_TRACK_FRACTION;
+  const result = [...tracks];
+
+  // Positive delta moves the boundary right/down: shrink tracks after it
+  const growIndex = delta > 0 ? boundary - 1 : boundary;
+  const step = delta > 0 ? 1 : -1;
+  let remaining = Math.abs(delta);
+  let taken = 0;
+
+  for (
+    let i = delta > 0 ? boundary : boundary - 1;
+    i >= 0 && i < result.length && remaining > 0;
+    i += step
+  ) {
+    const available = Math.max(0, result[i] - minSize);
+    const amount = Math.min(available, remaining);
+    result[i] -= amount;
+    remaining -= amount;
+    taken += amount;
+  }
+
+  result[growIndex] += taken;
+  return result;
+}
+
+/**
+ * Find where splitters belong: boundaries between tracks that separate two different slots
+ * Boundaries that cut through a spanning slot get no handle in that stretch
+ */
+export function getSplitterSegments(layout: LayoutGrid): SplitterSegment[] {
+  // Map each grid cell to the slot covering it
+  const owners: Array<Array<number | null>> = Array.from({ length: layout.rows }, () =>
+    Array.from({ length: layout.columns }, () => null)
+  );
+  for (const slot of layout.slots) {
+    for (let r = slot.row; r < slot.row + slot.rowSpan && r <= layout.rows; r++) {
+      for (let c = slot.column; c < slot.column + slot.columnSpan && c <= layout.columns; c++) {
+        owners[r - 1][c - 1] = slot.position;
+      }
+    }
+  }
+
+  const segments: SplitterSegment[] = [];
+
+  const collect = (
+    axis: SplitAxis,
+    boundaries: number,
+    crossTracks: number,
+    isEdge: (boundary: number, cross: number) => boolean
+  ) => {
+    for (let boundary = 1; boundary < boundaries; boundary++) {
+      let start: number | null = null;
+      for (let cross = 1; cross <= crossTracks + 1; cross++) {
+        const edge = cross <= crossTracks && isEdge(boundary, cross);
+        if (edge && start === null) {
+          start = cross;
+        } else if (!edge && start !== null) {
+          segments.push({ axis, boundary, start, end: cross - 1 });
+          start = null;
+        }
+      }
+    }
+  };
+
+  const separates = (a: number | null, b: number | null) => a !== b && (a !== null || b !== null);
+
+  collect('column', layout.columns, layout.rows, (boundary, row) =>
+    separates(owners[row - 1][boundary - 1], owners[row - 1][boundary])
+  );
+  collect('row', layout.rows, layout.columns, (boundary, column) =>
+    separates(owners[boundary - 1][column - 1], owners[boundary][column - 1])
+  );
+
+  return segments;
+}
@@ -0,0 +1,180 @@
+import { NotepadTab } from './notepadData';
+
+/**
+ * Link previews - title, description and icon of the web pages notes link to
+ * Pages are fetched by the server route in app/api/link-preview (browsers can't read
+ * other sites because of CORS), which parses them with parseLinkPreview() below.
+ * Previews are optional: when the route can't reach a page (or the dashboard is
+ * offline) fetchLinkPreview() resolves to null and the link stays a plain `[domain]` link
+ */
+
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  favicon: string | null; // Absolute http(s) URL
+}
+
+export type LinkPreviewMode = 'off' | 'hover' | 'inline';
+
+export const LINK_PREVIEW_ROUTE = '/api/link-preview';
+export const MAX_LINK_URL_LENGTH = 2048;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+/**
+ * The notepad's link preview setting ('off' if unset or unknown)
+ */
+export function getLinkPreviewMode(setting: string | undefined): LinkPreviewMode {
+  return setting === 'hover' || setting === 'inline' ? setting : 'off';
+}
+
+/**
+ * Check if a URL can be previewed: an absolute http(s) URL of reasonable length
+ */
+export function isPreviewableUrl(url: string): boolean {
+  if (url.length > MAX_LINK_URL_LENGTH) return false;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A URL's host without `www.`, as link cards show it
+ */
+export function getLinkDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Decoded, single-line text, cut to `maxLength` (null if empty)
+function cleanText(text: string | undefined, maxLength: number): string | null {
+  const cleaned = decodeEntities(text ?? '').replace(/\s+/g, ' ').trim();
+  if (!cleaned) return null;
+  return cleaned.length > maxLength ? `${cleaned.slice(0, maxLength - 1)}…` : cleaned;
+}
+
+// Attributes of every `<tag ...>` in the page, names lowercased
+function getTagAttributes(html: string, tag: string): Record<string, string>[] {
+  const tags = html.match(new RegExp(`<${tag}\\b[^>]*>`, 'gi')) ?? [];
+  return tags.map((source) => {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+      attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+    }
+    return attributes;
+  });
+}
+
+function resolveHttpUrl(href: string, baseUrl: string): string | null {
+  try {
+    const url = new URL(decodeEntities(href.trim()), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a page's preview from its HTML: Open Graph / Twitter tags first, then the
+ * `<title>`, description meta tag and icon links (`/favicon.ico` if the page has none)
+ */
+export function parseLinkPreview(html: string, pageUrl: string): LinkPreview {
+  const meta: Record<string, string> = {};
+  for (const attributes of getTagAttributes(html, 'meta')) {
+    const name = (attributes.property ?? attributes.name ?? '').toLowerCase();
+    if (name && attributes.content !== undefined && !(name in meta)) {
+      meta[name] = attributes.content;
+    }
+  }
+
+  const titleTag = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const title = cleanText(meta['og:title'] ?? meta['twitter:title'] ?? titleTag, MAX_TITLE_LENGTH);
+  const description = cleanText(
+    meta['og:description'] ?? meta['description'] ?? meta['twitter:description'],
+    MAX_DESCRIPTION_LENGTH
+  );
+
+  // `icon` and `shortcut icon` before `apple-touch-icon`; `mask-icon` is a monochrome SVG
+  const iconLinks = getTagAttributes(html, 'link').filter((attributes) => {
+    const rel = (attributes.rel ?? '').toLowerCase().split(/\s+/);
+    return attributes.href && (rel.includes('icon') || rel.includes('apple-touch-icon'));
+  });
+  iconLinks.sort((a, b) => Number(a.rel.toLowerCase().includes('apple')) - Number(b.rel.toLowerCase().includes('apple')));
+  const favicon = iconLinks.length > 0
+    ? resolveHttpUrl(iconLinks[0].href, pageUrl)
+    : resolveHttpUrl('/favicon.ico', pageUrl);
+
+  return { url: pageUrl, title, description, favicon };
+}
+
+/**
+ * Web links in a tab, in order and without duplicates
+ */
+export function getLinkUrls(tab: NotepadTab): string[] {
+  const urls = tab.format === 'markdown'
+    ? Array.from(tab.content.matchAll(/https?:\/\/[^\s<>()[\]"'`]+/gi), (match) => match[0].replace(/[.,;:!?]+$/, ''))
+    : Array.from(tab.content.matchAll(/<a\b[^>]*\bhref="(https?:\/\/[^"]+)"/gi), (match) => decodeEntities(match[1]));
+  return Array.from(new Set(urls)).filter(isPreviewableUrl);
+}
+
+// Previews asked for in this session; failures are forgotten after a while so they're retried
+const previewCache = new Map<string, Promise<LinkPreview | null>>();
+const MAX_CACHED_PREVIEWS = 200;
+const FAILED_PREVIEW_RETRY_MS = 60 * 1000;
+
+/**
+ * Get a page's preview through the link preview route (null if it can't be loaded)
+ */
+export function fetchLinkPreview(url: string): Promise<LinkPreview | null> {
+  const cached = previewCache.get(url);
+  if (cached) return cached;
+
+  const request = fetch(`${LINK_PREVIEW_ROUTE}?url=${encodeURIComponent(url)}`)
+    .then(async (response) => {
+      if (!response.ok) return null;
+      const preview = (await response.json()) as LinkPreview;
+      return preview && typeof preview.url === 'string' ? preview : null;
+    })
+    .catch(() => null)
+    .then((preview) => {
+      if (!preview) {
+        setTimeout(() => {
+          if (previewCache.get(url) === request) previewCache.delete(url);
+        }, FAILED_PREVIEW_RETRY_MS);
+      }
+      return preview;
+    });
+
+  previewCache.set(url, request);
+  if (previewCache.size > MAX_CACHED_PREVIEWS) {
+    previewCache.delete(previewCache.keys().next().value!);
+  }
+  return request;
+}
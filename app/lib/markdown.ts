@@ -0,0 +1,394 @@
+import { NotepadTab } from './notepadData';
+import { Todo } from './todoData';
+
+/**
+ * Markdown and plain-text export/import of notepad tabs and todo lists
+ * Notes are exported as their text: each editor line becomes a line, formatting becomes
+ * Markdown (`**bold**`, lists, code blocks, and headings one level below the tab's), web
+ * links become `[text](url)` and image links keep their `[Image #N]` label. Several tabs go
+ * in one file with a `# Tab name` heading each. Todo lists are `- [ ]` / `- [x]` checklists.
+ * Importing reverses this: each top-level `# Heading` in a note file starts a new tab
+ */
+
+export interface ImportedTab {
+  name: string;
+  content: string; // Editor HTML
+}
+
+const HEADING_PATTERN = /^# +(.+?)\s*#*\s*$/;
+const MARKDOWN_LINK_PATTERN = /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+// `[[Tab name]]` links between notepad tabs (see wikiLinks.ts); the name is captured trimmed
+export const WIKI_LINK_PATTERN = /\[\[\s*([^[\]\n]*?[^[\]\s])\s*\]\]/g;
+
+const BLOCK_TAGS = ['DIV', 'P', 'LI', 'H1', 'H2', 'H3', 'UL', 'OL', 'PRE'];
+
+// Emphasis markers for formatting elements in Markdown
+const INLINE_MARKERS: Record<string, string> = { B: '**', STRONG: '**', I: '*', EM: '*', S: '~~', STRIKE: '~~', DEL: '~~', CODE: '`' };
+
+const HEADING_LEVELS: Record<string, number> = { H1: 1, H2: 2, H3: 3 };
+
+interface TextOptions {
+  markdown: boolean; // Emphasis, heading and code block markers
+  headingOffset: number; // Added to heading levels (1 when `#` is the tab name)
+  formatLink: (text: string, href: string) => string;
+}
+
+// Text of editor HTML, one line per editor line
+function htmlToText(html: string, { markdown, headingOffset, formatLink }: TextOptions): string {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  let output = '';
+  const lists: { ordered: boolean; count: number }[] = [];
+  let inCodeBlock = false;
+
+  const startLine = () => {
+    if (output && !output.endsWith('\n')) {
+      output += '\n';
+    }
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      output += (node.textContent ?? '').replace(/\u00a0/g, ' ').replace(/\u200b/g, '');
+      return;
+    }
+    if (!(node instanceof Element)) return;
+    const tag = node.tagName;
+
+    if (tag === 'BR') {
+      output += '\n';
+      return;
+    }
+    if (tag === 'A') {
+      const text = (node.textContent ?? '').replace(/\u00a0/g, ' ');
+      const href = node.getAttribute('href') ?? '';
+      output += node.classList.contains('notepad-image-link') || !/^https?:\/\//.test(href) || inCodeBlock
+        ? text
+        : formatLink(text, href);
+      return;
+    }
+    if (tag === 'PRE') {
+      startLine();
+      inCodeBlock = true;
+      if (markdown) output += '```\n';
+      node.childNodes.forEach(walk);
+      if (markdown) output = output.replace(/\n?$/, '\n```');
+      inCodeBlock = false;
+      startLine();
+      return;
+    }
+
+    const marker = markdown && !inCodeBlock ? INLINE_MARKERS[tag] : undefined;
+    if (marker) {
+      output += marker;
+      node.childNodes.forEach(walk);
+      output += marker;
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.includes(tag);
+    if (isBlock) startLine();
+
+    if (tag === 'UL' || tag === 'OL') {
+      lists.push({ ordered: tag === 'OL', count: 0 });
+      node.childNodes.forEach(walk);
+      lists.pop();
+      startLine();
+      return;
+    }
+    if (tag === 'LI' && lists.length > 0) {
+      const list = lists[lists.length - 1];
+      list.count++;
+      output += '  '.repeat(lists.length - 1) + (list.ordered ? `${list.count}. ` : '- ');
+    } else if (markdown && HEADING_LEVELS[tag]) {
+      output += '#'.repeat(HEADING_LEVELS[tag] + headingOffset) + ' ';
+    }
+
+    node.childNodes.forEach(walk);
+    if (isBlock) startLine();
+  };
+  template.content.childNodes.forEach(walk);
+
+  return output.replace(/\s+$/, '');
+}
+
+/**
+ * Markdown for a notepad tab's editor HTML
+ * Headings are one level deeper than in the editor (`#` is the tab name) unless `headingOffset` is 0
+ */
+export function notepadHtmlToMarkdown(html: string, headingOffset = 1): string {
+  return htmlToText(html, {
+    markdown: true,
+    headingOffset,
+    formatLink: (text, href) => `[${text.replace(/^\[(.*)\]$/, '$1')}](${href})`,
+  });
+}
+
+/**
+ * Plain text for a notepad tab's editor HTML (web links as `text (url)`)
+ */
+export function notepadHtmlToPlainText(html: string): string {
+  return htmlToText(html, { markdown: false, headingOffset: 0, formatLink: (text, href) => `${text} (${href})` });
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface HtmlOptions {
+  headingOffset: number; // Subtracted from Markdown heading levels (1 when `#` is the tab name)
+  preview: boolean; // Rendered for reading: task checkboxes, links without brackets, headings up to h6
+}
+
+const createLinkHtml = (text: string, href: string, preview: boolean) =>
+  preview
+    ? `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer" class="notepad-url-link">${escapeHtml(text)}</a>`
+    : `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer" class="notepad-url-link" style="text-decoration: underline; cursor: pointer;">[${escapeHtml(text)}]</a>`;
+
+const emphasisToHtml = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*(?=\S)(.+?)\*\*/g, '<b>$1</b>')
+    .replace(/~~(?=\S)(.+?)~~/g, '<s>$1</s>')
+    .replace(/(^|[^*\w])\*(?=[^\s*])([^*]+?)\*(?![*\w])/g, '$1<i>$2</i>')
+    .replace(/(^|[^\w])_(?=\S)([^_]+?)_(?!\w)/g, '$1<i>$2</i>');
+
+// Emphasis, and in previews `[[Tab name]]` links (opened by the notepad from `data-wiki-link`)
+function textToHtml(text: string, preview: boolean): string {
+  if (!preview) return emphasisToHtml(text);
+  let html = '';
+  let last = 0;
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    const name = escapeHtml(match[1]);
+    html += `${emphasisToHtml(text.slice(last, match.index))}<a class="notepad-wiki-link" data-wiki-link="${name}">${name}</a>`;
+    last = match.index + match[0].length;
+  }
+  return html + emphasisToHtml(text.slice(last));
+}
+
+// HTML for the inline Markdown of one line (code spans, links and emphasis)
+function inlineMarkdownToHtml(text: string, preview: boolean): string {
+  return text
+    .split(/(`[^`]+`)/)
+    .map((part, index) => {
+      if (index % 2 === 1) {
+        return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+      }
+      let html = '';
+      let last = 0;
+      for (const match of part.matchAll(MARKDOWN_LINK_PATTERN)) {
+        html += textToHtml(part.slice(last, match.index), preview) + createLinkHtml(match[1], match[2], preview);
+        last = match.index + match[0].length;
+      }
+      return html + textToHtml(part.slice(last), preview);
+    })
+    .join('');
+}
+
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+
+// HTML for Markdown text, one block per line; all text is escaped
+function markdownToHtml(markdown: string, { headingOffset, preview }: HtmlOptions): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let html = '';
+  const openLists: { tag: 'ul' | 'ol'; indent: number }[] = [];
+
+  const closeLists = (indent: number) => {
+    while (openLists.length > 0 && openLists[openLists.length - 1].indent >= indent) {
+      html += `</${openLists.pop()!.tag}>`;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const listItem = line.match(LIST_ITEM_PATTERN);
+    if (listItem) {
+      const indent = listItem[1].length;
+      const tag = /\d/.test(listItem[2]) ? 'ol' : 'ul';
+      closeLists(indent + 1);
+      const current = openLists[openLists.length - 1];
+      if (current && current.indent === indent && current.tag !== tag) {
+        closeLists(indent);
+      }
+      if (openLists.length === 0 || openLists[openLists.length - 1].indent < indent) {
+        openLists.push({ tag, indent });
+        html += `<${tag}>`;
+      }
+      const task = preview ? listItem[3].match(TASK_PATTERN) : null;
+      if (task) {
+        const checked = task[1] === ' ' ? '' : ' checked';
+        html += `<li class="task-item"><input type="checkbox" data-line="${i}"${checked}> ${inlineMarkdownToHtml(task[2], preview)}</li>`;
+      } else {
+        html += `<li>${inlineMarkdownToHtml(listItem[3], preview) || '<br>'}</li>`;
+      }
+      continue;
+    }
+    closeLists(0);
+
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      while (i + 1 < lines.length && !lines[i + 1].startsWith('```')) {
+        code.push(lines[++i]);
+      }
+      i++; // Closing fence
+      html += `<pre>${escapeHtml(code.join('\n')) || '<br>'}</pre>`;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6}) +(.*?)\s*#*\s*$/);
+    if (heading) {
+      const level = Math.min(preview ? 6 : 3, Math.max(1, heading[1].length - headingOffset));
+      html += `<h${level}>${inlineMarkdownToHtml(heading[2], preview) || '<br>'}</h${level}>`;
+      continue;
+    }
+
+    html += line ? `<div>${inlineMarkdownToHtml(line, preview)}</div>` : '<div><br></div>';
+  }
+  closeLists(0);
+  return html;
+}
+
+/**
+ * Editor HTML for Markdown text
+ * Each line becomes an editor line; headings (`##` to `####`, one level deeper than the
+ * tab's `#`, unless `headingOffset` is 0), lists, code blocks, emphasis and `[text](url)`
+ * web links become formatting
+ */
+export function markdownToNotepadHtml(markdown: string, headingOffset = 1): string {
+  return markdownToHtml(markdown, { headingOffset, preview: false });
+}
+
+/**
+ * Preview HTML for a Markdown tab: headings, lists, `- [ ]` task checkboxes (with the
+ * source line in `data-line`), code, emphasis, web links and `[[Tab name]]` links (with
+ * the name in `data-wiki-link`). All text is escaped
+ */
+export function renderMarkdown(markdown: string): string {
+  return markdownToHtml(markdown, { headingOffset: 0, preview: true });
+}
+
+/**
+ * Markdown with the task item on a line checked or unchecked
+ */
+export function toggleMarkdownTask(markdown: string, lineIndex: number): string {
+  const lines = markdown.split('\n');
+  const line = lines[lineIndex];
+  if (line === undefined) return markdown;
+  lines[lineIndex] = line.replace(
+    /^(\s*(?:[-*+]|\d+[.)])\s+)\[([ xX])\]/,
+    (_, prefix: string, mark: string) => `${prefix}[${mark === ' ' ? 'x' : ' '}]`
+  );
+  return lines.join('\n');
+}
+
+// Headings one level deeper, so a Markdown tab fits under its `# Tab name` heading
+function nestMarkdownHeadings(markdown: string): string {
+  let inCodeBlock = false;
+  return markdown
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('```')) inCodeBlock = !inCodeBlock;
+      return !inCodeBlock && /^#{1,5} /.test(line) ? `#${line}` : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Markdown for a tab: the source of a Markdown tab, or its converted editor HTML
+ */
+export function getTabMarkdown(tab: NotepadTab): string {
+  return tab.format === 'markdown' ? tab.content.replace(/\s+$/, '') : notepadHtmlToMarkdown(tab.content);
+}
+
+/**
+ * Plain text for a tab (a Markdown tab's source as is)
+ */
+export function getTabPlainText(tab: NotepadTab): string {
+  return tab.format === 'markdown' ? tab.content.replace(/\s+$/, '') : notepadHtmlToPlainText(tab.content);
+}
+
+/**
+ * Markdown for notepad tabs, with a `# Tab name` heading per tab
+ */
+export function notepadTabsToMarkdown(tabs: NotepadTab[]): string {
+  return tabs
+    .map((tab) => {
+      const body = tab.format === 'markdown' ? nestMarkdownHeadings(getTabMarkdown(tab)) : notepadHtmlToMarkdown(tab.content);
+      return body ? `# ${tab.name}\n\n${body}\n` : `# ${tab.name}\n`;
+    })
+    .join('\n');
+}
+
+/**
+ * Notepad tabs for a Markdown file: one per top-level heading
+ * Text before the first heading (or a file without headings) becomes a tab named `fallbackName`
+ */
+export function markdownToNotepadTabs(markdown: string, fallbackName: string): ImportedTab[] {
+  const sections: { name: string; lines: string[] }[] = [];
+  let current: { name: string; lines: string[] } | null = null;
+  let inCodeBlock = false;
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    if (line.startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+    const heading = inCodeBlock ? null : line.match(HEADING_PATTERN);
+    if (heading) {
+      current = { name: heading[1], lines: [] };
+      sections.push(current);
+    } else {
+      if (!current) {
+        current = { name: fallbackName, lines: [] };
+        sections.push(current);
+      }
+      current.lines.push(line);
+    }
+  }
+
+  return sections
+    .map(({ name, lines }) => ({ name, text: lines.join('\n').replace(/^\s*\n/, '').replace(/\s+$/, '') }))
+    .filter(({ name, text }) => text || name !== fallbackName)
+    .map(({ name, text }) => ({ name, content: text ? markdownToNotepadHtml(text) : '' }));
+}
+
+/**
+ * Markdown checklist for a todo list
+ */
+export function todosToMarkdown(todos: Todo[], title: string): string {
+  const items = todos.map((todo) => `- [${todo.completed ? 'x' : ' '}] ${todo.text}`);
+  return [`# ${title}`, '', ...items, ''].join('\n');
+}
+
+/**
+ * Plain-text checklist for a todo list
+ */
+export function todosToPlainText(todos: Todo[]): string {
+  return todos.map((todo) => `[${todo.completed ? 'x' : ' '}] ${todo.text}`).join('\n') + '\n';
+}
+
+/**
+ * Todos for the list items in a Markdown (or plain-text) file
+ * `- [x]` items are completed; other bullet, numbered and `[ ]` items are not
+ */
+export function markdownToTodos(markdown: string): Todo[] {
+  const baseId = Date.now();
+  const todos: Todo[] = [];
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const match = line.match(/^\s*(?:[-*+]|\d+[.)])?\s*\[([ xX])\]\s+(.*)$/) ?? line.match(/^\s*(?:[-*+]|\d+[.)])\s+()(.*)$/);
+    const text = match?.[2].trim();
+    if (match && text) {
+      todos.push({ id: `${baseId}-${todos.length}`, text, completed: match[1] === 'x' || match[1] === 'X' });
+    }
+  }
+  return todos;
+}
+
+/**
+ * File name for an exported note or list (characters file systems reject are replaced)
+ */
+export function getExportFileName(name: string, extension: string): string {
+  const safeName = name.replace(/[\\/:*?"<>|\r\n\t]/g, '-').trim() || 'untitled';
+  return `${safeName}.${extension}`;
+}
@@ -0,0 +1,183 @@
+import { StorageSchema } from './storage';
+
+/**
+ * Notepad tabs, saved per notepad widget instance
+ * Pinned tabs come first; the tabs of a group follow each other, so the saved order is the
+ * order of the tab bar (see orderTabs)
+ */
+export type NotepadTabFormat = 'rich' | 'markdown';
+export type MarkdownView = 'source' | 'split' | 'preview';
+
+export interface NotepadTab {
+  id: string;
+  name: string;
+  content: string; // Editor HTML, or the Markdown source of a Markdown tab
+  format?: NotepadTabFormat; // Rich text when missing
+  markdownView?: MarkdownView; // How a Markdown tab is shown (split when missing)
+  pinned?: boolean; // Pinned tabs get the Ctrl+1-9 shortcuts and aren't grouped
+  groupId?: string; // NotepadTabGroup the tab is in
+}
+
+export interface NotepadTabGroup {
+  id: string;
+  name: string;
+  collapsed?: boolean; // Only the group's active tab is shown in the tab bar
+}
+
+export const MARKDOWN_VIEWS: MarkdownView[] = ['source', 'split', 'preview'];
+
+// Tabs reachable with Ctrl+1-9
+export const MAX_NUMBERED_TABS = 9;
+
+export interface NotepadData {
+  tabs: NotepadTab[];
+  activeTabId: string;
+  groups?: NotepadTabGroup[]; // Only groups that have tabs
+}
+
+/**
+ * Notepad data for a new notepad: one empty tab
+ */
+export function createDefaultNotepadData(content = ''): NotepadData {
+  const tab: NotepadTab = { id: Date.now().toString(), name: 'Notepad 1', content };
+  return { tabs: [tab], activeTabId: tab.id };
+}
+
+/**
+ * Tabs in tab bar order: pinned tabs first, then the rest with the tabs of each group
+ * gathered where the group's first tab is
+ */
+export function orderTabs(tabs: NotepadTab[]): NotepadTab[] {
+  const ordered = tabs.filter(tab => tab.pinned);
+  const placedGroups = new Set<string>();
+  for (const tab of tabs) {
+    if (tab.pinned) continue;
+    if (!tab.groupId) {
+      ordered.push(tab);
+    } else if (!placedGroups.has(tab.groupId)) {
+      placedGroups.add(tab.groupId);
+      ordered.push(...tabs.filter(t => !t.pinned && t.groupId === tab.groupId));
+    }
+  }
+  return ordered.every((tab, index) => tab === tabs[index]) ? tabs : ordered;
+}
+
+/**
+ * Move a tab to where another tab is; it joins that tab's group (or the pinned tabs)
+ */
+export function moveTab(tabs: NotepadTab[], tabId: string, targetId: string): NotepadTab[] {
+  const index = tabs.findIndex(tab => tab.id === tabId);
+  const targetIndex = tabs.findIndex(tab => tab.id === targetId);
+  if (index === -1 || targetIndex === -1 || index === targetIndex) {
+    return tabs;
+  }
+
+  const { pinned: _pinned, groupId: _groupId, ...moved } = tabs[index];
+  const target = tabs[targetIndex];
+  const newTabs = [...tabs];
+  newTabs.splice(index, 1);
+  newTabs.splice(targetIndex, 0, {
+    ...moved,
+    ...(target.pinned ? { pinned: true } : {}),
+    ...(target.groupId ? { groupId: target.groupId } : {}),
+  });
+  return orderTabs(newTabs);
+}
+
+/**
+ * Tabs switched to with Ctrl+1-9: the first nine pinned tabs, or the first nine tabs
+ * of a notepad without pinned tabs
+ */
+export function getNumberedTabs(tabs: NotepadTab[]): NotepadTab[] {
+  const pinned = tabs.filter(tab => tab.pinned);
+  return (pinned.length > 0 ? pinned : tabs).slice(0, MAX_NUMBERED_TABS);
+}
+
+/**
+ * Groups that still have tabs (the same array if none were dropped)
+ */
+export function pruneGroups(groups: NotepadTabGroup[], tabs: NotepadTab[]): NotepadTabGroup[] {
+  const usedIds = new Set(tabs.map(tab => tab.groupId));
+  return groups.every(group => usedIds.has(group.id)) ? groups : groups.filter(group => usedIds.has(group.id));
+}
+
+/**
+ * Validate saved notepad data, dropping malformed tabs (null if no tabs are left)
+ */
+export function normalizeNotepadData(value: unknown): NotepadData | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { tabs, activeTabId, groups } = value as Record<string, unknown>;
+  if (!Array.isArray(tabs)) {
+    return null;
+  }
+
+  const validGroups: NotepadTabGroup[] = [];
+  for (const group of Array.isArray(groups) ? groups : []) {
+    if (!group || typeof group !== 'object') continue;
+    const { id, name, collapsed } = group as Record<string, unknown>;
+    if (typeof id !== 'string' || validGroups.some(g => g.id === id)) continue;
+    const validGroup: NotepadTabGroup = { id, name: typeof name === 'string' ? name : 'Group' };
+    if (collapsed === true) {
+      validGroup.collapsed = true;
+    }
+    validGroups.push(validGroup);
+  }
+
+  const seen = new Set<string>();
+  const validTabs: NotepadTab[] = [];
+  for (const tab of tabs) {
+    if (!tab || typeof tab !== 'object') continue;
+    const { id, name, content, format, markdownView, pinned, groupId } = tab as Record<string, unknown>;
+    if (typeof id !== 'string' || seen.has(id)) continue;
+    seen.add(id);
+    const validTab: NotepadTab = {
+      id,
+      name: typeof name === 'string' ? name : `Notepad ${validTabs.length + 1}`,
+      content: typeof content === 'string' ? content : '',
+    };
+    if (format === 'markdown') {
+      validTab.format = format;
+      if (MARKDOWN_VIEWS.includes(markdownView as MarkdownView)) {
+        validTab.markdownView = markdownView as MarkdownView;
+      }
+    }
+    if (pinned === true) {
+      validTab.pinned = true;
+    } else if (validGroups.some(group => group.id === groupId)) {
+      validTab.groupId = groupId as string;
+    }
+    validTabs.push(validTab);
+  }
+
+  if (validTabs.length === 0) {
+    return null;
+  }
+  const data: NotepadData = {
+    tabs: orderTabs(validTabs),
+    activeTabId:
+      typeof activeTabId === 'string' && seen.has(activeTabId) ? activeTabId : validTabs[0].id,
+  };
+  const usedGroups = pruneGroups(validGroups, validTabs);
+  if (usedGroups.length > 0) {
+    data.groups = usedGroups;
+  }
+  return data;
+}
+
+// Saved notepad format (see storage.ts)
+export const notepadSchema: StorageSchema<NotepadData> = {
+  name: 'notepad',
+  version: 1,
+  migrations: {
+    // Before tabs the notepad saved its content as plain text, which may happen to be JSON
+    // (e.g. `true` or `[1,2]`): anything that isn't a notepad becomes the first tab's text
+    0: (data) => {
+      if (normalizeNotepadData(data) !== null) return data;
+      return createDefaultNotepadData(typeof data === 'string' ? data : JSON.stringify(data));
+    },
+  },
+  parse: normalizeNotepadData,
+};
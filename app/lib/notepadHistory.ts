@@ -0,0 +1,223 @@
+import { StorageSchema, decodeStoredValue, updateStoredValueAsync } from './storage';
+import { getStorageAdapter } from './storageAdapter';
+import { getUnscopedKey } from './workspaces';
+import { NotepadTabFormat } from './notepadData';
+import { getImageIds, registerImageReferences } from './notepadImages';
+
+/**
+ * Notepad version history - earlier contents of each notepad tab
+ * NotepadWidget records a revision once a tab has been left alone for REVISION_IDLE_MS after
+ * a change, so a burst of typing becomes one revision, and first records the content from
+ * before the burst if the history doesn't end with it. Each tab keeps its newest MAX_REVISIONS.
+ * The history is saved per notepad instance under HISTORY_STORAGE_KEY, next to its tabs
+ */
+
+export interface NotepadRevision {
+  id: string;
+  savedAt: number; // Unix time in ms
+  content: string; // As in NotepadTab
+  format?: NotepadTabFormat; // Rich text when missing
+}
+
+// Tab ID -> revisions, oldest first
+export type NotepadHistory = Record<string, NotepadRevision[]>;
+
+export const HISTORY_STORAGE_KEY = 'hyperdash-notepad-history';
+export const MAX_REVISIONS = 50; // Per tab
+export const REVISION_IDLE_MS = 5000;
+
+let revisionCount = 0;
+
+/**
+ * Validate a saved history, dropping malformed revisions
+ */
+export function normalizeNotepadHistory(value: unknown): NotepadHistory | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const history: NotepadHistory = {};
+  for (const [tabId, revisions] of Object.entries(value as Record<string, unknown>)) {
+    if (!Array.isArray(revisions)) continue;
+    const valid: NotepadRevision[] = [];
+    for (const revision of revisions) {
+      if (!revision || typeof revision !== 'object') continue;
+      const { id, savedAt, content, format } = revision as Record<string, unknown>;
+      if (typeof id !== 'string' || typeof savedAt !== 'number' || typeof content !== 'string') continue;
+      valid.push(format === 'markdown' ? { id, savedAt, content, format } : { id, savedAt, content });
+    }
+    if (valid.length > 0) {
+      history[tabId] = valid.slice(-MAX_REVISIONS);
+    }
+  }
+  return history;
+}
+
+// Saved history format (see storage.ts)
+export const notepadHistorySchema: StorageSchema<NotepadHistory> = {
+  name: 'notepad history',
+  version: 1,
+  migrations: {},
+  parse: normalizeNotepadHistory,
+};
+
+/**
+ * Add a revision to a tab's history, keeping the newest MAX_REVISIONS
+ * Nothing is added when the content and format match the tab's latest revision
+ */
+export function addRevision(
+  history: NotepadHistory,
+  tabId: string,
+  content: string,
+  format?: NotepadTabFormat,
+  savedAt: number = Date.now()
+): NotepadHistory {
+  const revisions = history[tabId] ?? [];
+  const latest = revisions[revisions.length - 1];
+  if (latest && latest.content === content && latest.format === format) {
+    return history;
+  }
+
+  const revision: NotepadRevision = {
+    id: `${savedAt.toString(36)}-${(revisionCount++).toString(36)}`,
+    savedAt,
+    content,
+  };
+  if (format === 'markdown') {
+    revision.format = format;
+  }
+  return { ...history, [tabId]: [...revisions, revision].slice(-MAX_REVISIONS) };
+}
+
+/**
+ * Drop the history of tabs that no longer exist
+ */
+export function pruneHistory(history: NotepadHistory, tabIds: Set<string>): NotepadHistory {
+  if (Object.keys(history).every((tabId) => tabIds.has(tabId))) return history;
+  return Object.fromEntries(Object.entries(history).filter(([tabId]) => tabIds.has(tabId)));
+}
+
+/**
+ * Read, change and save the history stored under a key
+ */
+export function updateNotepadHistory(
+  key: string,
+  update: (history: NotepadHistory) => NotepadHistory
+): Promise<NotepadHistory> {
+  return updateStoredValueAsync(key, notepadHistorySchema, (history) => {
+    const current = history ?? {};
+    const updated = update(current);
+    return updated === current ? history : updated;
+  }).then((history) => history ?? {});
+}
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Longest common subsequence tables beyond this many cells aren't worth it; the
+// changed part is then shown as removed and re-added
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line-by-line diff of two texts
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const oldLines = before ? before.split('\n') : [];
+  const newLines = after ? after.split('\n') : [];
+
+  // Lines shared at the start and end don't need the table
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const same = (text: string): DiffLine => ({ type: 'same', text });
+  const result: DiffLine[] = oldLines.slice(0, start).map(same);
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+  const rows = oldMiddle.length;
+  const columns = newMiddle.length;
+
+  if (rows * columns > MAX_DIFF_CELLS) {
+    result.push(...oldMiddle.map((text): DiffLine => ({ type: 'removed', text })));
+    result.push(...newMiddle.map((text): DiffLine => ({ type: 'added', text })));
+  } else {
+    // lengths[i][j]: longest common subsequence of oldMiddle[i..] and newMiddle[j..]
+    const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(columns + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i][j] =
+          oldMiddle[i] === newMiddle[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < columns) {
+      if (i < rows && j < columns && oldMiddle[i] === newMiddle[j]) {
+        result.push(same(oldMiddle[i]));
+        i++;
+        j++;
+      } else if (i < rows && (j === columns || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        result.push({ type: 'removed', text: oldMiddle[i++] });
+      } else {
+        result.push({ type: 'added', text: newMiddle[j++] });
+      }
+    }
+  }
+
+  result.push(...oldLines.slice(oldEnd).map(same));
+  return result;
+}
+
+export type FoldedDiffLine = DiffLine | { type: 'fold'; count: number };
+
+/**
+ * Hide unchanged lines further than `context` lines from a change
+ */
+export function foldUnchangedLines(lines: DiffLine[], context = 3): FoldedDiffLine[] {
+  const isNearChange = (index: number) =>
+    lines
+      .slice(Math.max(0, index - context), index + context + 1)
+      .some((line) => line.type !== 'same');
+
+  const folded: FoldedDiffLine[] = [];
+  lines.forEach((line, index) => {
+    if (line.type !== 'same' || isNearChange(index)) {
+      folded.push(line);
+      return;
+    }
+    const last = folded[folded.length - 1];
+    if (last?.type === 'fold') {
+      last.count++;
+    } else {
+      folded.push({ type: 'fold', count: 1 });
+    }
+  });
+  return folded;
+}
+
+// Images linked from earlier versions of a tab stay until the history forgets them
+registerImageReferences(async () => {
+  const adapter = await getStorageAdapter();
+  const ids: string[] = [];
+  for (const key of await adapter.keys()) {
+    if (getUnscopedKey(key).split(':')[0] !== HISTORY_STORAGE_KEY) continue;
+    const raw = await adapter.get(key);
+    const history = raw === null ? null : decodeStoredValue(notepadHistorySchema, raw).value;
+    for (const revisions of Object.values(history ?? {})) {
+      revisions.forEach((revision) => ids.push(...getImageIds(revision.content)));
+    }
+  }
+  return ids;
+});
@@ -0,0 +1,270 @@
+/**
+ * Notepad rich text - the HTML a notepad tab may contain, and editor formatting helpers
+ * Tab content is sanitized whenever it is read from or written to the editor: only the
+ * formatting elements below and the notepad's own image and web links are kept. Other
+ * elements are unwrapped (their text stays), scripts and embedded content are dropped,
+ * and links only keep their address (http(s) web links) or image ID
+ */
+
+export type NotepadFormat =
+  | 'bold'
+  | 'italic'
+  | 'strikethrough'
+  | 'heading1'
+  | 'heading2'
+  | 'heading3'
+  | 'bulletList'
+  | 'numberedList'
+  | 'inlineCode'
+  | 'codeBlock';
+
+export interface NotepadFormatDefinition {
+  format: NotepadFormat;
+  label: string; // Toolbar button text
+  title: string; // Toolbar tooltip
+  shortcut: string; // As shown to the user
+}
+
+export const NOTEPAD_FORMATS: NotepadFormatDefinition[] = [
+  { format: 'bold', label: 'B', title: 'Bold', shortcut: 'Ctrl+B' },
+  { format: 'italic', label: 'I', title: 'Italic', shortcut: 'Ctrl+I' },
+  { format: 'strikethrough', label: 'S', title: 'Strikethrough', shortcut: 'Ctrl+Shift+X' },
+  { format: 'heading1', label: 'H1', title: 'Heading 1', shortcut: 'Ctrl+Alt+1' },
+  { format: 'heading2', label: 'H2', title: 'Heading 2', shortcut: 'Ctrl+Alt+2' },
+  { format: 'heading3', label: 'H3', title: 'Heading 3', shortcut: 'Ctrl+Alt+3' },
+  { format: 'bulletList', label: '•', title: 'Bulleted list', shortcut: 'Ctrl+Shift+8' },
+  { format: 'numberedList', label: '1.', title: 'Numbered list', shortcut: 'Ctrl+Shift+7' },
+  { format: 'inlineCode', label: '<>', title: 'Inline code', shortcut: 'Ctrl+E' },
+  { format: 'codeBlock', label: '{}', title: 'Code block', shortcut: 'Ctrl+Alt+C' },
+];
+
+// Tags kept as they are; the values are the tag they are saved as
+const ALLOWED_TAGS: Record<string, string> = {
+  DIV: 'div',
+  P: 'div',
+  BR: 'br',
+  B: 'b',
+  STRONG: 'b',
+  I: 'i',
+  EM: 'i',
+  S: 's',
+  STRIKE: 's',
+  DEL: 's',
+  H1: 'h1',
+  H2: 'h2',
+  H3: 'h3',
+  UL: 'ul',
+  OL: 'ol',
+  LI: 'li',
+  CODE: 'code',
+  PRE: 'pre',
+};
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'IFRAME', 'FRAME', 'OBJECT', 'EMBED', 'APPLET',
+  'SVG', 'MATH', 'IMG', 'PICTURE', 'VIDEO', 'AUDIO', 'CANVAS', 'LINK', 'META', 'BASE', 'HEAD',
+  'TITLE', 'FORM', 'INPUT', 'TEXTAREA', 'SELECT', 'BUTTON',
+]);
+
+const INLINE_FORMAT_TAGS = new Set(['b', 'i', 's', 'code']);
+const LINK_STYLE = 'text-decoration: underline; cursor: pointer;';
+
+// Zero-width space that keeps the caret inside an empty inline code element
+const CARET_PLACEHOLDER = '\u200b';
+
+function createLink(source: Element, children: Node[]): Node[] {
+  const href = source.getAttribute('href') ?? '';
+  const imageId = source.getAttribute('data-image-id');
+  const link = document.createElement('a');
+
+  if (source.classList.contains('notepad-image-link') && imageId && /^[\w-]+$/.test(imageId)) {
+    // The blob URL is only valid for this session; hydrateImageLinks replaces it on load
+    if (href.startsWith('blob:')) {
+      link.setAttribute('href', href);
+    }
+    link.setAttribute('data-image-id', imageId);
+    link.className = 'notepad-image-link';
+  } else if (/^https?:\/\//i.test(href)) {
+    link.setAttribute('href', href);
+    link.className = 'notepad-url-link';
+  } else {
+    return children;
+  }
+
+  link.setAttribute('target', '_blank');
+  link.setAttribute('rel', 'noopener noreferrer');
+  link.setAttribute('style', LINK_STYLE);
+  children.forEach((child) => link.appendChild(child));
+  return [link];
+}
+
+function sanitizeNode(node: Node): Node[] {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent ?? '').split(CARET_PLACEHOLDER).join('');
+    return text ? [document.createTextNode(text)] : [];
+  }
+  if (!(node instanceof Element) || DROPPED_TAGS.has(node.tagName)) {
+    return [];
+  }
+
+  const children = Array.from(node.childNodes).flatMap(sanitizeNode);
+  if (node.tagName === 'A') {
+    return createLink(node, children);
+  }
+
+  const tag = ALLOWED_TAGS[node.tagName];
+  if (!tag) return children;
+  if (INLINE_FORMAT_TAGS.has(tag) && children.length === 0) return [];
+
+  const element = document.createElement(tag);
+  children.forEach((child) => element.appendChild(child));
+  return [element];
+}
+
+/**
+ * Safe notepad HTML: formatting, line breaks and notepad links only
+ */
+export function sanitizeNotepadHtml(html: string): string {
+  if (!html) return '';
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  const container = document.createElement('div');
+  Array.from(template.content.childNodes)
+    .flatMap(sanitizeNode)
+    .forEach((node) => container.appendChild(node));
+  return container.innerHTML;
+}
+
+const BLOCK_TAGS = new Set(['DIV', 'P', 'H1', 'H2', 'H3', 'PRE', 'LI']);
+
+// Closest element with one of the tags, from `node` up to (not including) `root`
+function closestWithin(node: Node | null, root: HTMLElement, tags: Set<string>): HTMLElement | null {
+  let current: Node | null = node;
+  while (current && current !== root) {
+    if (current instanceof HTMLElement && tags.has(current.tagName)) {
+      return current;
+    }
+    current = current.parentNode;
+  }
+  return null;
+}
+
+function getEditorRange(root: HTMLElement): Range | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  return root.contains(range.commonAncestorContainer) ? range : null;
+}
+
+function selectRange(range: Range) {
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+}
+
+/**
+ * Tag of the heading or code block the caret is in ('H1', 'H2', 'H3', 'PRE'), or null
+ */
+export function getCurrentBlockTag(root: HTMLElement): string | null {
+  const range = getEditorRange(root);
+  if (!range) return null;
+  const block = closestWithin(range.startContainer, root, new Set(['H1', 'H2', 'H3', 'PRE']));
+  return block ? block.tagName : null;
+}
+
+/**
+ * Wrap the selection in inline code, or unwrap the inline code the caret is in
+ * With nothing selected, an empty code element is started at the caret.
+ * Returns false when there is nothing to do (e.g. the selection spans several lines)
+ */
+export function toggleInlineCode(root: HTMLElement): boolean {
+  const range = getEditorRange(root);
+  if (!range) return false;
+
+  const codeTags = new Set(['CODE']);
+  const code = closestWithin(range.startContainer, root, codeTags);
+  if (code && code.parentElement?.tagName !== 'PRE') {
+    const parent = code.parentNode!;
+    const first = code.firstChild;
+    const last = code.lastChild;
+    while (code.firstChild) {
+      parent.insertBefore(code.firstChild, code);
+    }
+    parent.removeChild(code);
+
+    const newRange = document.createRange();
+    if (first && last) {
+      newRange.setStartBefore(first);
+      newRange.setEndAfter(last);
+    } else {
+      newRange.setStart(parent, 0);
+    }
+    selectRange(newRange);
+    return true;
+  }
+
+  const startBlock = closestWithin(range.startContainer, root, BLOCK_TAGS);
+  const endBlock = closestWithin(range.endContainer, root, BLOCK_TAGS);
+  if (startBlock !== endBlock || startBlock?.tagName === 'PRE') {
+    return false;
+  }
+
+  const element = document.createElement('code');
+  const isCollapsed = range.collapsed;
+  if (isCollapsed) {
+    element.textContent = CARET_PLACEHOLDER;
+  } else {
+    element.appendChild(range.extractContents());
+  }
+  range.insertNode(element);
+
+  const newRange = document.createRange();
+  if (isCollapsed) {
+    newRange.setStart(element.firstChild!, 1);
+    newRange.collapse(true);
+  } else {
+    newRange.selectNodeContents(element);
+  }
+  selectRange(newRange);
+  return true;
+}
+
+interface ShortcutEvent {
+  key: string;
+  code: string;
+  ctrlKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
+}
+
+/**
+ * Formatting applied by a Ctrl shortcut in the editor, or null
+ */
+export function getShortcutFormat(e: ShortcutEvent): NotepadFormat | null {
+  if (!e.ctrlKey || e.metaKey) return null;
+  const key = e.key.toLowerCase();
+
+  if (e.altKey && !e.shiftKey) {
+    if (e.code === 'Digit1') return 'heading1';
+    if (e.code === 'Digit2') return 'heading2';
+    if (e.code === 'Digit3') return 'heading3';
+    if (e.code === 'KeyC' || key === 'c') return 'codeBlock';
+    return null;
+  }
+  if (e.altKey) return null;
+
+  if (e.shiftKey) {
+    if (e.code === 'KeyX' || key === 'x') return 'strikethrough';
+    if (e.code === 'Digit8') return 'bulletList';
+    if (e.code === 'Digit7') return 'numberedList';
+    return null;
+  }
+
+  if (key === 'b') return 'bold';
+  if (key === 'i') return 'italic';
+  if (key === 'e') return 'inlineCode';
+  return null;
+}
@@ -0,0 +1,159 @@
+import { IMAGE_STORE_NAME, getDatabase, requestToPromise } from './storageAdapter';
+import { isSafeMode } from './utils';
+
+/**
+ * Images pasted or uploaded into the notepad
+ * The blobs are kept in IndexedDB; the note itself only holds an `[Image #N]` link with a
+ * `data-image-id`, which is pointed at a fresh object URL whenever the tab is loaded.
+ * Without IndexedDB (or in safe mode) images only last for the session
+ */
+
+interface StoredImage {
+  owner: string; // Storage key of the notepad the image was added to
+  blob: Blob;
+}
+
+// Image ID -> object URL created this session
+const objectUrls = new Map<string, string>();
+
+// Lists the image IDs linked from notepad content kept elsewhere (e.g. snapshots)
+export type ImageReferenceSource = () => Promise<Iterable<string>>;
+
+const referenceSources = new Set<ImageReferenceSource>();
+
+/**
+ * Keep the images a source still links to from being deleted
+ * Returns a function that unregisters it
+ */
+export function registerImageReferences(source: ImageReferenceSource): () => void {
+  referenceSources.add(source);
+  return () => {
+    referenceSources.delete(source);
+  };
+}
+
+async function getReferencedImageIds(): Promise<Set<string>> {
+  const ids = new Set<string>();
+  for (const source of referenceSources) {
+    for (const id of await source()) {
+      ids.add(id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Create a unique image ID
+ */
+export function createImageId(): string {
+  return `img-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Get the IDs of the images linked from notepad HTML
+ */
+export function getImageIds(html: string): string[] {
+  return Array.from(html.matchAll(/data-image-id="([^"]+)"/g), (match) => match[1]);
+}
+
+async function getImageStore(mode: IDBTransactionMode): Promise<IDBObjectStore | null> {
+  const db = await getDatabase();
+  return db ? db.transaction(IMAGE_STORE_NAME, mode).objectStore(IMAGE_STORE_NAME) : null;
+}
+
+/**
+ * Add an image: returns its ID and an object URL to link to right away
+ * The blob is saved in the background
+ */
+export function addImage(owner: string, blob: Blob): { id: string; url: string } {
+  const id = createImageId();
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(id, url);
+
+  if (!isSafeMode()) {
+    const image: StoredImage = { owner, blob };
+    getImageStore('readwrite')
+      .then((store) => store && requestToPromise(store.put(image, id)))
+      .catch((error) => console.error('Error saving image:', error));
+  }
+  return { id, url };
+}
+
+/**
+ * Get an object URL for a saved image (null if it isn't saved)
+ */
+export async function getImageUrl(id: string): Promise<string | null> {
+  const cached = objectUrls.get(id);
+  if (cached) return cached;
+  if (isSafeMode()) return null;
+
+  try {
+    const store = await getImageStore('readonly');
+    const image = store ? ((await requestToPromise(store.get(id))) as StoredImage | undefined) : undefined;
+    if (!image) return null;
+
+    const url = URL.createObjectURL(image.blob);
+    objectUrls.set(id, url);
+    return url;
+  } catch (error) {
+    console.error('Error loading image:', error);
+    return null;
+  }
+}
+
+/**
+ * Point the image links inside an element at their saved images
+ * Links whose image is missing are left as they are
+ */
+export async function hydrateImageLinks(root: HTMLElement): Promise<void> {
+  const links = root.querySelectorAll<HTMLAnchorElement>('a.notepad-image-link[data-image-id]');
+  await Promise.all(
+    Array.from(links).map(async (link) => {
+      const url = await getImageUrl(link.dataset.imageId!);
+      if (url) {
+        link.href = url;
+      }
+    })
+  );
+}
+
+/**
+ * Delete saved images matching a filter; returns the number deleted
+ * Images a registered reference source still links to are kept
+ */
+export async function deleteImages(matches: (owner: string, id: string) => boolean): Promise<number> {
+  const referenced = await getReferencedImageIds();
+  const store = await getImageStore('readwrite');
+  if (!store) return 0;
+
+  return new Promise((resolve, reject) => {
+    let deleted = 0;
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const id = String(cursor.key);
+      if (!referenced.has(id) && matches((cursor.value as StoredImage).owner, id)) {
+        cursor.delete();
+        const url = objectUrls.get(id);
+        if (url) {
+          URL.revokeObjectURL(url);
+          objectUrls.delete(id);
+        }
+        deleted++;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+    store.transaction.oncomplete = () => resolve(deleted);
+    store.transaction.onerror = () => reject(store.transaction.error);
+  });
+}
+
+/**
+ * Delete a notepad's saved images that none of its tabs link to anymore
+ */
+export async function deleteUnusedImages(owner: string, usedIds: Set<string>): Promise<number> {
+  if (isSafeMode()) return 0;
+  return deleteImages((imageOwner, id) => imageOwner === owner && !usedIds.has(id));
+}
@@ -0,0 +1,154 @@
+import { StorageSchema, decodeStoredValue, updateStoredValueAsync } from './storage';
+import { getStorageAdapter } from './storageAdapter';
+import { getUnscopedKey } from './workspaces';
+import { NotepadTab, NotepadTabGroup, normalizeNotepadData, orderTabs } from './notepadData';
+import { getImageIds, registerImageReferences } from './notepadImages';
+
+/**
+ * Notepad trash - closed tabs, kept for a while so they can be reopened
+ * Closing a tab moves it here (closing the last tab keeps a copy of its content); entries
+ * older than the notepad's retention setting are dropped when the notepad loads and when
+ * the trash is opened. Saved per notepad instance under TRASH_STORAGE_KEY, newest first
+ */
+
+export interface TrashedTab {
+  tab: NotepadTab;
+  closedAt: number; // Unix time in ms
+  index: number; // Position the tab had in the tab bar
+  group?: NotepadTabGroup; // Group the tab was in, re-created on restore if it's gone
+}
+
+export type NotepadTrash = TrashedTab[];
+
+export const TRASH_STORAGE_KEY = 'hyperdash-notepad-trash';
+export const MAX_TRASHED_TABS = 100;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a saved trash, dropping malformed entries
+ */
+export function normalizeNotepadTrash(value: unknown): NotepadTrash | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const trash: NotepadTrash = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { tab, closedAt, index, group } = entry as Record<string, unknown>;
+    if (typeof closedAt !== 'number') continue;
+    // Tabs and groups are checked like the notepad's own
+    const data = normalizeNotepadData({ tabs: [tab], activeTabId: '', groups: group ? [group] : [] });
+    if (!data || trash.some((trashed) => trashed.tab.id === data.tabs[0].id)) continue;
+
+    const trashed: TrashedTab = {
+      tab: data.tabs[0],
+      closedAt,
+      index: typeof index === 'number' && index >= 0 ? Math.floor(index) : 0,
+    };
+    if (data.groups) {
+      trashed.group = data.groups[0];
+    }
+    trash.push(trashed);
+  }
+  return trash.slice(0, MAX_TRASHED_TABS);
+}
+
+// Saved trash format (see storage.ts)
+export const notepadTrashSchema: StorageSchema<NotepadTrash> = {
+  name: 'notepad trash',
+  version: 1,
+  migrations: {},
+  parse: normalizeNotepadTrash,
+};
+
+/**
+ * Days closed tabs are kept, from the notepad's settings (DEFAULT_TRASH_RETENTION_DAYS if unset)
+ */
+export function getRetentionDays(setting: string | undefined): number {
+  const days = Number(setting);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Add a closed tab, keeping the newest MAX_TRASHED_TABS
+ */
+export function addToTrash(trash: NotepadTrash, entry: TrashedTab): NotepadTrash {
+  return [entry, ...trash.filter((trashed) => trashed.tab.id !== entry.tab.id)].slice(0, MAX_TRASHED_TABS);
+}
+
+/**
+ * Remove a tab from the trash (the same array if it isn't there)
+ */
+export function removeFromTrash(trash: NotepadTrash, tabId: string): NotepadTrash {
+  return trash.some((trashed) => trashed.tab.id === tabId)
+    ? trash.filter((trashed) => trashed.tab.id !== tabId)
+    : trash;
+}
+
+/**
+ * Drop tabs closed more than `retentionDays` ago (the same array if none are)
+ */
+export function purgeTrash(trash: NotepadTrash, retentionDays: number, now: number = Date.now()): NotepadTrash {
+  const cutoff = now - retentionDays * DAY_MS;
+  return trash.every((trashed) => trashed.closedAt > cutoff)
+    ? trash
+    : trash.filter((trashed) => trashed.closedAt > cutoff);
+}
+
+/**
+ * When a closed tab will be dropped from the trash
+ */
+export function getExpiryTime(trashed: TrashedTab, retentionDays: number): number {
+  return trashed.closedAt + retentionDays * DAY_MS;
+}
+
+/**
+ * Read, change and save the trash stored under a key
+ */
+export function updateNotepadTrash(
+  key: string,
+  update: (trash: NotepadTrash) => NotepadTrash
+): Promise<NotepadTrash> {
+  return updateStoredValueAsync(key, notepadTrashSchema, (trash) => {
+    const current = trash ?? [];
+    const updated = update(current);
+    return updated === current ? trash : updated;
+  }).then((trash) => trash ?? []);
+}
+
+/**
+ * Put a closed tab back where it was, in its group if it had one
+ * A tab whose ID is in use again (e.g. the last tab, which is cleared instead of closed)
+ * comes back under a new ID
+ */
+export function restoreTrashedTab(
+  tabs: NotepadTab[],
+  groups: NotepadTabGroup[],
+  trashed: TrashedTab
+): { tabs: NotepadTab[]; groups: NotepadTabGroup[]; tabId: string } {
+  const tab: NotepadTab = tabs.some((t) => t.id === trashed.tab.id)
+    ? { ...trashed.tab, id: `${Date.now()}-restored` }
+    : trashed.tab;
+  const hasGroup = !!trashed.group && groups.some((group) => group.id === trashed.group!.id);
+  const restoredGroups = trashed.group && !hasGroup ? [...groups, trashed.group] : groups;
+
+  const newTabs = [...tabs];
+  newTabs.splice(Math.min(trashed.index, newTabs.length), 0, tab);
+  return { tabs: orderTabs(newTabs), groups: restoredGroups, tabId: tab.id };
+}
+
+// Images linked from closed tabs stay until the tabs leave the trash
+registerImageReferences(async () => {
+  const adapter = await getStorageAdapter();
+  const ids: string[] = [];
+  for (const key of await adapter.keys()) {
+    if (getUnscopedKey(key).split(':')[0] !== TRASH_STORAGE_KEY) continue;
+    const raw = await adapter.get(key);
+    const trash = raw === null ? null : decodeStoredValue(notepadTrashSchema, raw).value;
+    trash?.forEach((trashed) => ids.push(...getImageIds(trashed.tab.content)));
+  }
+  return ids;
+});
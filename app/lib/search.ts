@@ -0,0 +1,361 @@
+import { readStoredValueAsync } from './storage';
+import { getWorkspaceKey } from './workspaces';
+import { WidgetConfiguration, getInstanceStorageKey } from './widgetConfig';
+import { notepadSchema } from './notepadData';
+import { todosSchema } from './todoData';
+import { getTabPlainText } from './markdown';
+
+/**
+ * Global search - finds text in the notepad tabs and todos of the active workspace
+ * The index is read from storage each time the search palette opens; results jump to the
+ * matching tab or todo through a `searchJump` window event handled by the widget
+ */
+
+export type SearchKind = 'note' | 'todo';
+
+export interface SearchDocument {
+  kind: SearchKind;
+  instanceId: string; // Widget instance the item belongs to
+  position: number; // Slot of that widget (focused when jumping)
+  source: string; // Widget title, e.g. the notepad's title or the todo list name
+  itemId: string; // Tab or todo ID
+  title: string; // Tab name (empty for todos)
+  text: string;
+  completed?: boolean; // Todos only
+}
+
+export interface SnippetPart {
+  text: string;
+  highlighted: boolean;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: SnippetPart[];
+  match: string; // Text to select when jumping (empty when only the title matched)
+  occurrence: number; // Which occurrence of `match` in the text, counting from 0
+}
+
+/**
+ * Detail of the `searchJump` event: which item to show and what to select in it
+ */
+export interface SearchJump {
+  kind: SearchKind;
+  instanceId: string;
+  itemId: string;
+  match: string;
+  occurrence: number;
+}
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+const MAX_TERM_HITS = 5; // Repeating a word more often doesn't rank a note higher
+const TITLE_BONUS = 6; // Per term found in the tab name
+const PHRASE_BONUS = 5; // When the terms appear together, in order
+
+export interface FuzzyMatch {
+  score: number;
+  indices: number[]; // Positions of the matched characters in the text
+}
+
+/**
+ * Every notepad tab and todo in the configured widgets, in slot order
+ */
+export async function buildSearchIndex(config: WidgetConfiguration): Promise<SearchDocument[]> {
+  const slots = [...config].sort((a, b) => a.position - b.position);
+  const documents: SearchDocument[] = [];
+
+  for (const slot of slots) {
+    const settings = slot.settings as Record<string, string> | undefined;
+    const instanceId = slot.instanceId ?? slot.widgetType ?? '';
+
+    try {
+      if (slot.widgetType === 'notepad') {
+        const key = getWorkspaceKey(getInstanceStorageKey('hyperdash-notepad', 'notepad', slot.instanceId));
+        const data = await readStoredValueAsync(key, notepadSchema);
+        for (const tab of data?.tabs ?? []) {
+          documents.push({
+            kind: 'note',
+            instanceId,
+            position: slot.position,
+            source: settings?.title || 'Notepad',
+            itemId: tab.id,
+            title: tab.name,
+            text: getTabPlainText(tab),
+          });
+        }
+      } else if (slot.widgetType === 'todo') {
+        const key = getWorkspaceKey(getInstanceStorageKey('hyperdash-todos', 'todo', slot.instanceId));
+        const todos = await readStoredValueAsync(key, todosSchema);
+        for (const todo of todos ?? []) {
+          documents.push({
+            kind: 'todo',
+            instanceId,
+            position: slot.position,
+            source: settings?.listName || 'Todo List',
+            itemId: todo.id,
+            title: '',
+            text: todo.text,
+            completed: todo.completed,
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`Error indexing widget in slot ${slot.position} for search:`, error);
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * Lowercase search terms of a query, without duplicates
+ */
+export function getSearchTerms(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+function countOccurrences(haystack: string, needle: string, limit = Infinity): number {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1 && count < limit) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+/**
+ * Position of an occurrence of `match` in `text`, ignoring case (-1 if there is none)
+ * Falls back to the first occurrence if there are fewer (the text changed since it was indexed)
+ */
+export function findTextOffset(text: string, match: string, occurrence = 0): number {
+  if (!match) return -1;
+  const haystack = text.toLowerCase();
+  const needle = match.toLowerCase();
+  const first = haystack.indexOf(needle);
+  let index = first;
+  for (let i = 0; i < occurrence && index !== -1; i++) {
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return index === -1 ? first : index;
+}
+
+// Sorted, merged [start, end) ranges of every term in the text
+function getMatchRanges(haystack: string, terms: string[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    let index = haystack.indexOf(term);
+    while (index !== -1) {
+      ranges.push([index, index + term.length]);
+      index = haystack.indexOf(term, index + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * A short piece of text around `offset`, split into highlighted and plain parts
+ * Line breaks become spaces and cut-off ends get an ellipsis
+ */
+export function getSnippet(text: string, terms: string[], offset: number): SnippetPart[] {
+  let start = Math.max(0, offset - SNIPPET_BEFORE);
+  // Start at a word boundary unless that would cut into the match
+  if (start > 0) {
+    const space = text.slice(start, offset).search(/\s/);
+    if (space !== -1) start += space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const excerpt = text.slice(start, end);
+
+  const parts: SnippetPart[] = [];
+  const push = (value: string, highlighted: boolean) => {
+    const cleaned = value.replace(/\s+/g, ' ');
+    if (cleaned) parts.push({ text: cleaned, highlighted });
+  };
+
+  let cursor = 0;
+  for (const [from, to] of getMatchRanges(excerpt.toLowerCase(), terms)) {
+    push(excerpt.slice(cursor, from), false);
+    push(excerpt.slice(from, to), true);
+    cursor = to;
+  }
+  push(excerpt.slice(cursor), false);
+
+  if (parts.length > 0) {
+    if (start > 0) parts[0] = { ...parts[0], text: `…${parts[0].text.trimStart()}` };
+    const last = parts[parts.length - 1];
+    if (end < text.length) parts[parts.length - 1] = { ...last, text: `${last.text.trimEnd()}…` };
+  }
+  return parts;
+}
+
+function scoreDocument(document: SearchDocument, terms: string[], phrase: string): number | null {
+  const title = document.title.toLowerCase();
+  const text = document.text.toLowerCase();
+  let score = 0;
+
+  for (const term of terms) {
+    const inTitle = title.includes(term);
+    const hits = countOccurrences(text, term, MAX_TERM_HITS);
+    if (!inTitle && hits === 0) return null;
+
+    if (inTitle) score += TITLE_BONUS;
+    score += hits;
+    // Whole-word and word-start matches rank above matches inside words
+    if (new RegExp(`(^|\\W)${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`).test(text)) {
+      score += 1;
+    }
+    // Earlier matches rank slightly higher
+    const index = text.indexOf(term);
+    if (index !== -1) score += 1 - index / Math.max(text.length, 1);
+  }
+
+  if (terms.length > 1 && (title.includes(phrase) || text.includes(phrase))) {
+    score += PHRASE_BONUS;
+  }
+  // Open todos before completed ones
+  if (document.completed) score -= 0.5;
+  return score;
+}
+
+/**
+ * Documents containing every term of the query (in their title or text), best first
+ */
+export function searchDocuments(documents: SearchDocument[], query: string, limit = 50): SearchResult[] {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [];
+  const phrase = terms.join(' ');
+
+  const results: SearchResult[] = [];
+  for (const document of documents) {
+    const score = scoreDocument(document, terms, phrase);
+    if (score === null) continue;
+
+    // Select the whole phrase if it's there, otherwise the first matching term
+    const text = document.text.toLowerCase();
+    let match = '';
+    let offset = text.indexOf(phrase);
+    if (offset !== -1 && terms.length > 1) {
+      match = phrase;
+    } else {
+      offset = -1;
+      for (const term of terms) {
+        const index = text.indexOf(term);
+        if (index !== -1 && (offset === -1 || index < offset)) {
+          offset = index;
+          match = term;
+        }
+      }
+    }
+
+    results.push({
+      document,
+      score,
+      snippet: getSnippet(document.text, terms, Math.max(offset, 0)),
+      match,
+      occurrence: match ? countOccurrences(text.slice(0, offset), match) : 0,
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || !/[a-z0-9]/i.test(text[index - 1]) || (/[a-z]/.test(text[index - 1]) && /[A-Z]/.test(text[index]));
+
+/**
+ * Whether the characters of `query` appear in `text` in order, e.g. "mtg" in "Meeting notes"
+ * Higher scores for consecutive characters, word starts and matches near the start; spaces
+ * in the query are ignored. Used by the notepad's tab switcher
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return { score: 0, indices: [] };
+  const haystack = text.toLowerCase();
+
+  // The query as one piece beats anything spread out
+  const substring = haystack.indexOf(needle);
+  if (substring !== -1) {
+    const indices = Array.from(needle, (_, i) => substring + i);
+    const score = needle.length * 4 + (isWordStart(text, substring) ? 3 : 0) - substring * 0.1;
+    return { score, indices };
+  }
+
+  return matchCharacters(needle, haystack, text, true) ?? matchCharacters(needle, haystack, text, false);
+}
+
+// Characters of the needle in order; jumping ahead to word starts can miss a match the plain scan finds
+function matchCharacters(needle: string, haystack: string, text: string, preferWordStarts: boolean): FuzzyMatch | null {
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of needle) {
+    let index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    const previous = indices[indices.length - 1];
+    // Unless it continues the previous match, prefer a later word starting with the character
+    if (preferWordStarts && index !== previous + 1) {
+      for (let i = index; i !== -1; i = haystack.indexOf(char, i + 1)) {
+        if (isWordStart(text, i)) {
+          index = i;
+          break;
+        }
+      }
+    }
+
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (isWordStart(text, index)) score += 2;
+    indices.push(index);
+    from = index + 1;
+  }
+  return { score: score - indices[0] * 0.1, indices };
+}
+
+/**
+ * Range of an occurrence of `match` in the text of an element (e.g. the notepad editor)
+ */
+export function findTextRange(root: Node, match: string, occurrence = 0): Range | null {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  let text = '';
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    nodes.push(node);
+    text += node.data;
+  }
+
+  const start = findTextOffset(text, match, occurrence);
+  if (start === -1) return null;
+  const end = start + match.length;
+
+  const range = document.createRange();
+  let offset = 0;
+  let hasStart = false;
+  for (const node of nodes) {
+    const nodeEnd = offset + node.data.length;
+    if (!hasStart && start < nodeEnd) {
+      range.setStart(node, start - offset);
+      hasStart = true;
+    }
+    if (hasStart && end <= nodeEnd) {
+      range.setEnd(node, end - offset);
+      return range;
+    }
+    offset = nodeEnd;
+  }
+  return null;
+}
@@ -0,0 +1,215 @@
+import { SNAPSHOT_STORE_NAME, getDatabase, requestToPromise } from './storageAdapter';
+import { DATA_SECTIONS, SectionData, createExportFile, importData } from './dataTransfer';
+import { decodeStoredValue } from './storage';
+import { notepadSchema } from './notepadData';
+import { deleteImages, getImageIds, registerImageReferences } from './notepadImages';
+import { isSafeMode } from './utils';
+
+/**
+ * Local snapshots - a rolling history of the dashboard's data in this browser
+ * A snapshot is taken when the dashboard loads and every 15 minutes if anything changed,
+ * and before anything destructive (clearing all data, importing, deleting a workspace,
+ * resetting a widget, restoring a snapshot). The newest MAX_SNAPSHOTS are kept in IndexedDB;
+ * without IndexedDB they only last for the session. Restoring replaces all dashboard data
+ * with the snapshot's. Notepad images linked from a snapshot are kept while it exists.
+ * Nothing is saved or restored in safe mode
+ */
+
+export type SnapshotReason =
+  | 'automatic'
+  | 'manual'
+  | 'before-clear'
+  | 'before-import'
+  | 'before-workspace-delete'
+  | 'before-widget-reset'
+  | 'before-restore';
+
+export interface LocalSnapshot {
+  id: string;
+  createdAt: string; // ISO date
+  reason: SnapshotReason;
+  size: number; // Size of the saved data in bytes
+  sections: SectionData; // Same shape as an export's sections (see dataTransfer.ts)
+}
+
+export type SnapshotSummary = Omit<LocalSnapshot, 'sections'>;
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  automatic: 'Automatic',
+  manual: 'Taken manually',
+  'before-clear': 'Before clearing all data',
+  'before-import': 'Before an import',
+  'before-workspace-delete': 'Before deleting a workspace',
+  'before-widget-reset': 'Before resetting a widget',
+  'before-restore': 'Before restoring a snapshot',
+};
+
+export const MAX_SNAPSHOTS = 20;
+const SNAPSHOT_INTERVAL_MS = 15 * 60 * 1000;
+
+// Snapshots of this session when IndexedDB is unavailable
+const memorySnapshots = new Map<string, LocalSnapshot>();
+let snapshotCount = 0;
+
+function isLocalSnapshot(value: unknown): value is LocalSnapshot {
+  if (!value || typeof value !== 'object') return false;
+  const { id, createdAt, reason, size, sections } = value as Partial<LocalSnapshot>;
+  return (
+    typeof id === 'string' &&
+    typeof createdAt === 'string' &&
+    typeof reason === 'string' &&
+    reason in SNAPSHOT_REASON_LABELS &&
+    typeof size === 'number' &&
+    !!sections &&
+    typeof sections === 'object'
+  );
+}
+
+async function getSnapshotStore(mode: IDBTransactionMode): Promise<IDBObjectStore | null> {
+  const db = await getDatabase();
+  return db ? db.transaction(SNAPSHOT_STORE_NAME, mode).objectStore(SNAPSHOT_STORE_NAME) : null;
+}
+
+// All snapshots, newest first
+async function readSnapshots(): Promise<LocalSnapshot[]> {
+  const store = await getSnapshotStore('readonly');
+  const snapshots = store
+    ? ((await requestToPromise(store.getAll())) as unknown[]).filter(isLocalSnapshot)
+    : Array.from(memorySnapshots.values());
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+}
+
+async function writeSnapshot(snapshot: LocalSnapshot): Promise<void> {
+  const store = await getSnapshotStore('readwrite');
+  if (store) {
+    await requestToPromise(store.put(snapshot, snapshot.id));
+  } else {
+    memorySnapshots.set(snapshot.id, snapshot);
+  }
+}
+
+async function removeSnapshots(ids: string[]): Promise<void> {
+  const store = await getSnapshotStore('readwrite');
+  for (const id of ids) {
+    if (store) {
+      await requestToPromise(store.delete(id));
+    } else {
+      memorySnapshots.delete(id);
+    }
+  }
+}
+
+/**
+ * Image IDs linked from the notepads in a snapshot's (or an export's) sections
+ */
+export function getSnapshotImageIds(sections: SectionData): string[] {
+  return Object.values(sections.notes ?? {}).flatMap((raw) => {
+    const notepad = decodeStoredValue(notepadSchema, raw).value;
+    return notepad ? notepad.tabs.flatMap((tab) => getImageIds(tab.content)) : [];
+  });
+}
+
+// Images of deleted snapshots go too, unless the dashboard or another snapshot links to them
+registerImageReferences(async () => (await readSnapshots()).flatMap((snapshot) => getSnapshotImageIds(snapshot.sections)));
+
+async function deleteSnapshotsAndImages(snapshots: LocalSnapshot[]): Promise<void> {
+  if (snapshots.length === 0) return;
+  await removeSnapshots(snapshots.map((snapshot) => snapshot.id));
+
+  const imageIds = new Set(snapshots.flatMap((snapshot) => getSnapshotImageIds(snapshot.sections)));
+  if (imageIds.size > 0) {
+    const inUse = new Set(getSnapshotImageIds((await createExportFile(['notes'])).sections));
+    await deleteImages((_, id) => imageIds.has(id) && !inUse.has(id));
+  }
+}
+
+const toSummary = ({ sections: _sections, ...summary }: LocalSnapshot): SnapshotSummary => summary;
+
+/**
+ * List snapshots, newest first
+ */
+export async function listSnapshots(): Promise<SnapshotSummary[]> {
+  if (typeof window === 'undefined' || isSafeMode()) return [];
+  try {
+    return (await readSnapshots()).map(toSummary);
+  } catch (error) {
+    console.error('Error reading snapshots:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a snapshot of all dashboard data and drop the oldest beyond MAX_SNAPSHOTS
+ * Automatic snapshots are skipped when nothing changed since the newest snapshot.
+ * Returns the new snapshot (null if none was taken)
+ */
+export function takeSnapshot(reason: SnapshotReason): Promise<SnapshotSummary | null> {
+  return saveSnapshot(reason);
+}
+
+// takeSnapshot(), never dropping the snapshot `keepId` (the one being restored)
+async function saveSnapshot(reason: SnapshotReason, keepId?: string): Promise<SnapshotSummary | null> {
+  if (typeof window === 'undefined' || isSafeMode()) return null;
+  try {
+    const { sections } = await createExportFile(DATA_SECTIONS);
+    const serialized = JSON.stringify(sections);
+    const existing = await readSnapshots();
+    if (reason === 'automatic' && existing.length > 0 && JSON.stringify(existing[0].sections) === serialized) {
+      return null;
+    }
+
+    const snapshot: LocalSnapshot = {
+      id: `${Date.now().toString(36)}-${(snapshotCount++).toString(36).padStart(4, '0')}`,
+      createdAt: new Date().toISOString(),
+      reason,
+      size: serialized.length,
+      sections,
+    };
+    await writeSnapshot(snapshot);
+    const prunable = existing.filter((s) => s.id !== keepId);
+    await deleteSnapshotsAndImages(prunable.slice(MAX_SNAPSHOTS - 1 - (existing.length - prunable.length)));
+    return toSummary(snapshot);
+  } catch (error) {
+    console.error('Error taking snapshot:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete a snapshot
+ */
+export async function deleteSnapshot(id: string): Promise<void> {
+  if (typeof window === 'undefined' || isSafeMode()) return;
+  const snapshot = (await readSnapshots()).find((s) => s.id === id);
+  if (snapshot) {
+    await deleteSnapshotsAndImages([snapshot]);
+  }
+}
+
+/**
+ * Replace all dashboard data with a snapshot's, after saving the current data as a snapshot
+ * Returns false if the snapshot doesn't exist. Open widgets pick up most changes live;
+ * reload for the rest
+ */
+export async function restoreSnapshot(id: string): Promise<boolean> {
+  if (typeof window === 'undefined' || isSafeMode()) return false;
+  const snapshot = (await readSnapshots()).find((s) => s.id === id);
+  if (!snapshot) return false;
+
+  await saveSnapshot('before-restore', id);
+  await importData({ exportedAt: snapshot.createdAt, sections: snapshot.sections, problems: [] }, DATA_SECTIONS, 'replace');
+  return true;
+}
+
+/**
+ * Take a snapshot on start and every 15 minutes (skipped while nothing changes)
+ * Returns a function that stops it
+ */
+export function startAutoSnapshots(): () => void {
+  const run = () => {
+    takeSnapshot('automatic');
+  };
+  run();
+  const interval = setInterval(run, SNAPSHOT_INTERVAL_MS);
+  return () => clearInterval(interval);
+}
@@ -0,0 +1,175 @@
+import { getFromLocalStorage, saveToLocalStorage } from './utils';
+import { getStoredItem, setStoredItem } from './storageAdapter';
+
+/**
+ * Versioned storage for JSON data
+ * Values are saved as `{ version, data }` so their shape can change between releases:
+ * reading runs the schema's migrations from the saved version up to the current one,
+ * then validates the result. Values saved before versioning count as version 0 -
+ * including values that aren't JSON at all (e.g. the original plain-text notepad)
+ */
+
+export type StorageMigration = (data: unknown) => unknown;
+
+export interface StorageSchema<T> {
+  name: string; // Used in error messages
+  version: number; // Current version of the saved shape (1 or higher)
+  migrations: Record<number, StorageMigration>; // migrations[n] upgrades version n data to version n + 1
+  parse: (data: unknown) => T | null; // Validate current-version data (null if unusable)
+}
+
+interface StoredEnvelope {
+  version: number;
+  data: unknown;
+}
+
+export interface DecodedValue<T> {
+  value: T | null;
+  version: number; // Version the value was saved with
+  migrated: boolean; // True if the value was upgraded and should be saved again
+}
+
+function isEnvelope(value: unknown): value is StoredEnvelope {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Number.isInteger((value as StoredEnvelope).version) &&
+    'data' in value
+  );
+}
+
+/**
+ * Run migrations from a saved version up to the schema's current version
+ * Versions without a migration keep their data as is
+ */
+export function migrateData<T>(schema: StorageSchema<T>, version: number, data: unknown): unknown {
+  let current = data;
+  for (let from = version; from < schema.version; from++) {
+    const migrate = schema.migrations[from];
+    if (migrate) {
+      current = migrate(current);
+    }
+  }
+  return current;
+}
+
+/**
+ * Decode a raw saved string: unwrap, migrate and validate it
+ */
+export function decodeStoredValue<T>(schema: StorageSchema<T>, raw: string): DecodedValue<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    // Not JSON - only a version 0 migration can make sense of it
+    parsed = raw;
+  }
+
+  const version = isEnvelope(parsed) ? parsed.version : 0;
+  const data = isEnvelope(parsed) ? parsed.data : parsed;
+
+  if (version > schema.version) {
+    // Saved by a newer release - read it as the current shape rather than losing it
+    console.error(`Error reading ${schema.name}: saved with newer version ${version}`);
+    return { value: schema.parse(data), version, migrated: false };
+  }
+
+  try {
+    const value = schema.parse(migrateData(schema, version, data));
+    if (value === null) {
+      console.error(`Error reading ${schema.name}: saved data is invalid`);
+    }
+    return { value, version, migrated: value !== null && version < schema.version };
+  } catch (error) {
+    console.error(`Error migrating ${schema.name} from version ${version}:`, error);
+    return { value: null, version, migrated: false };
+  }
+}
+
+/**
+ * Encode a value with the schema's current version
+ */
+export function encodeStoredValue<T>(schema: StorageSchema<T>, value: T): string {
+  const envelope: StoredEnvelope = { version: schema.version, data: value };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Read a value from localStorage (null if missing or unusable)
+ * Values saved with an older version are upgraded and saved back
+ */
+export function readStoredValue<T>(key: string, schema: StorageSchema<T>): T | null {
+  const raw = getFromLocalStorage(key);
+  if (raw === null) {
+    return null;
+  }
+
+  const { value, migrated } = decodeStoredValue(schema, raw);
+  if (migrated && value !== null) {
+    writeStoredValue(key, schema, value);
+  }
+  return value;
+}
+
+/**
+ * Save a value to localStorage with the schema's current version
+ */
+export function writeStoredValue<T>(key: string, schema: StorageSchema<T>, value: T): void {
+  try {
+    saveToLocalStorage(key, encodeStoredValue(schema, value));
+  } catch (error) {
+    console.error(`Error saving ${schema.name}:`, error);
+  }
+}
+
+/**
+ * Read a value through the async storage adapter (see storageAdapter.ts)
+ * Same migration and validation as readStoredValue
+ */
+export async function readStoredValueAsync<T>(key: string, schema: StorageSchema<T>): Promise<T | null> {
+  const raw = await getStoredItem(key);
+  if (raw === null) {
+    return null;
+  }
+
+  const { value, migrated } = decodeStoredValue(schema, raw);
+  if (migrated && value !== null) {
+    await writeStoredValueAsync(key, schema, value);
+  }
+  return value;
+}
+
+/**
+ * Save a value through the async storage adapter with the schema's current version
+ */
+export async function writeStoredValueAsync<T>(key: string, schema: StorageSchema<T>, value: T): Promise<void> {
+  await setStoredItem(key, encodeStoredValue(schema, value));
+}
+
+// Updates per key run one after another so they don't overwrite each other
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+/**
+ * Read, change and save a value through the async storage adapter
+ * `update` gets the saved value (null if there is none) and returns the value to save;
+ * returning the value it got (or null) skips the write
+ */
+export function updateStoredValueAsync<T>(
+  key: string,
+  schema: StorageSchema<T>,
+  update: (value: T | null) => T | null
+): Promise<T | null> {
+  const previous = pendingUpdates.get(key) ?? Promise.resolve();
+  const next = previous.then(async () => {
+    const value = await readStoredValueAsync(key, schema);
+    const updated = update(value);
+    if (updated !== null && updated !== value) {
+      await writeStoredValueAsync(key, schema, updated);
+    }
+    return updated ?? value;
+  });
+  // Keep the queue going after a failed update
+  pendingUpdates.set(key, next.catch(() => undefined));
+  return next;
+}
@@ -0,0 +1,250 @@
+import { isSafeMode } from './utils';
+import { broadcastStorageChange } from './crossTabSync';
+
+/**
+ * Async key-value storage for widget data
+ * Notepad tabs, todos, pomodoro state and the wallpaper go through this adapter, so large
+ * notes aren't capped by the localStorage quota and saving doesn't block typing.
+ * IndexedDB is used when the browser supports it; otherwise data stays in localStorage.
+ * Small synchronous data (layout, workspaces, colors, preferences) stays in localStorage
+ */
+export interface StorageAdapter {
+  name: 'indexeddb' | 'localstorage';
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(): Promise<string[]>; // Every key this adapter holds
+}
+
+// Base keys (before workspace/instance scoping) that live in the adapter
+const ADAPTER_KEYS = new Set([
+  'hyperdash-todos',
+  'hyperdash-show-completed',
+  'hyperdash-notepad',
+  'hyperdash-notepad-history',
+  'hyperdash-notepad-trash',
+  'pomodoroTimeLeft',
+  'pomodoroIsRunning',
+  'pomodoroMode',
+  'pomodoroCount',
+  'wallpaper',
+]);
+
+const DB_NAME = 'hyperdash';
+const DB_VERSION = 3;
+const STORE_NAME = 'keyval';
+export const IMAGE_STORE_NAME = 'images'; // Notepad image blobs (see notepadImages.ts)
+export const SNAPSHOT_STORE_NAME = 'snapshots'; // Local snapshots (see snapshots.ts)
+const MIGRATED_FLAG_KEY = 'hyperdash-storage-migrated';
+
+/**
+ * Check if a (possibly workspace- and instance-scoped) key is stored through the adapter
+ */
+export function isAdapterKey(key: string): boolean {
+  const unscoped = key.replace(/^hyperdash-workspace:[^:]+:/, '');
+  return ADAPTER_KEYS.has(unscoped.split(':')[0]);
+}
+
+function getLocalStorageKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && isAdapterKey(key)) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * localStorage-backed adapter (fallback when IndexedDB is unavailable)
+ */
+export function createLocalStorageAdapter(): StorageAdapter {
+  return {
+    name: 'localstorage',
+    get: async (key) => localStorage.getItem(key),
+    set: async (key, value) => localStorage.setItem(key, value),
+    remove: async (key) => localStorage.removeItem(key),
+    keys: async () => getLocalStorageKeys(),
+  };
+}
+
+/**
+ * Read every key and value an adapter holds
+ */
+export async function readAllStoredItems(adapter: StorageAdapter): Promise<Record<string, string>> {
+  const items: Record<string, string> = {};
+  for (const key of await adapter.keys()) {
+    const value = await adapter.get(key);
+    if (value !== null) {
+      items[key] = value;
+    }
+  }
+  return items;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed adapter
+ * Keys that haven't been migrated out of localStorage yet are still read from there;
+ * writing or removing a key clears its localStorage copy
+ */
+export function createIndexedDBAdapter(db: IDBDatabase): StorageAdapter {
+  const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+    requestToPromise(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+
+  return {
+    name: 'indexeddb',
+    get: async (key) => {
+      const value = await run<unknown>('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : localStorage.getItem(key);
+    },
+    set: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key));
+      localStorage.removeItem(key);
+    },
+    remove: async (key) => {
+      await run('readwrite', (store) => store.delete(key));
+      localStorage.removeItem(key);
+    },
+    keys: async () => {
+      const stored = (await run('readonly', (store) => store.getAllKeys())).map(String);
+      return Array.from(new Set([...stored, ...getLocalStorageKeys()]));
+    },
+  };
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    // Version 1 created the key-value store; version 2 added images, version 3 snapshots
+    for (const name of [STORE_NAME, IMAGE_STORE_NAME, SNAPSHOT_STORE_NAME]) {
+      if (!request.result.objectStoreNames.contains(name)) {
+        request.result.createObjectStore(name);
+      }
+    }
+  };
+  return requestToPromise(request);
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Get the IndexedDB database (null if the browser doesn't support it or it failed to open)
+ */
+export function getDatabase(): Promise<IDBDatabase | null> {
+  if (!databasePromise) {
+    databasePromise =
+      typeof indexedDB === 'undefined'
+        ? Promise.resolve(null)
+        : openDatabase().catch((error) => {
+            console.error('Error opening IndexedDB, using localStorage:', error);
+            return null;
+          });
+  }
+  return databasePromise;
+}
+
+/**
+ * Move adapter keys from localStorage into another adapter
+ * Each key is removed from localStorage only after it was copied; keys the target
+ * already has keep the target's value. Returns the number of keys moved
+ */
+export async function migrateLocalStorageKeys(target: StorageAdapter): Promise<number> {
+  const existing = new Set(await target.keys());
+  let moved = 0;
+  for (const key of getLocalStorageKeys()) {
+    const value = localStorage.getItem(key);
+    if (value !== null && !existing.has(key)) {
+      await target.set(key, value);
+      moved++;
+    }
+    localStorage.removeItem(key);
+  }
+  return moved;
+}
+
+async function createStorageAdapter(): Promise<StorageAdapter> {
+  const db = await getDatabase();
+  if (!db) {
+    return createLocalStorageAdapter();
+  }
+
+  const adapter = createIndexedDBAdapter(db);
+
+  // One-time move of existing data (never in safe mode, which must not write)
+  if (!isSafeMode() && localStorage.getItem(MIGRATED_FLAG_KEY) !== 'true') {
+    try {
+      await migrateLocalStorageKeys(adapter);
+      localStorage.setItem(MIGRATED_FLAG_KEY, 'true');
+    } catch (error) {
+      // Keys that weren't moved are still read from localStorage; retried next load
+      console.error('Error moving data to IndexedDB:', error);
+    }
+  }
+  return adapter;
+}
+
+let adapterPromise: Promise<StorageAdapter> | null = null;
+
+/**
+ * Get the storage adapter (opened, and data migrated, on first use)
+ */
+export function getStorageAdapter(): Promise<StorageAdapter> {
+  if (!adapterPromise) {
+    adapterPromise = createStorageAdapter();
+  }
+  return adapterPromise;
+}
+
+/**
+ * Read a value (null if missing, unreadable, or in safe mode)
+ */
+export async function getStoredItem(key: string): Promise<string | null> {
+  if (typeof window === 'undefined' || isSafeMode()) return null;
+  try {
+    return await (await getStorageAdapter()).get(key);
+  } catch (error) {
+    console.error('Error reading from storage:', error);
+    return null;
+  }
+}
+
+/**
+ * Save a value (ignored in safe mode)
+ */
+export async function setStoredItem(key: string, value: string): Promise<void> {
+  if (typeof window === 'undefined' || isSafeMode()) return;
+  try {
+    const adapter = await getStorageAdapter();
+    await adapter.set(key, value);
+    // localStorage saves reach other tabs through the storage event
+    if (adapter.name === 'indexeddb') {
+      broadcastStorageChange(key, value);
+    }
+  } catch (error) {
+    console.error('Error saving to storage:', error);
+  }
+}
+
+/**
+ * Remove a value (ignored in safe mode)
+ */
+export async function removeStoredItem(key: string): Promise<void> {
+  if (typeof window === 'undefined' || isSafeMode()) return;
+  try {
+    const adapter = await getStorageAdapter();
+    await adapter.remove(key);
+    if (adapter.name === 'indexeddb') {
+      broadcastStorageChange(key, null);
+    }
+  } catch (error) {
+    console.error('Error removing from storage:', error);
+  }
+}
@@ -0,0 +1,365 @@
+import { StorageSchema, readStoredValue, writeStoredValue } from './storage';
+import { getStorageAdapter, isAdapterKey } from './storageAdapter';
+import { isDashboardKey, readDashboardData } from './dataTransfer';
+import { announceStorageChange } from './crossTabSync';
+import { DashboardSnapshot, SnapshotData, isValidSyncId, isSnapshotData } from './syncSnapshot';
+import { isSafeMode } from './utils';
+
+/**
+ * Client for the self-hosted sync server (app/api/sync)
+ * Syncing compares this device's data and the server's snapshot against what they were
+ * at the last sync (kept as hashes) and merges them key by key: a key changed on one side
+ * only takes that side's value; a key changed differently on both sides is a conflict,
+ * which the user settles by keeping this device's or the server's version.
+ * Pulled changes update open widgets live (see crossTabSync.ts). Notepad images aren't synced
+ */
+
+export interface SyncSettings {
+  enabled: boolean; // Sync automatically (on load and every minute)
+  serverUrl: string; // Empty = the server this dashboard is served from
+  syncId: string; // The same ID on every device that shares the dashboard
+  token: string; // HYPERDASH_SYNC_TOKEN of the server (if it sets one)
+}
+
+interface SyncState {
+  revision: number; // Server revision at the last sync
+  hashes: Record<string, string>; // Key -> hash of its value at the last sync
+  lastSyncedAt: string | null;
+}
+
+export type ConflictResolution = 'local' | 'remote';
+
+export type SyncResult =
+  | { status: 'up-to-date' | 'pushed' | 'pulled' | 'merged'; revision: number; syncedAt: string }
+  | { status: 'conflict'; conflicts: string[] } // Keys changed on both sides; nothing was written
+  | { status: 'error'; message: string };
+
+const SETTINGS_KEY = 'hyperdash-sync-settings';
+const STATE_KEY = 'hyperdash-sync-state';
+const SYNC_INTERVAL_MS = 60 * 1000;
+const MAX_ATTEMPTS = 3; // Retries when another device pushes mid-sync
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  serverUrl: '',
+  syncId: '',
+  token: '',
+};
+
+const asString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const syncSettingsSchema: StorageSchema<SyncSettings> = {
+  name: 'sync settings',
+  version: 1,
+  migrations: {},
+  parse: (data) => {
+    if (!data || typeof data !== 'object') return null;
+    const raw = data as Record<string, unknown>;
+    return {
+      enabled: raw.enabled === true,
+      serverUrl: asString(raw.serverUrl),
+      syncId: asString(raw.syncId),
+      token: asString(raw.token),
+    };
+  },
+};
+
+const syncStateSchema: StorageSchema<SyncState> = {
+  name: 'sync state',
+  version: 1,
+  migrations: {},
+  parse: (data) => {
+    if (!data || typeof data !== 'object') return null;
+    const raw = data as Record<string, unknown>;
+    if (!Number.isInteger(raw.revision) || (raw.revision as number) < 0 || !isSnapshotData(raw.hashes)) {
+      return null;
+    }
+    return {
+      revision: raw.revision as number,
+      hashes: raw.hashes,
+      lastSyncedAt: typeof raw.lastSyncedAt === 'string' ? raw.lastSyncedAt : null,
+    };
+  },
+};
+
+/**
+ * Get this device's sync settings (defaults in safe mode)
+ */
+export function getSyncSettings(): SyncSettings {
+  return readStoredValue(SETTINGS_KEY, syncSettingsSchema) ?? DEFAULT_SYNC_SETTINGS;
+}
+
+/**
+ * Save this device's sync settings
+ * Changing the sync ID or server starts over: the next sync compares everything
+ */
+export function saveSyncSettings(settings: SyncSettings): void {
+  const previous = getSyncSettings();
+  writeStoredValue(SETTINGS_KEY, syncSettingsSchema, settings);
+  if (previous.syncId !== settings.syncId || previous.serverUrl !== settings.serverUrl) {
+    writeStoredValue(STATE_KEY, syncStateSchema, { revision: 0, hashes: {}, lastSyncedAt: null });
+  }
+}
+
+function getSyncState(): SyncState {
+  return readStoredValue(STATE_KEY, syncStateSchema) ?? { revision: 0, hashes: {}, lastSyncedAt: null };
+}
+
+/**
+ * Time of the last successful sync (null if never)
+ */
+export function getLastSyncedAt(): string | null {
+  return getSyncState().lastSyncedAt;
+}
+
+/**
+ * Create a random sync ID to share between devices
+ */
+export function createSyncId(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Short hash of a stored value (cyrb53) - enough to tell whether it changed
+ */
+export function hashValue(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+function hashSnapshot(data: SnapshotData): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const [key, value] of Object.entries(data)) {
+    hashes[key] = hashValue(value);
+  }
+  return hashes;
+}
+
+function isSameSnapshot(a: SnapshotData, b: SnapshotData): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
+/**
+ * Three-way merge of this device's data and the server's, against the hashes of the last sync
+ * Returns the merged data (without conflicting keys) and the keys changed differently on both sides
+ */
+export function mergeSnapshots(
+  baseHashes: Record<string, string>,
+  local: SnapshotData,
+  remote: SnapshotData
+): { merged: SnapshotData; conflicts: string[] } {
+  const merged: SnapshotData = {};
+  const conflicts: string[] = [];
+  const hash = (value: string | undefined) => (value === undefined ? undefined : hashValue(value));
+
+  for (const key of new Set([...Object.keys(local), ...Object.keys(remote)])) {
+    const localValue = local[key];
+    const remoteValue = remote[key];
+    let value: string | undefined;
+
+    if (localValue === remoteValue) {
+      value = localValue;
+    } else if (hash(localValue) === baseHashes[key]) {
+      value = remoteValue; // Only the server changed it (or deleted it)
+    } else if (hash(remoteValue) === baseHashes[key]) {
+      value = localValue; // Only this device changed it (or deleted it)
+    } else {
+      conflicts.push(key);
+      continue;
+    }
+
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+  return { merged, conflicts: conflicts.sort() };
+}
+
+/**
+ * Read the dashboard data this device stores (the keys exports cover, see readDashboardData())
+ * Sync settings and state, and anything else on the origin, never leave the browser
+ */
+export function collectSnapshot(): Promise<SnapshotData> {
+  return readDashboardData();
+}
+
+// Dashboard keys of a snapshot (the server may still hold other keys pushed by older versions)
+function pickDashboardData(data: SnapshotData): SnapshotData {
+  return Object.fromEntries(Object.entries(data).filter(([key]) => isDashboardKey(key)));
+}
+
+/**
+ * Write the keys that differ between `current` and `target`, and let open widgets know
+ */
+async function applySnapshot(target: SnapshotData, current: SnapshotData): Promise<void> {
+  const adapter = await getStorageAdapter();
+  const keys = new Set([...Object.keys(current), ...Object.keys(target)]);
+
+  for (const key of keys) {
+    const value = target[key] ?? null;
+    if (current[key] === target[key] || !isDashboardKey(key)) continue;
+
+    const inAdapter = isAdapterKey(key);
+    if (inAdapter) {
+      await (value === null ? adapter.remove(key) : adapter.set(key, value));
+    } else if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+    announceStorageChange(key, value, inAdapter && adapter.name === 'indexeddb');
+  }
+}
+
+function getSyncUrl(settings: SyncSettings): string {
+  return `${settings.serverUrl.replace(/\/+$/, '')}/api/sync/${encodeURIComponent(settings.syncId)}`;
+}
+
+async function requestSync(settings: SyncSettings, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (settings.token) {
+    headers.set('Authorization', `Bearer ${settings.token}`);
+  }
+  return fetch(getSyncUrl(settings), { ...init, headers, cache: 'no-store' });
+}
+
+async function getErrorMessage(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    if (typeof body?.error === 'string') return body.error;
+  } catch {
+    // Not JSON - fall back to the status
+  }
+  return `Server responded with ${response.status}`;
+}
+
+async function fetchRemoteSnapshot(settings: SyncSettings): Promise<DashboardSnapshot> {
+  const response = await requestSync(settings);
+  if (response.status === 404) {
+    return { revision: 0, updatedAt: '', data: {} };
+  }
+  if (!response.ok) {
+    throw new Error(await getErrorMessage(response));
+  }
+  const snapshot = await response.json();
+  if (!Number.isInteger(snapshot?.revision) || !isSnapshotData(snapshot?.data)) {
+    throw new Error('Server sent an invalid snapshot');
+  }
+  return snapshot;
+}
+
+function saveSyncState(revision: number, data: SnapshotData, syncedAt: string | null): void {
+  writeStoredValue(STATE_KEY, syncStateSchema, { revision, hashes: hashSnapshot(data), lastSyncedAt: syncedAt });
+}
+
+async function runSync(resolution?: ConflictResolution): Promise<SyncResult> {
+  if (isSafeMode()) {
+    return { status: 'error', message: 'Sync is off in safe mode' };
+  }
+  const settings = getSyncSettings();
+  if (!isValidSyncId(settings.syncId)) {
+    return { status: 'error', message: 'Set a sync ID (8-64 letters, digits, dashes or underscores) first' };
+  }
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const state = getSyncState();
+    const local = await collectSnapshot();
+    const remote = await fetchRemoteSnapshot(settings);
+    const remoteData = pickDashboardData(remote.data);
+
+    let target = local;
+    if (remote.revision !== state.revision) {
+      const { merged, conflicts } = mergeSnapshots(state.hashes, local, remoteData);
+      if (conflicts.length > 0 && !resolution) {
+        return { status: 'conflict', conflicts };
+      }
+      for (const key of conflicts) {
+        const value = resolution === 'local' ? local[key] : remoteData[key];
+        if (value !== undefined) {
+          merged[key] = value;
+        }
+      }
+      target = merged;
+    }
+
+    const pulled = !isSameSnapshot(target, local);
+    if (pulled) {
+      await applySnapshot(target, local);
+    }
+
+    const syncedAt = new Date().toISOString();
+    if (isSameSnapshot(target, remoteData)) {
+      saveSyncState(remote.revision, target, syncedAt);
+      return { status: pulled ? 'pulled' : 'up-to-date', revision: remote.revision, syncedAt };
+    }
+
+    // The server's snapshot is now the base: a retry only needs to merge in newer pushes
+    saveSyncState(remote.revision, remoteData, state.lastSyncedAt);
+    const response = await requestSync(settings, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ baseRevision: remote.revision, data: target }),
+    });
+    if (response.status === 409) {
+      continue; // Another device pushed in between - merge again
+    }
+    if (!response.ok) {
+      throw new Error(await getErrorMessage(response));
+    }
+
+    const { revision } = await response.json();
+    saveSyncState(revision, target, syncedAt);
+    return { status: pulled ? 'merged' : 'pushed', revision, syncedAt };
+  }
+  return { status: 'error', message: 'Other devices kept changing the data - try again' };
+}
+
+let syncQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Sync with the server now (waits for a sync already running)
+ * `resolution` settles conflicting keys; without it a conflict writes nothing.
+ * The result is also dispatched as a `syncStatusChanged` event
+ */
+export function syncNow(resolution?: ConflictResolution): Promise<SyncResult> {
+  const run = async (): Promise<SyncResult> => {
+    let result: SyncResult;
+    try {
+      result = await runSync(resolution);
+    } catch (error) {
+      console.error('Error syncing with server:', error);
+      result = { status: 'error', message: error instanceof Error ? error.message : String(error) };
+    }
+    window.dispatchEvent(new CustomEvent('syncStatusChanged', { detail: result }));
+    return result;
+  };
+  const next = syncQueue.then(run, run);
+  syncQueue = next;
+  return next;
+}
+
+/**
+ * Sync on start and every minute while sync is enabled
+ * Returns a function that stops it
+ */
+export function startAutoSync(): () => void {
+  const run = () => {
+    if (getSyncSettings().enabled) {
+      syncNow();
+    }
+  };
+  run();
+  const interval = setInterval(run, SYNC_INTERVAL_MS);
+  return () => clearInterval(interval);
+}
@@ -0,0 +1,33 @@
+/**
+ * Shape of the data exchanged with the sync server (shared by app/api/sync and syncEngine.ts)
+ * A snapshot's data is every stored key with its raw value, across all workspaces
+ */
+
+export type SnapshotData = Record<string, string>;
+
+export interface DashboardSnapshot {
+  revision: number; // Bumped by every accepted push (0 = nothing pushed yet)
+  updatedAt: string; // ISO timestamp of the last accepted push
+  data: SnapshotData;
+}
+
+const SYNC_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+/**
+ * Check if a sync ID is usable: 8-64 letters, digits, dashes or underscores
+ */
+export function isValidSyncId(id: string): boolean {
+  return SYNC_ID_PATTERN.test(id);
+}
+
+/**
+ * Check if a value is snapshot data: an object of string values
+ */
+export function isSnapshotData(value: unknown): value is SnapshotData {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.values(value).every((item) => typeof item === 'string')
+  );
+}
@@ -0,0 +1,37 @@
+import { StorageSchema } from './storage';
+
+/**
+ * A todo item, saved per todo widget instance
+ */
+export interface Todo {
+  id: string;
+  text: string;
+  completed: boolean;
+}
+
+/**
+ * Validate saved todos, dropping malformed items (null if not a list at all)
+ */
+export function normalizeTodos(value: unknown): Todo[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const todos: Todo[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const { id, text, completed } = item as Record<string, unknown>;
+    if ((typeof id !== 'string' && typeof id !== 'number') || typeof text !== 'string') continue;
+    todos.push({ id: String(id), text, completed: completed === true });
+  }
+  return todos;
+}
+
+// Saved todo list format (see storage.ts)
+// Unversioned (version 0) lists already have this shape
+export const todosSchema: StorageSchema<Todo[]> = {
+  name: 'todos',
+  version: 1,
+  migrations: {},
+  parse: normalizeTodos,
+};
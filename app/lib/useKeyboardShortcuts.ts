@@ -3,6 +3,7 @@
 import { useEffect } from 'react';
 import { useFocus } from '@/app/components/FocusContext';
 import { getWidgetConfiguration, getNextFocusPosition } from './widgetConfig';
+import { getWorkspaceState } from './workspaces';
 
 /**
  * Checks if the user is currently editing text in an input, textarea, or contenteditable element
@@ -53,6 +54,16 @@ export function useKeyboardShortcuts() {
         return;
       }
 
+      // Ctrl/Cmd + K - Search notes and todos (also while editing text)
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && e.key.toLowerCase() === 'k') {
+        if (!document.querySelector('[data-settings-modal="true"]')) {
+          e.preventDefault();
+          e.stopPropagation();
+          window.dispatchEvent(new CustomEvent('openSearch'));
+        }
+        return;
+      }
+
       // Ignore shortcuts if modifier keys are pressed (CMD/Ctrl/Alt)
       // Shift is allowed as it's used intentionally for some shortcuts
       if (e.metaKey || e.ctrlKey || e.altKey) {
@@ -113,6 +124,27 @@ export function useKeyboardShortcuts() {
         return;
       }
 
+      // / - Search notes and todos
+      if (e.key === '/') {
+        e.preventDefault();
+        e.stopPropagation();
+        window.dispatchEvent(new CustomEvent('openSearch'));
+        return;
+      }
+
+      // Shift + 1-9 - Switch workspace
+      // Uses the physical key since Shift changes e.key (e.g. '!' on US layouts)
+      const digitMatch = /^Digit([1-9])$/.exec(e.code);
+      if (e.shiftKey && digitMatch) {
+        const workspace = getWorkspaceState().workspaces[parseInt(digitMatch[1]) - 1];
+        if (workspace) {
+          e.preventDefault();
+          e.stopPropagation();
+          window.dispatchEvent(new CustomEvent('switchWorkspace', { detail: workspace.id }));
+        }
+        return;
+      }
+
       // Keys 1-9 - Direct focus to widget position
       const numKey = parseInt(e.key);
       if (!isNaN(numKey) && numKey >= 1 && numKey <= 9) {
@@ -159,6 +191,23 @@ export function useKeyboardShortcuts() {
           window.dispatchEvent(new CustomEvent('importData'));
           return;
         }
+
+        // Shift + S - Settings for the focused widget
+        if (e.key === 'S' || e.key === 's') {
+          if (focusedPosition !== null) {
+            e.preventDefault();
+            window.dispatchEvent(new CustomEvent('openWidgetSettings', { detail: focusedPosition }));
+          }
+          return;
+        }
+
+        // Shift + L - Toggle Layout Editor
+        if (e.key === 'L' || e.key === 'l') {
+          e.preventDefault();
+          e.stopPropagation(); // Handled on both document and window; a second toggle would undo the first
+          window.dispatchEvent(new CustomEvent('toggleLayoutEditor'));
+          return;
+        }
       } else {
         // S - Open Settings Modal
         if (e.key === 'S' || e.key === 's') {
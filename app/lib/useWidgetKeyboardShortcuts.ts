@@ -69,6 +69,11 @@ export function useWidgetKeyboardShortcuts(
         return;
       }
 
+      // Ignore shortcuts while a settings modal is open
+      if (document.querySelector('[data-settings-modal="true"]')) {
+        return;
+      }
+
       // Check if this key has a handler
       const handler = shortcuts[e.key];
       if (handler) {
@@ -1,5 +1,19 @@
+// App-level flags that are still read in safe mode, so it doesn't re-run onboarding
+const SAFE_MODE_READABLE_KEYS = new Set(['onboardingCompleted', 'keyboardShortcutsShown', 'clockFormat']);
+
+/**
+ * Check if the dashboard was opened with `?safe`
+ * Safe mode ignores all saved dashboard and widget data and doesn't save changes,
+ * so a widget that crashes on its saved state can still be reached and reset
+ */
+export function isSafeMode(): boolean {
+  if (typeof window === 'undefined') return false;
+  return new URLSearchParams(window.location.search).has('safe');
+}
+
 export function getFromLocalStorage(key: string): string | null {
   if (typeof window === 'undefined') return null;
+  if (isSafeMode() && !SAFE_MODE_READABLE_KEYS.has(key)) return null;
   try {
     return localStorage.getItem(key);
   } catch (error) {
@@ -10,6 +24,7 @@ export function getFromLocalStorage(key: string): string | null {
 
 export function saveToLocalStorage(key: string, value: string): void {
   if (typeof window === 'undefined') return;
+  if (isSafeMode()) return;
   try {
     localStorage.setItem(key, value);
   } catch (error) {
@@ -19,6 +34,7 @@ export function saveToLocalStorage(key: string, value: string): void {
 
 export function removeFromLocalStorage(key: string): void {
   if (typeof window === 'undefined') return;
+  if (isSafeMode()) return;
   try {
     localStorage.removeItem(key);
   } catch (error) {
@@ -44,3 +60,25 @@ export function hasOnboardingCompleted(): boolean {
   }
 }
 
+/**
+ * Format a size in bytes for display (e.g. `12.34 KB`)
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+/**
+ * Save a file to the user's downloads
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
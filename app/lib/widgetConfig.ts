@@ -1,62 +1,170 @@
-import { WidgetType } from './widgetRegistry';
-import { getFromLocalStorage, saveToLocalStorage } from './utils';
+import { WidgetType, isValidWidgetType, getWidgetManifest, getWidgetDefinition } from './widgetRegistry';
+import { StorageSchema, readStoredValue, writeStoredValue } from './storage';
+import { getWorkspaceKey } from './workspaces';
+import { getStorageAdapter } from './storageAdapter';
+import { deleteImages } from './notepadImages';
+import { subscribeToStorageKey } from './crossTabSync';
+import { WidgetSettings, normalizeWidgetSettings } from './widgetSettings';
 
-export interface WidgetSlot {
-  position: number; // 1-5 (or more later)
+/**
+ * Placement of a slot on the dashboard grid
+ * Rows and columns are 1-based CSS grid lines; spans default to 1
+ */
+export interface GridPlacement {
+  row: number;
+  column: number;
+  rowSpan?: number;
+  columnSpan?: number;
+}
+
+export interface WidgetSlot extends GridPlacement {
+  position: number; // Focus order and 1-9 shortcut number
   widgetType: WidgetType | null; // null = empty slot
+  instanceId?: string; // Scopes the widget's saved data; the first instance of a type uses the type itself
+  settings?: WidgetSettings; // Per-instance options passed to the widget (see widgetSettings.ts)
 }
 
 export type WidgetConfiguration = WidgetSlot[];
 
+/**
+ * Resolved grid for rendering: slots with explicit spans plus grid dimensions
+ */
+export interface LayoutGrid {
+  slots: Array<WidgetSlot & { rowSpan: number; columnSpan: number }>;
+  rows: number;
+  columns: number;
+}
+
 const STORAGE_KEY = 'hyperdash-widget-config';
 
 /**
- * Default widget configuration
- * Position 1: Clock
- * Position 2: Weather
- * Position 3: System
- * Position 4: Todo
- * Position 5: Notepad
+ * Default widget configuration on a 3-row, 6-column grid
+ * Position 1: Clock (top row, left third)
+ * Position 2: Weather (top row, middle third)
+ * Position 3: System (top row, right third)
+ * Position 4: Todo (bottom two rows, left half)
+ * Position 5: Notepad (bottom two rows, right half)
  */
 const DEFAULT_CONFIGURATION: WidgetConfiguration = [
-  { position: 1, widgetType: 'clock' },
-  { position: 2, widgetType: 'weather' },
-  { position: 3, widgetType: 'system' },
-  { position: 4, widgetType: 'todo' },
-  { position: 5, widgetType: 'notepad' },
+  { position: 1, widgetType: 'clock', row: 1, column: 1, columnSpan: 2 },
+  { position: 2, widgetType: 'weather', row: 1, column: 3, columnSpan: 2 },
+  { position: 3, widgetType: 'system', row: 1, column: 5, columnSpan: 2 },
+  { position: 4, widgetType: 'todo', row: 2, column: 1, rowSpan: 2, columnSpan: 3 },
+  { position: 5, widgetType: 'notepad', row: 2, column: 4, rowSpan: 2, columnSpan: 3 },
 ];
 
 /**
- * Get widget configuration from localStorage or return default
+ * Grid placement for configurations saved before slots carried their own placement
+ * (positions 1-3 = top row, 4-5 = bottom row)
+ */
+const LEGACY_PLACEMENTS: Record<number, GridPlacement> = {
+  1: { row: 1, column: 1, columnSpan: 2 },
+  2: { row: 1, column: 3, columnSpan: 2 },
+  3: { row: 1, column: 5, columnSpan: 2 },
+  4: { row: 2, column: 1, rowSpan: 2, columnSpan: 3 },
+  5: { row: 2, column: 4, rowSpan: 2, columnSpan: 3 },
+};
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+/**
+ * Normalize a parsed configuration
+ * Drops malformed slots and fills in grid placement for legacy slots
+ * Returns null if nothing usable remains
  */
-export function getWidgetConfiguration(): WidgetConfiguration {
-  const saved = getFromLocalStorage(STORAGE_KEY);
-  if (!saved) {
-    return DEFAULT_CONFIGURATION;
+export function normalizeWidgetConfiguration(value: unknown): WidgetConfiguration | null {
+  if (!Array.isArray(value)) {
+    return null;
   }
 
-  try {
-    const parsed = JSON.parse(saved) as WidgetConfiguration;
-    // Validate configuration structure
-    if (Array.isArray(parsed) && parsed.length > 0) {
-      return parsed;
+  const slots: WidgetSlot[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const raw = item as Record<string, unknown>;
+    if (!isPositiveInteger(raw.position)) continue;
+    if (slots.some((slot) => slot.position === raw.position)) continue;
+
+    const widgetType =
+      typeof raw.widgetType === 'string' && isValidWidgetType(raw.widgetType)
+        ? raw.widgetType
+        : null;
+
+    let placement: GridPlacement | undefined;
+    if (isPositiveInteger(raw.row) && isPositiveInteger(raw.column)) {
+      placement = {
+        row: raw.row,
+        column: raw.column,
+        rowSpan: isPositiveInteger(raw.rowSpan) ? raw.rowSpan : 1,
+        columnSpan: isPositiveInteger(raw.columnSpan) ? raw.columnSpan : 1,
+      };
+    } else {
+      placement = LEGACY_PLACEMENTS[raw.position];
     }
-    return DEFAULT_CONFIGURATION;
-  } catch (error) {
-    console.error('Error parsing widget configuration:', error);
-    return DEFAULT_CONFIGURATION;
+
+    if (!placement) continue;
+
+    const slot: WidgetSlot = { position: raw.position, widgetType, ...placement };
+    if (widgetType !== null) {
+      // Keep saved instance IDs; legacy and duplicate slots get the primary ID if free
+      const usedIds = new Set(slots.map((other) => other.instanceId));
+      let instanceId =
+        typeof raw.instanceId === 'string' && raw.instanceId && !usedIds.has(raw.instanceId)
+          ? raw.instanceId
+          : usedIds.has(widgetType)
+            ? `${widgetType}-${raw.position}`
+            : widgetType;
+      while (usedIds.has(instanceId)) {
+        instanceId = `${instanceId}-${raw.position}`;
+      }
+      slot.instanceId = instanceId;
+
+      const settings = normalizeWidgetSettings(widgetType, raw.settings);
+      if (settings) {
+        slot.settings = settings;
+      }
+    }
+    slots.push(slot);
   }
+
+  return slots.length > 0 ? slots : null;
 }
 
+// Saved configuration format (see storage.ts)
+// Unversioned (version 0) configs are already slot arrays; slots saved before grid
+// placement existed are upgraded by normalizeWidgetConfiguration()
+export const widgetConfigSchema: StorageSchema<WidgetConfiguration> = {
+  name: 'widget configuration',
+  version: 1,
+  migrations: {},
+  parse: normalizeWidgetConfiguration,
+};
+
 /**
- * Save widget configuration to localStorage
+ * Get widget configuration from localStorage or return default
+ * Reads the given workspace's configuration (this tab's active workspace if omitted)
  */
-export function saveWidgetConfiguration(config: WidgetConfiguration): void {
-  try {
-    saveToLocalStorage(STORAGE_KEY, JSON.stringify(config));
-  } catch (error) {
-    console.error('Error saving widget configuration:', error);
-  }
+export function getWidgetConfiguration(workspaceId?: string): WidgetConfiguration {
+  return readStoredValue(getWorkspaceKey(STORAGE_KEY, workspaceId), widgetConfigSchema) ?? DEFAULT_CONFIGURATION;
+}
+
+/**
+ * Listen for a workspace's widget configuration changes saved in other tabs
+ * Returns a function that stops listening
+ */
+export function subscribeToWidgetConfiguration(
+  listener: (config: WidgetConfiguration) => void,
+  workspaceId?: string
+): () => void {
+  const key = getWorkspaceKey(STORAGE_KEY, workspaceId);
+  return subscribeToStorageKey(key, () => listener(readStoredValue(key, widgetConfigSchema) ?? DEFAULT_CONFIGURATION));
+}
+
+/**
+ * Save widget configuration to localStorage (this tab's active workspace if no workspace is given)
+ */
+export function saveWidgetConfiguration(config: WidgetConfiguration, workspaceId?: string): void {
+  writeStoredValue(getWorkspaceKey(STORAGE_KEY, workspaceId), widgetConfigSchema, config);
 }
 
 /**
@@ -78,33 +186,161 @@ export function getWidgetsSortedByPosition(): WidgetSlot[] {
 }
 
 /**
- * Calculate layout slots for rendering
- * Positions 1-3 → top row (3 columns)
- * Positions 4-5 → bottom row (2 columns)
- * Future: Layout can be configurable
+ * Calculate layout grid for rendering
+ * Grid size is derived from the furthest row/column any slot reaches
  */
-export function getLayoutSlots(config: WidgetConfiguration): {
-  topRow: WidgetSlot[];
-  bottomRow: WidgetSlot[];
-} {
-  const sorted = [...config].sort((a, b) => a.position - b.position);
-  
-  const topRow = sorted.filter((slot) => slot.position >= 1 && slot.position <= 3);
-  const bottomRow = sorted.filter((slot) => slot.position >= 4 && slot.position <= 5);
-
-  // Ensure top row has 3 slots and bottom row has 2 slots
-  // Fill with empty slots if needed
-  while (topRow.length < 3) {
-    const nextPosition = topRow.length + 1;
-    topRow.push({ position: nextPosition, widgetType: null });
+export function getLayoutSlots(config: WidgetConfiguration): LayoutGrid {
+  const slots = [...config]
+    .sort((a, b) => a.position - b.position)
+    .map((slot) => ({
+      ...slot,
+      rowSpan: slot.rowSpan ?? 1,
+      columnSpan: slot.columnSpan ?? 1,
+    }));
+
+  const rows = Math.max(1, ...slots.map((slot) => slot.row + slot.rowSpan - 1));
+  const columns = Math.max(1, ...slots.map((slot) => slot.column + slot.columnSpan - 1));
+
+  return { slots, rows, columns };
+}
+
+/**
+ * Swap the widgets in two slots (moving into an empty slot leaves the source empty)
+ * Grid placement stays with the slot; only widget assignments move
+ */
+export function swapSlotWidgets(
+  config: WidgetConfiguration,
+  fromPosition: number,
+  toPosition: number
+): WidgetConfiguration {
+  const from = config.find((slot) => slot.position === fromPosition);
+  const to = config.find((slot) => slot.position === toPosition);
+  if (!from || !to || fromPosition === toPosition) {
+    return config;
   }
-  
-  while (bottomRow.length < 2) {
-    const nextPosition = bottomRow.length + 4;
-    bottomRow.push({ position: nextPosition, widgetType: null });
+
+  // Instance IDs and settings travel with the widget so its data follows it
+  const widgetOf = ({ widgetType, instanceId, settings }: WidgetSlot) => ({ widgetType, instanceId, settings });
+  return config.map((slot) => {
+    if (slot.position === fromPosition) return { ...slot, ...widgetOf(to) };
+    if (slot.position === toPosition) return { ...slot, ...widgetOf(from) };
+    return slot;
+  });
+}
+
+/**
+ * Assign a widget type to a slot (null clears the slot)
+ * New widgets get their own instance ID so they don't share data with other slots
+ */
+export function setSlotWidget(
+  config: WidgetConfiguration,
+  position: number,
+  widgetType: WidgetType | null
+): WidgetConfiguration {
+  return config.map((slot) => {
+    if (slot.position !== position || slot.widgetType === widgetType) {
+      return slot;
+    }
+    return {
+      ...slot,
+      widgetType,
+      instanceId: widgetType === null ? undefined : createInstanceId(config, widgetType),
+      settings: undefined,
+    };
+  });
+}
+
+/**
+ * Add a new slot for a widget in a new row below the grid, sized by the widget's preferred size
+ */
+export function addWidgetSlot(config: WidgetConfiguration, widgetType: WidgetType): WidgetConfiguration {
+  const { rows, columns } = getLayoutSlots(config);
+  const { minSize, preferredSize } = getWidgetManifest(widgetType);
+  const slot: WidgetSlot = {
+    position: Math.max(0, ...config.map((s) => s.position)) + 1,
+    widgetType,
+    instanceId: createInstanceId(config, widgetType),
+    row: config.length > 0 ? rows + 1 : 1,
+    column: 1,
+    rowSpan: preferredSize.rowSpan,
+    // Stay within the grid's width, unless the widget needs more than that to be usable
+    columnSpan: config.length > 0
+      ? Math.max(minSize.columnSpan, Math.min(preferredSize.columnSpan, columns))
+      : preferredSize.columnSpan,
+  };
+  return [...config, slot];
+}
+
+/**
+ * Replace the settings of the widget in a slot (empty settings are removed)
+ */
+export function setSlotSettings(
+  config: WidgetConfiguration,
+  position: number,
+  settings: unknown
+): WidgetConfiguration {
+  return config.map((slot) =>
+    slot.position === position && slot.widgetType !== null
+      ? { ...slot, settings: normalizeWidgetSettings(slot.widgetType, settings) }
+      : slot
+  );
+}
+
+/**
+ * Create an instance ID for a new widget of the given type
+ * The first instance of a type uses the type itself so it picks up data saved before instances existed
+ */
+export function createInstanceId(config: WidgetConfiguration, widgetType: WidgetType): string {
+  const primaryInUse = config.some(
+    (slot) => slot.widgetType === widgetType && (slot.instanceId ?? slot.widgetType) === widgetType
+  );
+  if (!primaryInUse) return widgetType;
+
+  // Saved data is keyed by the ID, so it must differ from every other slot's
+  const baseId = `${widgetType}-${Date.now().toString(36)}`;
+  let id = baseId;
+  for (let n = 1; config.some((slot) => slot.instanceId === id); n++) {
+    id = `${baseId}-${n}`;
   }
+  return id;
+}
 
-  return { topRow, bottomRow };
+/**
+ * Storage key for one widget instance's data
+ * The primary instance (ID = widget type, or no ID) keeps the original key
+ */
+export function getInstanceStorageKey(key: string, widgetType: WidgetType, instanceId?: string): string {
+  return !instanceId || instanceId === widgetType ? key : `${key}:${instanceId}`;
+}
+
+/**
+ * Delete everything a widget instance has saved in a workspace (its definition's storageKeys)
+ * Removes the keys directly rather than through the storage helpers so it also works in safe mode
+ */
+export async function clearWidgetData(
+  widgetType: WidgetType,
+  instanceId: string | undefined,
+  workspaceId: string
+): Promise<void> {
+  if (typeof window === 'undefined') return;
+  const keys = (getWidgetDefinition(widgetType)?.storageKeys ?? []).map((key) =>
+    getWorkspaceKey(getInstanceStorageKey(key, widgetType, instanceId), workspaceId)
+  );
+  for (const key of keys) {
+    try {
+      localStorage.removeItem(key);
+    } catch (error) {
+      console.error('Error clearing widget data:', error);
+    }
+  }
+
+  try {
+    const adapter = await getStorageAdapter();
+    await Promise.all(keys.map((key) => adapter.remove(key)));
+    await deleteImages((owner) => keys.includes(owner));
+  } catch (error) {
+    console.error('Error clearing widget data:', error);
+  }
 }
 
 /**
@@ -1,23 +1,311 @@
 import React from 'react';
+import type { WidgetSettingField } from './widgetSettings';
 
-export type WidgetType = 'clock' | 'weather' | 'system' | 'todo' | 'notepad';
+export type BuiltInWidgetType = 'clock' | 'weather' | 'system' | 'todo' | 'notepad';
+
+// Built-in types plus the IDs of registered plugin widgets
+// (`string & {}` keeps editor completion for the built-in names)
+export type WidgetType = BuiltInWidgetType | (string & {});
 
 export interface WidgetComponentProps {
   [key: string]: any;
 }
 
-// Dynamic import registry for code splitting
+export type WidgetLoader = () => Promise<{ default: React.ComponentType<WidgetComponentProps> }>;
+
+/**
+ * Grid size in rows and columns
+ */
+export interface WidgetSize {
+  rowSpan: number;
+  columnSpan: number;
+}
+
+/**
+ * Shortcut listed for a widget on the keyboard shortcuts screens
+ */
+export interface WidgetShortcutInfo {
+  key: string;
+  description: string;
+}
+
+/**
+ * Browser features a widget depends on, shown before it asks for them
+ */
+export interface WidgetCapabilities {
+  network?: boolean; // Fetches data from the internet
+  geolocation?: boolean; // Asks for the current location
+}
+
+/**
+ * What the dashboard shows about a widget: the layout editor, shortcut screens,
+ * onboarding and Settings read this instead of hard-coding widget details
+ */
+export interface WidgetManifest {
+  name: string; // Title in the layout editor, shortcut screens and Settings
+  description?: string; // One line about what the widget does
+  icon?: string; // Single glyph shown next to the name (inherits the reactive text color)
+  minSize?: WidgetSize; // Smallest slot the widget is usable in
+  preferredSize?: WidgetSize; // Size of a new slot added from the layout editor
+  capabilities?: WidgetCapabilities;
+  shortcuts?: WidgetShortcutInfo[]; // Keys handled while the widget is focused
+}
+
+/**
+ * Everything the dashboard needs to know about a widget type
+ * Built-in widgets and plugins (see registerWidget) use the same shape
+ */
+export interface WidgetDefinition extends WidgetManifest {
+  id: string; // Stored in WidgetSlot.widgetType - lowercase letters, digits and dashes
+  load: WidgetLoader; // Dynamic import, only called once the widget is placed
+  settings?: WidgetSettingField[]; // Per-instance settings schema (with optional defaults)
+  storageKeys?: string[]; // Base localStorage keys the widget saves to (scoped per instance and workspace)
+  singleInstance?: boolean; // Can only be placed once (e.g. owns global UI)
+}
+
+/**
+ * Manifest with every optional field filled in
+ */
+export type ResolvedWidgetManifest = Required<WidgetManifest>;
+
+const DEFAULT_WIDGET_ICON = '▢';
+const DEFAULT_MIN_SIZE: WidgetSize = { rowSpan: 1, columnSpan: 1 };
+const DEFAULT_PREFERRED_SIZE: WidgetSize = { rowSpan: 1, columnSpan: 2 };
+
+const WIDGET_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+// Built-in widgets
 // Each widget is only loaded when assigned to a slot
-const widgetComponents: Record<
-  WidgetType,
-  () => Promise<{ default: React.ComponentType<WidgetComponentProps> }>
-> = {
-  clock: () => import('../components/ClockWidget'),
-  weather: () => import('../components/WeatherWidget'),
-  system: () => import('../components/SystemInfoWidget'),
-  todo: () => import('../components/TodoWidget'),
-  notepad: () => import('../components/NotepadWidget'),
-};
+const builtInWidgets: WidgetDefinition[] = [
+  {
+    id: 'clock',
+    name: 'Clock',
+    description: 'Current time and date with a Pomodoro timer',
+    icon: '◷',
+    load: () => import('../components/ClockWidget'),
+    settings: [
+      {
+        key: 'timezone',
+        label: 'Time zone',
+        type: 'timezone',
+        description: 'Show the time in another time zone',
+      },
+    ],
+    storageKeys: ['pomodoroTimeLeft', 'pomodoroIsRunning', 'pomodoroMode', 'pomodoroCount'],
+    minSize: { rowSpan: 1, columnSpan: 1 },
+    preferredSize: { rowSpan: 1, columnSpan: 2 },
+    shortcuts: [
+      { key: 'Space', description: 'Start/Pause Pomodoro timer' },
+      { key: 'R', description: 'Reset Pomodoro timer' },
+      { key: 'K', description: 'Skip Pomodoro session' },
+    ],
+  },
+  {
+    id: 'weather',
+    name: 'Weather',
+    description: 'Current conditions and forecast for your location or a chosen city',
+    icon: '☁',
+    load: () => import('../components/WeatherWidget'),
+    settings: [
+      {
+        key: 'location',
+        label: 'Location',
+        type: 'text',
+        placeholder: 'Current location',
+        description: 'City name, e.g. "Berlin" or "Austin". Leave empty to use your current location',
+      },
+    ],
+    minSize: { rowSpan: 1, columnSpan: 1 },
+    preferredSize: { rowSpan: 1, columnSpan: 2 },
+    capabilities: { network: true, geolocation: true },
+  },
+  {
+    id: 'system',
+    name: 'System Info',
+    description: 'Browser and storage details, plus the dashboard Settings',
+    icon: '⚙',
+    load: () => import('../components/SystemInfoWidget'),
+    minSize: { rowSpan: 1, columnSpan: 1 },
+    preferredSize: { rowSpan: 1, columnSpan: 2 },
+    // Owns the settings modal, so only one instance can be placed
+    singleInstance: true,
+  },
+  {
+    id: 'todo',
+    name: 'Todo List',
+    description: 'Tasks you can reorder, edit and check off',
+    icon: '☑',
+    load: () => import('../components/TodoWidget'),
+    settings: [
+      {
+        key: 'listName',
+        label: 'List name',
+        type: 'text',
+        placeholder: 'Todo List',
+      },
+    ],
+    storageKeys: ['hyperdash-todos', 'hyperdash-show-completed'],
+    minSize: { rowSpan: 1, columnSpan: 2 },
+    preferredSize: { rowSpan: 2, columnSpan: 3 },
+    shortcuts: [
+      { key: 'N', description: 'Focus new todo input' },
+      { key: 'C', description: 'Toggle show/hide completed todos' },
+      { key: 'X', description: 'Clear all completed todos' },
+      { key: '↑ / ↓', description: 'Navigate todos' },
+      { key: 'Enter', description: 'Edit selected todo (or focus input)' },
+      { key: 'Space', description: 'Toggle completion of selected todo' },
+      { key: 'Backspace', description: 'Delete selected todo' },
+      { key: 'Escape', description: 'Clear selection / Close dialogs' },
+    ],
+  },
+  {
+    id: 'notepad',
+    name: 'Notepad',
+    description: 'Tabbed notes with links and images',
+    icon: '✎',
+    load: () => import('../components/NotepadWidget'),
+    settings: [
+      {
+        key: 'title',
+        label: 'Title',
+        type: 'text',
+        placeholder: 'Notepad',
+      },
+      {
+        key: 'trashRetentionDays',
+        label: 'Keep closed tabs',
+        type: 'select',
+        options: [
+          { value: '1', label: '1 day' },
+          { value: '7', label: '7 days' },
+          { value: '30', label: '30 days' },
+          { value: '90', label: '90 days' },
+          { value: '365', label: '1 year' },
+        ],
+        description: 'Closed tabs can be reopened from the trash (⋯ menu) until then',
+        defaultValue: '30',
+      },
+      {
+        key: 'linkPreviews',
+        label: 'Link previews',
+        type: 'select',
+        options: [
+          { value: 'off', label: 'Off' },
+          { value: 'hover', label: 'On hover' },
+          { value: 'inline', label: 'On hover and below the text' },
+        ],
+        description: 'Title, description and icon of linked pages, loaded through the dashboard server',
+        defaultValue: 'off',
+      },
+    ],
+    storageKeys: ['hyperdash-notepad', 'hyperdash-notepad-history', 'hyperdash-notepad-trash'],
+    minSize: { rowSpan: 1, columnSpan: 2 },
+    preferredSize: { rowSpan: 2, columnSpan: 3 },
+    shortcuts: [
+      { key: 'Enter', description: 'Focus editor' },
+      { key: 'Ctrl + T', description: 'New tab' },
+      { key: 'Ctrl + W', description: 'Close tab' },
+      { key: 'Ctrl + R', description: 'Rename tab' },
+      { key: 'Ctrl + I', description: 'Add image' },
+      { key: 'Ctrl + Alt + ← / →', description: 'Cycle tabs' },
+      { key: 'Ctrl + 1-9', description: 'Switch to pinned tab by number' },
+      { key: 'Ctrl + Alt + O', description: 'Find tab' },
+      { key: 'Ctrl + Alt + Z', description: 'Reopen closed tab' },
+      { key: 'Ctrl + Enter', description: 'Follow [[link]] at the cursor' },
+    ],
+  },
+];
+
+const widgetDefinitions = new Map<string, WidgetDefinition>(
+  builtInWidgets.map((definition) => [definition.id, definition])
+);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1;
+
+/**
+ * Find what's wrong with a plugin definition (null if it is valid)
+ */
+function getDefinitionError(definition: WidgetDefinition): string | null {
+  if (typeof definition.id !== 'string' || !WIDGET_ID_PATTERN.test(definition.id)) {
+    return 'id must start with a letter and contain only lowercase letters, digits and dashes';
+  }
+  if (widgetDefinitions.has(definition.id)) {
+    return 'a widget with this id is already registered';
+  }
+  if (typeof definition.name !== 'string' || !definition.name.trim()) {
+    return 'name is required';
+  }
+  if (typeof definition.load !== 'function') {
+    return 'load must be a function returning a dynamic import';
+  }
+  for (const sizeKey of ['minSize', 'preferredSize'] as const) {
+    const size = definition[sizeKey];
+    if (size && (!isPositiveInteger(size.rowSpan) || !isPositiveInteger(size.columnSpan))) {
+      return `${sizeKey} spans must be positive integers`;
+    }
+  }
+  if (
+    definition.minSize &&
+    definition.preferredSize &&
+    (definition.preferredSize.rowSpan < definition.minSize.rowSpan ||
+      definition.preferredSize.columnSpan < definition.minSize.columnSpan)
+  ) {
+    return 'preferredSize must not be smaller than minSize';
+  }
+  if (
+    definition.storageKeys &&
+    !definition.storageKeys.every((key) => typeof key === 'string' && key.length > 0)
+  ) {
+    return 'storageKeys must be non-empty strings';
+  }
+  if (definition.icon !== undefined && (typeof definition.icon !== 'string' || !definition.icon.trim())) {
+    return 'icon must be a non-empty string';
+  }
+  if (definition.settings) {
+    const keys = new Set<string>();
+    for (const field of definition.settings) {
+      if (!field.key || keys.has(field.key)) {
+        return `settings field keys must be unique and non-empty (got "${field.key}")`;
+      }
+      if (field.type !== 'text' && field.type !== 'timezone' && field.type !== 'select') {
+        return `settings field "${field.key}" has an unknown type`;
+      }
+      if (field.type === 'select' && !(Array.isArray(field.options) && field.options.length > 0)) {
+        return `settings field "${field.key}" needs options`;
+      }
+      keys.add(field.key);
+    }
+  }
+  return null;
+}
+
+/**
+ * Register a plugin widget
+ * Once registered the widget is a valid widget type: it can be placed from the layout
+ * editor, saved in layouts and its shortcuts show up on the shortcut screens
+ * Returns false (and logs why) if the definition is invalid or the id is taken
+ */
+export function registerWidget(definition: WidgetDefinition): boolean {
+  const error = getDefinitionError(definition);
+  if (error) {
+    console.error(`Error registering widget "${definition.id}": ${error}`);
+    return false;
+  }
+
+  widgetDefinitions.set(definition.id, { ...definition, name: definition.name.trim() });
+  return true;
+}
+
+/**
+ * Remove a plugin widget (built-in widgets can't be removed)
+ */
+export function unregisterWidget(type: string): boolean {
+  if (isBuiltInWidgetType(type)) {
+    return false;
+  }
+  return widgetDefinitions.delete(type);
+}
 
 /**
  * Load a widget component dynamically
@@ -27,21 +315,106 @@ const widgetComponents: Record<
 export async function loadWidget(
   type: WidgetType
 ): Promise<React.ComponentType<WidgetComponentProps>> {
-  const widgetModule = await widgetComponents[type]();
+  const definition = widgetDefinitions.get(type);
+  if (!definition) {
+    throw new Error(`Unknown widget type: ${type}`);
+  }
+  const widgetModule = await definition.load();
   return widgetModule.default;
 }
 
 /**
- * Check if a widget type is valid
+ * Check if a widget type is valid (built in or registered)
  */
 export function isValidWidgetType(type: string): type is WidgetType {
-  return type in widgetComponents;
+  return widgetDefinitions.has(type);
 }
 
 /**
- * Get all available widget types
+ * Check if a widget type ships with the dashboard
+ */
+export function isBuiltInWidgetType(type: string): type is BuiltInWidgetType {
+  return builtInWidgets.some((definition) => definition.id === type);
+}
+
+/**
+ * Get all available widget types (built-in first, then plugins in registration order)
  */
 export function getAvailableWidgetTypes(): WidgetType[] {
-  return Object.keys(widgetComponents) as WidgetType[];
+  return Array.from(widgetDefinitions.keys());
 }
 
+/**
+ * Get the full definition of a widget type
+ */
+export function getWidgetDefinition(type: WidgetType): WidgetDefinition | undefined {
+  return widgetDefinitions.get(type);
+}
+
+/**
+ * Check if a widget type can only have one instance on the dashboard
+ */
+export function isSingleInstanceWidget(type: WidgetType): boolean {
+  return widgetDefinitions.get(type)?.singleInstance ?? false;
+}
+
+/**
+ * Get the display name for a widget type
+ */
+export function getWidgetDisplayName(type: WidgetType): string {
+  return widgetDefinitions.get(type)?.name ?? type;
+}
+
+/**
+ * Get the manifest for a widget type, with defaults for anything it leaves out
+ * (unknown types get a placeholder manifest named after the type)
+ */
+export function getWidgetManifest(type: WidgetType): ResolvedWidgetManifest {
+  const definition = widgetDefinitions.get(type);
+  const minSize = definition?.minSize ?? DEFAULT_MIN_SIZE;
+  const preferredSize = definition?.preferredSize ?? {
+    rowSpan: Math.max(DEFAULT_PREFERRED_SIZE.rowSpan, minSize.rowSpan),
+    columnSpan: Math.max(DEFAULT_PREFERRED_SIZE.columnSpan, minSize.columnSpan),
+  };
+
+  return {
+    name: definition?.name ?? type,
+    description: definition?.description ?? '',
+    icon: definition?.icon ?? DEFAULT_WIDGET_ICON,
+    minSize,
+    preferredSize,
+    capabilities: definition?.capabilities ?? {},
+    shortcuts: definition?.shortcuts ?? [],
+  };
+}
+
+/**
+ * Human-readable list of what a widget needs from the browser, e.g. ['Internet', 'Location']
+ */
+export function getWidgetCapabilityLabels(type: WidgetType): string[] {
+  const { capabilities } = getWidgetManifest(type);
+  const labels: string[] = [];
+  if (capabilities.network) labels.push('Internet');
+  if (capabilities.geolocation) labels.push('Location');
+  return labels;
+}
+
+/**
+ * Check if a slot of the given size is smaller than the widget's minimum size
+ */
+export function isBelowMinSize(type: WidgetType, size: WidgetSize): boolean {
+  const { minSize } = getWidgetManifest(type);
+  return size.rowSpan < minSize.rowSpan || size.columnSpan < minSize.columnSpan;
+}
+
+/**
+ * Shortcut groups for every widget that has shortcuts, for the shortcut screens
+ */
+export function getWidgetShortcutGroups(): Array<{ title: string; shortcuts: WidgetShortcutInfo[] }> {
+  return Array.from(widgetDefinitions.values())
+    .filter((definition) => definition.shortcuts?.length)
+    .map((definition) => ({
+      title: `${definition.name} Widget`,
+      shortcuts: definition.shortcuts ?? [],
+    }));
+}
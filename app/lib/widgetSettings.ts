@@ -0,0 +1,130 @@
+import { BuiltInWidgetType, WidgetType, getWidgetDefinition } from './widgetRegistry';
+
+/**
+ * Per-instance widget settings
+ * Stored on each WidgetSlot and passed to the widget as its `settings` prop;
+ * every field is optional so a missing value means "use the widget's default"
+ */
+
+export interface ClockSettings {
+  timezone?: string; // IANA time zone, e.g. 'Europe/Berlin' (default: local time)
+}
+
+export interface WeatherSettings {
+  location?: string; // Place name to look up (default: browser geolocation)
+}
+
+export interface TodoSettings {
+  listName?: string; // Widget title (default: 'Todo List')
+}
+
+export interface NotepadSettings {
+  title?: string; // Widget title (default: 'Notepad')
+  trashRetentionDays?: string; // Days closed tabs are kept (default: '30')
+  linkPreviews?: string; // 'off', 'hover' or 'inline' (see linkPreview.ts; default: 'off')
+}
+
+export interface WidgetSettingsMap {
+  clock: ClockSettings;
+  weather: WeatherSettings;
+  system: Record<string, never>;
+  todo: TodoSettings;
+  notepad: NotepadSettings;
+}
+
+// Plugin widgets store plain string settings described by their schema
+export type WidgetSettings = WidgetSettingsMap[BuiltInWidgetType] | Record<string, string>;
+
+export interface WidgetSettingOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Describes one editable setting for the widget settings panel
+ * Widget definitions list these as their settings schema (see widgetRegistry.ts)
+ */
+export interface WidgetSettingField {
+  key: string;
+  label: string;
+  type: 'text' | 'timezone' | 'select';
+  options?: WidgetSettingOption[]; // Choices of a 'select' field
+  placeholder?: string;
+  description?: string;
+  defaultValue?: string; // Passed to the widget when the instance hasn't set this field
+}
+
+/**
+ * Get the editable settings for a widget type
+ */
+export function getWidgetSettingsFields(type: WidgetType): WidgetSettingField[] {
+  return getWidgetDefinition(type)?.settings ?? [];
+}
+
+/**
+ * Check if a string is a time zone the browser understands
+ */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the time zones offered by the clock settings (empty if the browser can't list them)
+ */
+export function getTimeZoneOptions(): string[] {
+  try {
+    return Intl.supportedValuesOf('timeZone');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Normalize saved settings for a widget type
+ * Keeps known fields with non-empty string values; returns undefined when nothing is set
+ */
+export function normalizeWidgetSettings(
+  type: WidgetType,
+  value: unknown
+): WidgetSettings | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const raw = value as Record<string, unknown>;
+  const settings: Record<string, string> = {};
+  for (const field of getWidgetSettingsFields(type)) {
+    const fieldValue = raw[field.key];
+    if (typeof fieldValue !== 'string' || !fieldValue.trim()) continue;
+    if (field.type === 'timezone' && !isValidTimeZone(fieldValue)) continue;
+    if (field.type === 'select' && !field.options?.some((option) => option.value === fieldValue.trim())) continue;
+    settings[field.key] = fieldValue.trim();
+  }
+
+  return Object.keys(settings).length > 0 ? (settings as WidgetSettings) : undefined;
+}
+
+/**
+ * Settings passed to a widget: schema defaults overlaid with the instance's own settings
+ */
+export function resolveWidgetSettings(
+  type: WidgetType,
+  settings: WidgetSettings | undefined
+): WidgetSettings | undefined {
+  const defaults: Record<string, string> = {};
+  for (const field of getWidgetSettingsFields(type)) {
+    if (field.defaultValue) {
+      defaults[field.key] = field.defaultValue;
+    }
+  }
+
+  if (Object.keys(defaults).length === 0) {
+    return settings;
+  }
+  return { ...defaults, ...settings } as WidgetSettings;
+}
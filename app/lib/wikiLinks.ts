@@ -0,0 +1,135 @@
+import { NotepadTab } from './notepadData';
+import { WIKI_LINK_PATTERN, getTabPlainText } from './markdown';
+import { fuzzyMatch } from './search';
+
+/**
+ * Wiki links - `[[Tab name]]` links between the tabs of a notepad
+ * Links are plain text in the note, so they survive exports, Markdown conversion and search.
+ * They match tab names ignoring case and extra spaces; following a link to a tab that doesn't
+ * exist creates it. A tab's backlinks are the other tabs that link to it
+ */
+
+export interface WikiLinkSuggestion {
+  name: string;
+  tabId?: string; // Missing for the "new tab" suggestion
+}
+
+export const MAX_WIKI_LINK_SUGGESTIONS = 8;
+
+/**
+ * Tab name as links are compared: lowercase, spaces collapsed
+ */
+export function normalizeTabName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Names linked from a text, in order and without duplicates
+ */
+export function getWikiLinks(text: string): string[] {
+  const names = new Map<string, string>();
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    const key = normalizeTabName(match[1]);
+    if (!names.has(key)) names.set(key, match[1]);
+  }
+  return Array.from(names.values());
+}
+
+// Normalized link targets per tab. Tabs are replaced rather than changed, so only edited tabs are read again
+const linkTargets = new WeakMap<NotepadTab, Set<string>>();
+
+function getLinkTargets(tab: NotepadTab): Set<string> {
+  let targets = linkTargets.get(tab);
+  if (!targets) {
+    targets = new Set(getWikiLinks(getTabPlainText(tab)).map(normalizeTabName));
+    linkTargets.set(tab, targets);
+  }
+  return targets;
+}
+
+/**
+ * The tab a link points to (the first one if several tabs have the name)
+ */
+export function findTabByName(tabs: NotepadTab[], name: string): NotepadTab | undefined {
+  const key = normalizeTabName(name);
+  return tabs.find((tab) => normalizeTabName(tab.name) === key);
+}
+
+/**
+ * Other tabs that link to a tab, in tab bar order
+ */
+export function getBacklinks(tabs: NotepadTab[], tab: NotepadTab): NotepadTab[] {
+  const key = normalizeTabName(tab.name);
+  return tabs.filter((other) => other.id !== tab.id && getLinkTargets(other).has(key));
+}
+
+/**
+ * The name typed so far when the caret is inside an unclosed `[[` (null otherwise)
+ */
+export function getWikiLinkQuery(textBeforeCaret: string): string | null {
+  return textBeforeCaret.match(/\[\[([^[\]\n]*)$/)?.[1] ?? null;
+}
+
+/**
+ * The name of the link at a position in a text (null if there's no link there)
+ */
+export function getWikiLinkAt(text: string, offset: number): string | null {
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    if (offset >= match.index && offset <= match.index + match[0].length) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+/**
+ * Tabs to complete a link with, best fuzzy match first, then a new tab named `query` if no
+ * tab has that name. The tab being edited isn't suggested
+ */
+export function getWikiLinkSuggestions(tabs: NotepadTab[], query: string, currentTabId: string | null): WikiLinkSuggestion[] {
+  const name = query.trim();
+  const suggestions = tabs
+    .filter((tab) => tab.id !== currentTabId)
+    .map((tab) => ({ tab, match: fuzzyMatch(name, tab.name) }))
+    .filter(({ match }) => match !== null)
+    .sort((a, b) => b.match!.score - a.match!.score) // Stable, so ties keep tab bar order
+    .slice(0, MAX_WIKI_LINK_SUGGESTIONS)
+    .map<WikiLinkSuggestion>(({ tab }) => ({ name: tab.name, tabId: tab.id }));
+
+  if (name && !findTabByName(tabs, name)) {
+    suggestions.push({ name });
+  }
+  return suggestions;
+}
+
+const HIGHLIGHT_NAME = 'notepad-wiki-link';
+const highlightedRanges = new Map<string, Range[]>();
+
+/**
+ * Mark the `[[links]]` in a rich text editor with the CSS Custom Highlight API, styled as
+ * `::highlight(notepad-wiki-link)`, without changing the note. `owner` tells editors apart;
+ * pass null as `root` to remove an editor's highlights. Does nothing in older browsers
+ */
+export function highlightWikiLinks(owner: string, root: HTMLElement | null): void {
+  if (typeof CSS === 'undefined' || !('highlights' in CSS) || typeof Highlight === 'undefined') return;
+
+  const ranges: Range[] = [];
+  if (root) {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      for (const match of (node.textContent ?? '').matchAll(WIKI_LINK_PATTERN)) {
+        const range = document.createRange();
+        range.setStart(node, match.index);
+        range.setEnd(node, match.index + match[0].length);
+        ranges.push(range);
+      }
+    }
+  }
+
+  if (ranges.length > 0) {
+    highlightedRanges.set(owner, ranges);
+  } else {
+    highlightedRanges.delete(owner);
+  }
+  CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...Array.from(highlightedRanges.values()).flat()));
+}
@@ -0,0 +1,251 @@
+import { removeFromLocalStorage } from './utils';
+import { StorageSchema, readStoredValue, writeStoredValue } from './storage';
+import { getStorageAdapter } from './storageAdapter';
+import { deleteImages } from './notepadImages';
+import { subscribeToStorageKey } from './crossTabSync';
+
+/**
+ * Named workspaces - separate dashboards with their own layout, wallpaper and widget data
+ * The default workspace keeps the original unscoped storage keys so existing data
+ * stays where it is; other workspaces prefix every key with their ID.
+ * Each browser tab has its own active workspace (kept in sessionStorage); the saved
+ * activeWorkspaceId is the last one switched to, which new tabs open with
+ */
+
+export interface Workspace {
+  id: string;
+  name: string;
+}
+
+export interface WorkspaceState {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+}
+
+const STORAGE_KEY = 'hyperdash-workspaces';
+const SCOPED_KEY_PREFIX = 'hyperdash-workspace:';
+const TAB_STORAGE_KEY = 'hyperdash-tab-workspace';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+// Shift+1..9 switches workspaces, so there is one per number key
+export const MAX_WORKSPACES = 9;
+
+const DEFAULT_STATE: WorkspaceState = {
+  workspaces: [{ id: DEFAULT_WORKSPACE_ID, name: 'Main' }],
+  activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+};
+
+/**
+ * Validate saved workspace state
+ * Drops malformed or duplicate entries and always keeps the default workspace first
+ */
+export function normalizeWorkspaceState(value: unknown): WorkspaceState {
+  if (!value || typeof value !== 'object') {
+    return DEFAULT_STATE;
+  }
+
+  const { workspaces, activeWorkspaceId } = value as Partial<WorkspaceState>;
+  const seen = new Set<string>();
+  const valid: Workspace[] = [];
+
+  if (Array.isArray(workspaces)) {
+    for (const workspace of workspaces) {
+      if (
+        !workspace ||
+        typeof workspace.id !== 'string' ||
+        typeof workspace.name !== 'string' ||
+        seen.has(workspace.id)
+      ) {
+        continue;
+      }
+      seen.add(workspace.id);
+      valid.push({ id: workspace.id, name: workspace.name });
+    }
+  }
+
+  const defaultWorkspace = valid.find(w => w.id === DEFAULT_WORKSPACE_ID) ?? DEFAULT_STATE.workspaces[0];
+  const result = [defaultWorkspace, ...valid.filter(w => w.id !== DEFAULT_WORKSPACE_ID)].slice(0, MAX_WORKSPACES);
+
+  return {
+    workspaces: result,
+    activeWorkspaceId: result.some(w => w.id === activeWorkspaceId)
+      ? (activeWorkspaceId as string)
+      : DEFAULT_WORKSPACE_ID,
+  };
+}
+
+// Saved workspace state format (see storage.ts)
+export const workspaceStateSchema: StorageSchema<WorkspaceState> = {
+  name: 'workspaces',
+  version: 1,
+  migrations: {},
+  parse: normalizeWorkspaceState,
+};
+
+// This tab's workspace, so switching in another tab doesn't change the data this one reads and writes
+let tabWorkspaceId: string | null = null;
+
+function getTabWorkspaceId(): string | null {
+  if (tabWorkspaceId === null) {
+    try {
+      tabWorkspaceId = sessionStorage.getItem(TAB_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error reading tab workspace:', error);
+    }
+  }
+  return tabWorkspaceId;
+}
+
+function setTabWorkspaceId(id: string): void {
+  tabWorkspaceId = id;
+  try {
+    sessionStorage.setItem(TAB_STORAGE_KEY, id);
+  } catch (error) {
+    console.error('Error saving tab workspace:', error);
+  }
+}
+
+/**
+ * Get workspaces from localStorage and this tab's active workspace
+ * A tab opens with the last workspace switched to and keeps it until it switches itself;
+ * it falls back to the default workspace if its workspace was removed in another tab
+ */
+export function getWorkspaceState(): WorkspaceState {
+  const state = readStoredValue(STORAGE_KEY, workspaceStateSchema) ?? DEFAULT_STATE;
+  if (typeof window === 'undefined') {
+    return state;
+  }
+
+  const tabId = getTabWorkspaceId();
+  if (tabId === null) {
+    setTabWorkspaceId(state.activeWorkspaceId);
+    return state;
+  }
+  return {
+    ...state,
+    activeWorkspaceId: state.workspaces.some(w => w.id === tabId) ? tabId : DEFAULT_WORKSPACE_ID,
+  };
+}
+
+/**
+ * Save workspaces to localStorage and make state.activeWorkspaceId this tab's workspace
+ */
+export function saveWorkspaceState(state: WorkspaceState): void {
+  writeStoredValue(STORAGE_KEY, workspaceStateSchema, state);
+  if (typeof window !== 'undefined') {
+    setTabWorkspaceId(state.activeWorkspaceId);
+  }
+}
+
+/**
+ * Listen for workspace changes saved in other tabs (added, renamed, removed or switched to)
+ * The listener gets the state as getWorkspaceState() returns it, so this tab's workspace stays
+ * active unless it was removed. Returns a function that stops listening
+ */
+export function subscribeToWorkspaceState(listener: (state: WorkspaceState) => void): () => void {
+  return subscribeToStorageKey(STORAGE_KEY, () => listener(getWorkspaceState()));
+}
+
+/**
+ * Get this tab's active workspace ID
+ */
+export function getActiveWorkspaceId(): string {
+  return getWorkspaceState().activeWorkspaceId;
+}
+
+/**
+ * Storage key for data that belongs to a workspace (defaults to the active one)
+ */
+export function getWorkspaceKey(key: string, workspaceId: string = getActiveWorkspaceId()): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? key : `${SCOPED_KEY_PREFIX}${workspaceId}:${key}`;
+}
+
+/**
+ * Key without its workspace scope (the key passed to getWorkspaceKey)
+ */
+export function getUnscopedKey(key: string): string {
+  if (!key.startsWith(SCOPED_KEY_PREFIX)) {
+    return key;
+  }
+  const separator = key.indexOf(':', SCOPED_KEY_PREFIX.length);
+  return separator === -1 ? key : key.slice(separator + 1);
+}
+
+/**
+ * Add a workspace (no-op at MAX_WORKSPACES)
+ */
+export function addWorkspace(state: WorkspaceState, name?: string): WorkspaceState {
+  if (state.workspaces.length >= MAX_WORKSPACES) {
+    return state;
+  }
+
+  // Data keys are scoped by the ID, so it must differ from every other workspace's
+  const baseId = Date.now().toString(36);
+  let id = baseId;
+  for (let n = 1; state.workspaces.some(w => w.id === id); n++) {
+    id = `${baseId}-${n}`;
+  }
+
+  const workspace: Workspace = {
+    id,
+    name: name?.trim() || `Workspace ${state.workspaces.length + 1}`,
+  };
+  return { ...state, workspaces: [...state.workspaces, workspace] };
+}
+
+/**
+ * Rename a workspace
+ */
+export function renameWorkspace(state: WorkspaceState, id: string, name: string): WorkspaceState {
+  return {
+    ...state,
+    workspaces: state.workspaces.map(w => (w.id === id ? { ...w, name } : w)),
+  };
+}
+
+/**
+ * Remove a workspace from the list (the default workspace can't be removed)
+ * Falls back to the default workspace if the removed one was active
+ */
+export function removeWorkspace(state: WorkspaceState, id: string): WorkspaceState {
+  if (id === DEFAULT_WORKSPACE_ID) {
+    return state;
+  }
+
+  return {
+    workspaces: state.workspaces.filter(w => w.id !== id),
+    activeWorkspaceId: state.activeWorkspaceId === id ? DEFAULT_WORKSPACE_ID : state.activeWorkspaceId,
+  };
+}
+
+/**
+ * Delete all stored data for a workspace
+ * localStorage keys are removed right away; the storage adapter's keys once it's open
+ */
+export async function clearWorkspaceData(id: string): Promise<void> {
+  if (typeof window === 'undefined' || id === DEFAULT_WORKSPACE_ID) return;
+
+  const prefix = `${SCOPED_KEY_PREFIX}${id}:`;
+  const keys: string[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading workspace data:', error);
+  }
+  keys.forEach(key => removeFromLocalStorage(key));
+
+  try {
+    const adapter = await getStorageAdapter();
+    const adapterKeys = (await adapter.keys()).filter(key => key.startsWith(prefix));
+    await Promise.all(adapterKeys.map(key => adapter.remove(key)));
+    await deleteImages(owner => owner.startsWith(prefix));
+  } catch (error) {
+    console.error('Error clearing workspace data:', error);
+  }
+}
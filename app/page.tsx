@@ -5,6 +5,8 @@ import Dashboard from "@/app/components/Dashboard";
 import OnboardingScreen from "@/app/components/OnboardingScreen";
 import KeyboardShortcutsScreen from "@/app/components/KeyboardShortcutsScreen";
 import { hasOnboardingCompleted, getFromLocalStorage } from "@/app/lib/utils";
+// Registers plugin widgets before anything reads the widget registry
+import "@/app/plugins";
 
 export default function Home() {
   const [showOnboarding, setShowOnboarding] = useState<boolean | null>(null);
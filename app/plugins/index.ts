@@ -0,0 +1,31 @@
+import { registerWidget } from '@/app/lib/widgetRegistry';
+
+/**
+ * Plugin widgets
+ * Register your own widgets here - this file is imported before the dashboard renders,
+ * so registered widgets can be placed from the layout editor (Shift + L) and
+ * restored from saved layouts. Keep each widget in its own folder next to this file.
+ *
+ * Example:
+ *
+ *   registerWidget({
+ *     id: 'quotes',
+ *     name: 'Quotes',
+ *     description: 'A quote to start the day',
+ *     icon: '❝',
+ *     load: () => import('./quotes/QuotesWidget'),
+ *     minSize: { rowSpan: 1, columnSpan: 2 },
+ *     preferredSize: { rowSpan: 1, columnSpan: 3 },
+ *     capabilities: { network: true },
+ *     storageKeys: ['hyperdash-quotes-favorites'],
+ *     settings: [
+ *       { key: 'category', label: 'Category', type: 'text', defaultValue: 'inspiration' },
+ *     ],
+ *     shortcuts: [{ key: 'N', description: 'Next quote' }],
+ *   });
+ *
+ * The widget component receives `isFocused`, `instanceId` and `settings` (schema
+ * defaults merged with the instance's own values) as props.
+ */
+
+export { registerWidget };